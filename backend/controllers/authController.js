@@ -1,20 +1,36 @@
 const jwt = require("jsonwebtoken");
 const User = require("../models/User");
+const Invitation = require("../models/Invitation");
 const logger = require("../config/logger");
 
+// Statuses of users who haven't signed up
+const WITHOUT_ACCOUNT = ["pending", "placeholder"];
+
 // Generate JWT token
 const generateToken = (userId) => {
   return jwt.sign({ userId }, process.env.JWT_SECRET, { expiresIn: "7d" });
 };
 
+// Whether `token` is an open email invitation made out to `user`
+const isInvitedAs = async (user, token) => {
+  const invitation = token ? await Invitation.fromToken(token) : null;
+  return Boolean(
+    invitation &&
+      invitation.kind === "email" &&
+      invitation.isOpen() &&
+      invitation.user?.equals(user._id)
+  );
+};
+
 // Register new user
 const register = async (req, res) => {
   try {
-    const { username, email, password, firstName, lastName } = req.body;
+    const { username, email, password, firstName, lastName, inviteToken } =
+      req.body;
 
     // Check if user already exists
     const existingUser = await User.findOne({
-      $or: [{ email }, { username }],
+      $or: [{ email, status: { $nin: WITHOUT_ACCOUNT } }, { username }],
     });
 
     if (existingUser) {
@@ -23,17 +39,46 @@ const register = async (req, res) => {
       });
     }
 
+    // Someone invited by email (or added as a guest with their email)
+    // already has a user, which becomes theirs along with the groups and
+    // expenses it was added to
+    const pendingUser = await User.findOne({
+      email: String(email || "").trim().toLowerCase(),
+      status: { $in: WITHOUT_ACCOUNT },
+    });
+
+    // Only the invite sent to that address proves the email is theirs.
+    // Guests get one when an admin invites their email; otherwise an admin
+    // claims the guest for the account they sign up with.
+    if (pendingUser && !(await isInvitedAs(pendingUser, inviteToken))) {
+      return res.status(400).json({
+        message:
+          pendingUser.status === "pending"
+            ? "This email has been invited to a group. Sign up from the invite link in that email, or ask a group admin to invite you again."
+            : "This email belongs to a guest in a group. Ask a group admin to invite you by email, or sign up with another email and ask them to claim the guest for you.",
+      });
+    }
+
     // Create new user
-    const user = new User({
+    const user = pendingUser || new User();
+    user.set({
       username,
       email,
       password,
       firstName,
       lastName,
+      status: "active",
     });
 
     await user.save();
 
+    if (pendingUser) {
+      await Invitation.updateMany(
+        { user: user._id, acceptedAt: null },
+        { acceptedAt: new Date(), acceptedBy: user._id }
+      );
+    }
+
     // Generate token
     const token = generateToken(user._id);
 
@@ -57,9 +102,10 @@ const login = async (req, res) => {
   try {
     const { email, password } = req.body;
 
-    // Find user by email
+    // Find user by email; pending users and guests have no password to
+    // log in with
     const user = await User.findOne({ email });
-    if (!user) {
+    if (!user || user.status !== "active") {
       return res.status(401).json({ message: "Invalid credentials." });
     }
 
@@ -156,7 +202,7 @@ const changePassword = async (req, res) => {
 const getAllUsers = async (req, res) => {
   try {
     const users = await User.find(
-      {},
+      { status: { $nin: WITHOUT_ACCOUNT } },
       "username email firstName lastName avatar"
     ).sort({ firstName: 1, lastName: 1 });
 
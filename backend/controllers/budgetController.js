@@ -0,0 +1,176 @@
+const Budget = require("../models/Budget");
+const Category = require("../models/Category");
+const Group = require("../models/Group");
+const logger = require("../config/logger");
+const { isMinorUnitAmount } = require("../utils/money");
+const {
+  currentPeriod,
+  budgetProgress,
+  groupBudgetProgress,
+} = require("../utils/budgets");
+
+// Copy the editable budget fields from a request body onto `budget`.
+// Returns an error message or null.
+const applyBudgetFields = (budget, body) => {
+  const { amount, rollover } = body;
+
+  if (amount !== undefined) {
+    if (!isMinorUnitAmount(amount) || amount === 0) {
+      return "Amount must be a positive whole number of minor units.";
+    }
+    budget.amount = amount;
+  }
+
+  if (rollover !== undefined) {
+    if (!Budget.ROLLOVER_MODES.includes(rollover)) {
+      return `Rollover must be one of ${Budget.ROLLOVER_MODES.join(", ")}.`;
+    }
+    budget.rollover = rollover;
+  }
+
+  return null;
+};
+
+const findGroupBudget = (req) =>
+  Budget.findOne({ _id: req.params.budgetId, group: req.group._id });
+
+const populateBudget = (budget) =>
+  budget.populate("category", "name icon color parent");
+
+// Get a group's budgets with this month's progress
+const getGroupBudgets = async (req, res) => {
+  try {
+    const budgets = await groupBudgetProgress(req.group._id);
+    res.json({ budgets, period: currentPeriod() });
+  } catch (error) {
+    logger.error("Get group budgets error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Get budget progress across the current user's groups
+const getUserBudgets = async (req, res) => {
+  try {
+    const groups = await Group.find({
+      members: { $elemMatch: { user: req.user._id } },
+    }).select("name currency");
+
+    const results = await Promise.all(
+      groups.map(async (group) => ({
+        group,
+        budgets: await groupBudgetProgress(group._id),
+      }))
+    );
+
+    res.json({
+      groups: results.filter((result) => result.budgets.length > 0),
+      period: currentPeriod(),
+    });
+  } catch (error) {
+    logger.error("Get user budgets error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Add a budget for the whole group or one of its categories
+const createBudget = async (req, res) => {
+  try {
+    const budget = new Budget({
+      group: req.group._id,
+      createdBy: req.user._id,
+    });
+
+    if (req.body.category) {
+      const category = Category.pick(
+        await Category.forGroup(req.group._id),
+        req.body.category
+      );
+      if (!category) {
+        return res.status(400).json({ message: "Unknown category." });
+      }
+      budget.category = category._id;
+    }
+
+    if (req.body.amount === undefined) {
+      return res.status(400).json({ message: "Amount is required." });
+    }
+    const error = applyBudgetFields(budget, req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const exists = await Budget.exists({
+      group: req.group._id,
+      category: budget.category,
+    });
+    if (exists) {
+      return res.status(400).json({
+        message: budget.category
+          ? "This category already has a budget."
+          : "This group already has an overall budget.",
+      });
+    }
+
+    await budget.save();
+    await populateBudget(budget);
+
+    res.status(201).json({
+      message: "Budget created.",
+      budget: await budgetProgress(budget),
+    });
+  } catch (error) {
+    logger.error("Create budget error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Change a budget's amount or rollover
+const updateBudget = async (req, res) => {
+  try {
+    const budget = await findGroupBudget(req);
+    if (!budget) {
+      return res.status(404).json({ message: "Budget not found." });
+    }
+
+    const error = applyBudgetFields(budget, req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    await budget.save();
+    await populateBudget(budget);
+
+    res.json({
+      message: "Budget updated.",
+      budget: await budgetProgress(budget),
+    });
+  } catch (error) {
+    logger.error("Update budget error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Delete a budget
+const deleteBudget = async (req, res) => {
+  try {
+    const budget = await findGroupBudget(req);
+    if (!budget) {
+      return res.status(404).json({ message: "Budget not found." });
+    }
+
+    await budget.deleteOne();
+
+    res.json({ message: "Budget deleted." });
+  } catch (error) {
+    logger.error("Delete budget error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+module.exports = {
+  getGroupBudgets,
+  getUserBudgets,
+  createBudget,
+  updateBudget,
+  deleteBudget,
+};
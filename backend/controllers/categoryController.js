@@ -0,0 +1,177 @@
+const Budget = require("../models/Budget");
+const Category = require("../models/Category");
+const Expense = require("../models/Expense");
+const RecurringExpense = require("../models/RecurringExpense");
+const logger = require("../config/logger");
+const { idOf } = require("../utils/balances");
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// Copy category fields from a request body onto `category`, validating them
+// against the group's other categories. Returns an error message or null.
+const applyCategoryFields = (category, body, categories) => {
+  const { name, icon, color, parent } = body;
+  const others = categories.filter(
+    (other) => idOf(other._id) !== idOf(category._id)
+  );
+
+  if (name !== undefined) {
+    const trimmed = String(name).trim();
+    if (!trimmed) return "Category name is required.";
+    if (trimmed.length > 50) {
+      return "Category names can be at most 50 characters.";
+    }
+    const duplicate = others.some(
+      (other) => other.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    if (duplicate) return "A category with this name already exists.";
+    category.name = trimmed;
+  }
+
+  if (icon !== undefined) category.icon = String(icon).trim();
+
+  if (color !== undefined) {
+    if (!COLOR_PATTERN.test(color)) {
+      return "Color must be a hex value like #3b82f6.";
+    }
+    category.color = color;
+  }
+
+  if (parent !== undefined) {
+    if (!parent) {
+      category.parent = null;
+    } else {
+      // Subcategories go one level deep
+      const parentCategory = others.find(
+        (other) => idOf(other._id) === String(parent)
+      );
+      if (!parentCategory || parentCategory.parent) {
+        return "Parent must be a top-level category of this group.";
+      }
+      const hasChildren = others.some(
+        (other) => idOf(other.parent) === idOf(category._id)
+      );
+      if (hasChildren) {
+        return "A category with subcategories cannot have a parent.";
+      }
+      category.parent = parentCategory._id;
+    }
+  }
+
+  return null;
+};
+
+const findGroupCategory = (categories, categoryId) =>
+  categories.find((category) => idOf(category._id) === categoryId);
+
+// Get a group's categories, seeding the built-in ones on first use
+const getGroupCategories = async (req, res) => {
+  try {
+    const categories = await Category.forGroup(req.group._id);
+    res.json({ categories });
+  } catch (error) {
+    logger.error("Get group categories error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Get the categories used by expenses outside any group
+const getSharedCategories = async (req, res) => {
+  try {
+    const categories = await Category.forGroup(null);
+    res.json({ categories });
+  } catch (error) {
+    logger.error("Get shared categories error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Add a category to a group
+const createCategory = async (req, res) => {
+  try {
+    const categories = await Category.forGroup(req.group._id);
+    const category = new Category({ group: req.group._id });
+
+    if (!req.body.name) {
+      return res.status(400).json({ message: "Category name is required." });
+    }
+    const error = applyCategoryFields(category, req.body, categories);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    await category.save();
+
+    res.status(201).json({ message: "Category created.", category });
+  } catch (error) {
+    logger.error("Create category error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Rename, recolor or move a category
+const updateCategory = async (req, res) => {
+  try {
+    const categories = await Category.forGroup(req.group._id);
+    const category = findGroupCategory(categories, req.params.categoryId);
+    if (!category) {
+      return res.status(404).json({ message: "Category not found." });
+    }
+
+    const error = applyCategoryFields(category, req.body, categories);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    await category.save();
+
+    res.json({ message: "Category updated.", category });
+  } catch (error) {
+    logger.error("Update category error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Delete a category. Its expenses and recurring expenses move to its parent,
+// or to the fallback category, its subcategories become top-level and its
+// budget goes. Trashed expenses keep it until they are restored.
+const deleteCategory = async (req, res) => {
+  try {
+    const categories = await Category.forGroup(req.group._id);
+    const category = findGroupCategory(categories, req.params.categoryId);
+    if (!category) {
+      return res.status(404).json({ message: "Category not found." });
+    }
+
+    const fallback = Category.pick(categories, null);
+    if (idOf(fallback._id) === idOf(category._id)) {
+      return res.status(400).json({
+        message: `The "${category.name}" category cannot be deleted; it can be renamed instead.`,
+      });
+    }
+
+    const replacement = category.parent || fallback._id;
+    const moved = { group: req.group._id, category: category._id };
+    // One at a time, so each move lands in the expense's history
+    const expenses = await Expense.find(moved);
+    for (const expense of expenses) {
+      expense.category = replacement;
+      await expense.setActor(req.user._id).save();
+    }
+    await RecurringExpense.updateMany(moved, { category: replacement });
+    await Category.updateMany({ parent: category._id }, { parent: null });
+    await Budget.deleteMany(moved);
+    await category.deleteOne();
+
+    res.json({ message: "Category deleted." });
+  } catch (error) {
+    logger.error("Delete category error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+module.exports = {
+  getGroupCategories,
+  getSharedCategories,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+};
@@ -0,0 +1,204 @@
+const Expense = require("../models/Expense");
+const ExpenseComment = require("../models/ExpenseComment");
+const Group = require("../models/Group");
+const User = require("../models/User");
+const logger = require("../config/logger");
+const { idOf } = require("../utils/balances");
+
+const MENTION_PATTERN = /@([\w.-]+)/g;
+
+const authorFields = "username firstName lastName avatar";
+
+// Load an expense the current user may discuss: group members, or the
+// people who paid for or share in it. Sends the error response otherwise.
+const loadDiscussableExpense = async (req, res) => {
+  const expense = await Expense.findById(req.params.expenseId);
+  if (!expense) {
+    res.status(404).json({ message: "Expense not found." });
+    return {};
+  }
+
+  const group = expense.group ? await Group.findById(expense.group) : null;
+  const canDiscuss =
+    (group && group.isMember(req.user._id)) || expense.involves(req.user._id);
+  if (!canDiscuss) {
+    res.status(403).json({ message: "Access denied." });
+    return {};
+  }
+
+  return { expense, group };
+};
+
+// Users the comment @mentions, out of the group members (or, for non-group
+// expenses, the people involved)
+const resolveMentions = async (body, expense, group) => {
+  const usernames = [...body.matchAll(MENTION_PATTERN)].map((match) =>
+    match[1].toLowerCase()
+  );
+  if (usernames.length === 0) return [];
+
+  const candidateIds = group
+    ? group.members.map((member) => member.user)
+    : [
+        expense.paidBy,
+        ...expense.paidByMultiple.map((payer) => payer.user),
+        ...expense.splits.map((split) => split.user),
+      ];
+  const candidates = await User.find({ _id: { $in: candidateIds } }).select(
+    "username"
+  );
+
+  return candidates
+    .filter((user) => usernames.includes(user.username.toLowerCase()))
+    .map((user) => user._id);
+};
+
+const validateBody = (body) => {
+  if (typeof body !== "string" || !body.trim()) {
+    return "Comment cannot be empty.";
+  }
+  if (body.trim().length > 2000) {
+    return "Comments can be at most 2000 characters.";
+  }
+  return null;
+};
+
+// Get the comments on an expense, oldest first
+const getComments = async (req, res) => {
+  try {
+    const { expense } = await loadDiscussableExpense(req, res);
+    if (!expense) return;
+
+    const comments = await ExpenseComment.find({ expense: expense._id })
+      .populate("author", authorFields)
+      .populate("mentions", "username firstName lastName")
+      .sort({ createdAt: 1 });
+
+    res.json({
+      comments,
+      editWindowMinutes: ExpenseComment.EDIT_WINDOW_MINUTES,
+    });
+  } catch (error) {
+    logger.error("Get comments error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Add a comment to an expense
+const addComment = async (req, res) => {
+  try {
+    const { expense, group } = await loadDiscussableExpense(req, res);
+    if (!expense) return;
+
+    const { body } = req.body;
+    const bodyError = validateBody(body);
+    if (bodyError) {
+      return res.status(400).json({ message: bodyError });
+    }
+
+    const comment = new ExpenseComment({
+      expense: expense._id,
+      group: expense.group,
+      author: req.user._id,
+      body,
+      mentions: await resolveMentions(body, expense, group),
+    });
+    await comment.save();
+
+    await comment.populate([
+      { path: "author", select: authorFields },
+      { path: "mentions", select: "username firstName lastName" },
+    ]);
+
+    res.status(201).json({ comment });
+  } catch (error) {
+    logger.error("Add comment error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Edit a comment; only its author can, within the edit window
+const updateComment = async (req, res) => {
+  try {
+    const { expense, group } = await loadDiscussableExpense(req, res);
+    if (!expense) return;
+
+    const comment = await ExpenseComment.findOne({
+      _id: req.params.commentId,
+      expense: expense._id,
+    });
+    if (!comment) {
+      return res.status(404).json({ message: "Comment not found." });
+    }
+
+    if (idOf(comment.author) !== idOf(req.user._id)) {
+      return res
+        .status(403)
+        .json({ message: "Only the author can edit a comment." });
+    }
+
+    if (!comment.isEditable()) {
+      return res.status(400).json({
+        message: `Comments can only be edited for ${ExpenseComment.EDIT_WINDOW_MINUTES} minutes after posting.`,
+      });
+    }
+
+    const { body } = req.body;
+    const bodyError = validateBody(body);
+    if (bodyError) {
+      return res.status(400).json({ message: bodyError });
+    }
+
+    comment.body = body;
+    comment.mentions = await resolveMentions(body, expense, group);
+    comment.editedAt = new Date();
+    await comment.save();
+
+    await comment.populate([
+      { path: "author", select: authorFields },
+      { path: "mentions", select: "username firstName lastName" },
+    ]);
+
+    res.json({ comment });
+  } catch (error) {
+    logger.error("Update comment error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Delete a comment; its author or a group admin can
+const deleteComment = async (req, res) => {
+  try {
+    const { expense, group } = await loadDiscussableExpense(req, res);
+    if (!expense) return;
+
+    const comment = await ExpenseComment.findOne({
+      _id: req.params.commentId,
+      expense: expense._id,
+    });
+    if (!comment) {
+      return res.status(404).json({ message: "Comment not found." });
+    }
+
+    const canDelete =
+      idOf(comment.author) === idOf(req.user._id) ||
+      (group && group.isAdmin(req.user._id));
+    if (!canDelete) {
+      return res.status(403).json({ message: "Access denied." });
+    }
+
+    await comment.deleteOne();
+
+    res.json({ message: "Comment deleted." });
+  } catch (error) {
+    logger.error("Delete comment error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+module.exports = {
+  getComments,
+  addComment,
+  updateComment,
+  deleteComment,
+};
@@ -0,0 +1,197 @@
+const ExchangeRate = require("../models/ExchangeRate");
+const logger = require("../config/logger");
+const { normalizeCurrency } = require("../utils/currency");
+const { parseCsv } = require("../utils/csv");
+
+const IMPORT_COLUMNS = ["date", "base", "quote", "rate"];
+
+// Validate one rate entry; returns { rate } or { error }
+const buildRate = ({ base, quote, rate, date }) => {
+  const baseCode = normalizeCurrency(base);
+  const quoteCode = normalizeCurrency(quote);
+  if (!baseCode || !quoteCode) {
+    return { error: "Base and quote must be 3-letter currency codes." };
+  }
+  if (baseCode === quoteCode) {
+    return { error: "Base and quote currencies must differ." };
+  }
+
+  const value = Number(rate);
+  if (!Number.isFinite(value) || value <= 0) {
+    return { error: "Rate must be a number greater than zero." };
+  }
+
+  const effectiveDate = new Date(date);
+  if (!date || isNaN(effectiveDate.getTime())) {
+    return { error: "Date must be a valid date." };
+  }
+
+  return {
+    rate: {
+      base: baseCode,
+      quote: quoteCode,
+      rate: value,
+      date: ExchangeRate.startOfDay(effectiveDate),
+    },
+  };
+};
+
+// Replace any rate already stored for the same pair and day
+const upsertOperation = (rate, extra) => ({
+  updateOne: {
+    filter: { base: rate.base, quote: rate.quote, date: rate.date },
+    update: { $set: { rate: rate.rate, ...extra } },
+    upsert: true,
+  },
+});
+
+// List exchange rates
+const getExchangeRates = async (req, res) => {
+  try {
+    const { base, quote, limit = 200 } = req.query;
+    const query = {};
+
+    if (base) query.base = normalizeCurrency(base);
+    if (quote) query.quote = normalizeCurrency(quote);
+
+    const rates = await ExchangeRate.find(query)
+      .sort({ date: -1, base: 1, quote: 1 })
+      .limit(parseInt(limit));
+
+    res.json({ rates });
+  } catch (error) {
+    logger.error("Get exchange rates error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Look up the rate that would be used to convert between two currencies
+const lookupExchangeRate = async (req, res) => {
+  try {
+    const from = normalizeCurrency(req.query.from);
+    const to = normalizeCurrency(req.query.to);
+    const date = req.query.date ? new Date(req.query.date) : new Date();
+
+    if (!from || !to) {
+      return res
+        .status(400)
+        .json({ message: "from and to must be 3-letter currency codes." });
+    }
+    if (isNaN(date.getTime())) {
+      return res.status(400).json({ message: "Invalid date." });
+    }
+
+    const resolved = await ExchangeRate.resolve(from, to, date);
+    if (!resolved) {
+      return res.status(404).json({
+        message: `No ${from} to ${to} exchange rate on or before ${date
+          .toISOString()
+          .slice(0, 10)}.`,
+      });
+    }
+
+    res.json({ from, to, ...resolved });
+  } catch (error) {
+    logger.error("Lookup exchange rate error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Add or replace a single rate (admin only)
+const createExchangeRate = async (req, res) => {
+  try {
+    const { rate, error } = buildRate(req.body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const { filter, update } = upsertOperation(rate, {
+      source: "manual",
+      createdBy: req.user._id,
+    }).updateOne;
+    const saved = await ExchangeRate.findOneAndUpdate(filter, update, {
+      new: true,
+      upsert: true,
+      runValidators: true,
+    });
+
+    res.status(201).json({
+      message: "Exchange rate saved successfully",
+      rate: saved,
+    });
+  } catch (error) {
+    logger.error("Create exchange rate error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Import rates from a CSV with date, base, quote and rate columns (admin only)
+const importExchangeRates = async (req, res) => {
+  try {
+    const text = req.file ? req.file.buffer.toString("utf8") : req.body.csv;
+    if (!text) {
+      return res.status(400).json({ message: "CSV file is required." });
+    }
+
+    const { headers, records } = parseCsv(text);
+    const missing = IMPORT_COLUMNS.filter((column) => !headers.includes(column));
+    if (missing.length > 0) {
+      return res.status(400).json({
+        message: `CSV is missing required columns: ${missing.join(", ")}.`,
+      });
+    }
+
+    const operations = [];
+    const errors = [];
+    records.forEach((record) => {
+      const { rate, error } = buildRate(record);
+      if (error) {
+        errors.push({ row: record.row, message: error });
+      } else {
+        operations.push(
+          upsertOperation(rate, { source: "import", createdBy: req.user._id })
+        );
+      }
+    });
+
+    if (operations.length > 0) {
+      await ExchangeRate.bulkWrite(operations, { ordered: false });
+    }
+
+    logger.info(
+      `Imported ${operations.length} exchange rates (${errors.length} rejected)`
+    );
+
+    res.json({
+      message: `Imported ${operations.length} exchange rates`,
+      imported: operations.length,
+      errors,
+    });
+  } catch (error) {
+    logger.error("Import exchange rates error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Delete a rate (admin only)
+const deleteExchangeRate = async (req, res) => {
+  try {
+    const rate = await ExchangeRate.findByIdAndDelete(req.params.rateId);
+    if (!rate) {
+      return res.status(404).json({ message: "Exchange rate not found." });
+    }
+
+    res.json({ message: "Exchange rate deleted successfully." });
+  } catch (error) {
+    logger.error("Delete exchange rate error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+module.exports = {
+  getExchangeRates,
+  lookupExchangeRate,
+  createExchangeRate,
+  importExchangeRates,
+  deleteExchangeRate,
+};
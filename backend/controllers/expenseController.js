@@ -1,20 +1,107 @@
+const mongoose = require("mongoose");
 const Expense = require("../models/Expense");
 const Group = require("../models/Group");
 const User = require("../models/User");
+const Settlement = require("../models/Settlement");
+const ExchangeRate = require("../models/ExchangeRate");
+const AuditLog = require("../models/AuditLog");
+const ExpenseComment = require("../models/ExpenseComment");
+const Category = require("../models/Category");
 const logger = require("../config/logger");
+const {
+  idOf,
+  validatePayerContributions,
+  computeBalances,
+} = require("../utils/balances");
+const {
+  DEFAULT_CURRENCY,
+  normalizeCurrency,
+  applyConversion,
+} = require("../utils/currency");
+const { isMinorUnitAmount } = require("../utils/money");
+const { IGNORED_FIELDS } = require("../utils/history");
+const { trashRetentionDays, purgeExpense } = require("../jobs/trashPurge");
+const { trackBudgetAlerts } = require("../utils/budgets");
+const { buildExpenseSearch } = require("../utils/expenseSearch");
+const {
+  CHARGE_FIELDS,
+  CARRIED_SPLIT_FIELDS,
+  buildSplits,
+} = require("../utils/splits");
+
+// Fields a restore leaves as they are: the receipt may have been replaced or
+// removed since, and the group and recurring-expense links never change
+const RESTORE_SKIPPED_FIELDS = [
+  ...IGNORED_FIELDS,
+  "group",
+  "receipt",
+  "receiptFile",
+  "recurringExpense",
+  "occurrenceDate",
+  "deletedAt",
+  "deletedBy",
+];
+
+const categoryFields = "name icon color parent";
+
+const memberIdsOf = (group) => group.members.map((member) => member.user);
+
+// Everyone on the user's expenses outside any group
+const nonGroupPeopleOf = async (userId) => {
+  const filter = {
+    group: null,
+    $or: [
+      { paidBy: userId },
+      { "paidByMultiple.user": userId },
+      { "splits.user": userId },
+    ],
+  };
+  const ids = await Promise.all(
+    ["paidBy", "paidByMultiple.user", "splits.user"].map((path) =>
+      Expense.distinct(path, filter)
+    )
+  );
+  return ids.flat();
+};
+
+// Filter on a category id, including its subcategories
+const categoryFilter = async (categoryId) => {
+  if (!mongoose.isValidObjectId(categoryId)) return null;
+  return { $in: await Category.idsWithChildren(categoryId) };
+};
+
+// Expenses as JSON with the number of comments on each
+const withCommentCounts = async (expenses) => {
+  const counts = await ExpenseComment.aggregate([
+    { $match: { expense: { $in: expenses.map((expense) => expense._id) } } },
+    { $group: { _id: "$expense", count: { $sum: 1 } } },
+  ]);
+  const countsById = {};
+  counts.forEach(({ _id, count }) => {
+    countsById[_id.toString()] = count;
+  });
+
+  return expenses.map((expense) => ({
+    ...expense.toJSON(),
+    commentCount: countsById[expense._id.toString()] || 0,
+  }));
+};
 
 // Get user expenses
 const getUserExpenses = async (req, res) => {
   try {
-    const { groupId, category, startDate, endDate } = req.query;
+    const { groupId, category, startDate, endDate, q, page = 1, limit } =
+      req.query;
     const query = {};
 
     // Find groups where user is a member
     const userGroups = await Group.find({
       members: { $elemMatch: { user: req.user._id } },
-    }).select("_id");
+    }).select("_id members.user");
 
     const groupIds = userGroups.map((group) => group._id);
+    // People whose names the search can match
+    let memberIds = userGroups.flatMap(memberIdsOf);
 
     // Find expenses where user is involved (either in groups or as participant in non-group expenses)
     query.$or = [
@@ -40,23 +127,59 @@ const getUserExpenses = async (req, res) => {
         return res.status(403).json({ message: "Access denied." });
       }
       query.$or = [{ group: groupId }];
+      memberIds = memberIdsOf(group);
+    } else if (q) {
+      memberIds.push(...(await nonGroupPeopleOf(req.user._id)));
     }
 
-    if (category) query.category = category;
+    if (category) {
+      query.category = await categoryFilter(category);
+      if (!query.category) {
+        return res.status(400).json({ message: "Invalid category." });
+      }
+    }
     if (startDate || endDate) {
       query.date = {};
       if (startDate) query.date.$gte = new Date(startDate);
       if (endDate) query.date.$lte = new Date(endDate);
     }
 
-    const expenses = await Expense.find(query)
+    const { conditions, search, error } = await buildExpenseSearch(q, {
+      userId: req.user._id,
+      groupIds: groupId ? [groupId] : groupIds,
+      memberIds,
+    });
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    if (conditions.length > 0) query.$and = conditions;
+
+    const expensesQuery = Expense.find(query)
       .populate("paidBy", "username firstName lastName")
       .populate("paidByMultiple.user", "username firstName lastName")
       .populate("group", "name")
       .populate("splits.user", "username firstName lastName")
+      .populate("category", categoryFields)
       .sort({ date: -1 });
 
-    res.json({ expenses });
+    // Everything by default; pages only when a limit is asked for
+    if (!limit) {
+      return res.json({ expenses: await expensesQuery, search });
+    }
+
+    const expenses = await expensesQuery
+      .skip((page - 1) * limit)
+      .limit(parseInt(limit));
+    const total = await Expense.countDocuments(query);
+
+    res.json({
+      expenses,
+      search,
+      totalPages: Math.ceil(total / limit),
+      currentPage: parseInt(page),
+      total,
+      limit: parseInt(limit),
+    });
   } catch (error) {
     logger.error("Get user expenses error:", error);
     res.status(500).json({ message: "Server error." });
@@ -67,7 +190,14 @@ const getUserExpenses = async (req, res) => {
 const getGroupExpenses = async (req, res) => {
   try {
     const { groupId } = req.params;
-    const { category, startDate, endDate, page = 1, limit = 10 } = req.query;
+    const {
+      category,
+      startDate,
+      endDate,
+      q,
+      page = 1,
+      limit = 10,
+    } = req.query;
 
     // Check if user is member of the group
     const group = await Group.findById(groupId);
@@ -81,13 +211,28 @@ const getGroupExpenses = async (req, res) => {
 
     const query = { group: groupId };
 
-    if (category) query.category = category;
+    if (category) {
+      query.category = await categoryFilter(category);
+      if (!query.category) {
+        return res.status(400).json({ message: "Invalid category." });
+      }
+    }
     if (startDate || endDate) {
       query.date = {};
       if (startDate) query.date.$gte = new Date(startDate);
       if (endDate) query.date.$lte = new Date(endDate);
     }
 
+    const { conditions, search, error } = await buildExpenseSearch(q, {
+      userId: req.user._id,
+      groupIds: [group._id],
+      memberIds: memberIdsOf(group),
+    });
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    if (conditions.length > 0) query.$and = conditions;
+
     const skip = (page - 1) * limit;
 
     const expenses = await Expense.find(query)
@@ -95,6 +240,7 @@ const getGroupExpenses = async (req, res) => {
       .populate("paidByMultiple.user", "username firstName lastName")
       .populate("group", "name")
       .populate("splits.user", "username firstName lastName")
+      .populate("category", categoryFields)
       .sort({ date: -1 })
       .skip(skip)
       .limit(parseInt(limit));
@@ -102,11 +248,12 @@ const getGroupExpenses = async (req, res) => {
     const total = await Expense.countDocuments(query);
 
     res.json({
-      data: expenses,
+      data: await withCommentCounts(expenses),
       totalPages: Math.ceil(total / limit),
       currentPage: parseInt(page),
       total,
       limit: parseInt(limit),
+      search,
     });
   } catch (error) {
     logger.error("Get group expenses error:", error);
@@ -121,13 +268,19 @@ const createExpense = async (req, res) => {
       description,
       amount,
       groupId,
-      category = "other",
+      category,
       date = new Date(),
       splitType = "equal",
       customSplits = [],
+      items = [],
+      tax = 0,
+      serviceCharge = 0,
+      tip = 0,
       notes = "",
       paidByMultiple = [],
       participants = [], // For non-group expenses
+      currency,
+      exchangeRate,
     } = req.body;
 
     let group = null;
@@ -144,6 +297,45 @@ const createExpense = async (req, res) => {
       }
     }
 
+    if (!isMinorUnitAmount(amount) || amount === 0) {
+      return res.status(400).json({
+        message: "Amount must be a positive whole number of minor units.",
+      });
+    }
+
+    const payerError = validatePayerContributions(amount, paidByMultiple);
+    if (payerError) {
+      return res.status(400).json({ message: payerError });
+    }
+
+    const expenseCategory = await Category.resolve(
+      group ? group._id : null,
+      category
+    );
+    if (!expenseCategory) {
+      return res.status(400).json({ message: "Unknown category." });
+    }
+
+    // Amounts arrive in the currency they were paid in and are stored in
+    // the group currency
+    const groupCurrency = group ? group.currency : DEFAULT_CURRENCY;
+    const originalCurrency = currency
+      ? normalizeCurrency(currency)
+      : groupCurrency;
+    if (!originalCurrency) {
+      return res.status(400).json({ message: "Invalid currency code." });
+    }
+
+    const conversion = await ExchangeRate.resolveConversion(
+      originalCurrency,
+      groupCurrency,
+      date,
+      exchangeRate
+    );
+    if (conversion.error) {
+      return res.status(400).json({ message: conversion.error });
+    }
+
     // Determine participants for splitting
     let expenseParticipants = [];
     if (groupId && group) {
@@ -188,63 +380,38 @@ const createExpense = async (req, res) => {
       paidBy: primaryPayer,
       paidByMultiple:
         paidByMultiple && paidByMultiple.length > 1 ? paidByMultiple : [],
-      category,
+      category: expenseCategory._id,
       date: new Date(date),
       splitType,
       notes,
-      currency: "LKR",
+      ...(splitType === "itemized" && { items, tax, serviceCharge, tip }),
     });
 
     // Calculate splits based on split type
-    if (splitType === "equal") {
-      const memberCount = expenseParticipants.length;
-      const splitAmount = amount / memberCount;
-
-      expense.splits = expenseParticipants.map((userId) => ({
-        user: userId,
-        amount: splitAmount,
-        isPaid: false,
-      }));
-    } else if (splitType === "percentage") {
-      // For percentage splits, customSplits should contain percentage values
-      const totalPercentage = customSplits.reduce(
-        (sum, split) => sum + split.percentage,
-        0
-      );
-      if (Math.abs(totalPercentage - 100) > 0.01) {
-        return res
-          .status(400)
-          .json({ message: "Percentages must add up to 100%." });
-      }
-
-      expense.splits = customSplits.map((split) => ({
-        user: split.userId,
-        amount: (amount * split.percentage) / 100,
-        percentage: split.percentage,
-        isPaid: false,
-      }));
-    } else if (splitType === "custom") {
-      // For custom splits, customSplits should contain exact amounts
-      const totalAmount = customSplits.reduce(
-        (sum, split) => sum + split.amount,
-        0
-      );
-      if (Math.abs(totalAmount - amount) > 0.01) {
-        return res.status(400).json({
-          message:
-            "Custom split amounts must add up to the total expense amount.",
-        });
-      }
-
-      expense.splits = customSplits.map((split) => ({
-        user: split.userId,
-        amount: split.amount,
-        percentage: (split.amount / amount) * 100,
-        isPaid: false,
-      }));
+    const { splits, error: splitError } = buildSplits({
+      splitType,
+      amount,
+      participants: expenseParticipants,
+      customSplits,
+      items,
+      charges: { tax, serviceCharge, tip },
+      payerId: primaryPayer,
+    });
+    if (splitError) {
+      return res.status(400).json({ message: splitError });
     }
+    expense.splits = splits;
+
+    applyConversion(expense, {
+      currency: groupCurrency,
+      originalCurrency,
+      rate: conversion.rate,
+      date: conversion.date,
+    });
 
-    await expense.save();
+    const budgetAlerts = await trackBudgetAlerts(group && group._id, () =>
+      expense.setActor(req.user._id).save()
+    );
 
     // Populate expense data
     await expense.populate([
@@ -252,11 +419,13 @@ const createExpense = async (req, res) => {
       { path: "paidByMultiple.user", select: "username firstName lastName" },
       { path: "group", select: "name" },
       { path: "splits.user", select: "username firstName lastName" },
+      { path: "category", select: categoryFields },
     ]);
 
     res.status(201).json({
       message: "Expense created successfully",
       expense,
+      budgetAlerts,
     });
   } catch (error) {
     logger.error("Create expense error:", error);
@@ -272,7 +441,8 @@ const getExpense = async (req, res) => {
     const expense = await Expense.findById(expenseId)
       .populate("paidBy", "username firstName lastName")
       .populate("group", "name")
-      .populate("splits.user", "username firstName lastName");
+      .populate("splits.user", "username firstName lastName")
+      .populate("category", categoryFields);
 
     if (!expense) {
       return res.status(404).json({ message: "Expense not found." });
@@ -314,13 +484,14 @@ const markSplitAsPaid = async (req, res) => {
     }
 
     split.paid = true;
-    await expense.save();
+    await expense.setActor(req.user._id).save();
 
     // Populate expense data
     await expense.populate([
       { path: "paidBy", select: "username firstName lastName" },
       { path: "group", select: "name" },
       { path: "splits.user", select: "username firstName lastName" },
+      { path: "category", select: categoryFields },
     ]);
 
     res.json({
@@ -348,33 +519,61 @@ const getExpenseSummary = async (req, res) => {
       return res.status(403).json({ message: "Access denied." });
     }
 
-    const expenses = await Expense.find({ group: groupId })
-      .populate("paidBy", "username firstName lastName")
-      .populate("splits.user", "username firstName lastName");
+    const [expenses, completedSettlements] = await Promise.all([
+      Expense.find({ group: groupId })
+        .populate("paidBy", "username firstName lastName")
+        .populate("paidByMultiple.user", "username firstName lastName")
+        .populate("splits.user", "username firstName lastName")
+        .populate("category", categoryFields)
+        .sort({ date: -1 }),
+      Settlement.findSettled({ group: groupId }),
+    ]);
+
+    const { balances } = computeBalances({
+      expenses,
+      settlements: completedSettlements,
+      memberIds: group.members.map((member) => member.user),
+    });
 
     // Calculate summary
     const summary = {
       totalExpenses: expenses.length,
       totalSpent: expenses.reduce((sum, expense) => sum + expense.amount, 0),
-      totalOwed: 0, // This would need to be calculated based on splits
+      // Outstanding amount still owed to members who are in credit
+      totalOwed: balances
+        .filter((balance) => balance.net > 0)
+        .reduce((sum, balance) => sum + balance.net, 0),
       categoryBreakdown: {},
       userBreakdown: {},
       recentExpenses: expenses.slice(0, 5),
     };
 
-    // Category breakdown
+    // Category breakdown, by category name
     expenses.forEach((expense) => {
-      summary.categoryBreakdown[expense.category] =
-        (summary.categoryBreakdown[expense.category] || 0) + expense.amount;
+      const name = expense.category ? expense.category.name : "Other";
+      summary.categoryBreakdown[name] =
+        (summary.categoryBreakdown[name] || 0) + expense.amount;
     });
 
-    // User breakdown (who paid what)
+    // User breakdown (who paid what), crediting each co-payer their share
+    const payerNames = {};
     expenses.forEach((expense) => {
-      const paidBy = expense.paidBy._id.toString();
-      summary.userBreakdown[paidBy] = {
-        name: `${expense.paidBy.firstName} ${expense.paidBy.lastName}`,
-        totalPaid:
-          (summary.userBreakdown[paidBy]?.totalPaid || 0) + expense.amount,
+      [expense.paidBy, ...expense.paidByMultiple.map((p) => p.user)].forEach(
+        (payer) => {
+          if (payer && payer.firstName) {
+            payerNames[idOf(payer)] = `${payer.firstName} ${payer.lastName}`;
+          }
+        }
+      );
+    });
+
+    balances.forEach((balance) => {
+      if (balance.paid === 0) return;
+      summary.userBreakdown[balance.user] = {
+        name: payerNames[balance.user],
+        totalPaid: balance.paid,
+        totalShare: balance.owed,
+        net: balance.net,
       };
     });
 
@@ -385,6 +584,108 @@ const getExpenseSummary = async (req, res) => {
   }
 };
 
+// Get what the current user owes and is owed across all their expenses
+const getUserBalances = async (req, res) => {
+  try {
+    const userId = req.user._id.toString();
+
+    const groups = await Group.find({
+      members: { $elemMatch: { user: req.user._id } },
+    }).select("name currency");
+
+    // Debts are only netted within a group; non-group expenses form their
+    // own pool per currency
+    const [groupPools, looseExpenses] = await Promise.all([
+      Promise.all(
+        groups.map(async (group) => {
+          const [expenses, settlements] = await Promise.all([
+            Expense.find({ group: group._id }).select(
+              "amount paidBy paidByMultiple splits"
+            ),
+            Settlement.findSettled({ group: group._id }),
+          ]);
+          return {
+            group: {
+              _id: group._id,
+              name: group.name,
+              currency: group.currency,
+            },
+            currency: group.currency,
+            expenses,
+            settlements,
+          };
+        })
+      ),
+      Expense.find({
+        group: null,
+        $or: [
+          { paidBy: req.user._id },
+          { "paidByMultiple.user": req.user._id },
+          { "splits.user": req.user._id },
+        ],
+      }).select("amount currency paidBy paidByMultiple splits"),
+    ]);
+
+    const looseByCurrency = {};
+    looseExpenses.forEach((expense) => {
+      const currency = expense.currency || DEFAULT_CURRENCY;
+      looseByCurrency[currency] = [
+        ...(looseByCurrency[currency] || []),
+        expense,
+      ];
+    });
+    const loosePools = Object.entries(looseByCurrency).map(
+      ([currency, expenses]) => ({
+        group: null,
+        currency,
+        expenses,
+        settlements: [],
+      })
+    );
+
+    const results = [...groupPools, ...loosePools].map(
+      ({ group, currency, expenses, settlements }) => {
+        const { debts } = computeBalances({ expenses, settlements });
+
+        const owedToUser = debts.filter((debt) => debt.to === userId);
+        const owedByUser = debts.filter((debt) => debt.from === userId);
+
+        return {
+          group,
+          currency,
+          totalOwed: owedToUser.reduce((sum, debt) => sum + debt.amount, 0),
+          totalOwing: owedByUser.reduce((sum, debt) => sum + debt.amount, 0),
+          debts: [...owedToUser, ...owedByUser],
+        };
+      }
+    );
+
+    const byGroup = results.filter(
+      (result) => result.totalOwed > 0 || result.totalOwing > 0
+    );
+
+    // Amounts in different currencies can't be added up, so the overall
+    // totals are keyed by currency
+    const totalsOf = (field) =>
+      byGroup.reduce((totals, result) => {
+        if (result[field] > 0) {
+          totals[result.currency] =
+            (totals[result.currency] || 0) + result[field];
+        }
+        return totals;
+      }, {});
+
+    res.json({
+      totalOwed: totalsOf("totalOwed"),
+      totalOwing: totalsOf("totalOwing"),
+      byGroup,
+    });
+  } catch (error) {
+    logger.error("Get user balances error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
 // Update expense
 const updateExpense = async (req, res) => {
   try {
@@ -397,13 +698,16 @@ const updateExpense = async (req, res) => {
       notes,
       splitType,
       customSplits = [],
+      items,
       paidByMultiple = [],
       participants = [],
+      currency,
+      exchangeRate,
     } = req.body;
 
     // Find the expense
     const expense = await Expense.findById(expenseId)
-      .populate("group", "members")
+      .populate("group", "members currency")
       .populate("paidBy", "username firstName lastName");
 
     if (!expense) {
@@ -424,10 +728,59 @@ const updateExpense = async (req, res) => {
       return res.status(403).json({ message: "Access denied." });
     }
 
+    if (!isMinorUnitAmount(amount) || amount === 0) {
+      return res.status(400).json({
+        message: "Amount must be a positive whole number of minor units.",
+      });
+    }
+
+    const payerError = validatePayerContributions(amount, paidByMultiple);
+    if (payerError) {
+      return res.status(400).json({ message: payerError });
+    }
+
+    const expenseCategory = await Category.resolve(
+      expense.group ? expense.group._id : null,
+      category || expense.category
+    );
+    if (!expenseCategory) {
+      return res.status(400).json({ message: "Unknown category." });
+    }
+
+    const groupCurrency = expense.group
+      ? expense.group.currency
+      : expense.currency;
+    const originalCurrency = currency
+      ? normalizeCurrency(currency)
+      : expense.originalCurrency || groupCurrency;
+    if (!originalCurrency) {
+      return res.status(400).json({ message: "Invalid currency code." });
+    }
+
+    // Keep the stored rate, which may have been entered by hand, unless the
+    // currency changed or a new rate was given
+    const keepRate =
+      originalCurrency === expense.originalCurrency &&
+      (exchangeRate === undefined || exchangeRate === null);
+    const conversion = keepRate
+      ? { rate: expense.exchangeRate || 1, date: expense.exchangeRateDate }
+      : await ExchangeRate.resolveConversion(
+          originalCurrency,
+          groupCurrency,
+          date,
+          exchangeRate
+        );
+    if (conversion.error) {
+      return res.status(400).json({ message: conversion.error });
+    }
+
+    const previousSplitType = expense.splitType;
+    const previousSplits = expense.splits;
+
     // Update basic fields
     expense.description = description;
     expense.amount = amount;
-    expense.category = category;
+    expense.category = expenseCategory._id;
     expense.date = new Date(date);
     expense.notes = notes;
     expense.splitType = splitType;
@@ -464,53 +817,74 @@ const updateExpense = async (req, res) => {
       expenseParticipants.push(req.user._id.toString());
     }
 
-    // Recalculate splits based on split type
-    if (splitType === "equal") {
-      const memberCount = expenseParticipants.length;
-      const splitAmount = amount / memberCount;
-
-      expense.splits = expenseParticipants.map((userId) => ({
-        user: userId,
-        amount: splitAmount,
-        isPaid: false,
-      }));
-    } else if (splitType === "percentage") {
-      const totalPercentage = customSplits.reduce(
-        (sum, split) => sum + split.percentage,
-        0
-      );
-      if (Math.abs(totalPercentage - 100) > 0.01) {
-        return res
-          .status(400)
-          .json({ message: "Percentages must add up to 100%." });
-      }
-
-      expense.splits = customSplits.map((split) => ({
-        user: split.userId,
-        amount: (amount * split.percentage) / 100,
-        percentage: split.percentage,
-        isPaid: false,
-      }));
-    } else if (splitType === "custom") {
-      const totalAmount = customSplits.reduce(
-        (sum, split) => sum + split.amount,
-        0
-      );
-      if (Math.abs(totalAmount - amount) > 0.01) {
-        return res.status(400).json({
-          message:
-            "Custom split amounts must add up to the total expense amount.",
-        });
-      }
+    // Percentages, share weights and adjustments carry over when only the
+    // amount changes
+    const splitInputs =
+      CARRIED_SPLIT_FIELDS[splitType] &&
+      customSplits.length === 0 &&
+      previousSplitType === splitType
+        ? previousSplits.map((split) => ({
+            userId: split.user.toString(),
+            [CARRIED_SPLIT_FIELDS[splitType]]:
+              split[CARRIED_SPLIT_FIELDS[splitType]],
+          }))
+        : customSplits;
+
+    // Itemized expenses keep their receipt unless new items are sent
+    const keepItems = items === undefined && previousSplitType === "itemized";
+    const itemInputs = keepItems
+      ? expense.items.map((item) => ({
+          name: item.name,
+          price: item.price,
+          quantity: item.quantity,
+          assignedTo: item.assignedTo,
+        }))
+      : items || [];
+    const charges = {};
+    CHARGE_FIELDS.forEach((field) => {
+      charges[field] =
+        req.body[field] !== undefined
+          ? req.body[field]
+          : keepItems
+          ? expense[field]
+          : 0;
+    });
 
-      expense.splits = customSplits.map((split) => ({
-        user: split.userId,
-        amount: split.amount,
-        isPaid: false,
-      }));
+    // Recalculate splits based on split type
+    const { splits, error: splitError } = buildSplits({
+      splitType,
+      amount,
+      participants: expenseParticipants,
+      customSplits: splitInputs,
+      items: itemInputs,
+      charges,
+      payerId: expense.paidBy,
+    });
+    if (splitError) {
+      return res.status(400).json({ message: splitError });
     }
+    expense.splits = splits;
+    if (splitType === "itemized") {
+      expense.items = itemInputs;
+      Object.assign(expense, charges);
+    } else {
+      expense.items = [];
+      CHARGE_FIELDS.forEach((field) => {
+        expense[field] = 0;
+      });
+    }
+
+    applyConversion(expense, {
+      currency: groupCurrency,
+      originalCurrency,
+      rate: conversion.rate,
+      date: conversion.date,
+    });
 
-    await expense.save();
+    const budgetAlerts = await trackBudgetAlerts(
+      expense.group && expense.group._id,
+      () => expense.setActor(req.user._id).save()
+    );
 
     // Populate the updated expense
     await expense.populate([
@@ -518,16 +892,17 @@ const updateExpense = async (req, res) => {
       { path: "paidByMultiple.user", select: "username firstName lastName" },
       { path: "group", select: "name" },
       { path: "splits.user", select: "username firstName lastName" },
+      { path: "category", select: categoryFields },
     ]);
 
-    res.json({ expense });
+    res.json({ expense, budgetAlerts });
   } catch (error) {
     logger.error("Update expense error:", error);
     res.status(500).json({ message: "Server error." });
   }
 };
 
-// Delete expense
+// Delete expense (into the trash)
 const deleteExpense = async (req, res) => {
   try {
     const { expenseId } = req.params;
@@ -555,15 +930,221 @@ const deleteExpense = async (req, res) => {
       return res.status(403).json({ message: "Access denied." });
     }
 
-    await Expense.findByIdAndDelete(expenseId);
+    // Kept in the trash, receipt included, until restored or purged
+    await expense.moveToTrash(req.user._id);
 
-    res.json({ message: "Expense deleted successfully." });
+    res.json({ message: "Expense moved to the trash." });
   } catch (error) {
     logger.error("Delete expense error:", error);
     res.status(500).json({ message: "Server error." });
   }
 };
 
+// Get the change history of an expense, newest first
+const getExpenseHistory = async (req, res) => {
+  try {
+    const { expenseId } = req.params;
+
+    // Trashed expenses keep their history
+    const expense = await Expense.findById(expenseId)
+      .setOptions({ withDeleted: true })
+      .select("group paidBy paidByMultiple splits");
+    if (!expense) {
+      return res.status(404).json({ message: "Expense not found." });
+    }
+
+    // Group members can see it, or the people involved if there's no group
+    const group = expense.group && (await Group.findById(expense.group));
+    const canView = expense.group
+      ? group && group.isMember(req.user._id)
+      : expense.involves(req.user._id);
+    if (!canView) {
+      return res.status(403).json({ message: "Access denied." });
+    }
+
+    const history = await AuditLog.find({
+      entityType: "Expense",
+      entity: expense._id,
+    })
+      .sort({ version: -1 })
+      .populate("actor", "username firstName lastName");
+
+    res.json({ history });
+  } catch (error) {
+    logger.error("Get expense history error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Bring an expense back to how it was at an earlier version. The restore is
+// itself recorded as a new version, so it can be undone the same way.
+const restoreExpenseVersion = async (req, res) => {
+  try {
+    const { expenseId, version } = req.params;
+
+    const expense = await Expense.findById(expenseId);
+    if (!expense) {
+      return res.status(404).json({ message: "Expense not found." });
+    }
+
+    // Same rule as editing: the payer or a group admin
+    const group = await Group.findById(expense.group);
+    const canEdit =
+      idOf(expense.paidBy) === idOf(req.user._id) ||
+      (group && group.isAdmin(req.user._id));
+    if (!canEdit) {
+      return res.status(403).json({ message: "Access denied." });
+    }
+
+    const entry = await AuditLog.findOne({
+      entityType: "Expense",
+      entity: expense._id,
+      version: Number(version),
+    });
+    if (!entry || entry.action === "delete" || !entry.snapshot) {
+      return res
+        .status(404)
+        .json({ message: "That version cannot be restored." });
+    }
+
+    const fields = new Set([
+      ...Object.keys(entry.snapshot),
+      ...Object.keys(expense.toObject()),
+    ]);
+    fields.forEach((field) => {
+      if (!RESTORE_SKIPPED_FIELDS.includes(field) && field !== "category") {
+        expense.set(field, entry.snapshot[field]);
+      }
+    });
+
+    // The category may have been deleted since, or be a built-in key from
+    // before per-group categories; anything unknown gets the fallback
+    const restoredCategory =
+      (await Category.resolve(expense.group, entry.snapshot.category)) ||
+      (await Category.resolve(expense.group, null));
+    expense.category = restoredCategory._id;
+
+    expense.$locals.restoredFrom = entry.version;
+    await expense.setActor(req.user._id).save();
+
+    await expense.populate([
+      { path: "paidBy", select: "username firstName lastName" },
+      { path: "paidByMultiple.user", select: "username firstName lastName" },
+      { path: "group", select: "name" },
+      { path: "splits.user", select: "username firstName lastName" },
+      { path: "category", select: categoryFields },
+    ]);
+
+    res.json({
+      message: `Expense restored to version ${entry.version}.`,
+      expense,
+    });
+  } catch (error) {
+    logger.error("Restore expense version error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Load a trashed expense and its group, or send the error response
+const findTrashedExpense = async (req, res) => {
+  const expense = await Expense.findOne({
+    _id: req.params.expenseId,
+    deletedAt: { $ne: null },
+  });
+  if (!expense) {
+    res.status(404).json({ message: "Expense not found in the trash." });
+    return {};
+  }
+
+  // Expenses of a trashed group come back with the group
+  const group = await Group.findById(expense.group);
+  if (!group || !group.isMember(req.user._id)) {
+    res.status(403).json({ message: "Access denied." });
+    return {};
+  }
+
+  return { expense, group };
+};
+
+// Get the trashed expenses of a group
+const getGroupTrash = async (req, res) => {
+  try {
+    const { groupId } = req.params;
+
+    // Check if user is member of the group
+    const group = await Group.findById(groupId);
+    if (!group) {
+      return res.status(404).json({ message: "Group not found." });
+    }
+
+    if (!group.isMember(req.user._id)) {
+      return res.status(403).json({ message: "Access denied." });
+    }
+
+    const expenses = await Expense.find({
+      group: groupId,
+      deletedAt: { $ne: null },
+    })
+      .populate("paidBy", "username firstName lastName")
+      .populate("deletedBy", "username firstName lastName")
+      .populate("category", categoryFields)
+      .sort({ deletedAt: -1 });
+
+    res.json({ expenses, retentionDays: trashRetentionDays() });
+  } catch (error) {
+    logger.error("Get group trash error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Restore an expense from the trash
+const restoreDeletedExpense = async (req, res) => {
+  try {
+    const { expense, group } = await findTrashedExpense(req, res);
+    if (!expense) return;
+
+    // Same rule as deleting: the payer or a group admin
+    const canRestore =
+      idOf(expense.paidBy) === idOf(req.user._id) ||
+      group.isAdmin(req.user._id);
+    if (!canRestore) {
+      return res.status(403).json({ message: "Access denied." });
+    }
+
+    // Its category may have been deleted while it was in the trash
+    if (!(await Category.resolve(expense.group, expense.category))) {
+      expense.category = (await Category.resolve(expense.group, null))._id;
+    }
+    await expense.restoreFromTrash(req.user._id);
+
+    res.json({ message: "Expense restored.", expense });
+  } catch (error) {
+    logger.error("Restore expense error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Permanently delete a trashed expense (group admins only)
+const purgeDeletedExpense = async (req, res) => {
+  try {
+    const { expense, group } = await findTrashedExpense(req, res);
+    if (!expense) return;
+
+    if (!group.isAdmin(req.user._id)) {
+      return res.status(403).json({
+        message: "Only group admins can permanently delete expenses.",
+      });
+    }
+
+    await purgeExpense(expense, req.user._id);
+
+    res.json({ message: "Expense permanently deleted." });
+  } catch (error) {
+    logger.error("Purge expense error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
 module.exports = {
   getUserExpenses,
   getGroupExpenses,
@@ -573,4 +1154,10 @@ module.exports = {
   deleteExpense,
   markSplitAsPaid,
   getExpenseSummary,
+  getUserBalances,
+  getExpenseHistory,
+  restoreExpenseVersion,
+  getGroupTrash,
+  restoreDeletedExpense,
+  purgeDeletedExpense,
 };
@@ -0,0 +1,165 @@
+const Group = require("../models/Group");
+const User = require("../models/User");
+const logger = require("../config/logger");
+const {
+  EXPORT_FORMATS,
+  exportFileName,
+  parsePeriod,
+  buildGroupLedger,
+} = require("../utils/exports");
+const {
+  JOURNAL_FORMATS,
+  validateJournalAccounts,
+  buildUserJournal,
+  journalFileName,
+} = require("../utils/exports/journal");
+
+// Download a group's ledger for a period as CSV, XLSX, JSON or a PDF of
+// member statements (`member` limits the PDF to one statement)
+const exportGroupLedger = async (req, res) => {
+  try {
+    const { format = "csv", member } = req.query;
+    const exporter = EXPORT_FORMATS[format];
+    if (!exporter) {
+      return res.status(400).json({
+        message: `Format must be one of: ${Object.keys(EXPORT_FORMATS).join(", ")}.`,
+      });
+    }
+
+    const period = parsePeriod(req.query);
+    if (period.error) {
+      return res.status(400).json({ message: period.error });
+    }
+
+    const group = req.group;
+    await group.populate("members.user", "username firstName lastName");
+    const ledger = await buildGroupLedger(group, period);
+
+    if (member && !ledger.members.some((entry) => entry.id === member)) {
+      return res
+        .status(400)
+        .json({ message: "No statement for that member in this group." });
+    }
+
+    res.setHeader("Content-Type", exporter.contentType);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${exportFileName(ledger, exporter.extension)}"`
+    );
+    await exporter.write(ledger, res, { member });
+  } catch (error) {
+    logger.error("Export group ledger error:", error);
+    // Once the file has started there is no way to report an error
+    if (res.headersSent) return res.end();
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Download the user's side of their expenses and settlements as a Ledger,
+// hledger or Beancount journal, across their groups or for one of them
+const exportUserJournal = async (req, res) => {
+  try {
+    const { format = "ledger", groupId } = req.query;
+    const journalFormat = JOURNAL_FORMATS[format];
+    if (!journalFormat) {
+      return res.status(400).json({
+        message: `Format must be one of: ${Object.keys(JOURNAL_FORMATS).join(", ")}.`,
+      });
+    }
+
+    const period = parsePeriod(req.query);
+    if (period.error) {
+      return res.status(400).json({ message: period.error });
+    }
+
+    if (groupId) {
+      const group = await Group.findById(groupId);
+      if (!group || !group.isMember(req.user._id)) {
+        return res.status(403).json({ message: "Access denied." });
+      }
+    }
+
+    const journal = await buildUserJournal(req.user, period, { groupId });
+
+    const fileName = journalFileName(journal, journalFormat.extension);
+
+    res.setHeader("Content-Type", "text/plain; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.send(journalFormat.render(journal));
+  } catch (error) {
+    logger.error("Export user journal error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Get the account names used by the journal export
+const getJournalAccounts = async (req, res) => {
+  try {
+    await req.user.populate(
+      "journalAccounts.personAccounts.user",
+      "username firstName lastName"
+    );
+    res.json({ accounts: req.user.journalAccounts });
+  } catch (error) {
+    logger.error("Get journal accounts error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Replace the account names used by the journal export
+const updateJournalAccounts = async (req, res) => {
+  try {
+    const {
+      expenses,
+      people,
+      payments,
+      categoryAccounts = [],
+      personAccounts = [],
+    } = req.body;
+    if (!Array.isArray(categoryAccounts) || !Array.isArray(personAccounts)) {
+      return res
+        .status(400)
+        .json({ message: "Account overrides must be lists." });
+    }
+
+    // Rows left blank in the form are dropped
+    const accounts = {
+      expenses,
+      people,
+      payments,
+      categoryAccounts: categoryAccounts.filter((entry) => entry.category),
+      personAccounts: personAccounts.filter((entry) => entry.user),
+    };
+
+    const error = validateJournalAccounts(accounts);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const user = await User.findByIdAndUpdate(
+      req.user._id,
+      { journalAccounts: accounts },
+      { new: true, runValidators: true }
+    )
+      .select("journalAccounts")
+      .populate(
+        "journalAccounts.personAccounts.user",
+        "username firstName lastName"
+      );
+
+    res.json({
+      message: "Journal accounts updated successfully",
+      accounts: user.journalAccounts,
+    });
+  } catch (error) {
+    logger.error("Update journal accounts error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+module.exports = {
+  exportGroupLedger,
+  exportUserJournal,
+  getJournalAccounts,
+  updateJournalAccounts,
+};
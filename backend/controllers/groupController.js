@@ -1,6 +1,19 @@
+const mongoose = require("mongoose");
 const Group = require("../models/Group");
 const User = require("../models/User");
+const Expense = require("../models/Expense");
+const Invitation = require("../models/Invitation");
 const logger = require("../config/logger");
+const { invitationJson, inviteByEmail } = require("../utils/invitations");
+const {
+  transferMembership,
+  mergeMembership,
+  removeMembership,
+  loadGroupBalances,
+  netBalanceOf,
+  writeOffBalance,
+} = require("../utils/members");
+const { trashRetentionDays, purgeGroup } = require("../jobs/trashPurge");
 
 // Create new group
 const createGroup = async (req, res) => {
@@ -28,7 +41,10 @@ const createGroup = async (req, res) => {
     });
 
     // Populate group data
-    await group.populate("members.user", "username firstName lastName avatar");
+    await group.populate(
+      "members.user",
+      "username firstName lastName avatar status"
+    );
 
     res.status(201).json({
       message: "Group created successfully",
@@ -46,7 +62,7 @@ const getUserGroups = async (req, res) => {
     const groups = await Group.find({
       "members.user": req.user._id,
     })
-      .populate("members.user", "username firstName lastName avatar")
+      .populate("members.user", "username firstName lastName avatar status")
       .populate("expenses", "description amount date")
       .sort({ updatedAt: -1 });
 
@@ -61,13 +77,13 @@ const getUserGroups = async (req, res) => {
 const getGroup = async (req, res) => {
   try {
     const group = await Group.findById(req.params.groupId)
-      .populate("members.user", "username firstName lastName avatar")
+      .populate("members.user", "username firstName lastName avatar status")
       .populate({
         path: "expenses",
-        populate: {
-          path: "paidBy",
-          select: "username firstName lastName",
-        },
+        populate: [
+          { path: "paidBy", select: "username firstName lastName" },
+          { path: "category", select: "name icon color parent" },
+        ],
       });
 
     if (!group) {
@@ -81,6 +97,41 @@ const getGroup = async (req, res) => {
   }
 };
 
+// Get member balances and pairwise debts for a group
+const getGroupBalances = async (req, res) => {
+  try {
+    const group = req.group;
+    const { balances, debts } = await loadGroupBalances(group);
+
+    // Resolve user details, including former members who still have balances
+    const userIds = balances.map((balance) => balance.user);
+    const users = await User.find(
+      { _id: { $in: userIds } },
+      "username firstName lastName avatar"
+    );
+    const usersById = {};
+    users.forEach((user) => {
+      usersById[user._id.toString()] = user;
+    });
+
+    res.json({
+      currency: group.currency,
+      balances: balances.map((balance) => ({
+        ...balance,
+        user: usersById[balance.user] || { _id: balance.user },
+      })),
+      debts: debts.map((debt) => ({
+        ...debt,
+        from: usersById[debt.from] || { _id: debt.from },
+        to: usersById[debt.to] || { _id: debt.to },
+      })),
+    });
+  } catch (error) {
+    logger.error("Get group balances error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
 // Update group
 const updateGroup = async (req, res) => {
   try {
@@ -89,12 +140,25 @@ const updateGroup = async (req, res) => {
 
     if (name) updates.name = name;
     if (description !== undefined) updates.description = description;
-    if (currency) updates.currency = currency;
+    if (currency && currency !== req.group.currency) {
+      // Stored amounts are in the group currency, so it is fixed once used
+      // (trashed expenses count, as they can be restored)
+      const hasExpenses = await Expense.exists({
+        group: req.group._id,
+      }).setOptions({ withDeleted: true });
+      if (hasExpenses) {
+        return res.status(400).json({
+          message:
+            "Group currency cannot be changed after expenses have been added.",
+        });
+      }
+      updates.currency = currency;
+    }
 
     const group = await Group.findByIdAndUpdate(req.params.groupId, updates, {
       new: true,
       runValidators: true,
-    }).populate("members.user", "username firstName lastName avatar");
+    }).populate("members.user", "username firstName lastName avatar status");
 
     res.json({
       message: "Group updated successfully",
@@ -110,11 +174,33 @@ const updateGroup = async (req, res) => {
 const addMember = async (req, res) => {
   try {
     const { email, role = "member" } = req.body;
+    if (!email || !/^\S+@\S+\.\S+$/.test(email)) {
+      return res.status(400).json({ message: "A valid email is required." });
+    }
 
     // Find user by email
-    const user = await User.findOne({ email });
-    if (!user) {
-      return res.status(404).json({ message: "User not found." });
+    const normalizedEmail = email.trim().toLowerCase();
+    const user = await User.findOne({ email: normalizedEmail });
+
+    // People without an account join as pending members and get an email
+    // invitation (sent again when they are already pending, and claiming
+    // the guest with that email when there is one); they can be put on
+    // expenses until they sign up
+    if (!user || user.status !== "active") {
+      const { invitation } = await inviteByEmail(req.group, normalizedEmail, {
+        role,
+        invitedBy: req.user,
+      });
+      await req.group.populate(
+        "members.user",
+        "username firstName lastName avatar status"
+      );
+
+      return res.status(201).json({
+        message: `Invitation sent to ${invitation.email}`,
+        group: req.group,
+        invitation: invitationJson(invitation),
+      });
     }
 
     // Check if user is already a member
@@ -135,7 +221,7 @@ const addMember = async (req, res) => {
     // Populate updated group
     await req.group.populate(
       "members.user",
-      "username firstName lastName avatar"
+      "username firstName lastName avatar status"
     );
 
     res.json({
@@ -148,7 +234,216 @@ const addMember = async (req, res) => {
   }
 };
 
-// Remove member from group
+// Add a guest who has no account (group admins only). Guests are split
+// with like any member, and members record payments on their behalf.
+const addGuest = async (req, res) => {
+  try {
+    const name = String(req.body.name || "").trim();
+    const email = String(req.body.email || "").trim().toLowerCase();
+    if (!name) {
+      return res.status(400).json({ message: "A name is required." });
+    }
+    if (email && !/^\S+@\S+\.\S+$/.test(email)) {
+      return res.status(400).json({ message: "Please enter a valid email." });
+    }
+
+    if (email && (await User.exists({ email }))) {
+      return res.status(400).json({
+        message: "Someone with this email is already known. Add them as a member instead.",
+      });
+    }
+
+    const guest = await User.createPlaceholder({ name, email });
+    await req.group.addMember(guest._id, "member");
+    await User.findByIdAndUpdate(guest._id, {
+      $addToSet: { groups: req.group._id },
+    });
+
+    await req.group.populate(
+      "members.user",
+      "username firstName lastName avatar status"
+    );
+
+    res.status(201).json({
+      message: `${name} added as a guest`,
+      group: req.group,
+    });
+  } catch (error) {
+    logger.error("Add guest error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Merge a guest into a user with an account (group admins only), so
+// everything the guest paid or owes in the group becomes theirs. The user
+// may already be a member or join in the guest's place.
+const claimGuest = async (req, res) => {
+  try {
+    const { guestId } = req.params;
+    const { userId } = req.body;
+
+    const guest = req.group.isMember(guestId)
+      ? await User.findById(guestId).select("firstName status")
+      : null;
+    if (!guest || guest.status !== "placeholder") {
+      return res.status(404).json({ message: "Guest not found." });
+    }
+
+    const user = mongoose.isValidObjectId(userId)
+      ? await User.findById(userId).select("firstName lastName status")
+      : null;
+    if (!user || user.status !== "active") {
+      return res
+        .status(400)
+        .json({ message: "Choose someone with an account to claim the guest." });
+    }
+
+    if (req.group.isMember(user._id)) {
+      await mergeMembership(req.group, guest._id, user._id, req.user._id);
+    } else {
+      await transferMembership(
+        req.group,
+        guest._id,
+        user._id,
+        req.user._id
+      );
+    }
+
+    // Invitations for the guest to sign up have nothing left to join
+    await Invitation.updateMany(
+      {
+        group: req.group._id,
+        user: guest._id,
+        acceptedAt: null,
+        revokedAt: null,
+      },
+      { revokedAt: new Date(), revokedBy: req.user._id }
+    );
+
+    await req.group.populate(
+      "members.user",
+      "username firstName lastName avatar status"
+    );
+
+    logger.info(
+      `Guest ${guest._id} in group ${req.group._id} claimed by ${user._id}`
+    );
+    res.json({
+      message: `${guest.firstName} merged into ${user.getFullName()}`,
+      group: req.group,
+    });
+  } catch (error) {
+    logger.error("Claim guest error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Check that a member leaving the group has settled up, sending the error
+// response when not. With `force`, an admin may write their balance off
+// instead, so nobody's debts are left behind, but never a debt of their
+// own. Returns the balance to write off, or null when refused.
+const balanceBeforeLeaving = async (req, res, member, force) => {
+  const net = await netBalanceOf(req.group, member._id);
+  if (net === 0) return 0;
+
+  const isSelf = member._id.equals(req.user._id);
+  if (force && isSelf && net < 0) {
+    res.status(409).json({
+      message: "You can't write off what you owe. Settle up before leaving.",
+      balance: net,
+    });
+    return null;
+  }
+
+  if (!force || !req.group.isAdmin(req.user._id)) {
+    const whose = isSelf ? "Your" : `${member.firstName}'s`;
+    res.status(409).json({
+      message: `${whose} balance in this group isn't settled. Settle up first, or have an admin write it off.`,
+      balance: net,
+    });
+    return null;
+  }
+
+  return net;
+};
+
+// Write off the balance of a member who is leaving. It settles whatever is
+// still outstanding, so repeating it after a failure does no harm.
+const writeOffOnLeaving = async (req, member, net) => {
+  if (net === 0) return;
+
+  await writeOffBalance(
+    req.group,
+    member._id,
+    req.user._id,
+    `Written off when ${member.getFullName().trim()} left the group`
+  );
+  logger.info(
+    `Balance of ${net} for user ${member._id} in group ${req.group._id} written off by ${req.user._id}`
+  );
+};
+
+// Leave a group. The last admin hands the group over (`transferTo`) as
+// they go, and an outstanding balance has to be settled or, for an admin
+// who is owed money, written off (`force`).
+const leaveGroup = async (req, res) => {
+  try {
+    const { force = false, transferTo } = req.body;
+    const group = req.group;
+
+    if (group.members.length === 1) {
+      return res.status(400).json({
+        message: "You are the only member. Delete the group instead.",
+      });
+    }
+
+    // Someone has to be left to run the group
+    const admins = group.members.filter((member) => member.role === "admin");
+    const isLastAdmin =
+      admins.length === 1 && admins[0].user.equals(req.user._id);
+    let successor = null;
+    if (isLastAdmin) {
+      successor = group.members.find(
+        (member) =>
+          member.user.toString() === String(transferTo) &&
+          !member.user.equals(req.user._id)
+      );
+      if (!successor) {
+        return res.status(400).json({
+          message:
+            "You are the group's only admin. Choose who takes over before leaving.",
+        });
+      }
+      if (!(await User.exists({ _id: successor.user, status: "active" }))) {
+        return res.status(400).json({
+          message: "Only a member with an account can take over the group.",
+        });
+      }
+    }
+
+    const net = await balanceBeforeLeaving(req, res, req.user, force);
+    if (net === null) return;
+
+    // Like settlement plans, this doesn't rely on transactions: each step
+    // leaves the group consistent, so a failed leave can simply be retried.
+    // The successor takes over first, the balance is written off next, and
+    // only then does the member leave.
+    if (successor) {
+      successor.role = "admin";
+      await group.save();
+    }
+    await writeOffOnLeaving(req, req.user, net);
+    await removeMembership(group, req.user._id);
+
+    logger.info(`User ${req.user._id} left group ${group._id}`);
+    res.json({ message: `You left ${group.name}` });
+  } catch (error) {
+    logger.error("Leave group error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Remove member from group (?force=true writes off their balance)
 const removeMember = async (req, res) => {
   try {
     const { userId } = req.params;
@@ -157,7 +452,7 @@ const removeMember = async (req, res) => {
     if (userId === req.user._id.toString()) {
       return res
         .status(400)
-        .json({ message: "You cannot remove yourself from the group." });
+        .json({ message: "To remove yourself, leave the group instead." });
     }
 
     // Check if user is a member
@@ -167,11 +462,17 @@ const removeMember = async (req, res) => {
         .json({ message: "User is not a member of this group." });
     }
 
-    // Remove user from group
-    await req.group.removeMember(userId);
+    const member = await User.findById(userId).select("firstName lastName");
+    if (member) {
+      const force = req.query.force === "true";
+      const net = await balanceBeforeLeaving(req, res, member, force);
+      if (net === null) return;
+      // Written off before removing, so a failure can simply be retried
+      await writeOffOnLeaving(req, member, net);
+    }
 
-    // Remove group from user's groups
-    await User.findByIdAndUpdate(userId, { $pull: { groups: req.group._id } });
+    // Remove user from group, and the group from the user's groups
+    await removeMembership(req.group, userId);
 
     res.json({ message: "Member removed successfully" });
   } catch (error) {
@@ -196,6 +497,23 @@ const changeMemberRole = async (req, res) => {
       return res.status(404).json({ message: "Member not found." });
     }
 
+    if (role === "admin" && member.role !== "admin") {
+      const user = await User.findById(userId).select("status");
+      if (!user || user.status !== "active") {
+        return res.status(400).json({
+          message: "Only a member with an account can be an admin.",
+        });
+      }
+    }
+
+    // A group always keeps an admin; hand it over before stepping down
+    const admins = req.group.members.filter((m) => m.role === "admin");
+    if (role === "member" && admins.length === 1 && member.role === "admin") {
+      return res.status(400).json({
+        message: "The group needs an admin. Make someone else an admin first.",
+      });
+    }
+
     member.role = role;
     await req.group.save();
 
@@ -206,33 +524,102 @@ const changeMemberRole = async (req, res) => {
   }
 };
 
-// Delete group
+// Delete group (into the trash). Its expenses and settlements stay with it
+// and are hidden until the group is restored or purged.
 const deleteGroup = async (req, res) => {
   try {
-    // Remove group from all members
-    const memberIds = req.group.members.map((m) => m.user);
-    await User.updateMany(
-      { _id: { $in: memberIds } },
-      { $pull: { groups: req.group._id } }
-    );
+    await req.group.moveToTrash(req.user._id);
 
-    // Delete the group
-    await Group.findByIdAndDelete(req.params.groupId);
-
-    res.json({ message: "Group deleted successfully" });
+    res.json({ message: "Group moved to the trash" });
   } catch (error) {
     logger.error("Delete group error:", error);
     res.status(500).json({ message: "Server error." });
   }
 };
 
+// Load a trashed group the current user administers, or send the error
+// response
+const findTrashedGroup = async (req, res) => {
+  const group = await Group.findOne({
+    _id: req.params.groupId,
+    deletedAt: { $ne: null },
+  });
+  if (!group) {
+    res.status(404).json({ message: "Group not found in the trash." });
+    return null;
+  }
+
+  if (!group.isAdmin(req.user._id)) {
+    res
+      .status(403)
+      .json({ message: "Access denied. Admin privileges required." });
+    return null;
+  }
+
+  return group;
+};
+
+// Get trashed groups the current user administers
+const getDeletedGroups = async (req, res) => {
+  try {
+    const groups = await Group.find({
+      deletedAt: { $ne: null },
+      members: { $elemMatch: { user: req.user._id, role: "admin" } },
+    })
+      .populate("deletedBy", "username firstName lastName")
+      .sort({ deletedAt: -1 });
+
+    res.json({ groups, retentionDays: trashRetentionDays() });
+  } catch (error) {
+    logger.error("Get deleted groups error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Restore a group, with everything in it, from the trash
+const restoreGroup = async (req, res) => {
+  try {
+    const group = await findTrashedGroup(req, res);
+    if (!group) return;
+
+    await group.restoreFromTrash(req.user._id);
+
+    res.json({ message: "Group restored", group });
+  } catch (error) {
+    logger.error("Restore group error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Permanently delete a trashed group and everything in it
+const purgeDeletedGroup = async (req, res) => {
+  try {
+    const group = await findTrashedGroup(req, res);
+    if (!group) return;
+
+    await purgeGroup(group);
+
+    res.json({ message: "Group permanently deleted" });
+  } catch (error) {
+    logger.error("Purge group error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
 module.exports = {
   createGroup,
   getUserGroups,
   getGroup,
+  getGroupBalances,
   updateGroup,
   addMember,
+  addGuest,
+  claimGuest,
+  leaveGroup,
   removeMember,
   changeMemberRole,
   deleteGroup,
+  getDeletedGroups,
+  restoreGroup,
+  purgeDeletedGroup,
 };
@@ -0,0 +1,343 @@
+const Expense = require("../models/Expense");
+const Settlement = require("../models/Settlement");
+const Category = require("../models/Category");
+const ExchangeRate = require("../models/ExchangeRate");
+const logger = require("../config/logger");
+const { applyConversion, convertAmount } = require("../utils/currency");
+const { buildSplits } = require("../utils/splits");
+const {
+  IMPORT_FORMATS,
+  readImportRows,
+  rowPeople,
+  matchPeople,
+  expenseDuplicateKey,
+  paymentDuplicateKey,
+} = require("../utils/expenseImport");
+
+// Options arrive as strings alongside a file upload and as JSON otherwise
+const jsonField = (value) => {
+  if (typeof value !== "string") return value || {};
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    return {};
+  }
+};
+
+const isSet = (value) => value === true || value === "true";
+
+// Two names can point at the same member, e.g. "Sam" and "sam@mail.com"
+const mergeByUser = (entries) => {
+  const merged = new Map();
+  entries.forEach(({ user, amount }) => {
+    const key = user.toString();
+    merged.set(key, {
+      user,
+      amount: (merged.has(key) ? merged.get(key).amount : 0) + amount,
+    });
+  });
+  return [...merged.values()];
+};
+
+// Duplicate keys of what the group already has on the days the rows cover
+const existingDuplicateKeys = async (groupId, rows) => {
+  const times = rows
+    .filter((row) => row.date)
+    .map((row) => row.date.getTime());
+  if (times.length === 0) return new Set();
+
+  const from = new Date(times.reduce((min, time) => Math.min(min, time)));
+  from.setUTCHours(0, 0, 0, 0);
+  const to = new Date(times.reduce((max, time) => Math.max(max, time)));
+  to.setUTCHours(24, 0, 0, 0);
+
+  const [expenses, settlements] = await Promise.all([
+    Expense.find({ group: groupId, date: { $gte: from, $lt: to } }).select(
+      "description date amount currency originalAmount originalCurrency"
+    ),
+    Settlement.find({
+      group: groupId,
+      status: { $ne: "cancelled" },
+      completedAt: { $gte: from, $lt: to },
+    }).select("fromUser toUser amount completedAt"),
+  ]);
+
+  return new Set([
+    ...expenses.map((expense) =>
+      expenseDuplicateKey({
+        date: expense.date,
+        currency: expense.originalCurrency || expense.currency,
+        amount: expense.originalAmount || expense.amount,
+        description: expense.description,
+      })
+    ),
+    ...settlements.map((settlement) =>
+      paymentDuplicateKey({
+        date: settlement.completedAt,
+        amount: settlement.amount,
+        fromUser: settlement.fromUser,
+        toUser: settlement.toUser,
+      })
+    ),
+  ]);
+};
+
+// Check a row against the group: everyone named must be a member and a
+// foreign currency needs an exchange rate. Returns its errors, the
+// conversion to apply and its duplicate key.
+const checkRow = async (row, { group, people }) => {
+  const errors = [...row.errors];
+  new Set(rowPeople(row)).forEach((name) => {
+    if (!people.get(name)) errors.push(`"${name}" is not a group member.`);
+  });
+
+  let conversion = { rate: 1, date: null };
+  if (errors.length === 0 && row.currency !== group.currency) {
+    conversion = await ExchangeRate.resolveConversion(
+      row.currency,
+      group.currency,
+      row.date
+    );
+    if (conversion.error) errors.push(conversion.error);
+  }
+  if (errors.length > 0) return { errors };
+
+  const duplicateKey =
+    row.kind === "payment"
+      ? paymentDuplicateKey({
+          date: row.date,
+          amount: convertAmount(
+            row.amount,
+            conversion.rate,
+            row.currency,
+            group.currency
+          ),
+          fromUser: people.get(row.from),
+          toUser: people.get(row.to),
+        })
+      : expenseDuplicateKey(row);
+
+  return { errors, conversion, duplicateKey };
+};
+
+const createExpense = async (row, { group, people, categories, userId }) => {
+  const payers = mergeByUser(
+    row.payers.map((payer) => ({
+      user: people.get(payer.name),
+      amount: payer.amount,
+    }))
+  );
+  const shares = row.shares
+    ? mergeByUser(
+        row.shares.map((share) => ({
+          user: people.get(share.name),
+          amount: share.amount,
+        }))
+      )
+    : null;
+  const category =
+    Category.pick(categories, row.category) || Category.pick(categories, "");
+
+  const expense = new Expense({
+    description: row.description,
+    amount: row.amount,
+    group: group._id,
+    paidBy: payers[0].user,
+    paidByMultiple: payers.length > 1 ? payers : [],
+    category: category._id,
+    date: row.date,
+    splitType: shares ? "custom" : "equal",
+    notes: row.notes,
+  });
+
+  const { splits, error } = buildSplits({
+    splitType: expense.splitType,
+    amount: row.amount,
+    participants: group.members.map((member) => member.user._id),
+    customSplits: (shares || []).map((share) => ({
+      userId: share.user,
+      amount: share.amount,
+    })),
+    payerId: payers[0].user,
+  });
+  if (error) throw new Error(error);
+  expense.splits = splits;
+
+  applyConversion(expense, {
+    currency: group.currency,
+    originalCurrency: row.currency,
+    rate: row.conversion.rate,
+    date: row.conversion.date,
+  });
+
+  await expense.setActor(userId).save();
+};
+
+// Imported payments happened long ago, so they are recorded as settled
+// and confirmed by the importer
+const createPayment = async (row, { group, people, userId }) => {
+  const amount = convertAmount(
+    row.amount,
+    row.conversion.rate,
+    row.currency,
+    group.currency
+  );
+
+  const settlement = new Settlement({
+    fromUser: people.get(row.from),
+    toUser: people.get(row.to),
+    group: group._id,
+    amount,
+    currency: group.currency,
+    status: "completed",
+    notes: row.description,
+    payments: [
+      {
+        amount,
+        date: row.date,
+        recordedBy: userId,
+        confirmedAt: row.date,
+        confirmedBy: userId,
+      },
+    ],
+    confirmedAt: row.date,
+    confirmedBy: userId,
+    completedAt: row.date,
+    createdAt: row.date,
+  });
+  settlement.logEvent("confirmed", userId, { amount });
+
+  await settlement.setActor(userId).save();
+};
+
+// Import expenses and payments from a CSV file (group admins only). With
+// dryRun set, nothing is saved and every row comes back with its status so
+// the people and columns can be sorted out first.
+const importGroupExpenses = async (req, res) => {
+  try {
+    const text = req.file ? req.file.buffer.toString("utf8") : req.body.csv;
+    if (!text) {
+      return res.status(400).json({ message: "CSV file is required." });
+    }
+
+    const { format } = req.body;
+    if (format && !IMPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ message: "Unknown import format." });
+    }
+
+    const group = req.group;
+    await group.populate("members.user", "username firstName lastName email");
+
+    const parsed = readImportRows(text, {
+      format,
+      mapping: jsonField(req.body.mapping),
+      currency: group.currency,
+    });
+    if (parsed.error) {
+      return res.status(400).json({ message: parsed.error });
+    }
+
+    const people = matchPeople(
+      parsed.rows,
+      group.members,
+      jsonField(req.body.memberMap)
+    );
+    const existingKeys = await existingDuplicateKeys(group._id, parsed.rows);
+
+    // Later copies of a row in the same file are duplicates too
+    const seenKeys = new Set();
+    const rows = [];
+    for (const row of parsed.rows) {
+      const { errors, conversion, duplicateKey } = await checkRow(row, {
+        group,
+        people,
+      });
+      const duplicate =
+        errors.length === 0 &&
+        (existingKeys.has(duplicateKey) || seenKeys.has(duplicateKey));
+      if (duplicateKey) seenKeys.add(duplicateKey);
+
+      rows.push({
+        ...row,
+        errors,
+        conversion,
+        status: errors.length > 0 ? "error" : duplicate ? "duplicate" : "ready",
+      });
+    }
+
+    const summary = {
+      total: rows.length,
+      ready: rows.filter((row) => row.status === "ready").length,
+      duplicates: rows.filter((row) => row.status === "duplicate").length,
+      errors: rows.filter((row) => row.status === "error").length,
+    };
+
+    if (isSet(req.body.dryRun)) {
+      return res.json({
+        format: parsed.format,
+        headers: parsed.headers,
+        mapping: parsed.mapping,
+        unmapped: parsed.unmapped || [],
+        people: [...people].map(([name, user]) => ({ name, user })),
+        rows: rows.map(({ conversion, ...row }) => row),
+        summary,
+      });
+    }
+
+    const includeDuplicates = isSet(req.body.includeDuplicates);
+    const context = {
+      group,
+      people,
+      categories: await Category.forGroup(group._id),
+      userId: req.user._id,
+    };
+    const imported = { expenses: 0, payments: 0 };
+    const errors = [];
+
+    for (const row of rows) {
+      const wanted =
+        row.status === "ready" ||
+        (row.status === "duplicate" && includeDuplicates);
+      if (!wanted) continue;
+
+      try {
+        if (row.kind === "payment") {
+          await createPayment(row, context);
+          imported.payments += 1;
+        } else {
+          await createExpense(row, context);
+          imported.expenses += 1;
+        }
+      } catch (error) {
+        errors.push({ row: row.row, message: error.message });
+      }
+    }
+
+    logger.info(
+      `Imported ${imported.expenses} expenses and ${imported.payments} ` +
+        `payments into group ${group._id} (${errors.length} failed)`
+    );
+
+    res.status(201).json({
+      message: `Imported ${imported.expenses} expenses and ${imported.payments} payments`,
+      imported,
+      skipped: {
+        duplicates: includeDuplicates ? 0 : summary.duplicates,
+        errors: summary.errors,
+      },
+      errors: [
+        ...rows
+          .filter((row) => row.status === "error")
+          .map((row) => ({ row: row.row, message: row.errors.join(" ") })),
+        ...errors,
+      ],
+    });
+  } catch (error) {
+    logger.error("Import group expenses error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+module.exports = {
+  importGroupExpenses,
+};
@@ -0,0 +1,196 @@
+const Group = require("../models/Group");
+const User = require("../models/User");
+const Invitation = require("../models/Invitation");
+const logger = require("../config/logger");
+const { transferMembership } = require("../utils/members");
+const { invitationJson } = require("../utils/invitations");
+
+const INVALID_INVITATION =
+  "This invitation is invalid, has expired or has been revoked.";
+
+// Get a group's open invitations (group admins only)
+const getGroupInvitations = async (req, res) => {
+  try {
+    const invitations = await Invitation.find({
+      group: req.group._id,
+      revokedAt: null,
+      acceptedAt: null,
+      expiresAt: { $gt: new Date() },
+    })
+      .populate("invitedBy", "username firstName lastName")
+      .sort({ createdAt: -1 });
+
+    res.json({ invitations: invitations.map(invitationJson) });
+  } catch (error) {
+    logger.error("Get group invitations error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Create an invite link anyone can use to join (group admins only).
+// Invitations by email go through addMember.
+const createInvitation = async (req, res) => {
+  try {
+    const { role = "member", expiresInDays } = req.body;
+    if (!["admin", "member"].includes(role)) {
+      return res.status(400).json({ message: "Invalid role." });
+    }
+
+    const expiresAt = Invitation.expiryFor("link", expiresInDays);
+    if (!expiresAt) {
+      return res
+        .status(400)
+        .json({ message: "Expiry must be a number of days." });
+    }
+
+    const invitation = await Invitation.create({
+      group: req.group._id,
+      role,
+      invitedBy: req.user._id,
+      expiresAt,
+    });
+    await invitation.populate("invitedBy", "username firstName lastName");
+
+    res.status(201).json({
+      message: "Invite link created successfully",
+      invitation: invitationJson(invitation),
+    });
+  } catch (error) {
+    logger.error("Create invitation error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Revoke an invitation so its link stops working (group admins only).
+// Pending members stay in the group and can still join by signing up.
+const revokeInvitation = async (req, res) => {
+  try {
+    const invitation = await Invitation.findOne({
+      _id: req.params.invitationId,
+      group: req.group._id,
+    });
+    if (!invitation) {
+      return res.status(404).json({ message: "Invitation not found." });
+    }
+
+    if (!invitation.revokedAt) {
+      invitation.revokedAt = new Date();
+      invitation.revokedBy = req.user._id;
+      await invitation.save();
+    }
+
+    res.json({ message: "Invitation revoked successfully" });
+  } catch (error) {
+    logger.error("Revoke invitation error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// What an invite link is for, shown before signing in or joining
+const getInvitation = async (req, res) => {
+  try {
+    const invitation = await Invitation.fromToken(req.params.token);
+    if (!invitation || !invitation.isOpen()) {
+      return res.status(404).json({ message: INVALID_INVITATION });
+    }
+
+    const [group, invitedBy] = await Promise.all([
+      Group.findById(invitation.group).select("name description"),
+      User.findById(invitation.invitedBy).select("firstName lastName"),
+    ]);
+    if (!group) {
+      return res.status(404).json({ message: INVALID_INVITATION });
+    }
+
+    res.json({
+      invitation: {
+        kind: invitation.kind,
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+        group: { _id: group._id, name: group.name },
+        invitedBy: invitedBy
+          ? `${invitedBy.firstName} ${invitedBy.lastName}`
+          : null,
+      },
+    });
+  } catch (error) {
+    logger.error("Get invitation error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Join the group an invite link is for. Accepting an email invitation from
+// another account moves the pending member's place, and any expenses they
+// were added to, over to that account.
+const acceptInvitation = async (req, res) => {
+  try {
+    const invitation = await Invitation.fromToken(req.params.token);
+    if (!invitation) {
+      return res.status(404).json({ message: INVALID_INVITATION });
+    }
+
+    const group = await Group.findById(invitation.group);
+    if (!group) {
+      return res.status(404).json({ message: INVALID_INVITATION });
+    }
+    const joined = () =>
+      res.json({
+        message: `You joined ${group.name}`,
+        group: { _id: group._id, name: group.name },
+      });
+
+    // Signing up with the invited email already joined them, and the
+    // link may be opened again after accepting it
+    const acceptedBy = invitation.acceptedBy || invitation.user;
+    if (acceptedBy && acceptedBy.equals(req.user._id)) {
+      return joined();
+    }
+    if (!invitation.isOpen()) {
+      return res.status(404).json({ message: INVALID_INVITATION });
+    }
+
+    if (group.isMember(req.user._id)) {
+      if (invitation.kind === "link") return joined();
+      return res
+        .status(400)
+        .json({ message: "You are already a member of this group." });
+    }
+
+    if (invitation.kind === "email" && group.isMember(invitation.user)) {
+      await transferMembership(
+        group,
+        invitation.user,
+        req.user._id,
+        req.user._id
+      );
+    } else {
+      await group.addMember(req.user._id, invitation.role);
+      await User.findByIdAndUpdate(req.user._id, {
+        $addToSet: { groups: group._id },
+      });
+    }
+
+    if (invitation.kind === "email") {
+      invitation.acceptedAt = new Date();
+      invitation.acceptedBy = req.user._id;
+    } else {
+      invitation.uses.push({ user: req.user._id });
+    }
+    await invitation.save();
+
+    logger.info(`User ${req.user._id} joined group ${group._id} by invitation`);
+    joined();
+  } catch (error) {
+    logger.error("Accept invitation error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+module.exports = {
+  getGroupInvitations,
+  createInvitation,
+  revokeInvitation,
+  getInvitation,
+  acceptInvitation,
+};
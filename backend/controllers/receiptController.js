@@ -0,0 +1,157 @@
+const Expense = require("../models/Expense");
+const Group = require("../models/Group");
+const logger = require("../config/logger");
+const { getStorage } = require("../utils/storage");
+const {
+  processReceipt,
+  receiptKeys,
+  removeReceiptFiles,
+} = require("../utils/receipts");
+
+// Group members can see and manage a group expense's receipt; non-group
+// expenses are limited to the people who paid or share in them
+const canAccessExpense = async (expense, userId) => {
+  if (expense.group) {
+    const group = await Group.findById(expense.group);
+    return Boolean(group && group.isMember(userId));
+  }
+
+  return expense.involves(userId);
+};
+
+const loadExpense = async (req, res) => {
+  const expense = await Expense.findById(req.params.expenseId);
+  if (!expense) {
+    res.status(404).json({ message: "Expense not found." });
+    return null;
+  }
+  if (!(await canAccessExpense(expense, req.user._id))) {
+    res.status(403).json({ message: "Access denied." });
+    return null;
+  }
+  return expense;
+};
+
+// Upload or replace an expense's receipt
+const uploadReceipt = async (req, res) => {
+  try {
+    const expense = await loadExpense(req, res);
+    if (!expense) return;
+
+    if (!req.file) {
+      return res.status(400).json({ message: "No receipt file uploaded." });
+    }
+
+    const { thumbnail, error } = await processReceipt(req.file);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const storage = getStorage();
+    const { key, thumbnailKey } = receiptKeys(expense._id, req.file.mimetype);
+    await storage.put(key, req.file.buffer, req.file.mimetype);
+    if (thumbnail) {
+      await storage.put(thumbnailKey, thumbnail, "image/jpeg");
+    }
+
+    const previous = expense.receiptFile;
+    expense.receipt = `/api/expenses/${expense._id}/receipt`;
+    expense.receiptFile = {
+      key,
+      thumbnailKey: thumbnail ? thumbnailKey : undefined,
+      contentType: req.file.mimetype,
+      size: req.file.size,
+      originalName: req.file.originalname,
+      uploadedBy: req.user._id,
+      uploadedAt: new Date(),
+    };
+    await expense.setActor(req.user._id).save();
+
+    // The old files are only dropped once the new ones are recorded
+    if (previous && previous.key) {
+      removeReceiptFiles(previous).catch((removeError) =>
+        logger.error("Remove replaced receipt error:", removeError)
+      );
+    }
+
+    res.status(201).json({
+      receipt: expense.receipt,
+      receiptFile: expense.receiptFile,
+    });
+  } catch (error) {
+    logger.error("Upload receipt error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Stream the receipt, or its thumbnail with ?thumbnail=true
+const getReceipt = async (req, res) => {
+  try {
+    const expense = await loadExpense(req, res);
+    if (!expense) return;
+
+    const receiptFile = expense.receiptFile;
+    if (!receiptFile || !receiptFile.key) {
+      return res.status(404).json({ message: "This expense has no receipt." });
+    }
+
+    const wantsThumbnail = req.query.thumbnail === "true";
+    if (wantsThumbnail && !receiptFile.thumbnailKey) {
+      return res
+        .status(404)
+        .json({ message: "This receipt has no thumbnail." });
+    }
+
+    const stream = await getStorage().get(
+      wantsThumbnail ? receiptFile.thumbnailKey : receiptFile.key
+    );
+    if (!stream) {
+      return res.status(404).json({ message: "Receipt file is missing." });
+    }
+
+    res.set({
+      "Content-Type": wantsThumbnail ? "image/jpeg" : receiptFile.contentType,
+      "Content-Disposition": `inline; filename*=UTF-8''${encodeURIComponent(
+        receiptFile.originalName || "receipt"
+      )}`,
+      "Cache-Control": "private, max-age=3600",
+      "X-Content-Type-Options": "nosniff",
+    });
+    stream.on("error", (streamError) => {
+      logger.error("Stream receipt error:", streamError);
+      res.destroy(streamError);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    logger.error("Get receipt error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Remove an expense's receipt
+const deleteReceipt = async (req, res) => {
+  try {
+    const expense = await loadExpense(req, res);
+    if (!expense) return;
+
+    if (!expense.receiptFile || !expense.receiptFile.key) {
+      return res.status(404).json({ message: "This expense has no receipt." });
+    }
+
+    await removeReceiptFiles(expense.receiptFile);
+    expense.receipt = "";
+    expense.receiptFile = undefined;
+    await expense.setActor(req.user._id).save();
+
+    res.json({ message: "Receipt deleted successfully" });
+  } catch (error) {
+    logger.error("Delete receipt error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+module.exports = {
+  uploadReceipt,
+  getReceipt,
+  deleteReceipt,
+};
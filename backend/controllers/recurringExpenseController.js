@@ -0,0 +1,335 @@
+const Group = require("../models/Group");
+const RecurringExpense = require("../models/RecurringExpense");
+const Category = require("../models/Category");
+const logger = require("../config/logger");
+const { idOf, validatePayerContributions } = require("../utils/balances");
+const { normalizeCurrency } = require("../utils/currency");
+const { isMinorUnitAmount } = require("../utils/money");
+const { buildSplits } = require("../utils/splits");
+const { FREQUENCIES } = require("../utils/recurrence");
+const { materializeTemplate } = require("../jobs/recurringExpenses");
+
+const SCHEDULE_FIELDS = ["frequency", "interval", "startDate", "endDate"];
+
+const populateTemplate = (query) =>
+  query
+    .populate("paidBy", "username firstName lastName")
+    .populate("createdBy", "username firstName lastName")
+    .populate("category", "name icon color parent");
+
+// Template plus the dates it will next create expenses for
+const serialize = (template) => ({
+  ...template.toObject(),
+  upcoming: template.upcoming(),
+});
+
+// Copy template fields from a request body onto `template`, validating them
+// against the group and its categories. Returns an error message or null.
+const applyTemplateFields = (template, body, group, categories) => {
+  const fields = { ...template.toObject(), ...body };
+  const memberIds = group.members.map((member) => idOf(member.user));
+
+  if (!fields.description || !String(fields.description).trim()) {
+    return "Description is required.";
+  }
+  if (!isMinorUnitAmount(fields.amount) || fields.amount === 0) {
+    return "Amount must be a positive whole number of minor units.";
+  }
+
+  const currency = fields.currency
+    ? normalizeCurrency(fields.currency)
+    : group.currency;
+  if (!currency) return "Invalid currency code.";
+  const exchangeRate =
+    currency === group.currency ? undefined : fields.exchangeRate || undefined;
+  if (exchangeRate !== undefined && !(Number(exchangeRate) > 0)) {
+    return "Exchange rate must be a number greater than zero.";
+  }
+
+  const paidByMultiple = fields.paidByMultiple || [];
+  const paidBy =
+    paidByMultiple.length > 0 ? paidByMultiple[0].user : fields.paidBy;
+  const payerIds = [paidBy, ...paidByMultiple.map((payer) => payer.user)];
+  if (!paidBy || payerIds.some((userId) => !memberIds.includes(idOf(userId)))) {
+    return "Payers must be members of the group.";
+  }
+  const payerError = validatePayerContributions(fields.amount, paidByMultiple);
+  if (payerError) return payerError;
+
+  // Check the split inputs the same way each occurrence will use them
+  const customSplits = (fields.customSplits || []).map((split) => ({
+    userId: split.userId || split.user,
+    amount: split.amount,
+    percentage: split.percentage,
+    shares: split.shares,
+    adjustment: split.adjustment,
+  }));
+  const { error: splitError } = buildSplits({
+    splitType: fields.splitType || "equal",
+    amount: fields.amount,
+    participants: memberIds,
+    customSplits,
+    payerId: paidBy,
+  });
+  if (splitError) return splitError;
+
+  const category = Category.pick(categories, fields.category);
+  if (!category) return "Unknown category.";
+
+  if (!FREQUENCIES.includes(fields.frequency)) {
+    return `Frequency must be one of ${FREQUENCIES.join(", ")}.`;
+  }
+  const interval = Number(fields.interval || 1);
+  if (!Number.isInteger(interval) || interval < 1) {
+    return "Interval must be a whole number of at least 1.";
+  }
+  const startDate = new Date(fields.startDate);
+  if (isNaN(startDate.getTime())) return "A valid start date is required.";
+  const endDate = fields.endDate ? new Date(fields.endDate) : undefined;
+  if (endDate && (isNaN(endDate.getTime()) || endDate < startDate)) {
+    return "End date must be on or after the start date.";
+  }
+
+  Object.assign(template, {
+    description: fields.description,
+    amount: fields.amount,
+    currency,
+    exchangeRate,
+    paidBy,
+    paidByMultiple: paidByMultiple.length > 1 ? paidByMultiple : [],
+    category: category._id,
+    splitType: fields.splitType || "equal",
+    customSplits: customSplits.map(({ userId, ...split }) => ({
+      user: userId,
+      ...split,
+    })),
+    notes: fields.notes,
+    frequency: fields.frequency,
+    interval,
+    startDate,
+    endDate,
+  });
+  return null;
+};
+
+// Load a template the user may manage: its creator or a group admin
+const loadManagedTemplate = async (req, res) => {
+  const template = await RecurringExpense.findById(req.params.recurringId);
+  if (!template) {
+    res.status(404).json({ message: "Recurring expense not found." });
+    return {};
+  }
+
+  const group = await Group.findById(template.group);
+  const canManage =
+    group &&
+    (idOf(template.createdBy) === idOf(req.user._id) ||
+      group.isAdmin(req.user._id));
+  if (!canManage) {
+    res.status(403).json({ message: "Access denied." });
+    return {};
+  }
+
+  return { template, group };
+};
+
+// List a group's recurring expenses
+const getGroupRecurringExpenses = async (req, res) => {
+  try {
+    const group = await Group.findById(req.params.groupId);
+    if (!group) {
+      return res.status(404).json({ message: "Group not found." });
+    }
+    if (!group.isMember(req.user._id)) {
+      return res.status(403).json({ message: "Access denied." });
+    }
+
+    const templates = await populateTemplate(
+      RecurringExpense.find({ group: group._id }).sort({ createdAt: -1 })
+    );
+
+    res.json({ recurringExpenses: templates.map(serialize) });
+  } catch (error) {
+    logger.error("Get recurring expenses error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Create a recurring expense; anything already due is created straight away
+const createRecurringExpense = async (req, res) => {
+  try {
+    const group = await Group.findById(req.body.groupId);
+    if (!group) {
+      return res.status(404).json({ message: "Group not found." });
+    }
+    if (!group.isMember(req.user._id)) {
+      return res.status(403).json({ message: "Access denied." });
+    }
+
+    const template = new RecurringExpense({
+      group: group._id,
+      createdBy: req.user._id,
+      paidBy: req.user._id,
+    });
+    const error = applyTemplateFields(
+      template,
+      req.body,
+      group,
+      await Category.forGroup(group._id)
+    );
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    template.setNextIndex(0);
+    await template.save();
+    await materializeTemplate(template, new Date());
+
+    const populated = await populateTemplate(
+      RecurringExpense.findById(template._id)
+    );
+    res.status(201).json({ recurringExpense: serialize(populated) });
+  } catch (error) {
+    logger.error("Create recurring expense error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Edit a recurring expense. Changes apply to future occurrences only;
+// expenses already created are left alone.
+const updateRecurringExpense = async (req, res) => {
+  try {
+    const { template, group } = await loadManagedTemplate(req, res);
+    if (!template) return;
+
+    const previousSchedule = SCHEDULE_FIELDS.map((field) =>
+      String(template[field])
+    );
+    const error = applyTemplateFields(
+      template,
+      req.body,
+      group,
+      await Category.forGroup(group._id)
+    );
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const scheduleChanged = SCHEDULE_FIELDS.some(
+      (field, index) => String(template[field]) !== previousSchedule[index]
+    );
+    if (scheduleChanged && template.status !== "paused") {
+      // Pick up from today on the new schedule rather than back-filling
+      template.status = "active";
+      template.resetFrom(new Date());
+    }
+    await template.save();
+
+    const populated = await populateTemplate(
+      RecurringExpense.findById(template._id)
+    );
+    res.json({ recurringExpense: serialize(populated) });
+  } catch (error) {
+    logger.error("Update recurring expense error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Stop creating expenses until resumed
+const pauseRecurringExpense = async (req, res) => {
+  try {
+    const { template } = await loadManagedTemplate(req, res);
+    if (!template) return;
+
+    if (template.status !== "active") {
+      return res
+        .status(400)
+        .json({ message: "Only active recurring expenses can be paused." });
+    }
+
+    template.status = "paused";
+    await template.save();
+
+    res.json({ recurringExpense: serialize(template) });
+  } catch (error) {
+    logger.error("Pause recurring expense error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Resume from today; occurrences that fell in the pause are not created
+const resumeRecurringExpense = async (req, res) => {
+  try {
+    const { template } = await loadManagedTemplate(req, res);
+    if (!template) return;
+
+    if (template.status !== "paused") {
+      return res
+        .status(400)
+        .json({ message: "Only paused recurring expenses can be resumed." });
+    }
+
+    template.status = "active";
+    template.resetFrom(new Date());
+    await template.save();
+
+    res.json({ recurringExpense: serialize(template) });
+  } catch (error) {
+    logger.error("Resume recurring expense error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Skip one future occurrence (the next one unless `date` is given)
+const skipOccurrence = async (req, res) => {
+  try {
+    const { template } = await loadManagedTemplate(req, res);
+    if (!template) return;
+
+    const date = req.body.date
+      ? new Date(req.body.date)
+      : template.upcoming(1)[0];
+    const isUpcoming =
+      date &&
+      template
+        .upcoming(366)
+        .some((upcoming) => upcoming.getTime() === date.getTime());
+    if (!isUpcoming) {
+      return res
+        .status(400)
+        .json({ message: "That date is not an upcoming occurrence." });
+    }
+
+    template.skippedDates.push(date);
+    await template.save();
+
+    res.json({ recurringExpense: serialize(template) });
+  } catch (error) {
+    logger.error("Skip recurring occurrence error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Delete a recurring expense; expenses it already created are kept
+const deleteRecurringExpense = async (req, res) => {
+  try {
+    const { template } = await loadManagedTemplate(req, res);
+    if (!template) return;
+
+    await RecurringExpense.findByIdAndDelete(template._id);
+
+    res.json({ message: "Recurring expense deleted successfully." });
+  } catch (error) {
+    logger.error("Delete recurring expense error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+module.exports = {
+  getGroupRecurringExpenses,
+  createRecurringExpense,
+  updateRecurringExpense,
+  pauseRecurringExpense,
+  resumeRecurringExpense,
+  skipOccurrence,
+  deleteRecurringExpense,
+};
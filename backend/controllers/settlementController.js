@@ -1,23 +1,91 @@
 const Settlement = require("../models/Settlement");
+const SettlementPlan = require("../models/SettlementPlan");
 const Group = require("../models/Group");
 const User = require("../models/User");
 const logger = require("../config/logger");
+const { isMinorUnitAmount } = require("../utils/money");
+
+const settlementPopulate = [
+  { path: "fromUser", select: "username firstName lastName status" },
+  { path: "toUser", select: "username firstName lastName status" },
+  { path: "group", select: "name" },
+];
+
+// Write-offs are only recorded by the leave flow, never picked by a user
+const isChosenMethod = (method) =>
+  Settlement.PAYMENT_METHODS.includes(method) && method !== "write_off";
+
+const INVALID_METHOD = "Invalid payment method.";
+
+// Settlements are hidden along with their group while it is in the trash
+const trashedGroupIds = () =>
+  Group.find({ deletedAt: { $ne: null } }).distinct("_id");
+
+// Load a settlement the current user is a party to, or send the error
+// response. Guests can't sign in, so any member of the group acts for a
+// guest party; `settlement.$locals.actsAs` says which sides the user is on.
+const findSettlementForParty = async (req, res) => {
+  const settlement = await Settlement.findById(req.params.settlementId);
+  const group =
+    settlement && (await Group.findById(settlement.group).select("members"));
+  if (!settlement || !group) {
+    res.status(404).json({ message: "Settlement not found." });
+    return null;
+  }
+
+  const guests = group.isMember(req.user._id)
+    ? await User.find({
+        _id: { $in: [settlement.fromUser, settlement.toUser] },
+        status: "placeholder",
+      }).distinct("_id")
+    : [];
+  const isGuest = (userId) => guests.some((guest) => guest.equals(userId));
+  const actsAs = {
+    payer: settlement.isPayer(req.user._id) || isGuest(settlement.fromUser),
+    receiver:
+      settlement.isReceiver(req.user._id) || isGuest(settlement.toUser),
+  };
+
+  // Check if user is involved in the settlement
+  if (!actsAs.payer && !actsAs.receiver) {
+    res.status(403).json({ message: "Access denied." });
+    return null;
+  }
+  settlement.$locals.actsAs = actsAs;
+
+  // Changes made through this request are recorded against the user
+  return settlement.setActor(req.user._id);
+};
+
+// Ids of the guests in the user's groups, whose settlements the user can
+// see and act on
+const guestIdsFor = (user) =>
+  User.find({ status: "placeholder", groups: { $in: user.groups } }).distinct(
+    "_id"
+  );
 
 // Get user settlements
 const getUserSettlements = async (req, res) => {
   try {
     const { status, groupId } = req.query;
+    const guestIds = await guestIdsFor(req.user);
     const query = {
-      $or: [{ fromUser: req.user._id }, { toUser: req.user._id }],
+      $or: [
+        { fromUser: req.user._id },
+        { toUser: req.user._id },
+        {
+          group: { $in: req.user.groups },
+          $or: [{ fromUser: { $in: guestIds } }, { toUser: { $in: guestIds } }],
+        },
+      ],
+      group: { $nin: await trashedGroupIds() },
     };
 
     if (status) query.status = status;
-    if (groupId) query.group = groupId;
+    if (groupId) query.group.$eq = groupId;
 
     const settlements = await Settlement.find(query)
-      .populate("fromUser", "username firstName lastName")
-      .populate("toUser", "username firstName lastName")
-      .populate("group", "name")
+      .populate(settlementPopulate)
       .sort({ createdAt: -1 });
 
     res.json({ settlements });
@@ -37,8 +105,8 @@ const getGroupSettlements = async (req, res) => {
     if (status) query.status = status;
 
     const settlements = await Settlement.find(query)
-      .populate("fromUser", "username firstName lastName")
-      .populate("toUser", "username firstName lastName")
+      .populate("fromUser", "username firstName lastName status")
+      .populate("toUser", "username firstName lastName status")
       .sort({ createdAt: -1 });
 
     res.json({ settlements });
@@ -48,10 +116,24 @@ const getGroupSettlements = async (req, res) => {
   }
 };
 
-// Calculate settlements for a group
+const PLAN_CHANGED =
+  "Another settlement plan was just committed for this group. Please review it again.";
+
+// Calculate settlements for a group. With dryRun the plan is only previewed;
+// otherwise it replaces the group's previous pending plan.
+//
+// Standalone MongoDB servers have no transactions, so concurrent commits
+// are kept apart by retiring the active plan atomically and by the unique
+// index on active plans. Every write is safe to repeat: an interrupted
+// commit is tidied up by the next one.
 const calculateGroupSettlements = async (req, res) => {
   try {
     const { groupId } = req.params;
+    const { mode = "auto", dryRun = false, fingerprint } = req.body;
+
+    if (!["auto", "greedy", "exact"].includes(mode)) {
+      return res.status(400).json({ message: "Invalid simplification mode." });
+    }
 
     // Check if user is member of the group
     const group = await Group.findById(groupId);
@@ -64,31 +146,197 @@ const calculateGroupSettlements = async (req, res) => {
     }
 
     // Calculate settlements
-    const settlements = await Settlement.calculateGroupSettlements(groupId);
+    const calculation = await Settlement.calculateGroupSettlements(groupId, {
+      mode,
+    });
+
+    if (dryRun) {
+      await Settlement.populate(calculation.settlements, [
+        { path: "fromUser", select: "username firstName lastName status" },
+        { path: "toUser", select: "username firstName lastName status" },
+      ]);
+
+      return res.json({
+        message: "Settlement plan preview",
+        plan: {
+          group: groupId,
+          mode,
+          currency: calculation.currency,
+          basis: calculation.basis,
+        },
+        settlements: calculation.settlements,
+      });
+    }
+
+    // Refuse to commit a previewed plan if the balances moved since
+    if (fingerprint && fingerprint !== calculation.basis.fingerprint) {
+      return res.status(409).json({
+        message:
+          "Group balances changed since this plan was previewed. Please review it again.",
+      });
+    }
+
+    // Transfers already in flight must be resolved before they are replaced.
+    // Settlements from before plans existed have no plan and are replaced
+    // along with the active one.
+    const previous = await SettlementPlan.findOne({
+      group: groupId,
+      status: "active",
+    }).select("_id");
+    const inFlight = await Settlement.countDocuments({
+      group: groupId,
+      plan: { $in: previous ? [previous._id, null] : [null] },
+      $or: [
+        { status: { $in: ["sent", "disputed"] } },
+        {
+          status: { $in: ["pending", "partially_paid"] },
+          payments: { $elemMatch: { confirmedAt: null, voidedAt: null } },
+        },
+      ],
+    });
+    if (inFlight > 0) {
+      return res.status(409).json({
+        message:
+          "Some settlements in the current plan are awaiting confirmation. Confirm or dispute them before recalculating.",
+      });
+    }
+
+    // Whoever retires the active plan first commits; a concurrent commit
+    // finds it already gone
+    if (previous && !(await SettlementPlan.supersedeActive(previous._id))) {
+      return res.status(409).json({ message: PLAN_CHANGED });
+    }
+
+    const latestPlan = await SettlementPlan.findOne({ group: groupId })
+      .sort({ version: -1 })
+      .select("version");
+
+    let plan;
+    try {
+      plan = await SettlementPlan.create({
+        group: groupId,
+        version: (latestPlan?.version || 0) + 1,
+        mode,
+        currency: calculation.currency,
+        basis: calculation.basis,
+        createdBy: req.user._id,
+      });
+    } catch (error) {
+      // Another commit created the active plan (or took the version) first
+      if (error.code === 11000) {
+        return res.status(409).json({ message: PLAN_CHANGED });
+      }
+      throw error;
+    }
+
+    const savedSettlements = [];
+    for (const transfer of calculation.settlements) {
+      const settlement = new Settlement({ ...transfer, plan: plan._id });
+      await settlement.setActor(req.user._id).save();
+      savedSettlements.push(settlement);
+    }
 
-    // Save settlements to database
-    const savedSettlements = await Settlement.insertMany(settlements);
+    // Drop the untouched transfers of retired plans (and of no plan) and
+    // close partially paid ones at what was paid; the new plan covers
+    // whatever remains (one document at a time, so each change lands in the
+    // history)
+    const retiredPlans = await SettlementPlan.find({
+      group: groupId,
+      status: "superseded",
+    }).distinct("_id");
+    const retired = { group: groupId, plan: { $in: [...retiredPlans, null] } };
+
+    const untouched = await Settlement.find({
+      ...retired,
+      status: "pending",
+      payments: {
+        $not: { $elemMatch: { confirmedAt: null, voidedAt: null } },
+      },
+    });
+    for (const settlement of untouched) {
+      await settlement.setActor(req.user._id).deleteOne();
+    }
+
+    const partiallyPaid = await Settlement.find({
+      ...retired,
+      status: "partially_paid",
+    });
+    for (const settlement of partiallyPaid) {
+      await settlement.setActor(req.user._id).closeAtPaidAmount();
+    }
 
     // Populate the saved settlements
     await Settlement.populate(savedSettlements, [
-      { path: "fromUser", select: "username firstName lastName" },
-      { path: "toUser", select: "username firstName lastName" },
+      { path: "fromUser", select: "username firstName lastName status" },
+      { path: "toUser", select: "username firstName lastName status" },
     ]);
 
     res.json({
       message: "Settlements calculated successfully",
+      plan,
       settlements: savedSettlements,
     });
   } catch (error) {
     logger.error("Calculate settlements error:", error);
+    if (error.status === 400) {
+      return res.status(400).json({ message: error.message });
+    }
     res.status(500).json({ message: "Server error." });
   }
 };
 
-// Create manual settlement
+// Get the active settlement plan for a group
+const getGroupSettlementPlan = async (req, res) => {
+  try {
+    const { groupId } = req.params;
+
+    const group = await Group.findById(groupId);
+    if (!group) {
+      return res.status(404).json({ message: "Group not found." });
+    }
+
+    if (!group.isMember(req.user._id)) {
+      return res.status(403).json({ message: "Access denied." });
+    }
+
+    const plan = await SettlementPlan.findOne({
+      group: groupId,
+      status: "active",
+    }).populate("createdBy", "username firstName lastName");
+
+    if (!plan) {
+      return res.json({ plan: null, settlements: [] });
+    }
+
+    const settlements = await Settlement.find({ plan: plan._id })
+      .populate("fromUser", "username firstName lastName status")
+      .populate("toUser", "username firstName lastName status")
+      .sort({ createdAt: -1 });
+
+    res.json({ plan, settlements });
+  } catch (error) {
+    logger.error("Get settlement plan error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Create manual settlement, paid by the current user or by a guest on whose
+// behalf they record it
 const createSettlement = async (req, res) => {
   try {
     const { toUserId, groupId, amount, method = "other", notes } = req.body;
+    const fromUserId = req.body.fromUserId || req.user._id;
+
+    if (!isMinorUnitAmount(amount) || amount === 0) {
+      return res.status(400).json({
+        message:
+          "Settlement amount must be a positive whole number of minor units.",
+      });
+    }
+
+    if (!isChosenMethod(method)) {
+      return res.status(400).json({ message: INVALID_METHOD });
+    }
 
     // Check if user is member of the group
     const group = await Group.findById(groupId);
@@ -96,27 +344,43 @@ const createSettlement = async (req, res) => {
       return res.status(404).json({ message: "Group not found." });
     }
 
-    if (!group.isMember(req.user._id) || !group.isMember(toUserId)) {
+    if (
+      !group.isMember(req.user._id) ||
+      !group.isMember(fromUserId) ||
+      !group.isMember(toUserId)
+    ) {
       return res.status(403).json({ message: "Access denied." });
     }
 
+    if (fromUserId.toString() === toUserId.toString()) {
+      return res
+        .status(400)
+        .json({ message: "A settlement needs two different people." });
+    }
+
+    if (
+      fromUserId.toString() !== req.user._id.toString() &&
+      !(await User.exists({ _id: fromUserId, status: "placeholder" }))
+    ) {
+      return res.status(403).json({
+        message: "You can only record payments made by you or by a guest.",
+      });
+    }
+
     const settlement = new Settlement({
-      fromUser: req.user._id,
+      fromUser: fromUserId,
       toUser: toUserId,
       group: groupId,
       amount,
+      currency: group.currency,
       method,
       notes,
     });
 
-    await settlement.save();
+    await settlement.setActor(req.user._id).save();
 
     // Populate settlement data
-    await settlement.populate([
-      { path: "fromUser", select: "username firstName lastName" },
-      { path: "toUser", select: "username firstName lastName" },
-      { path: "group", select: "name" },
-    ]);
+    await settlement.populate(settlementPopulate);
 
     res.status(201).json({
       message: "Settlement created successfully",
@@ -128,44 +392,66 @@ const createSettlement = async (req, res) => {
   }
 };
 
-// Update settlement status
+// Update settlement status. Completion goes through the receiver's
+// confirmation; either party can cancel or reopen.
 const updateSettlementStatus = async (req, res) => {
   try {
-    const { settlementId } = req.params;
     const { status, method, notes } = req.body;
 
-    const settlement = await Settlement.findById(settlementId);
-    if (!settlement) {
-      return res.status(404).json({ message: "Settlement not found." });
+    const settlement = await findSettlementForParty(req, res);
+    if (!settlement) return;
+
+    if (status && !["pending", "completed", "cancelled"].includes(status)) {
+      return res.status(400).json({ message: "Invalid status." });
     }
 
-    // Check if user is involved in the settlement
-    if (
-      settlement.fromUser.toString() !== req.user._id.toString() &&
-      settlement.toUser.toString() !== req.user._id.toString()
-    ) {
-      return res.status(403).json({ message: "Access denied." });
+    if (method && !isChosenMethod(method)) {
+      return res.status(400).json({ message: INVALID_METHOD });
+    }
+
+    if (status === "completed" && !settlement.$locals.actsAs.receiver) {
+      return res.status(403).json({
+        message: "Only the receiver can confirm a settlement as completed.",
+      });
+    }
+
+    if (status === "completed" && settlement.status === "cancelled") {
+      return res
+        .status(400)
+        .json({ message: "Reopen a cancelled settlement before completing it." });
+    }
+
+    if (status === "cancelled" && settlement.status === "completed") {
+      return res
+        .status(400)
+        .json({ message: "Completed settlements cannot be cancelled." });
+    }
+
+    // Cancelled settlements drop out of balances, so confirmed money would
+    // disappear with them
+    if (status === "cancelled" && settlement.paidAmount > 0) {
+      return res.status(400).json({
+        message:
+          "Settlements with confirmed payments cannot be cancelled. Void the payments first.",
+      });
     }
 
     // Update settlement
-    if (status) settlement.status = status;
     if (method) settlement.method = method;
     if (notes !== undefined) settlement.notes = notes;
 
-    if (status === "completed") {
-      settlement.markCompleted();
-    } else if (status === "cancelled") {
-      settlement.cancel();
+    if (status === "completed" && settlement.status !== "completed") {
+      await settlement.markCompleted(req.user._id);
+    } else if (status === "cancelled" && settlement.status !== "cancelled") {
+      await settlement.cancel(req.user._id);
+    } else if (status === "pending" && settlement.status === "cancelled") {
+      await settlement.reopen(req.user._id);
+    } else {
+      await settlement.save();
     }
 
-    await settlement.save();
-
     // Populate settlement data
-    await settlement.populate([
-      { path: "fromUser", select: "username firstName lastName" },
-      { path: "toUser", select: "username firstName lastName" },
-      { path: "group", select: "name" },
-    ]);
+    await settlement.populate(settlementPopulate);
 
     res.json({
       message: "Settlement updated successfully",
@@ -177,25 +463,285 @@ const updateSettlementStatus = async (req, res) => {
   }
 };
 
-// Delete settlement
-const deleteSettlement = async (req, res) => {
+// Payer marks the remaining amount as sent
+const markSettlementSent = async (req, res) => {
   try {
-    const { settlementId } = req.params;
+    const { method, note } = req.body;
 
-    const settlement = await Settlement.findById(settlementId);
-    if (!settlement) {
-      return res.status(404).json({ message: "Settlement not found." });
+    const settlement = await findSettlementForParty(req, res);
+    if (!settlement) return;
+
+    if (!settlement.$locals.actsAs.payer) {
+      return res
+        .status(403)
+        .json({ message: "Only the payer can mark a settlement as sent." });
     }
 
-    // Check if user is involved in the settlement
-    if (
-      settlement.fromUser.toString() !== req.user._id.toString() &&
-      settlement.toUser.toString() !== req.user._id.toString()
-    ) {
-      return res.status(403).json({ message: "Access denied." });
+    if (method && !isChosenMethod(method)) {
+      return res.status(400).json({ message: INVALID_METHOD });
+    }
+
+    if (!["pending", "partially_paid", "disputed"].includes(settlement.status)) {
+      return res
+        .status(400)
+        .json({ message: "This settlement cannot be marked as sent." });
     }
 
-    await Settlement.findByIdAndDelete(settlementId);
+    if (method) settlement.method = method;
+    await settlement.markSent(req.user._id, note);
+
+    await settlement.populate(settlementPopulate);
+
+    res.json({
+      message: "Settlement marked as sent",
+      settlement,
+    });
+  } catch (error) {
+    logger.error("Mark settlement sent error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Receiver confirms the money was received
+const confirmSettlement = async (req, res) => {
+  try {
+    const settlement = await findSettlementForParty(req, res);
+    if (!settlement) return;
+
+    if (!settlement.$locals.actsAs.receiver) {
+      return res
+        .status(403)
+        .json({ message: "Only the receiver can confirm a settlement." });
+    }
+
+    if (!Settlement.OPEN_STATUSES.includes(settlement.status)) {
+      return res
+        .status(400)
+        .json({ message: "This settlement is not awaiting confirmation." });
+    }
+
+    await settlement.markCompleted(req.user._id);
+
+    await settlement.populate(settlementPopulate);
+
+    res.json({
+      message: "Settlement confirmed",
+      settlement,
+    });
+  } catch (error) {
+    logger.error("Confirm settlement error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Receiver disputes a settlement the payer marked as sent
+const disputeSettlement = async (req, res) => {
+  try {
+    const { reason } = req.body;
+
+    const settlement = await findSettlementForParty(req, res);
+    if (!settlement) return;
+
+    if (!settlement.$locals.actsAs.receiver) {
+      return res
+        .status(403)
+        .json({ message: "Only the receiver can dispute a settlement." });
+    }
+
+    if (settlement.status !== "sent") {
+      return res
+        .status(400)
+        .json({ message: "Only settlements marked as sent can be disputed." });
+    }
+
+    if (!reason || !reason.trim()) {
+      return res
+        .status(400)
+        .json({ message: "Please give a reason for the dispute." });
+    }
+
+    await settlement.dispute(req.user._id, reason);
+
+    await settlement.populate(settlementPopulate);
+
+    res.json({
+      message: "Settlement disputed",
+      settlement,
+    });
+  } catch (error) {
+    logger.error("Dispute settlement error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Record an installment against a settlement
+const recordSettlementPayment = async (req, res) => {
+  try {
+    const { amount, date, method, note } = req.body;
+
+    const settlement = await findSettlementForParty(req, res);
+    if (!settlement) return;
+
+    if (!Settlement.OPEN_STATUSES.includes(settlement.status)) {
+      return res
+        .status(400)
+        .json({ message: "Payments can only be recorded on open settlements." });
+    }
+
+    if (!isMinorUnitAmount(amount) || amount === 0) {
+      return res.status(400).json({
+        message:
+          "Payment amount must be a positive whole number of minor units.",
+      });
+    }
+
+    if (method && !isChosenMethod(method)) {
+      return res.status(400).json({ message: INVALID_METHOD });
+    }
+
+    // Payments still awaiting confirmation also count against the remainder
+    const awaitingConfirmation = settlement.payments
+      .filter((payment) => !payment.confirmedAt && !payment.voidedAt)
+      .reduce((sum, payment) => sum + payment.amount, 0);
+
+    if (amount > settlement.remainingAmount - awaitingConfirmation) {
+      return res.status(400).json({
+        message: "Payment amount cannot exceed the remaining amount.",
+      });
+    }
+
+    await settlement.recordPayment(
+      {
+        amount,
+        date: date ? new Date(date) : Date.now(),
+        method: method || settlement.method,
+        note,
+      },
+      req.user._id,
+      settlement.$locals.actsAs.receiver
+    );
+
+    // Populate settlement data
+    await settlement.populate(settlementPopulate);
+
+    res.status(201).json({
+      message: "Payment recorded successfully",
+      settlement,
+    });
+  } catch (error) {
+    logger.error("Record settlement payment error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Receiver confirms or disputes an installment the payer recorded
+const reviewSettlementPayment = (action) => async (req, res) => {
+  try {
+    const { paymentId } = req.params;
+    const { reason } = req.body;
+
+    const settlement = await findSettlementForParty(req, res);
+    if (!settlement) return;
+
+    if (!settlement.$locals.actsAs.receiver) {
+      return res
+        .status(403)
+        .json({ message: "Only the receiver can review payments." });
+    }
+
+    const payment = settlement.payments.id(paymentId);
+    if (!payment || payment.voidedAt || payment.confirmedAt) {
+      return res
+        .status(404)
+        .json({ message: "Payment awaiting confirmation not found." });
+    }
+
+    if (!Settlement.OPEN_STATUSES.includes(settlement.status)) {
+      return res
+        .status(400)
+        .json({ message: "Payments can only be reviewed on open settlements." });
+    }
+
+    if (action === "confirm") {
+      await settlement.confirmPayment(paymentId, req.user._id);
+    } else {
+      if (!reason || !reason.trim()) {
+        return res
+          .status(400)
+          .json({ message: "Please give a reason for the dispute." });
+      }
+      await settlement.disputePayment(paymentId, req.user._id, reason);
+    }
+
+    await settlement.populate(settlementPopulate);
+
+    res.json({
+      message:
+        action === "confirm" ? "Payment confirmed" : "Payment disputed",
+      settlement,
+    });
+  } catch (error) {
+    logger.error(`Payment ${action} error:`, error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+const confirmSettlementPayment = reviewSettlementPayment("confirm");
+const disputeSettlementPayment = reviewSettlementPayment("dispute");
+
+// Void a previously recorded installment
+const voidSettlementPayment = async (req, res) => {
+  try {
+    const { paymentId } = req.params;
+
+    const settlement = await findSettlementForParty(req, res);
+    if (!settlement) return;
+
+    const payment = settlement.payments.id(paymentId);
+    if (!payment || payment.voidedAt) {
+      return res.status(404).json({ message: "Payment not found." });
+    }
+
+    // Once confirmed, only the receiver can take a payment back
+    if (payment.confirmedAt && !settlement.$locals.actsAs.receiver) {
+      return res.status(403).json({
+        message: "Only the receiver can void a confirmed payment.",
+      });
+    }
+
+    await settlement.voidPayment(paymentId, req.user._id);
+
+    // Populate settlement data
+    await settlement.populate(settlementPopulate);
+
+    res.json({
+      message: "Payment voided successfully",
+      settlement,
+    });
+  } catch (error) {
+    logger.error("Void settlement payment error:", error);
+    res.status(500).json({ message: "Server error." });
+  }
+};
+
+// Delete settlement
+const deleteSettlement = async (req, res) => {
+  try {
+    const settlement = await findSettlementForParty(req, res);
+    if (!settlement) return;
+
+    // Anything paid or confirmed stays on record; cancelling is logged
+    const confirmedPayment = settlement.payments.some(
+      (payment) => payment.confirmedAt && !payment.voidedAt
+    );
+    if (settlement.status !== "pending" || confirmedPayment) {
+      return res.status(400).json({
+        message:
+          "Only pending settlements with no confirmed payments can be deleted. Cancel it instead.",
+      });
+    }
+
+    await settlement.deleteOne();
 
     res.json({ message: "Settlement deleted successfully" });
   } catch (error) {
@@ -210,24 +756,45 @@ const getSettlementStats = async (req, res) => {
     const { groupId } = req.query;
     const query = {
       $or: [{ fromUser: req.user._id }, { toUser: req.user._id }],
+      group: { $nin: await trashedGroupIds() },
     };
 
-    if (groupId) query.group = groupId;
+    if (groupId) query.group.$eq = groupId;
 
     const settlements = await Settlement.find(query);
 
+    const open = settlements.filter((s) =>
+      Settlement.OPEN_STATUSES.includes(s.status)
+    );
+    const active = settlements.filter((s) => s.status !== "cancelled");
+    // Amounts in different currencies can't be added up, so the totals are
+    // keyed by currency
+    const totalsOf = (list, field) =>
+      list.reduce((totals, s) => {
+        if (s[field] > 0) {
+          totals[s.currency] = (totals[s.currency] || 0) + s[field];
+        }
+        return totals;
+      }, {});
+
     const stats = {
       total: settlements.length,
       pending: settlements.filter((s) => s.status === "pending").length,
+      partiallyPaid: settlements.filter((s) => s.status === "partially_paid")
+        .length,
+      awaitingConfirmation: settlements.filter((s) => s.status === "sent")
+        .length,
+      disputed: settlements.filter((s) => s.status === "disputed").length,
       completed: settlements.filter((s) => s.status === "completed").length,
       cancelled: settlements.filter((s) => s.status === "cancelled").length,
-      totalAmount: settlements.reduce((sum, s) => sum + s.amount, 0),
-      pendingAmount: settlements
-        .filter((s) => s.status === "pending")
-        .reduce((sum, s) => sum + s.amount, 0),
-      completedAmount: settlements
-        .filter((s) => s.status === "completed")
-        .reduce((sum, s) => sum + s.amount, 0),
+      totalAmount: totalsOf(active, "amount"),
+      // Paid vs outstanding across installments
+      paidAmount: totalsOf(active, "paidAmount"),
+      outstandingAmount: totalsOf(open, "remainingAmount"),
+      completedAmount: totalsOf(
+        settlements.filter((s) => s.status === "completed"),
+        "amount"
+      ),
     };
 
     res.json({ stats });
@@ -241,8 +808,16 @@ module.exports = {
   getUserSettlements,
   getGroupSettlements,
   calculateGroupSettlements,
+  getGroupSettlementPlan,
   createSettlement,
   updateSettlementStatus,
+  markSettlementSent,
+  confirmSettlement,
+  disputeSettlement,
+  recordSettlementPayment,
+  confirmSettlementPayment,
+  disputeSettlementPayment,
+  voidSettlementPayment,
   deleteSettlement,
   getSettlementStats,
 };
@@ -0,0 +1,196 @@
+// Scheduler that turns due recurring-expense occurrences into expenses.
+// Each occurrence is keyed by (template, occurrence date) with a unique
+// index on Expense, so a run that is interrupted or repeated never creates
+// the same occurrence twice, and a server that was down catches up on
+// everything it missed when it next runs.
+const Expense = require("../models/Expense");
+const Group = require("../models/Group");
+const ExchangeRate = require("../models/ExchangeRate");
+const RecurringExpense = require("../models/RecurringExpense");
+const logger = require("../config/logger");
+const { idOf } = require("../utils/balances");
+const { buildSplits } = require("../utils/splits");
+const { applyConversion } = require("../utils/currency");
+
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+
+// Upper bound on occurrences created for one template in one run, so a
+// daily template after a very long outage cannot stall the scheduler
+const MAX_OCCURRENCES_PER_RUN = 400;
+
+const DUPLICATE_KEY = 11000;
+
+// Build the expense for one occurrence of a template.
+// Returns { expense } or { error }.
+const buildOccurrence = async (template, group, date) => {
+  const payers =
+    template.paidByMultiple.length > 1
+      ? template.paidByMultiple.map((payer) => ({
+          user: payer.user,
+          amount: payer.amount,
+        }))
+      : [];
+
+  // Everyone in the group shares, and the payers always do
+  const participants = group.members.map((member) => idOf(member.user));
+  [template.paidBy, ...payers.map((payer) => payer.user)].forEach((userId) => {
+    if (!participants.includes(idOf(userId))) {
+      participants.push(idOf(userId));
+    }
+  });
+
+  const { splits, error } = buildSplits({
+    splitType: template.splitType,
+    amount: template.amount,
+    participants,
+    customSplits: template.customSplits.map((split) => ({
+      userId: split.user,
+      amount: split.amount,
+      percentage: split.percentage,
+      shares: split.shares,
+      adjustment: split.adjustment,
+    })),
+    payerId: template.paidBy,
+  });
+  if (error) return { error };
+
+  const originalCurrency = template.currency || group.currency;
+  const conversion = await ExchangeRate.resolveConversion(
+    originalCurrency,
+    group.currency,
+    date,
+    template.exchangeRate
+  );
+  if (conversion.error) return { error: conversion.error };
+
+  const expense = new Expense({
+    description: template.description,
+    amount: template.amount,
+    group: group._id,
+    paidBy: template.paidBy,
+    paidByMultiple: payers,
+    category: template.category,
+    date,
+    splitType: template.splitType,
+    splits,
+    notes: template.notes,
+    recurringExpense: template._id,
+    occurrenceDate: date,
+  });
+  applyConversion(expense, {
+    currency: group.currency,
+    originalCurrency,
+    rate: conversion.rate,
+    date: conversion.date,
+  });
+
+  return { expense };
+};
+
+// Create every due occurrence of one template, up to `now`
+const materializeTemplate = async (template, now) => {
+  const group = await Group.findById(template.group).setOptions({
+    withDeleted: true,
+  });
+  // Held while the group is in the trash and caught up if it is restored
+  if (group && group.isDeleted()) return 0;
+  if (!group) {
+    template.status = "ended";
+    template.lastError = "The group no longer exists.";
+    await template.save();
+    return 0;
+  }
+
+  let created = 0;
+  let processed = 0;
+  template.lastError = undefined;
+
+  while (
+    template.status === "active" &&
+    template.nextOccurrence &&
+    template.nextOccurrence <= now &&
+    processed < MAX_OCCURRENCES_PER_RUN
+  ) {
+    const date = template.nextOccurrence;
+
+    if (!template.isSkipped(date)) {
+      const { expense, error } = await buildOccurrence(template, group, date);
+      if (error) {
+        // Leave the occurrence due so it is retried on the next run
+        template.lastError = error;
+        logger.warn(
+          `Recurring expense ${template._id} could not create the ${date
+            .toISOString()
+            .slice(0, 10)} occurrence: ${error}`
+        );
+        break;
+      }
+
+      try {
+        await expense.save();
+        created++;
+      } catch (error) {
+        // Already created by an earlier, interrupted run
+        if (error.code !== DUPLICATE_KEY) throw error;
+      }
+    }
+
+    template.advance();
+    processed++;
+  }
+
+  template.lastRunAt = now;
+  await template.save();
+  return created;
+};
+
+// Create every due occurrence across all active templates
+const materializeDueExpenses = async (now = new Date()) => {
+  const templates = await RecurringExpense.find({
+    status: "active",
+    nextOccurrence: { $lte: now },
+  });
+
+  let created = 0;
+  for (const template of templates) {
+    try {
+      created += await materializeTemplate(template, now);
+    } catch (error) {
+      logger.error(`Recurring expense ${template._id} error:`, error);
+    }
+  }
+
+  if (created > 0) {
+    logger.info(`Created ${created} expenses from recurring templates`);
+  }
+  return created;
+};
+
+// Run now and then every RECURRING_EXPENSES_INTERVAL_MS (default: hourly)
+const startRecurringExpenseScheduler = () => {
+  const intervalMs =
+    Number(process.env.RECURRING_EXPENSES_INTERVAL_MS) || DEFAULT_INTERVAL_MS;
+
+  let running = false;
+  const run = async () => {
+    // A slow run is never overlapped by the next tick
+    if (running) return;
+    running = true;
+    try {
+      await materializeDueExpenses();
+    } catch (error) {
+      logger.error("Recurring expense scheduler error:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  return setInterval(run, intervalMs);
+};
+
+module.exports = {
+  materializeTemplate,
+  materializeDueExpenses,
+  startRecurringExpenseScheduler,
+};
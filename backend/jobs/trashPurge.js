@@ -0,0 +1,108 @@
+// Permanent deletion of trashed expenses and groups. Admins can purge an
+// item straight away; anything left in the trash longer than
+// TRASH_RETENTION_DAYS is purged by the scheduler.
+const Expense = require("../models/Expense");
+const Budget = require("../models/Budget");
+const Category = require("../models/Category");
+const ExpenseComment = require("../models/ExpenseComment");
+const Group = require("../models/Group");
+const User = require("../models/User");
+const Settlement = require("../models/Settlement");
+const SettlementPlan = require("../models/SettlementPlan");
+const RecurringExpense = require("../models/RecurringExpense");
+const AuditLog = require("../models/AuditLog");
+const logger = require("../config/logger");
+const { removeReceiptFiles } = require("../utils/receipts");
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DEFAULT_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const trashRetentionDays = () =>
+  Number(process.env.TRASH_RETENTION_DAYS) || DEFAULT_RETENTION_DAYS;
+
+// Stored files go last; the expense is gone either way, so a leftover file
+// is only logged
+const removeReceipt = (expense) =>
+  removeReceiptFiles(expense.receiptFile).catch((error) =>
+    logger.error(`Remove receipt of purged expense ${expense._id} error:`, error)
+  );
+
+// Permanently delete one trashed expense. The purge is the last entry in
+// its history; `actorId` is unset when the retention period ran out.
+const purgeExpense = async (expense, actorId) => {
+  expense.$locals.historyAction = "purge";
+  await expense.setActor(actorId).deleteOne();
+  await ExpenseComment.deleteMany({ expense: expense._id });
+  await removeReceipt(expense);
+};
+
+// Permanently delete a trashed group with everything that belonged to it
+const purgeGroup = async (group) => {
+  const expenses = await Expense.find({ group: group._id })
+    .setOptions({ withDeleted: true })
+    .select("receiptFile");
+
+  await Expense.deleteMany({ group: group._id }).setOptions({
+    withDeleted: true,
+  });
+  await ExpenseComment.deleteMany({ group: group._id });
+  await Settlement.deleteMany({ group: group._id });
+  await SettlementPlan.deleteMany({ group: group._id });
+  await RecurringExpense.deleteMany({ group: group._id });
+  await AuditLog.deleteMany({ group: group._id });
+  await Category.deleteMany({ group: group._id });
+  await Budget.deleteMany({ group: group._id });
+  await User.updateMany(
+    { groups: group._id },
+    { $pull: { groups: group._id } }
+  );
+  await group.deleteOne();
+
+  await Promise.all(expenses.map(removeReceipt));
+};
+
+// Purge everything that has been in the trash longer than the retention
+// period
+const purgeExpiredTrash = async (now = new Date()) => {
+  const cutoff = new Date(now.getTime() - trashRetentionDays() * DAY_MS);
+  const expired = { deletedAt: { $ne: null, $lte: cutoff } };
+
+  const groups = await Group.find(expired);
+  for (const group of groups) {
+    await purgeGroup(group);
+  }
+
+  const expenses = await Expense.find(expired);
+  for (const expense of expenses) {
+    await purgeExpense(expense);
+  }
+
+  if (groups.length + expenses.length > 0) {
+    logger.info(
+      `Purged ${groups.length} groups and ${expenses.length} expenses from the trash`
+    );
+  }
+};
+
+// Run now and then every TRASH_PURGE_INTERVAL_MS (default: daily)
+const startTrashPurgeScheduler = () => {
+  const intervalMs =
+    Number(process.env.TRASH_PURGE_INTERVAL_MS) || DEFAULT_INTERVAL_MS;
+
+  const run = () =>
+    purgeExpiredTrash().catch((error) =>
+      logger.error("Trash purge error:", error)
+    );
+
+  run();
+  return setInterval(run, intervalMs);
+};
+
+module.exports = {
+  trashRetentionDays,
+  purgeExpense,
+  purgeGroup,
+  purgeExpiredTrash,
+  startTrashPurgeScheduler,
+};
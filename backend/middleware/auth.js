@@ -10,6 +10,10 @@ const auth = async (req, res, next) => {
     }
     
     const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    // Tokens made for something else (like invite links) aren't sessions
+    if (decoded.purpose) {
+      return res.status(401).json({ message: 'Invalid token.' });
+    }
     const user = await User.findById(decoded.userId).select('-password');
     
     if (!user) {
@@ -29,6 +33,7 @@ const optionalAuth = async (req, res, next) => {
     
     if (token) {
       const decoded = jwt.verify(token, process.env.JWT_SECRET);
+      if (decoded.purpose) return next();
       const user = await User.findById(decoded.userId).select('-password');
       req.user = user;
     }
@@ -40,4 +45,12 @@ const optionalAuth = async (req, res, next) => {
   }
 };
 
-module.exports = { auth, optionalAuth };
+// Must run after auth
+const requireAdmin = (req, res, next) => {
+  if (!req.user || !req.user.isAdmin) {
+    return res.status(403).json({ message: 'Access denied. Admin privileges required.' });
+  }
+  next();
+};
+
+module.exports = { auth, optionalAuth, requireAdmin };
@@ -0,0 +1,52 @@
+const multer = require('multer');
+const { MAX_RECEIPT_SIZE, RECEIPT_TYPES } = require('../utils/receipts');
+
+// Receipts are checked and thumbnailed before storage, so keep them in memory
+const receiptUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_RECEIPT_SIZE, files: 1 },
+  fileFilter: (req, file, cb) => {
+    if (!RECEIPT_TYPES[file.mimetype]) {
+      const error = new Error('Receipts must be JPEG, PNG, WebP or PDF files.');
+      error.status = 400;
+      return cb(error);
+    }
+    cb(null, true);
+  },
+}).single('receipt');
+
+// Expense imports are parsed straight from memory too
+const MAX_IMPORT_SIZE = 5 * 1024 * 1024;
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMPORT_SIZE, files: 1 },
+}).single('file');
+
+// Answer upload problems with a 4xx instead of falling through to the
+// generic 500 handler
+const handleUpload = (upload, maxSize) => (req, res, next) => {
+  upload(req, res, (err) => {
+    if (!err) return next();
+
+    if (err instanceof multer.MulterError) {
+      if (err.code === 'LIMIT_FILE_SIZE') {
+        const limitMb = maxSize / (1024 * 1024);
+        return res
+          .status(413)
+          .json({ message: `File is too large. The limit is ${limitMb} MB.` });
+      }
+      return res.status(400).json({ message: err.message });
+    }
+
+    if (err.status) {
+      return res.status(err.status).json({ message: err.message });
+    }
+
+    next(err);
+  });
+};
+
+module.exports = {
+  receiptUpload: handleUpload(receiptUpload, MAX_RECEIPT_SIZE),
+  importUpload: handleUpload(importUpload, MAX_IMPORT_SIZE),
+};
@@ -0,0 +1,69 @@
+const mongoose = require("mongoose");
+
+const ENTITY_TYPES = ["Expense", "Settlement"];
+const ACTIONS = ["create", "update", "delete", "restore", "purge"];
+
+// One versioned change to an expense or settlement
+const auditLogSchema = new mongoose.Schema({
+  entityType: {
+    type: String,
+    enum: ENTITY_TYPES,
+    required: true,
+  },
+  entity: {
+    type: mongoose.Schema.Types.ObjectId,
+    refPath: "entityType",
+    required: true,
+  },
+  group: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Group",
+  },
+  // 1 for the first recorded change of an entity, then counting up
+  version: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  action: {
+    type: String,
+    enum: ACTIONS,
+    required: true,
+  },
+  // Missing for changes made by the server itself (e.g. recurring expenses)
+  actor: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    default: null,
+  },
+  changes: [
+    {
+      _id: false,
+      field: {
+        type: String,
+        required: true,
+      },
+      from: mongoose.Schema.Types.Mixed,
+      to: mongoose.Schema.Types.Mixed,
+    },
+  ],
+  // The entity as it was after this change (before it, for deletes)
+  snapshot: {
+    type: mongoose.Schema.Types.Mixed,
+  },
+  // Version whose snapshot a restore brought back
+  restoredFrom: {
+    type: Number,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+auditLogSchema.index({ entity: 1, version: 1 }, { unique: true });
+auditLogSchema.index({ group: 1, createdAt: -1 });
+
+auditLogSchema.statics.ENTITY_TYPES = ENTITY_TYPES;
+
+module.exports = mongoose.model("AuditLog", auditLogSchema);
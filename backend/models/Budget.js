@@ -0,0 +1,63 @@
+const mongoose = require("mongoose");
+const { minorUnitValidator } = require("../utils/money");
+
+// What happens to the difference between a month's budget and its spending:
+// "none" starts every month afresh, "unspent" carries leftover money into
+// the next month, and "full" carries overspending forward as well
+const ROLLOVER_MODES = ["none", "unspent", "full"];
+
+// Monthly spending limit for a group, or for one category of it
+const budgetSchema = new mongoose.Schema({
+  group: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Group",
+    required: true,
+  },
+  // Null for a budget covering all of the group's spending
+  category: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Category",
+    default: null,
+  },
+  // Minor units of the group currency, per month
+  amount: {
+    type: Number,
+    required: true,
+    min: 1,
+    validate: minorUnitValidator,
+  },
+  rollover: {
+    type: String,
+    enum: ROLLOVER_MODES,
+    default: "none",
+  },
+  // First month the budget applies to; rollover is counted from here
+  startDate: {
+    type: Date,
+    default: Date.now,
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+budgetSchema.index({ group: 1, category: 1 }, { unique: true });
+
+// Update timestamp on save
+budgetSchema.pre("save", function (next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
+budgetSchema.statics.ROLLOVER_MODES = ROLLOVER_MODES;
+
+module.exports = mongoose.model("Budget", budgetSchema);
@@ -0,0 +1,119 @@
+const mongoose = require("mongoose");
+
+// Categories every group starts with. `key` ties a built-in category to the
+// fixed value expenses stored before categories became per-group.
+const DEFAULT_CATEGORIES = [
+  { key: "food", name: "Food", icon: "🍽️", color: "#f97316" },
+  { key: "transport", name: "Transport", icon: "🚗", color: "#3b82f6" },
+  { key: "entertainment", name: "Entertainment", icon: "🎬", color: "#a855f7" },
+  { key: "shopping", name: "Shopping", icon: "🛍️", color: "#ec4899" },
+  { key: "bills", name: "Bills", icon: "📄", color: "#eab308" },
+  { key: "other", name: "Other", icon: "💰", color: "#6b7280" },
+];
+
+// Used when an expense names no category, or its category is deleted
+const FALLBACK_KEY = "other";
+
+const categorySchema = new mongoose.Schema({
+  // Null for the shared set used by expenses outside any group
+  group: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Group",
+    default: null,
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 50,
+  },
+  icon: {
+    type: String,
+    trim: true,
+    default: "💰",
+  },
+  color: {
+    type: String,
+    match: /^#[0-9a-f]{6}$/i,
+    default: "#6b7280",
+  },
+  // Optional top-level category this one is grouped under
+  parent: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Category",
+    default: null,
+  },
+  key: {
+    type: String,
+    default: null,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+categorySchema.index({ group: 1, name: 1 });
+// Keeps concurrent first loads from seeding the defaults twice
+categorySchema.index(
+  { group: 1, key: 1 },
+  { unique: true, partialFilterExpression: { key: { $type: "string" } } }
+);
+
+// Categories of a group (or the shared set for `null`), seeding the
+// defaults the first time
+categorySchema.statics.forGroup = async function (groupId = null) {
+  const find = () => this.find({ group: groupId }).sort({ createdAt: 1 });
+
+  const categories = await find();
+  if (categories.length > 0) return categories;
+
+  try {
+    await this.insertMany(
+      DEFAULT_CATEGORIES.map((category) => ({ ...category, group: groupId })),
+      { ordered: false }
+    );
+  } catch (error) {
+    // Another request seeded them first
+    if (error.code !== 11000) throw error;
+  }
+  return find();
+};
+
+// Pick a category out of a group's list by id, built-in key or name. An
+// empty value picks the fallback category; an unknown one returns null.
+categorySchema.statics.pick = function (categories, value) {
+  if (!value) {
+    return (
+      categories.find((category) => category.key === FALLBACK_KEY) ||
+      categories[0] ||
+      null
+    );
+  }
+
+  const wanted = String(value).toLowerCase();
+  return (
+    categories.find(
+      (category) =>
+        category._id.toString() === wanted ||
+        category.key === wanted ||
+        category.name.toLowerCase() === wanted
+    ) || null
+  );
+};
+
+// Resolve a category value sent for an expense in the given group
+categorySchema.statics.resolve = async function (groupId, value) {
+  return this.pick(await this.forGroup(groupId), value);
+};
+
+// Ids to match when filtering by a category: itself and its subcategories
+categorySchema.statics.idsWithChildren = async function (categoryId) {
+  const children = await this.find({ parent: categoryId }).select("_id");
+  return [categoryId, ...children.map((child) => child._id)];
+};
+
+categorySchema.statics.DEFAULT_CATEGORIES = DEFAULT_CATEGORIES;
+categorySchema.statics.FALLBACK_KEY = FALLBACK_KEY;
+
+module.exports = mongoose.model("Category", categorySchema);
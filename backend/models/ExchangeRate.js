@@ -0,0 +1,113 @@
+const mongoose = require("mongoose");
+
+// One unit of `base` is worth `rate` units of `quote` from `date` onwards
+const exchangeRateSchema = new mongoose.Schema({
+  base: {
+    type: String,
+    required: true,
+    uppercase: true,
+    trim: true,
+    match: /^[A-Z]{3}$/,
+  },
+  quote: {
+    type: String,
+    required: true,
+    uppercase: true,
+    trim: true,
+    match: /^[A-Z]{3}$/,
+  },
+  rate: {
+    type: Number,
+    required: true,
+    validate: {
+      validator: (value) => value > 0,
+      message: "Rate must be greater than zero",
+    },
+  },
+  date: {
+    type: Date,
+    required: true,
+  },
+  source: {
+    type: String,
+    enum: ["manual", "import"],
+    default: "manual",
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// At most one rate per currency pair per day
+exchangeRateSchema.index({ base: 1, quote: 1, date: -1 }, { unique: true });
+
+// Rates are daily; strip the time so lookups and upserts line up
+exchangeRateSchema.statics.startOfDay = function (date) {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+};
+
+// Find the rate to convert `from` into `to` on a given date, using the most
+// recent rate on or before that date. Falls back to the inverse pair.
+// Returns { rate, date } or null when the table has no usable rate.
+exchangeRateSchema.statics.resolve = async function (from, to, date) {
+  if (from === to) return { rate: 1, date: null };
+
+  const onOrBefore = { $lte: new Date(date) };
+
+  const [direct, inverse] = await Promise.all([
+    this.findOne({ base: from, quote: to, date: onOrBefore }).sort({
+      date: -1,
+    }),
+    this.findOne({ base: to, quote: from, date: onOrBefore }).sort({
+      date: -1,
+    }),
+  ]);
+
+  // Prefer whichever pair was quoted more recently
+  if (direct && (!inverse || direct.date >= inverse.date)) {
+    return { rate: direct.rate, date: direct.date };
+  }
+  if (inverse) {
+    return { rate: 1 / inverse.rate, date: inverse.date };
+  }
+  return null;
+};
+
+// Work out the rate for converting an expense into the group currency.
+// A rate entered by the user wins over the rate table.
+// Returns { rate, date } or { error }.
+exchangeRateSchema.statics.resolveConversion = async function (
+  from,
+  to,
+  date,
+  manualRate
+) {
+  if (from === to) return { rate: 1, date: null };
+
+  if (manualRate !== undefined && manualRate !== null && manualRate !== "") {
+    const rate = Number(manualRate);
+    if (!Number.isFinite(rate) || rate <= 0) {
+      return { error: "Exchange rate must be a number greater than zero." };
+    }
+    return { rate, date: null };
+  }
+
+  const resolved = await this.resolve(from, to, date);
+  if (!resolved) {
+    return {
+      error: `No ${from} to ${to} exchange rate on or before ${new Date(date)
+        .toISOString()
+        .slice(0, 10)}. Enter the rate manually or ask an admin to add it.`,
+    };
+  }
+  return resolved;
+};
+
+module.exports = mongoose.model("ExchangeRate", exchangeRateSchema);
@@ -1,4 +1,9 @@
 const mongoose = require("mongoose");
+const { minorUnitValidator } = require("../utils/money");
+const { idOf } = require("../utils/balances");
+const { SPLIT_TYPES, buildSplits } = require("../utils/splits");
+const { historyPlugin } = require("../utils/history");
+const { softDeletePlugin } = require("../utils/softDelete");
 
 const expenseSchema = new mongoose.Schema({
   description: {
@@ -6,15 +11,37 @@ const expenseSchema = new mongoose.Schema({
     required: true,
     trim: true,
   },
+  // Minor units of `currency` (e.g. cents)
   amount: {
     type: Number,
     required: true,
     min: 0,
+    validate: minorUnitValidator,
   },
+  // Currency of `amount` and the split amounts; always the group currency
   currency: {
     type: String,
     default: "LKR",
   },
+  // What was actually paid, in minor units of `originalCurrency`, when the
+  // expense was in another currency
+  originalAmount: {
+    type: Number,
+    min: 0,
+    validate: minorUnitValidator,
+  },
+  originalCurrency: {
+    type: String,
+  },
+  // Units of `currency` per unit of `originalCurrency` (major units)
+  exchangeRate: {
+    type: Number,
+    default: 1,
+  },
+  // Effective date of the rate table entry used, if any
+  exchangeRateDate: {
+    type: Date,
+  },
   paidBy: {
     type: mongoose.Schema.Types.ObjectId,
     ref: "User",
@@ -31,6 +58,7 @@ const expenseSchema = new mongoose.Schema({
         type: Number,
         required: true,
         min: 0,
+        validate: minorUnitValidator,
       },
     },
   ],
@@ -40,9 +68,8 @@ const expenseSchema = new mongoose.Schema({
     required: false, // Make group optional for non-group expenses
   },
   category: {
-    type: String,
-    enum: ["food", "transport", "entertainment", "shopping", "bills", "other"],
-    default: "other",
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Category",
   },
   date: {
     type: Date,
@@ -59,21 +86,86 @@ const expenseSchema = new mongoose.Schema({
         type: Number,
         required: true,
         min: 0,
+        validate: minorUnitValidator,
       },
       percentage: {
         type: Number,
         min: 0,
         max: 100,
       },
+      // Share weight, for "shares" splits
+      shares: {
+        type: Number,
+        min: 0,
+      },
+      // Minor units added to (or taken off) the equal share, for
+      // "adjustment" splits; in the currency the expense was entered in
+      adjustment: {
+        type: Number,
+        validate: minorUnitValidator,
+      },
       isPaid: {
         type: Boolean,
         default: false,
       },
     },
   ],
+  // Receipt lines for "itemized" splits, in minor units of the currency the
+  // expense was entered in
+  items: [
+    {
+      name: {
+        type: String,
+        required: true,
+        trim: true,
+      },
+      // Unit price
+      price: {
+        type: Number,
+        required: true,
+        min: 0,
+        validate: minorUnitValidator,
+      },
+      quantity: {
+        type: Number,
+        default: 1,
+        min: 1,
+        validate: {
+          validator: Number.isInteger,
+          message: "{PATH} must be a whole number",
+        },
+      },
+      assignedTo: [
+        {
+          type: mongoose.Schema.Types.ObjectId,
+          ref: "User",
+        },
+      ],
+    },
+  ],
+  // Bill-wide charges on an itemized receipt, shared in proportion to each
+  // person's item subtotal
+  tax: {
+    type: Number,
+    default: 0,
+    min: 0,
+    validate: minorUnitValidator,
+  },
+  serviceCharge: {
+    type: Number,
+    default: 0,
+    min: 0,
+    validate: minorUnitValidator,
+  },
+  tip: {
+    type: Number,
+    default: 0,
+    min: 0,
+    validate: minorUnitValidator,
+  },
   splitType: {
     type: String,
-    enum: ["equal", "percentage", "custom"],
+    enum: SPLIT_TYPES,
     default: "equal",
   },
   notes: {
@@ -84,6 +176,27 @@ const expenseSchema = new mongoose.Schema({
     type: String, // URL to receipt image
     default: "",
   },
+  // Stored receipt file behind `receipt`
+  receiptFile: {
+    key: String,
+    thumbnailKey: String,
+    contentType: String,
+    size: Number,
+    originalName: String,
+    uploadedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+    },
+    uploadedAt: Date,
+  },
+  // Set on expenses created from a recurring template, one per occurrence
+  recurringExpense: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "RecurringExpense",
+  },
+  occurrenceDate: {
+    type: Date,
+  },
   createdAt: {
     type: Date,
     default: Date.now,
@@ -94,66 +207,98 @@ const expenseSchema = new mongoose.Schema({
   },
 });
 
+// A recurring occurrence is only ever materialised once
+expenseSchema.index(
+  { recurringExpense: 1, occurrenceDate: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { recurringExpense: { $exists: true } },
+  }
+);
+
+// Search: words in the description and notes, plus the fields the other
+// search terms match on (a $text search inside $or needs every clause
+// indexed)
+expenseSchema.index(
+  { description: "text", notes: "text" },
+  { weights: { description: 3, notes: 1 }, name: "expense_text" }
+);
+expenseSchema.index({ category: 1 });
+expenseSchema.index({ paidBy: 1 });
+expenseSchema.index({ "splits.user": 1 });
+
+expenseSchema.plugin(softDeletePlugin);
+expenseSchema.plugin(historyPlugin, { entityType: "Expense" });
+
 // Update timestamp on save
 expenseSchema.pre("save", function (next) {
   this.updatedAt = Date.now();
   next();
 });
 
-// Method to calculate equal splits
-expenseSchema.methods.calculateEqualSplits = function (memberIds) {
-  const splitAmount = this.amount / memberIds.length;
-
-  this.splits = memberIds.map((userId) => ({
-    user: userId,
-    amount: splitAmount,
-    percentage: 100 / memberIds.length,
-    isPaid: false,
-  }));
+// Apply splits computed by the shared split rules, throwing on invalid input
+const applySplits = (expense, options) => {
+  const { splits, error } = buildSplits({ amount: expense.amount, ...options });
+  if (error) {
+    throw new Error(error);
+  }
+  expense.splits = splits;
+  expense.splitType = options.splitType;
+  return expense.save();
+};
 
-  this.splitType = "equal";
-  return this.save();
+// Method to calculate equal splits; leftover units start with the payer
+expenseSchema.methods.calculateEqualSplits = function (memberIds) {
+  return applySplits(this, {
+    splitType: "equal",
+    participants: memberIds,
+    payerId: this.paidBy,
+  });
 };
 
 // Method to calculate percentage splits
 expenseSchema.methods.calculatePercentageSplits = function (splits) {
-  this.splits = splits;
-  this.splitType = "percentage";
-
-  // Validate total percentage equals 100
-  const totalPercentage = splits.reduce(
-    (sum, split) => sum + split.percentage,
-    0
-  );
-  if (Math.abs(totalPercentage - 100) > 0.01) {
-    throw new Error("Total percentage must equal 100%");
-  }
+  return applySplits(this, {
+    splitType: "percentage",
+    customSplits: splits.map((split) => ({
+      userId: split.user,
+      percentage: split.percentage,
+    })),
+  });
+};
 
-  // Calculate amounts based on percentages
-  this.splits.forEach((split) => {
-    split.amount = (this.amount * split.percentage) / 100;
+// Method to calculate splits from share weights
+expenseSchema.methods.calculateShareSplits = function (splits) {
+  return applySplits(this, {
+    splitType: "shares",
+    customSplits: splits.map((split) => ({
+      userId: split.user,
+      shares: split.shares,
+    })),
   });
+};
 
-  return this.save();
+// Method to split equally after per-person adjustments
+expenseSchema.methods.calculateAdjustmentSplits = function (splits) {
+  return applySplits(this, {
+    splitType: "adjustment",
+    customSplits: splits.map((split) => ({
+      userId: split.user,
+      adjustment: split.adjustment,
+    })),
+    payerId: this.paidBy,
+  });
 };
 
 // Method to set custom splits
 expenseSchema.methods.setCustomSplits = function (splits) {
-  this.splits = splits;
-  this.splitType = "custom";
-
-  // Validate total amount equals expense amount
-  const totalAmount = splits.reduce((sum, split) => sum + split.amount, 0);
-  if (Math.abs(totalAmount - this.amount) > 0.01) {
-    throw new Error("Total split amount must equal expense amount");
-  }
-
-  // Calculate percentages
-  this.splits.forEach((split) => {
-    split.percentage = (split.amount / this.amount) * 100;
+  return applySplits(this, {
+    splitType: "custom",
+    customSplits: splits.map((split) => ({
+      userId: split.user,
+      amount: split.amount,
+    })),
   });
-
-  return this.save();
 };
 
 // Method to mark split as paid
@@ -182,4 +327,15 @@ expenseSchema.methods.getTotalUnpaid = function () {
     .reduce((sum, split) => sum + split.amount, 0);
 };
 
+// Method to check if a user paid for or shares in the expense
+expenseSchema.methods.involves = function (userId) {
+  return [
+    this.paidBy,
+    ...this.paidByMultiple.map((payer) => payer.user),
+    ...this.splits.map((split) => split.user),
+  ]
+    .map(idOf)
+    .includes(idOf(userId));
+};
+
 module.exports = mongoose.model("Expense", expenseSchema);
@@ -0,0 +1,52 @@
+const mongoose = require("mongoose");
+
+// How long after posting a comment its author can still edit it
+const EDIT_WINDOW_MINUTES = 15;
+
+const expenseCommentSchema = new mongoose.Schema({
+  expense: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Expense",
+    required: true,
+  },
+  group: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Group",
+  },
+  author: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  body: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 2000,
+  },
+  // Users @mentioned in the body
+  mentions: [
+    {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+    },
+  ],
+  editedAt: {
+    type: Date,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+expenseCommentSchema.index({ expense: 1, createdAt: 1 });
+
+// Method to check if the comment can still be edited
+expenseCommentSchema.methods.isEditable = function (now = new Date()) {
+  return now - this.createdAt <= EDIT_WINDOW_MINUTES * 60 * 1000;
+};
+
+expenseCommentSchema.statics.EDIT_WINDOW_MINUTES = EDIT_WINDOW_MINUTES;
+
+module.exports = mongoose.model("ExpenseComment", expenseCommentSchema);
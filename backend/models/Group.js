@@ -1,4 +1,5 @@
 const mongoose = require("mongoose");
+const { softDeletePlugin } = require("../utils/softDelete");
 
 const groupSchema = new mongoose.Schema({
   name: {
@@ -48,6 +49,8 @@ const groupSchema = new mongoose.Schema({
   },
 });
 
+groupSchema.plugin(softDeletePlugin);
+
 // Update timestamp on save
 groupSchema.pre("save", function (next) {
   this.updatedAt = Date.now();
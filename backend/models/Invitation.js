@@ -0,0 +1,143 @@
+const mongoose = require("mongoose");
+const jwt = require("jsonwebtoken");
+
+// How long invitations stay open unless the admin picks otherwise
+const DEFAULT_EXPIRY_DAYS = { email: 14, link: 7 };
+const MAX_EXPIRY_DAYS = 30;
+
+// Invite tokens share the login secret, so they say what they are for and
+// sessions refuse them
+const TOKEN_PURPOSE = "invitation";
+
+// An invitation to join a group. Email invitations are for one pending
+// user and are used up once someone accepts them; link invitations let
+// anyone with the link join until they expire or are revoked.
+const invitationSchema = new mongoose.Schema({
+  group: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Group",
+    required: true,
+  },
+  // Email invitations only
+  email: {
+    type: String,
+    trim: true,
+    lowercase: true,
+    default: null,
+  },
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    default: null,
+  },
+  role: {
+    type: String,
+    enum: ["admin", "member"],
+    default: "member",
+  },
+  invitedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  revokedAt: {
+    type: Date,
+    default: null,
+  },
+  revokedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+  },
+  acceptedAt: {
+    type: Date,
+    default: null,
+  },
+  acceptedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+  },
+  // Everyone who joined through a link invitation
+  uses: [
+    {
+      user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+      },
+      at: {
+        type: Date,
+        default: Date.now,
+      },
+    },
+  ],
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+invitationSchema.index({ group: 1, createdAt: -1 });
+invitationSchema.index({ user: 1 });
+
+invitationSchema.virtual("kind").get(function () {
+  return this.email ? "email" : "link";
+});
+
+// Whether the invitation can still be accepted
+invitationSchema.methods.isOpen = function () {
+  return !this.revokedAt && !this.acceptedAt && this.expiresAt > new Date();
+};
+
+// Signed token for the invitation's link. It expires with the invitation;
+// revoking is checked against the stored invitation.
+invitationSchema.methods.createToken = function () {
+  return jwt.sign(
+    {
+      purpose: TOKEN_PURPOSE,
+      invitation: this._id.toString(),
+      exp: Math.floor(this.expiresAt.getTime() / 1000),
+    },
+    process.env.JWT_SECRET
+  );
+};
+
+invitationSchema.methods.link = function () {
+  const appUrl =
+    process.env.APP_URL || process.env.CORS_ORIGIN || "http://localhost:3000";
+  return `${appUrl.replace(/\/$/, "")}/invite/${this.createToken()}`;
+};
+
+// Static method to find the invitation a token was signed for. Returns null
+// for tampered or expired tokens.
+invitationSchema.statics.fromToken = async function (token) {
+  let payload;
+  try {
+    payload = jwt.verify(token, process.env.JWT_SECRET);
+  } catch (error) {
+    return null;
+  }
+  if (
+    payload.purpose !== TOKEN_PURPOSE ||
+    !mongoose.isValidObjectId(payload.invitation)
+  ) {
+    return null;
+  }
+  return this.findById(payload.invitation);
+};
+
+// Expiry date for an invitation of a kind, from the number of days asked
+// for (clamped to 1-30). Returns null when the days aren't a number.
+invitationSchema.statics.expiryFor = function (kind, days) {
+  const count =
+    days === undefined || days === null || days === ""
+      ? DEFAULT_EXPIRY_DAYS[kind]
+      : Number(days);
+  if (!Number.isFinite(count)) return null;
+  const clamped = Math.min(Math.max(Math.round(count), 1), MAX_EXPIRY_DAYS);
+  return new Date(Date.now() + clamped * 24 * 60 * 60 * 1000);
+};
+
+module.exports = mongoose.model("Invitation", invitationSchema);
@@ -0,0 +1,194 @@
+const mongoose = require("mongoose");
+const { minorUnitValidator } = require("../utils/money");
+const { SPLIT_TYPES } = require("../utils/splits");
+const {
+  FREQUENCIES,
+  occurrenceDate,
+  isAfterEnd,
+  firstIndexOnOrAfter,
+  upcomingDates,
+} = require("../utils/recurrence");
+
+// Template for an expense that repeats on a schedule. The scheduler turns
+// each due occurrence into a regular Expense.
+const recurringExpenseSchema = new mongoose.Schema({
+  group: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Group",
+    required: true,
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  description: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  // Minor units of `currency`
+  amount: {
+    type: Number,
+    required: true,
+    min: 0,
+    validate: minorUnitValidator,
+  },
+  // Currency the expense is paid in; converted to the group currency at
+  // each occurrence's rate
+  currency: {
+    type: String,
+  },
+  // Fixed rate to use instead of the rate table
+  exchangeRate: {
+    type: Number,
+  },
+  paidBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  paidByMultiple: [
+    {
+      user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+        required: true,
+      },
+      amount: {
+        type: Number,
+        required: true,
+        min: 0,
+        validate: minorUnitValidator,
+      },
+    },
+  ],
+  category: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Category",
+  },
+  splitType: {
+    type: String,
+    enum: SPLIT_TYPES.filter((type) => type !== "itemized"),
+    default: "equal",
+  },
+  // Split inputs, as sent to createExpense
+  customSplits: [
+    {
+      user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "User",
+        required: true,
+      },
+      amount: Number,
+      percentage: Number,
+      shares: Number,
+      adjustment: Number,
+    },
+  ],
+  notes: {
+    type: String,
+    trim: true,
+  },
+  frequency: {
+    type: String,
+    enum: FREQUENCIES,
+    required: true,
+  },
+  interval: {
+    type: Number,
+    default: 1,
+    min: 1,
+    validate: {
+      validator: Number.isInteger,
+      message: "{PATH} must be a whole number",
+    },
+  },
+  startDate: {
+    type: Date,
+    required: true,
+  },
+  endDate: {
+    type: Date,
+  },
+  status: {
+    type: String,
+    enum: ["active", "paused", "ended"],
+    default: "active",
+  },
+  // Index and date of the next occurrence to materialise
+  nextIndex: {
+    type: Number,
+    default: 0,
+  },
+  nextOccurrence: {
+    type: Date,
+  },
+  // Occurrences that should not become expenses
+  skippedDates: [Date],
+  lastRunAt: {
+    type: Date,
+  },
+  // Why the last due occurrence could not be created, if it failed
+  lastError: {
+    type: String,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+recurringExpenseSchema.index({ status: 1, nextOccurrence: 1 });
+recurringExpenseSchema.index({ group: 1 });
+
+// Update timestamp on save
+recurringExpenseSchema.pre("save", function (next) {
+  this.updatedAt = Date.now();
+  next();
+});
+
+// Point the template at occurrence `index`, ending it past the end date
+recurringExpenseSchema.methods.setNextIndex = function (index) {
+  const date = occurrenceDate(this, index);
+  this.nextIndex = index;
+  if (isAfterEnd(this, date)) {
+    this.nextOccurrence = undefined;
+    this.status = "ended";
+  } else {
+    this.nextOccurrence = date;
+  }
+};
+
+// Move on to the occurrence after the current one
+recurringExpenseSchema.methods.advance = function () {
+  this.setNextIndex(this.nextIndex + 1);
+};
+
+// Continue from the first occurrence on or after `date` (used when resuming
+// or rescheduling, so missed occurrences are not back-filled)
+recurringExpenseSchema.methods.resetFrom = function (date) {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  this.setNextIndex(firstIndexOnOrAfter(this, day));
+};
+
+recurringExpenseSchema.methods.isSkipped = function (date) {
+  return this.skippedDates.some(
+    (skipped) => skipped.getTime() === new Date(date).getTime()
+  );
+};
+
+// The next few dates that will become expenses
+recurringExpenseSchema.methods.upcoming = function (count = 5) {
+  if (this.status === "ended" || !this.nextOccurrence) return [];
+  return upcomingDates(this, this.nextIndex, count + this.skippedDates.length)
+    .filter((date) => !this.isSkipped(date))
+    .slice(0, count);
+};
+
+module.exports = mongoose.model("RecurringExpense", recurringExpenseSchema);
@@ -1,136 +1,479 @@
+const crypto = require("crypto");
 const mongoose = require("mongoose");
+const { simplifyDebts } = require("../utils/debtSimplifier");
+const { computeBalances } = require("../utils/balances");
+const { minorUnitValidator } = require("../utils/money");
+const { historyPlugin } = require("../utils/history");
 
-const settlementSchema = new mongoose.Schema({
-  fromUser: {
-    type: mongoose.Schema.Types.ObjectId,
-    ref: "User",
-    required: true,
-  },
-  toUser: {
-    type: mongoose.Schema.Types.ObjectId,
-    ref: "User",
-    required: true,
-  },
-  group: {
-    type: mongoose.Schema.Types.ObjectId,
-    ref: "Group",
-    required: true,
-  },
+// "write_off" settles a balance without money changing hands
+const PAYMENT_METHODS = [
+  "cash",
+  "bank_transfer",
+  "digital_wallet",
+  "other",
+  "write_off",
+];
+
+const paymentSchema = new mongoose.Schema({
+  // Minor units of the settlement currency
   amount: {
     type: Number,
     required: true,
     min: 0,
+    validate: minorUnitValidator,
   },
-  currency: {
-    type: String,
-    default: "LKR",
-  },
-  status: {
-    type: String,
-    enum: ["pending", "completed", "cancelled"],
-    default: "pending",
+  date: {
+    type: Date,
+    default: Date.now,
   },
   method: {
     type: String,
-    enum: ["cash", "bank_transfer", "digital_wallet", "other"],
+    enum: PAYMENT_METHODS,
     default: "other",
   },
-  notes: {
+  note: {
     type: String,
     trim: true,
   },
-  completedAt: {
+  recordedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  // Payments recorded by the payer count once the receiver confirms them
+  confirmedAt: {
     type: Date,
   },
-  createdAt: {
+  confirmedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+  },
+  disputedAt: {
     type: Date,
-    default: Date.now,
   },
-  updatedAt: {
+  disputedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+  },
+  disputeReason: {
+    type: String,
+    trim: true,
+  },
+  voidedAt: {
+    type: Date,
+  },
+  voidedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+  },
+});
+
+// Timestamped, attributed record of every transition
+const eventSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: [
+      "sent",
+      "confirmed",
+      "disputed",
+      "cancelled",
+      "reopened",
+      "payment_recorded",
+      "payment_confirmed",
+      "payment_disputed",
+      "payment_voided",
+      "written_off",
+    ],
+    required: true,
+  },
+  by: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  at: {
     type: Date,
     default: Date.now,
   },
+  amount: {
+    type: Number,
+  },
+  reason: {
+    type: String,
+    trim: true,
+  },
+});
+
+const settlementSchema = new mongoose.Schema(
+  {
+    fromUser: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    toUser: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    group: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Group",
+      required: true,
+    },
+    // Minor units of `currency`
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+      validate: minorUnitValidator,
+    },
+    currency: {
+      type: String,
+      default: "LKR",
+    },
+    status: {
+      type: String,
+      enum: [
+        "pending",
+        "partially_paid",
+        "sent",
+        "disputed",
+        "completed",
+        "cancelled",
+      ],
+      default: "pending",
+    },
+    method: {
+      type: String,
+      enum: PAYMENT_METHODS,
+      default: "other",
+    },
+    // Installments paid towards the settlement amount
+    payments: [paymentSchema],
+    events: [eventSchema],
+    sentAt: {
+      type: Date,
+    },
+    confirmedAt: {
+      type: Date,
+    },
+    confirmedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+    },
+    disputeReason: {
+      type: String,
+      trim: true,
+    },
+    notes: {
+      type: String,
+      trim: true,
+    },
+    // Settlement plan this transfer was generated by, if any
+    plan: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "SettlementPlan",
+    },
+    completedAt: {
+      type: Date,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+    updatedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    id: false,
+    toJSON: { virtuals: true },
+    toObject: { virtuals: true },
+  }
+);
+
+// Statuses that may carry confirmed payments counting towards balances
+const SETTLED_STATUSES = ["partially_paid", "sent", "disputed", "completed"];
+
+// Statuses that still expect money to change hands
+const OPEN_STATUSES = ["pending", "partially_paid", "sent", "disputed"];
+
+// Confirmed amount paid so far. Settlements completed before installments
+// existed have no payments and count as paid in full.
+settlementSchema.virtual("paidAmount").get(function () {
+  if (!this.payments) return undefined;
+  if (this.status === "completed" && this.payments.length === 0) {
+    return this.amount;
+  }
+  return this.payments
+    .filter((payment) => payment.confirmedAt && !payment.voidedAt)
+    .reduce((sum, payment) => sum + payment.amount, 0);
+});
+
+settlementSchema.virtual("remainingAmount").get(function () {
+  if (this.paidAmount === undefined) return undefined;
+  return Math.max(0, this.amount - this.paidAmount);
 });
 
+settlementSchema.plugin(historyPlugin, { entityType: "Settlement" });
+
 // Update timestamp on save
 settlementSchema.pre("save", function (next) {
   this.updatedAt = Date.now();
   next();
 });
 
-// Method to mark settlement as completed
-settlementSchema.methods.markCompleted = function () {
+settlementSchema.methods.isPayer = function (userId) {
+  return this.fromUser.toString() === userId.toString();
+};
+
+settlementSchema.methods.isReceiver = function (userId) {
+  return this.toUser.toString() === userId.toString();
+};
+
+settlementSchema.methods.logEvent = function (type, userId, details = {}) {
+  this.events.push({ type, by: userId, at: Date.now(), ...details });
+};
+
+// Derive the status from the confirmed payments so far. A settlement the
+// payer marked as sent (or the receiver disputed) keeps that status until it
+// is fully confirmed.
+settlementSchema.methods.refreshPaymentStatus = function () {
+  if (this.status === "cancelled") return;
+
+  if (this.paidAmount >= this.amount) {
+    this.status = "completed";
+    this.completedAt = this.completedAt || Date.now();
+  } else if (!["sent", "disputed"].includes(this.status)) {
+    this.status = this.paidAmount > 0 ? "partially_paid" : "pending";
+    this.completedAt = undefined;
+  }
+};
+
+// Method to record an installment. Payments the receiver (or a member
+// acting for a guest receiver) records are confirmed straight away; the
+// payer's wait for the receiver.
+settlementSchema.methods.recordPayment = function (
+  payment,
+  userId,
+  confirmed = this.isReceiver(userId)
+) {
+  if (!OPEN_STATUSES.includes(this.status)) {
+    throw new Error("Settlement is no longer open");
+  }
+  this.payments.push({
+    ...payment,
+    recordedBy: userId,
+    ...(confirmed && { confirmedAt: Date.now(), confirmedBy: userId }),
+  });
+  this.logEvent("payment_recorded", userId, { amount: payment.amount });
+  this.refreshPaymentStatus();
+  return this.save();
+};
+
+// Method for the receiver to confirm an installment the payer recorded
+settlementSchema.methods.confirmPayment = function (paymentId, userId) {
+  const payment = this.payments.id(paymentId);
+  if (!payment || payment.voidedAt || payment.confirmedAt) {
+    throw new Error("Payment not found");
+  }
+  if (!OPEN_STATUSES.includes(this.status)) {
+    throw new Error("Settlement is no longer open");
+  }
+  payment.confirmedAt = Date.now();
+  payment.confirmedBy = userId;
+  payment.disputedAt = undefined;
+  payment.disputeReason = undefined;
+  this.logEvent("payment_confirmed", userId, { amount: payment.amount });
+  this.refreshPaymentStatus();
+  return this.save();
+};
+
+// Method for the receiver to dispute an installment the payer recorded
+settlementSchema.methods.disputePayment = function (paymentId, userId, reason) {
+  const payment = this.payments.id(paymentId);
+  if (!payment || payment.voidedAt || payment.confirmedAt) {
+    throw new Error("Payment not found");
+  }
+  if (!OPEN_STATUSES.includes(this.status)) {
+    throw new Error("Settlement is no longer open");
+  }
+  payment.disputedAt = Date.now();
+  payment.disputedBy = userId;
+  payment.disputeReason = reason;
+  this.logEvent("payment_disputed", userId, { amount: payment.amount, reason });
+  return this.save();
+};
+
+// Method to void an installment
+settlementSchema.methods.voidPayment = function (paymentId, userId) {
+  const payment = this.payments.id(paymentId);
+  if (!payment || payment.voidedAt) {
+    throw new Error("Payment not found");
+  }
+  payment.voidedAt = Date.now();
+  payment.voidedBy = userId;
+  this.logEvent("payment_voided", userId, { amount: payment.amount });
+  this.refreshPaymentStatus();
+  return this.save();
+};
+
+// Method for the payer to mark the remaining amount as sent
+settlementSchema.methods.markSent = function (userId, note) {
+  this.status = "sent";
+  this.sentAt = Date.now();
+  this.disputeReason = undefined;
+  this.logEvent("sent", userId, { amount: this.remainingAmount, reason: note });
+  return this.save();
+};
+
+// Method for the receiver to confirm the settlement was paid in full.
+// Installments still awaiting confirmation are confirmed with it, so none
+// is left to be confirmed (and counted) again later.
+settlementSchema.methods.markCompleted = function (userId) {
+  this.payments
+    .filter((payment) => !payment.confirmedAt && !payment.voidedAt)
+    .forEach((payment) => {
+      payment.confirmedAt = Date.now();
+      payment.confirmedBy = userId;
+      payment.disputedAt = undefined;
+      payment.disputeReason = undefined;
+    });
+
+  const remaining = this.remainingAmount;
+  if (remaining > 0) {
+    this.payments.push({
+      amount: remaining,
+      method: this.method,
+      recordedBy: userId,
+      confirmedAt: Date.now(),
+      confirmedBy: userId,
+    });
+  }
+  this.status = "completed";
+  this.completedAt = Date.now();
+  this.confirmedAt = Date.now();
+  this.confirmedBy = userId;
+  this.disputeReason = undefined;
+  this.logEvent("confirmed", userId, { amount: remaining });
+  return this.save();
+};
+
+// Method for the receiver to dispute a settlement marked as sent
+settlementSchema.methods.dispute = function (userId, reason) {
+  this.status = "disputed";
+  this.disputeReason = reason;
+  this.logEvent("disputed", userId, { reason });
+  return this.save();
+};
+
+// Method to close a partially paid settlement at what has been paid so far
+settlementSchema.methods.closeAtPaidAmount = function (options = {}) {
+  this.amount = this.paidAmount;
   this.status = "completed";
   this.completedAt = Date.now();
+  return this.save(options);
+};
+
+// Method to close the settlement without any money changing hands, when the
+// balance behind it is written off
+settlementSchema.methods.writeOff = function (userId, reason) {
+  this.method = "write_off";
+  this.status = "completed";
+  this.completedAt = Date.now();
+  this.confirmedAt = Date.now();
+  this.confirmedBy = userId;
+  this.notes = reason;
+  this.logEvent("written_off", userId, { amount: this.amount, reason });
   return this.save();
 };
 
+// Static method to find settlements whose confirmed payments count towards
+// balances
+settlementSchema.statics.findSettled = function (filter) {
+  return this.find({ ...filter, status: { $in: SETTLED_STATUSES } }).select(
+    "fromUser toUser amount status payments updatedAt"
+  );
+};
+
 // Method to cancel settlement
-settlementSchema.methods.cancel = function () {
+settlementSchema.methods.cancel = function (userId) {
   this.status = "cancelled";
+  if (userId) this.logEvent("cancelled", userId);
   return this.save();
 };
 
-// Static method to calculate settlements for a group
-settlementSchema.statics.calculateGroupSettlements = async function (groupId) {
+// Method to reopen a cancelled settlement
+settlementSchema.methods.reopen = function (userId) {
+  this.status = "pending";
+  this.logEvent("reopened", userId);
+  this.refreshPaymentStatus();
+  return this.save();
+};
+
+// Hash the ids and last-modified times of everything a plan depends on, so a
+// previewed plan can be checked for staleness before it is committed
+const fingerprintBasis = (expenses, settlements) => {
+  const parts = [...expenses, ...settlements]
+    .map((doc) => `${doc._id}:${new Date(doc.updatedAt).getTime()}`)
+    .sort();
+  return crypto.createHash("sha256").update(parts.join("|")).digest("hex");
+};
+
+// Static method to calculate settlements for a group. Returns the unsaved
+// settlements and the basis (expenses and completed settlements) they came from.
+settlementSchema.statics.calculateGroupSettlements = async function (
+  groupId,
+  options = {}
+) {
   const Expense = mongoose.model("Expense");
+  const Group = mongoose.model("Group");
 
-  // Get all expenses for the group
-  const expenses = await Expense.find({ group: groupId })
-    .populate("paidBy", "username firstName lastName")
-    .populate("splits.user", "username firstName lastName");
+  const group = await Group.findById(groupId).select("currency");
+  const currency = group?.currency || "LKR";
 
-  // Calculate net amounts for each user
-  const userBalances = {};
+  // Get all expenses and completed settlements for the group
+  const [expenses, completedSettlements] = await Promise.all([
+    Expense.find({ group: groupId }).select(
+      "amount paidBy paidByMultiple splits updatedAt"
+    ),
+    this.findSettled({ group: groupId }),
+  ]);
 
-  expenses.forEach((expense) => {
-    // Add amount paid by user
-    const paidBy = expense.paidBy._id.toString();
-    userBalances[paidBy] = (userBalances[paidBy] || 0) + expense.amount;
+  // Net amount for each user, crediting every co-payer their contribution
+  const { balances } = computeBalances({
+    expenses,
+    settlements: completedSettlements,
+  });
 
-    // Subtract amounts owed by user
-    expense.splits.forEach((split) => {
-      const userId = split.user._id.toString();
-      userBalances[userId] = (userBalances[userId] || 0) - split.amount;
-    });
+  // Balances are whole minor units, so every transfer zeroes them exactly
+  const netBalances = {};
+  balances.forEach(({ user, net }) => {
+    netBalances[user] = net;
   });
 
-  // Generate settlements
-  const settlements = [];
-  const users = Object.keys(userBalances);
-
-  for (let i = 0; i < users.length; i++) {
-    for (let j = i + 1; j < users.length; j++) {
-      const user1 = users[i];
-      const user2 = users[j];
-      const balance1 = userBalances[user1];
-      const balance2 = userBalances[user2];
-
-      if (balance1 > 0 && balance2 < 0) {
-        // User1 owes User2
-        const amount = Math.min(balance1, Math.abs(balance2));
-        settlements.push({
-          fromUser: user1,
-          toUser: user2,
-          group: groupId,
-          amount: amount,
-          currency: "LKR",
-        });
-      } else if (balance1 < 0 && balance2 > 0) {
-        // User2 owes User1
-        const amount = Math.min(Math.abs(balance1), balance2);
-        settlements.push({
-          fromUser: user2,
-          toUser: user1,
-          group: groupId,
-          amount: amount,
-          currency: "LKR",
-        });
-      }
-    }
-  }
+  const transfers = simplifyDebts(netBalances, { mode: options.mode });
 
-  return settlements;
+  return {
+    currency,
+    settlements: transfers.map((transfer) => ({
+      fromUser: transfer.from,
+      toUser: transfer.to,
+      group: groupId,
+      amount: transfer.amount,
+      currency,
+    })),
+    basis: {
+      expenses: expenses.map((expense) => expense._id),
+      settlements: completedSettlements.map((settlement) => settlement._id),
+      fingerprint: fingerprintBasis(expenses, completedSettlements),
+    },
+  };
 };
 
+settlementSchema.statics.OPEN_STATUSES = OPEN_STATUSES;
+settlementSchema.statics.PAYMENT_METHODS = PAYMENT_METHODS;
+
 module.exports = mongoose.model("Settlement", settlementSchema);
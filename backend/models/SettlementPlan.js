@@ -0,0 +1,78 @@
+const mongoose = require("mongoose");
+
+const settlementPlanSchema = new mongoose.Schema({
+  group: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Group",
+    required: true,
+  },
+  version: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  status: {
+    type: String,
+    enum: ["active", "superseded"],
+    default: "active",
+  },
+  mode: {
+    type: String,
+    enum: ["auto", "greedy", "exact"],
+    default: "auto",
+  },
+  currency: {
+    type: String,
+    default: "LKR",
+  },
+  // What the plan was computed from
+  basis: {
+    expenses: [
+      {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Expense",
+      },
+    ],
+    settlements: [
+      {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: "Settlement",
+      },
+    ],
+    fingerprint: {
+      type: String,
+      required: true,
+    },
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  supersededAt: {
+    type: Date,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// One version sequence per group, and at most one active plan
+settlementPlanSchema.index({ group: 1, version: 1 }, { unique: true });
+settlementPlanSchema.index(
+  { group: 1 },
+  { unique: true, partialFilterExpression: { status: "active" } }
+);
+
+// Static method to retire the active plan when a newer one replaces it.
+// Only one caller can retire it; the others get null.
+settlementPlanSchema.statics.supersedeActive = function (planId) {
+  return this.findOneAndUpdate(
+    { _id: planId, status: "active" },
+    { status: "superseded", supersededAt: Date.now() },
+    { new: true }
+  );
+};
+
+module.exports = mongoose.model("SettlementPlan", settlementPlanSchema);
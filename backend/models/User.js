@@ -1,6 +1,29 @@
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
 
+// An account name used in place of a template for one key
+const journalOverrideSchema = (key, keyField) =>
+  new mongoose.Schema({
+    [key]: { ...keyField, required: true },
+    account: {
+      type: String,
+      required: true,
+      trim: true
+    }
+  }, { _id: false });
+
+// Pending users were invited by email and haven't signed up yet, so they
+// have no password or name of their own until they do. Placeholders are
+// guests an admin added by name, who may never sign up; their email is
+// optional.
+function hasAccount() {
+  return this.status === 'active';
+}
+
+function needsEmail() {
+  return this.status !== 'placeholder';
+}
+
 const userSchema = new mongoose.Schema({
   username: {
     type: String,
@@ -11,34 +34,77 @@ const userSchema = new mongoose.Schema({
   },
   email: {
     type: String,
-    required: true,
+    required: needsEmail,
     unique: true,
+    sparse: true,
     trim: true,
     lowercase: true
   },
   password: {
     type: String,
-    required: true,
+    required: hasAccount,
     minlength: 6
   },
   firstName: {
     type: String,
-    required: true,
+    required: hasAccount,
     trim: true
   },
   lastName: {
     type: String,
-    required: true,
+    required: hasAccount,
     trim: true
   },
+  status: {
+    type: String,
+    enum: ['active', 'pending', 'placeholder'],
+    default: 'active'
+  },
   avatar: {
     type: String,
     default: ''
   },
+  // Site administrators maintain shared reference data such as exchange rates
+  isAdmin: {
+    type: Boolean,
+    default: false
+  },
   groups: [{
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Group'
   }],
+  // Account names for the Ledger, hledger and Beancount exports.
+  // {category}, {name} and {group} are filled in for each posting.
+  journalAccounts: {
+    expenses: {
+      type: String,
+      trim: true,
+      default: 'Expenses:{category}'
+    },
+    people: {
+      type: String,
+      trim: true,
+      default: 'Liabilities:Shared:{name}'
+    },
+    payments: {
+      type: String,
+      trim: true,
+      default: 'Assets:Cash'
+    },
+    // Accounts for particular categories (by name) and people
+    categoryAccounts: [
+      journalOverrideSchema('category', {
+        type: String,
+        trim: true
+      })
+    ],
+    personAccounts: [
+      journalOverrideSchema('user', {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User'
+      })
+    ]
+  },
   createdAt: {
     type: Date,
     default: Date.now
@@ -63,6 +129,37 @@ userSchema.methods.comparePassword = async function(candidatePassword) {
   return bcrypt.compare(candidatePassword, this.password);
 };
 
+// Find the user with an email, or make a pending user for it who can be
+// added to groups and expenses until they sign up
+userSchema.statics.findOrCreatePending = async function(email) {
+  const existing = await this.findOne({ email });
+  if (existing) return existing;
+
+  const _id = new mongoose.Types.ObjectId();
+  return this.create({
+    _id,
+    username: `pending-${_id}`,
+    email,
+    firstName: email.split('@')[0],
+    lastName: '',
+    status: 'pending'
+  });
+};
+
+// Make a placeholder for a guest who only has a name, to be added to a
+// group. They can be claimed by a real user later.
+userSchema.statics.createPlaceholder = function({ name, email }) {
+  const _id = new mongoose.Types.ObjectId();
+  return this.create({
+    _id,
+    username: `guest-${_id}`,
+    email: email || undefined,
+    firstName: name,
+    lastName: '',
+    status: 'placeholder'
+  });
+};
+
 // Method to get user's full name
 userSchema.methods.getFullName = function() {
   return `${this.firstName} ${this.lastName}`;
@@ -9,6 +9,10 @@ const {
   changePassword,
   getAllUsers,
 } = require("../controllers/authController");
+const {
+  getJournalAccounts,
+  updateJournalAccounts,
+} = require("../controllers/exportController");
 
 // Public routes
 router.post("/register", register);
@@ -18,6 +22,8 @@ router.post("/login", login);
 router.get("/profile", auth, getProfile);
 router.put("/profile", auth, updateProfile);
 router.put("/change-password", auth, changePassword);
+router.get("/journal-accounts", auth, getJournalAccounts);
+router.put("/journal-accounts", auth, updateJournalAccounts);
 router.get("/users", auth, getAllUsers);
 
 module.exports = router;
@@ -0,0 +1,33 @@
+const express = require("express");
+const multer = require("multer");
+const router = express.Router();
+const { auth, requireAdmin } = require("../middleware/auth");
+const {
+  getExchangeRates,
+  lookupExchangeRate,
+  createExchangeRate,
+  importExchangeRates,
+  deleteExchangeRate,
+} = require("../controllers/exchangeRateController");
+
+// Rate files are small; keep them in memory rather than on disk
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 1024 * 1024 },
+});
+
+// All routes are protected
+router.use(auth);
+
+// List rates
+router.get("/", getExchangeRates);
+
+// Rate that would apply to a conversion
+router.get("/lookup", lookupExchangeRate);
+
+// Admin maintenance
+router.post("/", requireAdmin, createExchangeRate);
+router.post("/import", requireAdmin, upload.single("file"), importExchangeRates);
+router.delete("/:rateId", requireAdmin, deleteExchangeRate);
+
+module.exports = router;
@@ -1,6 +1,7 @@
 const express = require("express");
 const router = express.Router();
 const { auth } = require("../middleware/auth");
+const { receiptUpload } = require("../middleware/upload");
 const {
   getUserExpenses,
   getGroupExpenses,
@@ -10,7 +11,26 @@ const {
   deleteExpense,
   markSplitAsPaid,
   getExpenseSummary,
+  getUserBalances,
+  getExpenseHistory,
+  restoreExpenseVersion,
+  getGroupTrash,
+  restoreDeletedExpense,
+  purgeDeletedExpense,
 } = require("../controllers/expenseController");
+const {
+  uploadReceipt,
+  getReceipt,
+  deleteReceipt,
+} = require("../controllers/receiptController");
+const {
+  getComments,
+  addComment,
+  updateComment,
+  deleteComment,
+} = require("../controllers/commentController");
+const { getSharedCategories } = require("../controllers/categoryController");
+const { exportUserJournal } = require("../controllers/exportController");
 
 // All routes are protected
 router.use(auth);
@@ -18,6 +38,15 @@ router.use(auth);
 // Get user expenses
 router.get("/", getUserExpenses);
 
+// Get what the user owes and is owed across groups
+router.get("/balances", getUserBalances);
+
+// Categories for expenses outside any group
+router.get("/categories", getSharedCategories);
+
+// The user's side of their expenses as a Ledger, hledger or Beancount journal
+router.get("/journal", exportUserJournal);
+
 // Get group expenses
 router.get("/group/:groupId", getGroupExpenses);
 
@@ -30,6 +59,9 @@ router.get("/groups/:groupId/expenses", getGroupExpenses);
 // Alternative route for expense summary (matching frontend API calls)
 router.get("/groups/:groupId/expenses/summary", getExpenseSummary);
 
+// Trashed expenses of a group
+router.get("/groups/:groupId/trash", getGroupTrash);
+
 // Create expense
 router.post("/", createExpense);
 
@@ -42,6 +74,25 @@ router.put("/:expenseId", updateExpense);
 // Delete expense
 router.delete("/:expenseId", deleteExpense);
 
+// Restore from the trash, or delete permanently
+router.post("/:expenseId/restore", restoreDeletedExpense);
+router.delete("/:expenseId/purge", purgeDeletedExpense);
+
+// Change history, and restoring an earlier version
+router.get("/:expenseId/history", getExpenseHistory);
+router.post("/:expenseId/history/:version/restore", restoreExpenseVersion);
+
+// Receipt image or PDF
+router.post("/:expenseId/receipt", receiptUpload, uploadReceipt);
+router.get("/:expenseId/receipt", getReceipt);
+router.delete("/:expenseId/receipt", deleteReceipt);
+
+// Comments
+router.get("/:expenseId/comments", getComments);
+router.post("/:expenseId/comments", addComment);
+router.put("/:expenseId/comments/:commentId", updateComment);
+router.delete("/:expenseId/comments/:commentId", deleteComment);
+
 // Mark split as paid
 router.put("/:expenseId/splits/:userId/paid", markSplitAsPaid);
 
@@ -2,16 +2,44 @@ const express = require('express');
 const router = express.Router();
 const { auth } = require('../middleware/auth');
 const { requireGroupMember, requireGroupAdmin } = require('../middleware/groupAccess');
+const { importUpload } = require('../middleware/upload');
 const {
   createGroup,
   getUserGroups,
   getGroup,
+  getGroupBalances,
   updateGroup,
   addMember,
+  addGuest,
+  claimGuest,
+  leaveGroup,
   removeMember,
   changeMemberRole,
-  deleteGroup
+  deleteGroup,
+  getDeletedGroups,
+  restoreGroup,
+  purgeDeletedGroup
 } = require('../controllers/groupController');
+const {
+  getGroupCategories,
+  createCategory,
+  updateCategory,
+  deleteCategory
+} = require('../controllers/categoryController');
+const {
+  getGroupBudgets,
+  getUserBudgets,
+  createBudget,
+  updateBudget,
+  deleteBudget
+} = require('../controllers/budgetController');
+const { importGroupExpenses } = require('../controllers/importController');
+const { exportGroupLedger } = require('../controllers/exportController');
+const {
+  getGroupInvitations,
+  createInvitation,
+  revokeInvitation
+} = require('../controllers/invitationController');
 
 // All routes require authentication
 router.use(auth);
@@ -19,13 +47,52 @@ router.use(auth);
 // Group management
 router.post('/', createGroup);
 router.get('/', getUserGroups);
+router.get('/trash', getDeletedGroups);
+router.get('/budgets', getUserBudgets);
 router.get('/:groupId', requireGroupMember, getGroup);
 router.put('/:groupId', requireGroupAdmin, updateGroup);
 router.delete('/:groupId', requireGroupAdmin, deleteGroup);
 
+// Trash (admin checks happen in the controller, as trashed groups are
+// hidden from the group access middleware)
+router.post('/:groupId/restore', restoreGroup);
+router.delete('/:groupId/purge', purgeDeletedGroup);
+
+// Balances
+router.get('/:groupId/balances', requireGroupMember, getGroupBalances);
+
+// Categories
+router.get('/:groupId/categories', requireGroupMember, getGroupCategories);
+router.post('/:groupId/categories', requireGroupAdmin, createCategory);
+router.put('/:groupId/categories/:categoryId', requireGroupAdmin, updateCategory);
+router.delete('/:groupId/categories/:categoryId', requireGroupAdmin, deleteCategory);
+
+// Budgets
+router.get('/:groupId/budgets', requireGroupMember, getGroupBudgets);
+router.post('/:groupId/budgets', requireGroupAdmin, createBudget);
+router.put('/:groupId/budgets/:budgetId', requireGroupAdmin, updateBudget);
+router.delete('/:groupId/budgets/:budgetId', requireGroupAdmin, deleteBudget);
+
+// CSV import (a dry run previews it)
+router.post('/:groupId/import', requireGroupAdmin, importUpload, importGroupExpenses);
+
+// Ledger export (?format=csv|xlsx|json|pdf&from=&to=&member=)
+router.get('/:groupId/export', requireGroupMember, exportGroupLedger);
+
 // Member management
 router.post('/:groupId/members', requireGroupAdmin, addMember);
+router.post('/:groupId/leave', requireGroupMember, leaveGroup);
 router.delete('/:groupId/members/:userId', requireGroupAdmin, removeMember);
 router.put('/:groupId/members/:userId/role', requireGroupAdmin, changeMemberRole);
 
+// Guests without an account, and merging one into a real user
+router.post('/:groupId/guests', requireGroupAdmin, addGuest);
+router.post('/:groupId/guests/:guestId/claim', requireGroupAdmin, claimGuest);
+
+// Invite links (adding a member by email invites them when they have no
+// account yet)
+router.get('/:groupId/invitations', requireGroupAdmin, getGroupInvitations);
+router.post('/:groupId/invitations', requireGroupAdmin, createInvitation);
+router.delete('/:groupId/invitations/:invitationId', requireGroupAdmin, revokeInvitation);
+
 module.exports = router;
@@ -0,0 +1,15 @@
+const express = require("express");
+const router = express.Router();
+const { auth } = require("../middleware/auth");
+const {
+  getInvitation,
+  acceptInvitation,
+} = require("../controllers/invitationController");
+
+// Anyone with the link can see what it is for before signing in
+router.get("/:token", getInvitation);
+
+// Join the group
+router.post("/:token/accept", auth, acceptInvitation);
+
+module.exports = router;
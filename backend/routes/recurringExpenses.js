@@ -0,0 +1,34 @@
+const express = require("express");
+const router = express.Router();
+const { auth } = require("../middleware/auth");
+const {
+  getGroupRecurringExpenses,
+  createRecurringExpense,
+  updateRecurringExpense,
+  pauseRecurringExpense,
+  resumeRecurringExpense,
+  skipOccurrence,
+  deleteRecurringExpense,
+} = require("../controllers/recurringExpenseController");
+
+// All routes are protected
+router.use(auth);
+
+// List a group's recurring expenses
+router.get("/groups/:groupId", getGroupRecurringExpenses);
+
+// Create a recurring expense
+router.post("/", createRecurringExpense);
+
+// Edit future occurrences
+router.put("/:recurringId", updateRecurringExpense);
+
+// Pause, resume and skip
+router.post("/:recurringId/pause", pauseRecurringExpense);
+router.post("/:recurringId/resume", resumeRecurringExpense);
+router.post("/:recurringId/skip", skipOccurrence);
+
+// Delete a recurring expense
+router.delete("/:recurringId", deleteRecurringExpense);
+
+module.exports = router;
@@ -5,8 +5,16 @@ const {
   getUserSettlements,
   getGroupSettlements,
   calculateGroupSettlements,
+  getGroupSettlementPlan,
   createSettlement,
   updateSettlementStatus,
+  markSettlementSent,
+  confirmSettlement,
+  disputeSettlement,
+  recordSettlementPayment,
+  confirmSettlementPayment,
+  disputeSettlementPayment,
+  voidSettlementPayment,
   deleteSettlement,
   getSettlementStats,
 } = require("../controllers/settlementController");
@@ -23,15 +31,35 @@ router.get("/stats", getSettlementStats);
 // Get group settlements
 router.get("/group/:groupId", getGroupSettlements);
 
-// Calculate settlements for a group
+// Calculate settlements for a group (pass dryRun to preview the plan)
 router.post("/group/:groupId/calculate", calculateGroupSettlements);
 
+// Get the active settlement plan for a group
+router.get("/group/:groupId/plan", getGroupSettlementPlan);
+
 // Create manual settlement
 router.post("/", createSettlement);
 
 // Update settlement status
 router.put("/:settlementId", updateSettlementStatus);
 
+// Two-party confirmation: the payer marks it sent, the receiver confirms or disputes
+router.post("/:settlementId/sent", markSettlementSent);
+router.post("/:settlementId/confirm", confirmSettlement);
+router.post("/:settlementId/dispute", disputeSettlement);
+
+// Record, review and void installments
+router.post("/:settlementId/payments", recordSettlementPayment);
+router.post(
+  "/:settlementId/payments/:paymentId/confirm",
+  confirmSettlementPayment
+);
+router.post(
+  "/:settlementId/payments/:paymentId/dispute",
+  disputeSettlementPayment
+);
+router.delete("/:settlementId/payments/:paymentId", voidSettlementPayment);
+
 // Delete settlement
 router.delete("/:settlementId", deleteSettlement);
 
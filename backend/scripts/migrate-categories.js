@@ -0,0 +1,91 @@
+// One-off migration: replace the fixed category values stored on expenses
+// and recurring expenses ("food", "transport", ...) with references to the
+// matching per-group categories, seeding each group's built-in categories.
+// Values outside the built-in set go to the fallback category. Version
+// snapshots in the history keep their old values; restoring one maps them.
+//
+// Usage: node scripts/migrate-categories.js [--dry-run]
+const mongoose = require("mongoose");
+const dotenv = require("dotenv");
+const Category = require("../models/Category");
+
+dotenv.config({ path: `.env.${process.env.NODE_ENV || "development"}` });
+
+const MIGRATION_NAME = "per-group-categories";
+const BATCH_SIZE = 500;
+const dryRun = process.argv.includes("--dry-run");
+
+// Categories per group id ("" for non-group expenses)
+const categoriesByGroup = new Map();
+
+const categoryIdFor = async (groupId, value) => {
+  const groupKey = groupId ? groupId.toString() : "";
+  if (!categoriesByGroup.has(groupKey)) {
+    categoriesByGroup.set(groupKey, await Category.forGroup(groupId || null));
+  }
+  const categories = categoriesByGroup.get(groupKey);
+  return (
+    Category.pick(categories, value) || Category.pick(categories, null)
+  )._id;
+};
+
+const migrateCollection = async (collection) => {
+  const cursor = collection.find({ category: { $not: { $type: "objectId" } } });
+  let operations = [];
+  let count = 0;
+
+  const flush = async () => {
+    if (operations.length === 0) return;
+    if (!dryRun) await collection.bulkWrite(operations, { ordered: false });
+    operations = [];
+  };
+
+  for await (const doc of cursor) {
+    count++;
+    if (dryRun) continue;
+
+    operations.push({
+      updateOne: {
+        filter: { _id: doc._id },
+        update: {
+          $set: { category: await categoryIdFor(doc.group, doc.category) },
+        },
+      },
+    });
+    if (operations.length >= BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  return count;
+};
+
+const run = async () => {
+  await mongoose.connect(process.env.MONGODB_URI);
+  const db = mongoose.connection.db;
+  const migrations = db.collection("migrations");
+
+  if (await migrations.findOne({ name: MIGRATION_NAME })) {
+    console.log(`Migration ${MIGRATION_NAME} has already been applied.`);
+    return;
+  }
+
+  const expenses = await migrateCollection(db.collection("expenses"));
+  const recurring = await migrateCollection(
+    db.collection("recurringexpenses")
+  );
+
+  if (!dryRun) {
+    await migrations.insertOne({ name: MIGRATION_NAME, appliedAt: new Date() });
+  }
+
+  console.log(
+    `${dryRun ? "[dry run] Would migrate" : "Migrated"} categories of ${expenses} expenses and ${recurring} recurring expenses.`
+  );
+};
+
+run()
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,173 @@
+// One-off migration: convert stored money from decimal amounts to integer
+// minor units (e.g. 12.5 LKR -> 1250). Each document is flagged in the same
+// write that converts it, so an interrupted run can simply be started again:
+// converted documents are skipped rather than converted twice. It records
+// itself in the `migrations` collection when it finishes and refuses to run
+// a second time.
+//
+// Usage: node scripts/migrate-minor-units.js [--dry-run]
+const mongoose = require("mongoose");
+const dotenv = require("dotenv");
+const { toMinorUnits, allocate, splitEvenly } = require("../utils/money");
+
+dotenv.config({ path: `.env.${process.env.NODE_ENV || "development"}` });
+
+const MIGRATION_NAME = "money-minor-units";
+const BATCH_SIZE = 500;
+// Set on each document as it is converted, and cleared once the run is done
+const MARKER = "migratedToMinorUnits";
+const dryRun = process.argv.includes("--dry-run");
+
+const idString = (id) => (id ? id.toString() : "");
+
+// Convert an expense. Payer and split amounts are re-apportioned from the
+// converted total so they add up exactly; equal splits follow the same
+// payer-first remainder rule as new expenses.
+const migrateExpense = (expense) => {
+  const currency = expense.currency || "LKR";
+  const amount = toMinorUnits(expense.amount, currency);
+  const update = { amount };
+
+  const payers = expense.paidByMultiple || [];
+  if (payers.length > 0) {
+    const payerAmounts = allocate(amount, payers.map((payer) => payer.amount));
+    update.paidByMultiple = payers.map((payer, index) => ({
+      ...payer,
+      amount: payerAmounts[index],
+    }));
+  }
+
+  const splits = expense.splits || [];
+  if (splits.length > 0) {
+    const splitAmounts =
+      expense.splitType === "equal"
+        ? splitEvenly(
+            amount,
+            splits.length,
+            splits.findIndex(
+              (split) => idString(split.user) === idString(expense.paidBy)
+            )
+          )
+        : allocate(amount, splits.map((split) => split.amount));
+    update.splits = splits.map((split, index) => ({
+      ...split,
+      amount: splitAmounts[index],
+    }));
+  }
+
+  if (expense.originalAmount !== undefined && expense.originalCurrency) {
+    update.originalAmount = toMinorUnits(
+      expense.originalAmount,
+      expense.originalCurrency
+    );
+  }
+
+  return update;
+};
+
+// Convert a settlement and its installments. A fully paid settlement keeps
+// its confirmed payments adding up to exactly the settlement amount.
+const migrateSettlement = (settlement) => {
+  const currency = settlement.currency || "LKR";
+  const amount = toMinorUnits(settlement.amount, currency);
+  const update = { amount };
+
+  const payments = (settlement.payments || []).map((payment) => ({
+    ...payment,
+    amount: toMinorUnits(payment.amount, currency),
+  }));
+
+  const confirmed = (list) =>
+    list.filter((payment) => payment.confirmedAt && !payment.voidedAt);
+  const oldPaid = confirmed(settlement.payments || []).reduce(
+    (sum, payment) => sum + payment.amount,
+    0
+  );
+  const newConfirmed = confirmed(payments);
+  if (newConfirmed.length > 0 && oldPaid >= settlement.amount - 0.005) {
+    const drift =
+      amount - newConfirmed.reduce((sum, payment) => sum + payment.amount, 0);
+    newConfirmed[newConfirmed.length - 1].amount += drift;
+  }
+  if (payments.length > 0) update.payments = payments;
+
+  if (settlement.events && settlement.events.length > 0) {
+    update.events = settlement.events.map((event) =>
+      event.amount === undefined || event.amount === null
+        ? event
+        : { ...event, amount: toMinorUnits(event.amount, currency) }
+    );
+  }
+
+  return update;
+};
+
+const migrateCollection = async (collection, migrate) => {
+  const cursor = collection.find({ [MARKER]: { $ne: true } });
+  let operations = [];
+  let count = 0;
+
+  const flush = async () => {
+    if (operations.length === 0) return;
+    if (!dryRun) await collection.bulkWrite(operations, { ordered: false });
+    operations = [];
+  };
+
+  for await (const doc of cursor) {
+    operations.push({
+      updateOne: {
+        filter: { _id: doc._id, [MARKER]: { $ne: true } },
+        update: { $set: { ...migrate(doc), [MARKER]: true } },
+      },
+    });
+    count++;
+    if (operations.length >= BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  return count;
+};
+
+const run = async () => {
+  await mongoose.connect(process.env.MONGODB_URI);
+  const db = mongoose.connection.db;
+  const migrations = db.collection("migrations");
+
+  if (await migrations.findOne({ name: MIGRATION_NAME })) {
+    console.log(`Migration ${MIGRATION_NAME} has already been applied.`);
+    return;
+  }
+
+  const expenses = await migrateCollection(
+    db.collection("expenses"),
+    migrateExpense
+  );
+  const settlements = await migrateCollection(
+    db.collection("settlements"),
+    migrateSettlement
+  );
+
+  if (!dryRun) {
+    await migrations.insertOne({ name: MIGRATION_NAME, appliedAt: new Date() });
+    // The flags are only needed until the run is recorded
+    for (const name of ["expenses", "settlements"]) {
+      await db
+        .collection(name)
+        .updateMany(
+          { [MARKER]: { $exists: true } },
+          { $unset: { [MARKER]: "" } }
+        );
+    }
+  }
+
+  console.log(
+    `${dryRun ? "[dry run] Would migrate" : "Migrated"} ${expenses} expenses and ${settlements} settlements to minor units.`
+  );
+};
+
+run()
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
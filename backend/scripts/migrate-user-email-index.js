@@ -0,0 +1,43 @@
+// One-off migration: rebuild the unique index on user emails as a sparse
+// index, so guest placeholders added without an email don't collide with
+// each other. Mongoose won't change the options of an existing index, so
+// the old one is dropped first.
+//
+// Usage: node scripts/migrate-user-email-index.js [--dry-run]
+const mongoose = require("mongoose");
+const dotenv = require("dotenv");
+const User = require("../models/User");
+
+dotenv.config({ path: `.env.${process.env.NODE_ENV || "development"}` });
+
+const INDEX_NAME = "email_1";
+const dryRun = process.argv.includes("--dry-run");
+
+const run = async () => {
+  await mongoose.connect(process.env.MONGODB_URI);
+  const users = mongoose.connection.db.collection("users");
+
+  const indexes = await users.indexes();
+  const existing = indexes.find((index) => index.name === INDEX_NAME);
+  if (existing && existing.sparse) {
+    console.log("The user email index is already sparse.");
+    return;
+  }
+
+  if (dryRun) {
+    console.log("[dry run] Would rebuild the user email index as sparse.");
+    return;
+  }
+
+  if (existing) await users.dropIndex(INDEX_NAME);
+  await User.syncIndexes();
+
+  console.log("Rebuilt the user email index as sparse.");
+};
+
+run()
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -4,6 +4,10 @@ const dotenv = require("dotenv");
 const connectDB = require("./config/database");
 const logger = require("./config/logger");
 const { requestLogger, errorLogger } = require("./middleware/logger");
+const {
+  startRecurringExpenseScheduler,
+} = require("./jobs/recurringExpenses");
+const { startTrashPurgeScheduler } = require("./jobs/trashPurge");
 
 // Load environment variables
 dotenv.config({ path: `.env.${process.env.NODE_ENV || "development"}` });
@@ -32,6 +36,9 @@ app.use("/api/auth", require("./routes/auth"));
 app.use("/api/groups", require("./routes/groups"));
 app.use("/api/expenses", require("./routes/expenses"));
 app.use("/api/settlements", require("./routes/settlements"));
+app.use("/api/exchange-rates", require("./routes/exchangeRates"));
+app.use("/api/recurring-expenses", require("./routes/recurringExpenses"));
+app.use("/api/invitations", require("./routes/invitations"));
 
 // Health check endpoint
 app.get("/api/health", (req, res) => {
@@ -74,4 +81,8 @@ app.listen(PORT, () => {
       process.env.NODE_ENV === "development" ? "enabled" : "disabled"
     }`
   );
+
+  // Create any recurring expenses that fell due while the server was down
+  startRecurringExpenseScheduler();
+  startTrashPurgeScheduler();
 });
@@ -0,0 +1,118 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const jwt = require("jsonwebtoken");
+const mongoose = require("mongoose");
+const User = require("../models/User");
+const Invitation = require("../models/Invitation");
+const { auth } = require("../middleware/auth");
+const { register } = require("../controllers/authController");
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || "test-secret";
+
+const objectId = () => new mongoose.Types.ObjectId();
+
+// Response that records what the handler sent
+const response = () => ({
+  statusCode: 200,
+  status(code) {
+    this.statusCode = code;
+    return this;
+  },
+  json(body) {
+    this.body = body;
+    return this;
+  },
+});
+
+const emailInvitation = (user) =>
+  new Invitation({
+    group: objectId(),
+    email: user.email,
+    user: user._id,
+    invitedBy: objectId(),
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  });
+
+test("invite tokens are not accepted as sessions", async (t) => {
+  const user = new User({ username: "ann", email: "ann@example.com" });
+  t.mock.method(User, "findById", () => ({ select: async () => user }));
+  const invitation = emailInvitation(user);
+
+  const req = {
+    header: () => `Bearer ${invitation.createToken()}`,
+  };
+  const res = response();
+  let passed = false;
+  await auth(req, res, () => (passed = true));
+
+  assert.equal(passed, false);
+  assert.equal(res.statusCode, 401);
+});
+
+test("invite tokens only resolve to invitations", async (t) => {
+  const user = new User({ username: "ann", email: "ann@example.com" });
+  const invitation = emailInvitation(user);
+  t.mock.method(Invitation, "findById", async () => invitation);
+
+  const token = invitation.createToken();
+  assert.equal(await Invitation.fromToken(token), invitation);
+
+  // A session token signed with the same secret is not an invitation
+  const session = jwt.sign(
+    { userId: user._id, invitation: invitation._id.toString() },
+    process.env.JWT_SECRET
+  );
+  assert.equal(await Invitation.fromToken(session), null);
+});
+
+// Sign up with the email of a user who has no account yet, without and with
+// the right invitation
+const signUpWithInvitation = async (t, status) => {
+  const pending = new User({
+    username: `${status}-${objectId()}`,
+    email: "ann@example.com",
+    firstName: "ann",
+    status,
+  });
+  const invitation = emailInvitation(pending);
+  const otherInvitation = emailInvitation(
+    new User({ username: "ben", email: "ben@example.com" })
+  );
+
+  t.mock.method(User, "findOne", async (query) => (query.$or ? null : pending));
+  t.mock.method(Invitation, "findById", async (id) =>
+    [invitation, otherInvitation].find((i) => i._id.equals(id))
+  );
+  t.mock.method(Invitation, "updateMany", async () => ({}));
+  const saved = t.mock.method(pending, "save", async () => pending);
+
+  const body = {
+    username: "ann",
+    email: "ann@example.com",
+    password: "secret123",
+    firstName: "Ann",
+    lastName: "Lee",
+  };
+
+  for (const inviteToken of [undefined, otherInvitation.createToken()]) {
+    const res = response();
+    await register({ body: { ...body, inviteToken } }, res);
+    assert.equal(res.statusCode, 400);
+  }
+  assert.equal(saved.mock.callCount(), 0);
+
+  const res = response();
+  await register(
+    { body: { ...body, inviteToken: invitation.createToken() } },
+    res
+  );
+  assert.equal(res.statusCode, 201);
+  assert.equal(saved.mock.callCount(), 1);
+  assert.equal(pending.status, "active");
+};
+
+for (const status of ["pending", "placeholder"]) {
+  test(`signing up as a ${status} user needs their invitation`, async (t) => {
+    await signUpWithInvitation(t, status);
+  });
+}
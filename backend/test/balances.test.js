@@ -0,0 +1,197 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const mongoose = require("mongoose");
+const Expense = require("../models/Expense");
+const Group = require("../models/Group");
+const Settlement = require("../models/Settlement");
+const { computeBalances } = require("../utils/balances");
+const { allocate } = require("../utils/money");
+const { getUserBalances } = require("../controllers/expenseController");
+const { forAll } = require("./helpers/random");
+
+const objectId = () => new mongoose.Types.ObjectId();
+
+// Expense over `members` with either one payer or several co-payers
+const randomExpense = (random, members, { multiplePayers }) => {
+  const amount = random.int(1, 100000);
+  const participants = random.sample(members, random.int(1, members.length));
+  const owed = allocate(amount, participants.map(() => random.int(1, 5)));
+  const expense = {
+    amount,
+    paidBy: random.pick(members),
+    splits: participants.map((user, index) => ({ user, amount: owed[index] })),
+  };
+
+  if (multiplePayers) {
+    const payers = random.sample(members, random.int(2, members.length));
+    const paid = allocate(amount, payers.map(() => random.int(0, 5)));
+    expense.paidBy = payers[0];
+    expense.paidByMultiple = payers.map((user, index) => ({
+      user,
+      amount: paid[index],
+    }));
+  }
+
+  return expense;
+};
+
+// Net position implied by the pairwise debts
+const netFromDebts = (debts, userId) =>
+  debts.reduce((sum, debt) => {
+    if (debt.to === userId) return sum + debt.amount;
+    if (debt.from === userId) return sum - debt.amount;
+    return sum;
+  }, 0);
+
+test("pairwise debts match the net balances with mixed payers", () => {
+  forAll(300, (random) => {
+    const members = ["ann", "ben", "cat", "dan", "eve"].slice(
+      0,
+      random.int(2, 5)
+    );
+    const expenses = Array.from({ length: random.int(1, 12) }, () =>
+      randomExpense(random, members, { multiplePayers: random.next() < 0.5 })
+    );
+
+    const { balances, debts } = computeBalances({ expenses });
+
+    assert.equal(balances.reduce((sum, balance) => sum + balance.net, 0), 0);
+    balances.forEach((balance) => {
+      assert.equal(balance.net, balance.paid - balance.owed);
+      assert.equal(netFromDebts(debts, balance.user), balance.net);
+    });
+    debts.forEach((debt) => assert.ok(debt.amount > 0));
+  });
+});
+
+test("co-payers are each owed what they paid", () => {
+  const { balances, debts } = computeBalances({
+    expenses: [
+      {
+        amount: 1000,
+        paidBy: "ann",
+        paidByMultiple: [
+          { user: "ann", amount: 333 },
+          { user: "ben", amount: 667 },
+        ],
+        splits: [
+          { user: "ann", amount: 334 },
+          { user: "ben", amount: 333 },
+          { user: "cat", amount: 333 },
+        ],
+      },
+      {
+        amount: 600,
+        paidBy: "cat",
+        splits: [
+          { user: "ann", amount: 200 },
+          { user: "ben", amount: 200 },
+          { user: "cat", amount: 200 },
+        ],
+      },
+    ],
+  });
+
+  const netOf = (user) => balances.find((b) => b.user === user).net;
+  assert.equal(netOf("ann"), 333 - 334 - 200);
+  assert.equal(netOf("ben"), 667 - 333 - 200);
+  assert.equal(netOf("cat"), 600 - 333 - 200);
+  ["ann", "ben", "cat"].forEach((user) => {
+    assert.equal(netFromDebts(debts, user), netOf(user));
+  });
+});
+
+// Call a handler with the given user and capture the JSON response
+const call = async (handler, user) => {
+  const res = {
+    statusCode: 200,
+    status(code) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body) {
+      this.body = body;
+      return this;
+    },
+  };
+  await handler({ user, params: {}, query: {}, body: {} }, res);
+  return res;
+};
+
+test("user balances are totalled per currency", async (t) => {
+  const me = objectId();
+  const friend = objectId();
+  const lkrGroup = { _id: objectId(), name: "Home", currency: "LKR" };
+  const usdGroup = { _id: objectId(), name: "Trip", currency: "USD" };
+
+  const expensesByPool = {
+    [lkrGroup._id]: [
+      {
+        amount: 1000,
+        paidBy: me,
+        paidByMultiple: [
+          { user: me, amount: 600 },
+          { user: friend, amount: 400 },
+        ],
+        splits: [
+          { user: me, amount: 500 },
+          { user: friend, amount: 500 },
+        ],
+      },
+    ],
+    [usdGroup._id]: [
+      {
+        amount: 3000,
+        paidBy: friend,
+        splits: [
+          { user: me, amount: 1500 },
+          { user: friend, amount: 1500 },
+        ],
+      },
+    ],
+    // Non-group expenses in two currencies
+    null: [
+      {
+        amount: 200,
+        currency: "LKR",
+        paidBy: me,
+        splits: [
+          { user: me, amount: 100 },
+          { user: friend, amount: 100 },
+        ],
+      },
+      {
+        amount: 50,
+        currency: "EUR",
+        paidBy: me,
+        splits: [
+          { user: me, amount: 25 },
+          { user: friend, amount: 25 },
+        ],
+      },
+    ],
+  };
+
+  t.mock.method(Group, "find", () => ({
+    select: async () => [lkrGroup, usdGroup],
+  }));
+  t.mock.method(Expense, "find", (query) => ({
+    select: async () => expensesByPool[query.group],
+  }));
+  t.mock.method(Settlement, "findSettled", async () => []);
+
+  const res = await call(getUserBalances, { _id: me });
+
+  assert.equal(res.statusCode, 200);
+  assert.deepEqual(res.body.totalOwed, { LKR: 100 + 100, EUR: 25 });
+  assert.deepEqual(res.body.totalOwing, { USD: 1500 });
+  assert.deepEqual(
+    res.body.byGroup.map((result) => [result.group?.name, result.currency]),
+    [
+      ["Home", "LKR"],
+      ["Trip", "USD"],
+      [undefined, "LKR"],
+      [undefined, "EUR"],
+    ]
+  );
+});
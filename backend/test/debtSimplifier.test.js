@@ -0,0 +1,141 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { simplifyDebts, EXACT_MODE_LIMIT } = require("../utils/debtSimplifier");
+const { forAll } = require("./helpers/random");
+
+const userIds = (count) =>
+  Array.from({ length: count }, (_, index) => `user${index}`);
+
+// Random balances over `count` users that sum to zero
+const randomBalances = (random, count) => {
+  const users = userIds(count);
+  const balances = {};
+  let total = 0;
+  users.slice(1).forEach((userId) => {
+    // Some users are already settled
+    balances[userId] = random.next() < 0.1 ? 0 : random.int(-50000, 50000);
+    total += balances[userId];
+  });
+  balances[users[0]] = 0 - total;
+  return balances;
+};
+
+// Balances made of `groups` disjoint zero-sum groups, so they can always be
+// settled in (unsettled users - groups) transfers
+const groupedBalances = (random, groups) => {
+  const balances = {};
+  let next = 0;
+  for (let group = 0; group < groups; group++) {
+    const size = random.int(2, 3);
+    let total = 0;
+    for (let member = 1; member < size; member++) {
+      let amount = 0;
+      while (amount === 0) amount = random.int(-20000, 20000);
+      balances[`user${next++}`] = amount;
+      total += amount;
+    }
+    // Keep every member unsettled so the group stays whole
+    if (total === 0) {
+      const bump = balances[`user${next - 1}`] > 0 ? 1 : -1;
+      balances[`user${next - 1}`] += bump;
+      total = bump;
+    }
+    balances[`user${next++}`] = -total;
+  }
+  return balances;
+};
+
+const unsettledCount = (balances) =>
+  Object.values(balances).filter((amount) => amount !== 0).length;
+
+// Every transfer is a positive whole amount between two different users, and
+// together they give each user exactly their net balance
+const assertSettles = (balances, transfers) => {
+  const received = {};
+  transfers.forEach(({ from, to, amount }) => {
+    assert.ok(Number.isInteger(amount) && amount > 0, `bad amount ${amount}`);
+    assert.notEqual(from, to);
+    assert.ok(from in balances && to in balances, "unknown user");
+    received[to] = (received[to] || 0) + amount;
+    received[from] = (received[from] || 0) - amount;
+  });
+
+  Object.entries(balances).forEach(([userId, net]) => {
+    assert.equal(received[userId] || 0, net, `net of ${userId}`);
+  });
+};
+
+test("greedy transfers settle every balance", () => {
+  forAll(300, (random) => {
+    const balances = randomBalances(random, random.int(1, 40));
+    const transfers = simplifyDebts(balances, { mode: "greedy" });
+
+    assertSettles(balances, transfers);
+    const unsettled = unsettledCount(balances);
+    assert.ok(transfers.length <= Math.max(unsettled - 1, 0));
+  });
+});
+
+test("exact transfers settle every balance", () => {
+  forAll(300, (random) => {
+    const balances = randomBalances(random, random.int(1, EXACT_MODE_LIMIT));
+    const transfers = simplifyDebts(balances, { mode: "exact" });
+
+    assertSettles(balances, transfers);
+    const greedy = simplifyDebts(balances, { mode: "greedy" });
+    assert.ok(transfers.length <= greedy.length);
+  });
+});
+
+test("exact mode finds the zero-sum groups", () => {
+  forAll(200, (random) => {
+    const groups = random.int(1, 4);
+    const balances = groupedBalances(random, groups);
+    // Shuffle so the groups aren't in input order
+    const shuffled = Object.fromEntries(
+      random.shuffle(Object.entries(balances))
+    );
+    const transfers = simplifyDebts(shuffled, { mode: "exact" });
+
+    assertSettles(shuffled, transfers);
+    assert.ok(transfers.length <= unsettledCount(shuffled) - groups);
+  });
+});
+
+test("auto mode is exact up to the limit and greedy beyond it", () => {
+  forAll(100, (random) => {
+    const small = randomBalances(random, random.int(1, EXACT_MODE_LIMIT));
+    assert.deepEqual(
+      simplifyDebts(small),
+      simplifyDebts(small, { mode: "exact" })
+    );
+
+    const large = groupedBalances(random, EXACT_MODE_LIMIT);
+    assert.deepEqual(
+      simplifyDebts(large),
+      simplifyDebts(large, { mode: "greedy" })
+    );
+  });
+});
+
+test("settled balances need no transfers", () => {
+  assert.deepEqual(simplifyDebts({}), []);
+  assert.deepEqual(simplifyDebts({ a: 0, b: 0 }), []);
+});
+
+test("invalid balances are rejected", () => {
+  assert.throws(() => simplifyDebts({ a: 100, b: -99 }), /sum to zero/);
+  assert.throws(() => simplifyDebts({ a: 1.5, b: -1.5 }), /integer amount/);
+  assert.throws(() => simplifyDebts({ a: 1, b: -1 }, { mode: "fast" }));
+
+  const tooMany = Object.fromEntries(
+    userIds(EXACT_MODE_LIMIT + 2).map((userId, index) => [
+      userId,
+      index % 2 === 0 ? 1 : -1,
+    ])
+  );
+  assert.throws(
+    () => simplifyDebts(tooMany, { mode: "exact" }),
+    (error) => error.status === 400
+  );
+});
@@ -0,0 +1,38 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const mongoose = require("mongoose");
+const Category = require("../models/Category");
+const User = require("../models/User");
+const { buildExpenseSearch } = require("../utils/expenseSearch");
+
+const objectId = () => new mongoose.Types.ObjectId();
+
+test("names only match the people searched", async (t) => {
+  const [me, nimal, stranger] = [objectId(), objectId(), objectId()];
+  const users = [
+    { _id: nimal, firstName: "Nimal" },
+    { _id: stranger, firstName: "Nimali" },
+  ];
+  t.mock.method(Category, "find", () => ({ select: async () => [] }));
+  const lookups = t.mock.method(User, "find", (query) => ({
+    select: async () =>
+      users.filter(
+        (user) =>
+          query._id.$in.some((id) => id.equals(user._id)) &&
+          query.$or.some((condition) =>
+            condition.firstName?.test(user.firstName)
+          )
+      ),
+  }));
+
+  const context = { userId: me, groupIds: [], memberIds: [me, nimal] };
+  const { conditions } = await buildExpenseSearch("with:nim", context);
+  assert.deepEqual(conditions[0].$or[0].paidBy.$in, [nimal]);
+
+  const text = await buildExpenseSearch("nimal", context);
+  assert.deepEqual(text.conditions[0].$or[1].paidBy.$in, [nimal]);
+
+  lookups.mock.calls.forEach((call) => {
+    assert.deepEqual(call.arguments[0]._id.$in, [me, nimal]);
+  });
+});
@@ -0,0 +1,126 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const mongoose = require("mongoose");
+const Expense = require("../models/Expense");
+const Category = require("../models/Category");
+const ExchangeRate = require("../models/ExchangeRate");
+const AuditLog = require("../models/AuditLog");
+const Group = require("../models/Group");
+const {
+  getExpenseHistory,
+  updateExpense,
+} = require("../controllers/expenseController");
+
+const objectId = () => new mongoose.Types.ObjectId();
+
+// Response that records what the handler sent
+const response = () => ({
+  statusCode: 200,
+  status(code) {
+    this.statusCode = code;
+    return this;
+  },
+  json(body) {
+    this.body = body;
+    return this;
+  },
+});
+
+// Non-group expense between two people, stubbed out of the database
+const mockExpense = (t, fields) => {
+  const [ann, ben] = [objectId(), objectId()];
+  const expense = new Expense({
+    description: "Dinner",
+    paidBy: ann,
+    splitType: "equal",
+    splits: [
+      { user: ann, amount: 0 },
+      { user: ben, amount: 0 },
+    ],
+    ...fields,
+  });
+
+  t.mock.method(Expense, "findById", () => ({
+    populate: () => ({ populate: async () => expense }),
+  }));
+  t.mock.method(expense, "save", async () => expense);
+  t.mock.method(expense, "populate", async () => expense);
+  t.mock.method(Category, "resolve", async () => ({ _id: objectId() }));
+
+  return { expense, ann, ben };
+};
+
+test("editing an expense keeps its manual exchange rate", async (t) => {
+  // 20.00 USD entered at a hand-picked 300 LKR per USD
+  const { expense, ann, ben } = mockExpense(t, {
+    amount: 600000,
+    currency: "LKR",
+    originalAmount: 2000,
+    originalCurrency: "USD",
+    exchangeRate: 300,
+    date: new Date("2024-03-01T18:42:17.123Z"),
+  });
+  // The rate table has nothing for that day
+  const lookup = t.mock.method(ExchangeRate, "resolve", async () => null);
+
+  const res = response();
+  await updateExpense(
+    {
+      params: { expenseId: expense._id },
+      user: { _id: ann },
+      body: {
+        description: "Team dinner",
+        amount: 2000,
+        currency: "USD",
+        // As the edit form sends it back: to the minute, in local time
+        date: "2024-03-01T18:42",
+        splitType: "equal",
+        participants: [ann.toString(), ben.toString()],
+      },
+    },
+    res
+  );
+
+  assert.equal(res.statusCode, 200);
+  assert.equal(lookup.mock.callCount(), 0);
+  assert.equal(expense.description, "Team dinner");
+  assert.equal(expense.exchangeRate, 300);
+  assert.equal(expense.amount, 600000);
+  assert.equal(expense.originalAmount, 2000);
+});
+
+test("the people in a non-group expense can see its history", async (t) => {
+  const [ann, ben, cat] = [objectId(), objectId(), objectId()];
+  const expense = new Expense({
+    description: "Dinner",
+    amount: 1000,
+    paidBy: ann,
+    splits: [
+      { user: ann, amount: 500 },
+      { user: ben, amount: 500 },
+    ],
+  });
+  t.mock.method(Expense, "findById", () => ({
+    setOptions: () => ({ select: async () => expense }),
+  }));
+  const groupLookup = t.mock.method(Group, "findById", async () => null);
+  const history = [{ version: 1, action: "create" }];
+  t.mock.method(AuditLog, "find", () => ({
+    sort: () => ({ populate: async () => history }),
+  }));
+
+  const historyFor = async (user) => {
+    const res = response();
+    await getExpenseHistory(
+      { params: { expenseId: expense._id }, user: { _id: user } },
+      res
+    );
+    return res;
+  };
+
+  const res = await historyFor(ben);
+  assert.equal(res.statusCode, 200);
+  assert.deepEqual(res.body.history, history);
+  assert.equal((await historyFor(cat)).statusCode, 403);
+  assert.equal(groupLookup.mock.callCount(), 0);
+});
@@ -0,0 +1,66 @@
+// Seeded random inputs for property tests. Failures print the seed, and
+// TEST_SEED=<seed> replays that run.
+
+// mulberry32: small, fast and good enough for test inputs
+const createRandom = (seed) => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  // Whole number between min and max, inclusive
+  const int = (min, max) => min + Math.floor(next() * (max - min + 1));
+  const pick = (list) => list[int(0, list.length - 1)];
+  const shuffle = (list) => {
+    const copy = [...list];
+    for (let i = copy.length - 1; i > 0; i--) {
+      const j = int(0, i);
+      [copy[i], copy[j]] = [copy[j], copy[i]];
+    }
+    return copy;
+  };
+  // `count` distinct items from list
+  const sample = (list, count) => shuffle(list).slice(0, count);
+
+  return { next, int, pick, shuffle, sample };
+};
+
+const baseSeed = () =>
+  process.env.TEST_SEED ? Number(process.env.TEST_SEED) : Date.now();
+
+const withSeed = (error, seed) => {
+  error.message = `${error.message}\n(reproduce with TEST_SEED=${seed})`;
+  return error;
+};
+
+// Run `check` against `runs` random cases, naming the seed of the failing one
+const forAll = (runs, check) => {
+  const seed = baseSeed();
+  for (let run = 0; run < runs; run++) {
+    const caseSeed = (seed + run) >>> 0;
+    try {
+      check(createRandom(caseSeed));
+    } catch (error) {
+      throw withSeed(error, caseSeed);
+    }
+  }
+};
+
+// Async version of forAll
+const forAllAsync = async (runs, check) => {
+  const seed = baseSeed();
+  for (let run = 0; run < runs; run++) {
+    const caseSeed = (seed + run) >>> 0;
+    try {
+      await check(createRandom(caseSeed));
+    } catch (error) {
+      throw withSeed(error, caseSeed);
+    }
+  }
+};
+
+module.exports = { createRandom, forAll, forAllAsync };
@@ -0,0 +1,143 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const mongoose = require("mongoose");
+const AuditLog = require("../models/AuditLog");
+const Expense = require("../models/Expense");
+const RecurringExpense = require("../models/RecurringExpense");
+const Settlement = require("../models/Settlement");
+const User = require("../models/User");
+const { mergeMembership, transferMembership } = require("../utils/members");
+
+const objectId = () => new mongoose.Types.ObjectId();
+
+// A query that resolves to `value` whatever options are set
+const queryOf = (value) => ({ setOptions: async () => value });
+
+// Stub the collections so documents save for real, hooks and all, and the
+// history entries they write are captured
+const mockRecords = (t, { expenses = [], settlements = [] }) => {
+  [
+    [Expense, expenses],
+    [Settlement, settlements],
+  ].forEach(([Model, docs]) => {
+    // The stored copies, as they were before any change
+    const stored = docs.map((doc) => doc.toObject());
+    t.mock.method(Model, "find", () => queryOf(docs));
+    t.mock.method(Model.collection, "findOne", async ({ _id }) =>
+      stored.find((doc) => doc._id.equals(_id))
+    );
+    t.mock.method(Model.collection, "updateOne", async () => ({
+      acknowledged: true,
+      matchedCount: 1,
+      modifiedCount: 1,
+    }));
+    t.mock.method(Model.collection, "deleteOne", async () => ({
+      acknowledged: true,
+      deletedCount: 1,
+    }));
+  });
+  t.mock.method(RecurringExpense, "find", () => queryOf([]));
+  t.mock.method(User, "updateOne", async () => ({}));
+  t.mock.method(User, "deleteOne", async () => ({}));
+  t.mock.method(AuditLog, "findOne", () => ({
+    sort: () => ({ select: async () => null }),
+  }));
+  return t.mock.method(AuditLog, "create", async (entry) => entry);
+};
+
+// An expense as loaded from the database
+const savedExpense = (fields) =>
+  Expense.hydrate(new Expense(fields).toObject());
+
+test("claiming a guest records every change in the history", async (t) => {
+  const [admin, guest, user] = [objectId(), objectId(), objectId()];
+  const group = {
+    _id: objectId(),
+    members: [],
+    removeMember: async () => {},
+  };
+
+  const dinner = savedExpense({
+    description: "Dinner",
+    amount: 900,
+    group: group._id,
+    paidBy: guest,
+    splitType: "equal",
+    splits: [
+      { user: admin, amount: 300 },
+      { user: guest, amount: 300 },
+      { user, amount: 300 },
+    ],
+  });
+  const between = Settlement.hydrate(
+    new Settlement({
+      fromUser: guest,
+      toUser: user,
+      group: group._id,
+      amount: 300,
+    }).toObject()
+  );
+  const created = mockRecords(t, {
+    expenses: [dinner],
+    settlements: [between],
+  });
+
+  await mergeMembership(group, guest, user, admin);
+
+  const entries = created.mock.calls.map((call) => call.arguments[0]);
+  const entryFor = (doc) => entries.find((e) => e.entity.equals(doc._id));
+
+  const update = entryFor(dinner);
+  assert.equal(update.action, "update");
+  assert.ok(update.actor.equals(admin));
+  assert.equal(update.snapshot.paidBy, user.toString());
+  assert.deepEqual(
+    update.snapshot.splits.map((split) => [split.user, split.amount]),
+    [
+      [admin.toString(), 300],
+      [user.toString(), 600],
+    ]
+  );
+  assert.deepEqual(
+    update.changes.map((change) => change.field).sort(),
+    ["paidBy", "splits"]
+  );
+
+  const removal = entryFor(between);
+  assert.equal(removal.action, "delete");
+  assert.ok(removal.actor.equals(admin));
+});
+
+test("trashed expenses move to whoever takes a guest's place", async (t) => {
+  const [admin, guest, user] = [objectId(), objectId(), objectId()];
+  const group = {
+    _id: objectId(),
+    members: [{ user: guest, role: "member" }],
+    save: async () => {},
+    removeMember: async () => {},
+  };
+  const trashed = savedExpense({
+    description: "Taxi",
+    amount: 400,
+    group: group._id,
+    paidBy: admin,
+    splitType: "equal",
+    splits: [
+      { user: admin, amount: 200 },
+      { user: guest, amount: 200 },
+    ],
+    deletedAt: new Date(),
+  });
+  const created = mockRecords(t, { expenses: [trashed] });
+
+  await transferMembership(group, guest, user, admin);
+
+  const [update] = created.mock.calls.map((call) => call.arguments[0]);
+  assert.equal(update.action, "update");
+  assert.ok(update.actor.equals(admin));
+  assert.deepEqual(
+    update.snapshot.splits.map((split) => split.user),
+    [admin.toString(), user.toString()]
+  );
+  assert.ok(group.members[0].user.equals(user));
+});
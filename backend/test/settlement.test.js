@@ -0,0 +1,342 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const mongoose = require("mongoose");
+const Expense = require("../models/Expense");
+const Group = require("../models/Group");
+const Settlement = require("../models/Settlement");
+const SettlementPlan = require("../models/SettlementPlan");
+const User = require("../models/User");
+const { allocate } = require("../utils/money");
+const { EXACT_MODE_LIMIT } = require("../utils/debtSimplifier");
+const { forAllAsync } = require("./helpers/random");
+const {
+  calculateGroupSettlements,
+  getSettlementStats,
+  updateSettlementStatus,
+} = require("../controllers/settlementController");
+
+const MODES = ["auto", "greedy", "exact"];
+
+const objectId = () => new mongoose.Types.ObjectId();
+
+// A query that resolves to `value` whatever is selected
+const queryOf = (value) => ({ select: async () => value });
+
+// Random expense over `members`, paid by one member or split between several
+const randomExpense = (random, members) => {
+  const amount = random.int(1, 200000);
+  const participants = random.sample(members, random.int(1, members.length));
+  const shares = allocate(amount, participants.map(() => random.int(1, 5)));
+
+  const expense = {
+    _id: objectId(),
+    amount,
+    paidBy: random.pick(members),
+    splits: participants.map((user, index) => ({
+      user,
+      amount: shares[index],
+    })),
+    updatedAt: new Date(),
+  };
+
+  if (random.next() < 0.5) {
+    const payers = random.sample(members, random.int(2, members.length));
+    const paid = allocate(amount, payers.map(() => random.int(0, 5)));
+    expense.paidBy = payers[0];
+    expense.paidByMultiple = payers.map((user, index) => ({
+      user,
+      amount: paid[index],
+    }));
+  }
+
+  return expense;
+};
+
+// Completed or partially paid settlement between two members
+const randomSettlement = (random, members) => {
+  const [fromUser, toUser] = random.sample(members, 2);
+  const amount = random.int(1, 50000);
+  return {
+    _id: objectId(),
+    fromUser,
+    toUser,
+    amount,
+    paidAmount: random.next() < 0.3 ? random.int(1, amount) : amount,
+    updatedAt: new Date(),
+  };
+};
+
+// What each member should end up with: paid - owed, adjusted by settlements
+const expectedNets = (members, expenses, settlements) => {
+  const nets = Object.fromEntries(members.map((member) => [member, 0]));
+  expenses.forEach((expense) => {
+    const payers = expense.paidByMultiple || [
+      { user: expense.paidBy, amount: expense.amount },
+    ];
+    payers.forEach((payer) => (nets[payer.user] += payer.amount));
+    expense.splits.forEach((split) => (nets[split.user] -= split.amount));
+  });
+  settlements.forEach((settlement) => {
+    nets[settlement.fromUser] += settlement.paidAmount;
+    nets[settlement.toUser] -= settlement.paidAmount;
+  });
+  return nets;
+};
+
+const mockGroup = (t, { currency, expenses, settlements }) => {
+  t.mock.method(Group, "findById", () => queryOf({ currency }));
+  t.mock.method(Expense, "find", () => queryOf(expenses));
+  t.mock.method(Settlement, "findSettled", async () => settlements);
+};
+
+test("planned settlements bring every member to zero", async (t) => {
+  await forAllAsync(150, async (random) => {
+    const members = Array.from({ length: random.int(2, 16) }, () =>
+      objectId().toString()
+    );
+    const expenses = Array.from({ length: random.int(0, 25) }, () =>
+      randomExpense(random, members)
+    );
+    const settlements = Array.from({ length: random.int(0, 5) }, () =>
+      randomSettlement(random, members)
+    );
+    const unsettled = Object.values(
+      expectedNets(members, expenses, settlements)
+    ).filter((net) => net !== 0).length;
+    // Exact mode refuses groups above its limit
+    const mode = random.pick(
+      unsettled > EXACT_MODE_LIMIT ? ["auto", "greedy"] : MODES
+    );
+    mockGroup(t, { currency: "USD", expenses, settlements });
+
+    const groupId = objectId();
+    const result = await Settlement.calculateGroupSettlements(groupId, {
+      mode,
+    });
+
+    const nets = expectedNets(members, expenses, settlements);
+    result.settlements.forEach((settlement) => {
+      assert.ok(Number.isInteger(settlement.amount) && settlement.amount > 0);
+      assert.equal(settlement.currency, "USD");
+      assert.equal(settlement.group, groupId);
+      nets[settlement.fromUser] += settlement.amount;
+      nets[settlement.toUser] -= settlement.amount;
+    });
+    Object.entries(nets).forEach(([member, net]) => {
+      assert.equal(net, 0, `balance left for ${member}`);
+    });
+
+    assert.deepEqual(
+      result.basis.expenses,
+      expenses.map((expense) => expense._id)
+    );
+    assert.deepEqual(
+      result.basis.settlements,
+      settlements.map((settlement) => settlement._id)
+    );
+    t.mock.restoreAll();
+  });
+});
+
+test("the fingerprint changes when an expense is edited", async (t) => {
+  const [alice, bob] = [objectId().toString(), objectId().toString()];
+  const expense = {
+    _id: objectId(),
+    amount: 1000,
+    paidBy: alice,
+    splits: [
+      { user: alice, amount: 500 },
+      { user: bob, amount: 500 },
+    ],
+    updatedAt: new Date("2024-01-01"),
+  };
+  mockGroup(t, { currency: "LKR", expenses: [expense], settlements: [] });
+
+  const before = await Settlement.calculateGroupSettlements(objectId());
+  assert.deepEqual(
+    before.settlements.map(({ fromUser, toUser, amount }) => ({
+      fromUser,
+      toUser,
+      amount,
+    })),
+    [{ fromUser: bob, toUser: alice, amount: 500 }]
+  );
+
+  expense.updatedAt = new Date("2024-01-02");
+  const after = await Settlement.calculateGroupSettlements(objectId());
+  assert.notEqual(after.basis.fingerprint, before.basis.fingerprint);
+});
+
+test("groups without a currency fall back to LKR", async (t) => {
+  mockGroup(t, { currency: undefined, expenses: [], settlements: [] });
+
+  const result = await Settlement.calculateGroupSettlements(objectId());
+  assert.equal(result.currency, "LKR");
+  assert.deepEqual(result.settlements, []);
+});
+
+// Response that records what the handler sent
+const response = () => ({
+  statusCode: 200,
+  status(code) {
+    this.statusCode = code;
+    return this;
+  },
+  json(body) {
+    this.body = body;
+    return this;
+  },
+});
+
+test("confirmed payments cannot be cancelled away", async (t) => {
+  const [alice, bob] = [objectId(), objectId()];
+  const groupId = objectId();
+  const expense = {
+    _id: objectId(),
+    amount: 1000,
+    paidBy: alice,
+    splits: [
+      { user: alice, amount: 500 },
+      { user: bob, amount: 500 },
+    ],
+    updatedAt: new Date(),
+  };
+  const settlement = new Settlement({
+    fromUser: bob,
+    toUser: alice,
+    group: groupId,
+    amount: 500,
+    status: "partially_paid",
+    payments: [{ amount: 200, recordedBy: bob, confirmedAt: new Date() }],
+  });
+
+  t.mock.method(Settlement, "findById", async () => settlement);
+  t.mock.method(Group, "findById", () =>
+    queryOf({ currency: "LKR", isMember: () => true })
+  );
+  t.mock.method(User, "find", () => ({ distinct: async () => [] }));
+  t.mock.method(Expense, "find", () => queryOf([expense]));
+  // The real findSettled, so its status filter decides what counts
+  t.mock.method(Settlement, "find", (query) =>
+    queryOf([settlement].filter((s) => query.status.$in.includes(s.status)))
+  );
+  t.mock.method(settlement, "save", async () => settlement);
+  t.mock.method(settlement, "populate", async () => settlement);
+
+  const owed = async () =>
+    (await Settlement.calculateGroupSettlements(groupId)).settlements.map(
+      (s) => s.amount
+    );
+  const cancel = async () => {
+    const res = response();
+    await updateSettlementStatus(
+      {
+        params: { settlementId: settlement._id },
+        user: { _id: bob },
+        body: { status: "cancelled" },
+      },
+      res
+    );
+    return res;
+  };
+
+  assert.deepEqual(await owed(), [300]);
+
+  assert.equal((await cancel()).statusCode, 400);
+  assert.equal(settlement.status, "partially_paid");
+  assert.deepEqual(await owed(), [300]);
+
+  // Once the payment is voided nothing is lost by cancelling
+  await settlement.voidPayment(settlement.payments[0]._id, alice);
+  assert.equal((await cancel()).statusCode, 200);
+  assert.equal(settlement.status, "cancelled");
+  assert.deepEqual(await owed(), [500]);
+});
+
+test("committing a plan replaces settlements from before plans", async (t) => {
+  const [alice, bob] = [objectId(), objectId()];
+  const groupId = objectId();
+  const legacy = (fields) =>
+    new Settlement({ fromUser: bob, toUser: alice, group: groupId, ...fields });
+  const untouched = legacy({ amount: 500 });
+  const partiallyPaid = legacy({
+    amount: 500,
+    status: "partially_paid",
+    payments: [{ amount: 200, recordedBy: bob, confirmedAt: new Date() }],
+  });
+  const settlements = [untouched, partiallyPaid];
+
+  t.mock.method(Group, "findById", async () => ({ isMember: () => true }));
+  t.mock.method(Settlement, "calculateGroupSettlements", async () => ({
+    currency: "LKR",
+    settlements: [
+      { fromUser: bob, toUser: alice, group: groupId, amount: 300 },
+    ],
+    basis: { expenses: [], settlements: [], fingerprint: "basis" },
+  }));
+  t.mock.method(SettlementPlan, "findOne", () => ({
+    select: async () => null,
+    sort: () => ({ select: async () => null }),
+  }));
+  t.mock.method(SettlementPlan, "find", () => ({ distinct: async () => [] }));
+  t.mock.method(SettlementPlan, "create", async (plan) => ({
+    _id: objectId(),
+    ...plan,
+  }));
+  t.mock.method(Settlement.prototype, "save", async function () {
+    return this;
+  });
+  t.mock.method(Settlement, "populate", async () => {});
+  const inFlight = t.mock.method(Settlement, "countDocuments", async () => 0);
+  // Settlements without a plan are the ones a null plan filter matches
+  t.mock.method(Settlement, "find", async (query) =>
+    query.group === groupId && query.plan.$in.includes(null)
+      ? settlements.filter((s) => !s.plan && s.status === query.status)
+      : []
+  );
+  const deleted = t.mock.method(untouched, "deleteOne", async () => {});
+
+  const res = response();
+  await calculateGroupSettlements(
+    { params: { groupId }, body: {}, user: { _id: alice } },
+    res
+  );
+
+  assert.equal(res.statusCode, 200);
+  assert.deepEqual(inFlight.mock.calls[0].arguments[0].plan, { $in: [null] });
+  assert.equal(deleted.mock.callCount(), 1);
+  assert.equal(partiallyPaid.status, "completed");
+  assert.equal(partiallyPaid.amount, 200);
+  assert.deepEqual(res.body.settlements.map((s) => s.amount), [300]);
+});
+
+test("settlement stats are totalled per currency", async (t) => {
+  const [alice, bob] = [objectId(), objectId()];
+  const settlement = (fields) =>
+    new Settlement({
+      fromUser: bob,
+      toUser: alice,
+      group: objectId(),
+      ...fields,
+    });
+  t.mock.method(Group, "find", () => ({ distinct: async () => [] }));
+  t.mock.method(Settlement, "find", async () => [
+    settlement({ amount: 500, currency: "LKR" }),
+    settlement({
+      amount: 300,
+      currency: "USD",
+      status: "partially_paid",
+      payments: [{ amount: 100, recordedBy: bob, confirmedAt: new Date() }],
+    }),
+    settlement({ amount: 900, currency: "USD", status: "cancelled" }),
+  ]);
+
+  const res = response();
+  await getSettlementStats({ query: {}, user: { _id: alice } }, res);
+
+  const { stats } = res.body;
+  assert.deepEqual(stats.totalAmount, { LKR: 500, USD: 300 });
+  assert.deepEqual(stats.paidAmount, { USD: 100 });
+  assert.deepEqual(stats.outstandingAmount, { LKR: 500, USD: 200 });
+  assert.deepEqual(stats.completedAmount, {});
+});
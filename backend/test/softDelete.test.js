@@ -0,0 +1,55 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const mongoose = require("mongoose");
+const Expense = require("../models/Expense");
+
+const groupId = new mongoose.Types.ObjectId();
+
+// Record the filter each bulk collection call is sent, without a database
+const captureFilters = (t) => {
+  const filters = [];
+  t.mock.method(Expense.collection, "distinct", async (field, filter) => {
+    filters.push(filter);
+    return [];
+  });
+  ["updateMany", "deleteMany"].forEach((method) => {
+    t.mock.method(Expense.collection, method, async (filter) => {
+      filters.push(filter);
+      return {};
+    });
+  });
+  return filters;
+};
+
+test("bulk queries skip trashed documents", async (t) => {
+  const filters = captureFilters(t);
+
+  await Expense.distinct("_id", { group: groupId });
+  await Expense.updateMany({ group: groupId }, { notes: "moved" });
+  await Expense.deleteMany({ group: groupId });
+
+  assert.equal(filters.length, 3);
+  filters.forEach((filter) => {
+    assert.equal(filter.deletedAt, null);
+    assert.ok(filter.group.equals(groupId));
+  });
+});
+
+test("withDeleted and deletedAt filters reach trashed documents", async (t) => {
+  const filters = captureFilters(t);
+
+  await Expense.distinct("_id", { group: groupId }).setOptions({
+    withDeleted: true,
+  });
+  await Expense.updateMany(
+    { group: groupId },
+    { notes: "moved" },
+    { withDeleted: true }
+  );
+  await Expense.deleteMany({ group: groupId, deletedAt: { $ne: null } });
+
+  assert.equal(filters.length, 3);
+  assert.equal("deletedAt" in filters[0], false);
+  assert.equal("deletedAt" in filters[1], false);
+  assert.deepEqual(filters[2].deletedAt, { $ne: null });
+});
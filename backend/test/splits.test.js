@@ -0,0 +1,62 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { buildSplits } = require("../utils/splits");
+
+const participants = ["ann", "ben", "cat"];
+
+const split = (splitType, customSplits) =>
+  buildSplits({ splitType, amount: 1000, participants, customSplits });
+
+test("custom split inputs list each participant once", () => {
+  const inputs = {
+    percentage: (userId) => ({ userId, percentage: 50 }),
+    shares: (userId) => ({ userId, shares: 1 }),
+    adjustment: (userId) => ({ userId, adjustment: 0 }),
+    custom: (userId) => ({ userId, amount: 500 }),
+  };
+
+  Object.entries(inputs).forEach(([splitType, input]) => {
+    assert.match(
+      split(splitType, [input("ann"), input("ann")]).error,
+      /only be listed once/
+    );
+    assert.match(
+      split(splitType, [input("ann"), input("dan")]).error,
+      /taking part in the expense/
+    );
+    assert.match(
+      split(splitType, [input("ann"), input(undefined)]).error,
+      /needs a participant/
+    );
+    assert.match(split(splitType, []).error, /No participants/);
+  });
+});
+
+test("share weights must be above zero", () => {
+  assert.ok(split("shares", [{ userId: "ann", shares: 0 }]).error);
+  assert.ok(split("shares", [{ userId: "ann", shares: -1 }]).error);
+  assert.ok(split("shares", [{ userId: "ann", shares: "2" }]).error);
+
+  const { splits } = split("shares", [
+    { userId: "ann", shares: 2 },
+    { userId: "ben", shares: 0.5 },
+    { userId: "cat", shares: 1.5 },
+  ]);
+  assert.deepEqual(splits.map((entry) => entry.amount), [500, 125, 375]);
+});
+
+test("percentages must be above zero even when they add up to 100", () => {
+  [0, -20, Infinity, "50"].forEach((percentage) => {
+    const { error } = split("percentage", [
+      { userId: "ann", percentage },
+      { userId: "ben", percentage: 100 - percentage },
+    ]);
+    assert.match(error, /greater than zero/);
+  });
+
+  const { splits } = split("percentage", [
+    { userId: "ann", percentage: 25 },
+    { userId: "ben", percentage: 75 },
+  ]);
+  assert.deepEqual(splits.map((entry) => entry.amount), [250, 750]);
+});
@@ -0,0 +1,77 @@
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { createLocalStorage } = require("../utils/storage/local");
+const { createS3Storage } = require("../utils/storage/s3");
+
+const readAll = async (stream) => {
+  const chunks = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+};
+
+// What every storage backend has to do for receipts
+const checkStorage = async (storage) => {
+  const key = `receipts/${Date.now()}-${process.pid}/receipt.jpg`;
+  const body = Buffer.from("not really a jpeg");
+
+  assert.equal(await storage.get(key), null);
+
+  await storage.put(key, body, "image/jpeg");
+  assert.deepEqual(await readAll(await storage.get(key)), body);
+
+  await storage.remove(key);
+  assert.equal(await storage.get(key), null);
+
+  // Removing a missing file is not an error
+  await storage.remove(key);
+};
+
+test("local storage keeps files under its root", async (t) => {
+  const root = await fs.promises.mkdtemp(path.join(os.tmpdir(), "storage-"));
+  t.after(() => fs.promises.rm(root, { recursive: true, force: true }));
+
+  await checkStorage(createLocalStorage({ root }));
+});
+
+test("local storage refuses keys outside its root", async (t) => {
+  const root = await fs.promises.mkdtemp(path.join(os.tmpdir(), "storage-"));
+  t.after(() => fs.promises.rm(root, { recursive: true, force: true }));
+  const storage = createLocalStorage({ root });
+
+  const escaping = ["../escaped.jpg", "receipts/../../escaped.jpg", "/tmp/x"];
+  for (const key of escaping) {
+    await assert.rejects(storage.put(key, Buffer.from("x")), /Invalid/);
+    await assert.rejects(storage.get(key), /Invalid/);
+    await assert.rejects(storage.remove(key), /Invalid/);
+  }
+  // Nor the root itself
+  await assert.rejects(storage.remove("."), /Invalid/);
+  assert.equal(fs.existsSync(path.join(root, "..", "escaped.jpg")), false);
+});
+
+// Runs against an S3-compatible server such as a local MinIO, e.g.
+// S3_TEST_ENDPOINT=http://localhost:9000 S3_TEST_BUCKET=receipts \
+// S3_TEST_ACCESS_KEY_ID=minioadmin S3_TEST_SECRET_ACCESS_KEY=minioadmin
+// The bucket has to exist already.
+test(
+  "s3 storage against S3_TEST_ENDPOINT",
+  { skip: !process.env.S3_TEST_ENDPOINT && "S3_TEST_ENDPOINT is not set" },
+  async () => {
+    await checkStorage(
+      createS3Storage({
+        bucket: process.env.S3_TEST_BUCKET || "receipts",
+        region: process.env.S3_TEST_REGION,
+        endpoint: process.env.S3_TEST_ENDPOINT,
+        accessKeyId: process.env.S3_TEST_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_TEST_SECRET_ACCESS_KEY,
+      })
+    );
+  }
+);
+
+test("s3 storage needs a bucket", () => {
+  assert.throws(() => createS3Storage({}), /S3_BUCKET/);
+});
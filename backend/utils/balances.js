@@ -0,0 +1,148 @@
+// Balance ledger helpers. Amounts are integer minor units throughout.
+const { allocate, isMinorUnitAmount } = require("./money");
+
+// Accept either a populated document or a raw ObjectId
+const idOf = (ref) => (ref && ref._id ? ref._id : ref).toString();
+
+// Amount each payer put towards an expense
+const getPayerContributions = (expense) => {
+  if (expense.paidByMultiple && expense.paidByMultiple.length > 0) {
+    return expense.paidByMultiple.map((payer) => ({
+      user: idOf(payer.user),
+      amount: payer.amount,
+    }));
+  }
+
+  return [{ user: idOf(expense.paidBy), amount: expense.amount }];
+};
+
+// Check that co-payer amounts are valid and cover the expense exactly.
+// Returns an error message, or null when the payers are valid.
+const validatePayerContributions = (amount, paidByMultiple = []) => {
+  if (!paidByMultiple || paidByMultiple.length <= 1) return null;
+
+  const payerIds = paidByMultiple.map((payer) => idOf(payer.user));
+  if (new Set(payerIds).size !== payerIds.length) {
+    return "Each payer can only be listed once.";
+  }
+
+  if (paidByMultiple.some((payer) => !isMinorUnitAmount(payer.amount))) {
+    return "Payer amounts must be zero or more whole minor units.";
+  }
+
+  const totalPaid = paidByMultiple.reduce((sum, payer) => sum + payer.amount, 0);
+  if (totalPaid !== amount) {
+    return "Payer amounts must add up to the total expense amount.";
+  }
+
+  return null;
+};
+
+// Compute paid, owed and net positions for every user touched by the given
+// expenses and completed settlements, plus the net debt between each pair.
+const computeBalances = ({ expenses = [], settlements = [], memberIds = [] }) => {
+  const ledger = {};
+  const pairs = {};
+
+  const entryFor = (userId) => {
+    if (!ledger[userId]) {
+      ledger[userId] = {
+        paid: 0,
+        owed: 0,
+        settlementsPaid: 0,
+        settlementsReceived: 0,
+      };
+    }
+    return ledger[userId];
+  };
+
+  const addDebt = (from, to, amount) => {
+    if (from === to || amount === 0) return;
+    const key = `${from}:${to}`;
+    pairs[key] = (pairs[key] || 0) + amount;
+  };
+
+  memberIds.forEach((userId) => entryFor(idOf(userId)));
+
+  expenses.forEach((expense) => {
+    const contributions = getPayerContributions(expense);
+    const totalPaid = contributions.reduce((sum, c) => sum + c.amount, 0);
+    const totalSplit = expense.splits.reduce((sum, s) => sum + s.amount, 0);
+
+    contributions.forEach((contribution) => {
+      entryFor(contribution.user).paid += contribution.amount;
+    });
+
+    // Each participant owes every payer in proportion to what they paid.
+    // When the splits cover the payments exactly, each split is spread over
+    // what the payers are still owed, so rounding never leaves a payer owed
+    // more or less than they paid.
+    const paid = contributions.map((contribution) => contribution.amount);
+    const unpaid = [...paid];
+
+    expense.splits.forEach((split) => {
+      const userId = idOf(split.user);
+      entryFor(userId).owed += split.amount;
+
+      if (totalPaid > 0) {
+        const owedToPayers = allocate(
+          split.amount,
+          totalSplit === totalPaid ? unpaid : paid
+        );
+        contributions.forEach((contribution, index) => {
+          addDebt(userId, contribution.user, owedToPayers[index]);
+          unpaid[index] -= owedToPayers[index];
+        });
+      }
+    });
+  });
+
+  settlements.forEach((settlement) => {
+    const from = idOf(settlement.fromUser);
+    const to = idOf(settlement.toUser);
+    // Partially paid settlements only count what has been paid so far
+    const amount = settlement.paidAmount ?? settlement.amount;
+
+    entryFor(from).settlementsPaid += amount;
+    entryFor(to).settlementsReceived += amount;
+
+    // A payment reduces what the payer owes the receiver
+    addDebt(to, from, amount);
+  });
+
+  const balances = Object.entries(ledger).map(([userId, entry]) => ({
+    user: userId,
+    paid: entry.paid,
+    owed: entry.owed,
+    settlementsPaid: entry.settlementsPaid,
+    settlementsReceived: entry.settlementsReceived,
+    net:
+      entry.paid - entry.owed + entry.settlementsPaid - entry.settlementsReceived,
+  }));
+
+  // Offset opposite directions so each pair has a single net debt
+  const debts = [];
+  const seen = new Set();
+  Object.keys(pairs).forEach((key) => {
+    const [from, to] = key.split(":");
+    const pairKey = [from, to].sort().join(":");
+    if (seen.has(pairKey)) return;
+    seen.add(pairKey);
+
+    const net = (pairs[key] || 0) - (pairs[`${to}:${from}`] || 0);
+    if (net > 0) {
+      debts.push({ from, to, amount: net });
+    } else if (net < 0) {
+      debts.push({ from: to, to: from, amount: -net });
+    }
+  });
+
+  return { balances, debts };
+};
+
+module.exports = {
+  idOf,
+  getPayerContributions,
+  validatePayerContributions,
+  computeBalances,
+};
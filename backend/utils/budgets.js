@@ -0,0 +1,157 @@
+// Budget progress: a group's spending per calendar month (UTC) against its
+// budgets, with rollover from earlier months, and the alerts raised when an
+// expense pushes a budget past ALERT_THRESHOLDS percent.
+const Budget = require("../models/Budget");
+const Category = require("../models/Category");
+const Expense = require("../models/Expense");
+const { idOf } = require("./balances");
+
+const ALERT_THRESHOLDS = [80, 100];
+
+const monthStart = (date) => {
+  const day = new Date(date);
+  return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1));
+};
+
+const nextMonthStart = (date) => {
+  const start = monthStart(date);
+  return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+};
+
+const monthKey = (date) => date.toISOString().slice(0, 7);
+
+// The month budgets are currently measured over
+const currentPeriod = (now = new Date()) => ({
+  start: monthStart(now),
+  end: nextMonthStart(now),
+});
+
+// Spending counted against a budget per month ("2026-10"), from the
+// budget's first month up to `end`
+const monthlySpending = async (budget, end) => {
+  const match = {
+    group: budget.group,
+    date: { $gte: monthStart(budget.startDate), $lt: end },
+  };
+  if (budget.category) {
+    match.category = {
+      $in: await Category.idsWithChildren(budget.category._id),
+    };
+  }
+
+  const totals = await Expense.aggregate([
+    { $match: match },
+    {
+      $group: {
+        _id: { $dateToString: { format: "%Y-%m", date: "$date" } },
+        total: { $sum: "$amount" },
+      },
+    },
+  ]);
+
+  const spending = {};
+  totals.forEach(({ _id, total }) => {
+    spending[_id] = total;
+  });
+  return spending;
+};
+
+const statusFor = (percent) => {
+  if (percent >= 100) return "exceeded";
+  if (percent >= ALERT_THRESHOLDS[0]) return "warning";
+  return "ok";
+};
+
+// A budget with its spending in the current month. `limit` is the monthly
+// amount plus whatever rolled over from earlier months.
+const budgetProgress = async (budget, now = new Date()) => {
+  const period = currentPeriod(now);
+  const spending = await monthlySpending(budget, period.end);
+
+  let carried = 0;
+  if (budget.rollover !== "none") {
+    for (
+      let month = monthStart(budget.startDate);
+      month < period.start;
+      month = nextMonthStart(month)
+    ) {
+      carried += budget.amount - (spending[monthKey(month)] || 0);
+      // Only leftover money carries; an overspent month just uses it up
+      if (budget.rollover === "unspent") carried = Math.max(0, carried);
+    }
+  }
+
+  const spent = spending[monthKey(period.start)] || 0;
+  const limit = budget.amount + carried;
+  // Overspending carried forward can leave nothing to spend this month
+  const percent = limit > 0 ? Math.floor((spent * 100) / limit) : 100;
+
+  return {
+    ...budget.toObject(),
+    period,
+    spent,
+    carried,
+    limit,
+    remaining: limit - spent,
+    percent,
+    status: statusFor(percent),
+  };
+};
+
+// Progress of every budget in a group
+const groupBudgetProgress = async (groupId, now = new Date()) => {
+  const budgets = await Budget.find({ group: groupId })
+    .populate("category", "name icon color parent")
+    .sort({ createdAt: 1 });
+  return Promise.all(budgets.map((budget) => budgetProgress(budget, now)));
+};
+
+// Budgets that crossed an alert threshold between two progress snapshots,
+// with the highest threshold crossed
+const crossedThresholds = (before, after) =>
+  after.flatMap((progress) => {
+    const previous = before.find(
+      (candidate) => idOf(candidate._id) === idOf(progress._id)
+    );
+    const threshold = [...ALERT_THRESHOLDS]
+      .reverse()
+      .find(
+        (limit) =>
+          progress.percent >= limit && (!previous || previous.percent < limit)
+      );
+    if (!threshold) return [];
+
+    return [
+      {
+        budget: progress._id,
+        category: progress.category,
+        threshold,
+        percent: progress.percent,
+        spent: progress.spent,
+        limit: progress.limit,
+      },
+    ];
+  });
+
+// Run `write` (which saves an expense in the group) and return the budget
+// alerts it raised
+const trackBudgetAlerts = async (groupId, write) => {
+  if (!groupId) {
+    await write();
+    return [];
+  }
+
+  const before = await groupBudgetProgress(groupId);
+  await write();
+  if (before.length === 0) return [];
+  return crossedThresholds(before, await groupBudgetProgress(groupId));
+};
+
+module.exports = {
+  ALERT_THRESHOLDS,
+  currentPeriod,
+  budgetProgress,
+  groupBudgetProgress,
+  crossedThresholds,
+  trackBudgetAlerts,
+};
@@ -0,0 +1,69 @@
+// Minimal RFC 4180 CSV reader
+
+// Split CSV text into rows of raw string cells. Handles quoted cells with
+// embedded commas, newlines and doubled quotes.
+const parseRows = (text) => {
+  const rows = [];
+  let row = [];
+  let cell = "";
+  let inQuotes = false;
+
+  // Drop a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Ignore blank lines
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+};
+
+// Parse CSV text with a header row into objects keyed by lower-cased header.
+// Each record carries its spreadsheet row number (header = 1) for error reports.
+const parseCsv = (text) => {
+  const [header, ...rows] = parseRows(text);
+  if (!header) return { headers: [], records: [] };
+
+  const headers = header.map((name) => name.trim().toLowerCase());
+  const records = rows.map((cells, index) => {
+    const record = { row: index + 2 };
+    headers.forEach((name, column) => {
+      record[name] = (cells[column] || "").trim();
+    });
+    return record;
+  });
+
+  return { headers, records };
+};
+
+module.exports = { parseRows, parseCsv };
@@ -0,0 +1,72 @@
+// Currency conversion helpers. Amounts are integer minor units.
+const { allocate, minorUnitFactor } = require("./money");
+
+// Currency used when an expense has no group to take one from
+const DEFAULT_CURRENCY = "LKR";
+
+// Normalise a currency code, returning null when it is not an ISO-style code
+const normalizeCurrency = (code) => {
+  if (typeof code !== "string") return null;
+  const normalized = code.trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(normalized) ? normalized : null;
+};
+
+// Convert minor units of one currency into minor units of another, where
+// `rate` is the number of `to` units per `from` unit
+const convertAmount = (amount, rate, from, to) =>
+  Math.round((amount / minorUnitFactor(from)) * rate * minorUnitFactor(to));
+
+// Rewrite an expense entered in a foreign currency into the group currency.
+// `amount`, payer and split amounts are converted in place; the entered
+// values are kept in the original* fields.
+const applyConversion = (expense, { currency, originalCurrency, rate, date }) => {
+  expense.currency = currency;
+
+  if (originalCurrency === currency) {
+    expense.originalAmount = undefined;
+    expense.originalCurrency = undefined;
+    expense.exchangeRate = 1;
+    expense.exchangeRateDate = undefined;
+    return;
+  }
+
+  const originalAmount = expense.amount;
+  const convertedTotal = convertAmount(
+    originalAmount,
+    rate,
+    originalCurrency,
+    currency
+  );
+
+  // Parts are re-apportioned from the converted total so they still add up
+  if (expense.paidByMultiple && expense.paidByMultiple.length > 0) {
+    const payerAmounts = allocate(
+      convertedTotal,
+      expense.paidByMultiple.map((payer) => payer.amount)
+    );
+    expense.paidByMultiple.forEach((payer, index) => {
+      payer.amount = payerAmounts[index];
+    });
+  }
+
+  const splitAmounts = allocate(
+    convertedTotal,
+    expense.splits.map((split) => split.amount)
+  );
+  expense.splits.forEach((split, index) => {
+    split.amount = splitAmounts[index];
+  });
+
+  expense.amount = convertedTotal;
+  expense.originalAmount = originalAmount;
+  expense.originalCurrency = originalCurrency;
+  expense.exchangeRate = rate;
+  expense.exchangeRateDate = date;
+};
+
+module.exports = {
+  DEFAULT_CURRENCY,
+  normalizeCurrency,
+  convertAmount,
+  applyConversion,
+};
@@ -0,0 +1,140 @@
+// Debt simplification
+//
+// Balances are passed as a map of userId -> net amount in integer minor units
+// (positive = the user is owed money, negative = the user owes money). The
+// result is a list of transfers { from, to, amount } that brings every
+// balance back to zero.
+
+// Groups up to this many non-zero balances are solved exactly
+const EXACT_MODE_LIMIT = 12;
+
+const MODES = ["auto", "greedy", "exact"];
+
+// Validate balances and drop users that are already settled
+const normalizeBalances = (balances) => {
+  const entries = Object.entries(balances).filter(([, amount]) => amount !== 0);
+
+  entries.forEach(([userId, amount]) => {
+    if (!Number.isInteger(amount)) {
+      throw new Error(`Balance for ${userId} must be an integer amount`);
+    }
+  });
+
+  const total = entries.reduce((sum, [, amount]) => sum + amount, 0);
+  if (total !== 0) {
+    throw new Error("Balances must sum to zero");
+  }
+
+  return entries;
+};
+
+// Repeatedly match the largest creditor with the largest debtor
+const greedyTransfers = (entries) => {
+  const creditors = entries
+    .filter(([, amount]) => amount > 0)
+    .map(([userId, amount]) => ({ userId, amount }));
+  const debtors = entries
+    .filter(([, amount]) => amount < 0)
+    .map(([userId, amount]) => ({ userId, amount: -amount }));
+
+  const byAmountDesc = (a, b) =>
+    b.amount - a.amount || a.userId.localeCompare(b.userId);
+
+  const transfers = [];
+
+  while (creditors.length > 0 && debtors.length > 0) {
+    creditors.sort(byAmountDesc);
+    debtors.sort(byAmountDesc);
+
+    const creditor = creditors[0];
+    const debtor = debtors[0];
+    const amount = Math.min(creditor.amount, debtor.amount);
+
+    transfers.push({ from: debtor.userId, to: creditor.userId, amount });
+
+    creditor.amount -= amount;
+    debtor.amount -= amount;
+
+    if (creditor.amount === 0) creditors.shift();
+    if (debtor.amount === 0) debtors.shift();
+  }
+
+  return transfers;
+};
+
+// The minimum number of transfers is n - k, where k is the largest number of
+// disjoint zero-sum subsets the balances can be partitioned into. Find that
+// partition with a bitmask DP, then settle each subset greedily (a zero-sum
+// subset of size m never needs more than m - 1 transfers).
+const exactTransfers = (entries) => {
+  const n = entries.length;
+  const fullMask = (1 << n) - 1;
+
+  const sums = new Array(fullMask + 1).fill(0);
+  for (let mask = 1; mask <= fullMask; mask++) {
+    const lowest = mask & -mask;
+    const index = 31 - Math.clz32(lowest);
+    sums[mask] = sums[mask ^ lowest] + entries[index][1];
+  }
+
+  // best[mask] = max number of zero-sum groups the members of mask form
+  const best = new Array(fullMask + 1).fill(0);
+  const parent = new Array(fullMask + 1).fill(-1);
+  for (let mask = 1; mask <= fullMask; mask++) {
+    for (let i = 0; i < n; i++) {
+      const bit = 1 << i;
+      if (!(mask & bit)) continue;
+      if (parent[mask] === -1 || best[mask ^ bit] > best[mask]) {
+        best[mask] = best[mask ^ bit];
+        parent[mask] = mask ^ bit;
+      }
+    }
+    if (sums[mask] === 0) best[mask] += 1;
+  }
+
+  // Walk the DP back and cut a group every time a zero-sum prefix closes
+  const groups = [];
+  let current = [];
+  let mask = fullMask;
+  while (mask !== 0) {
+    const previous = parent[mask];
+    const index = 31 - Math.clz32(mask ^ previous);
+    current.push(entries[index]);
+    if (sums[previous] === 0) {
+      groups.push(current);
+      current = [];
+    }
+    mask = previous;
+  }
+
+  return groups.flatMap((group) => greedyTransfers(group));
+};
+
+// Compute the transfers that settle a set of balances. Mode is "greedy",
+// "exact" or "auto" (exact for small groups, greedy otherwise).
+const simplifyDebts = (balances, { mode = "auto" } = {}) => {
+  if (!MODES.includes(mode)) {
+    throw new Error(`Unknown simplification mode: ${mode}`);
+  }
+
+  const entries = normalizeBalances(balances);
+  if (entries.length === 0) return [];
+
+  const useExact =
+    mode === "exact" || (mode === "auto" && entries.length <= EXACT_MODE_LIMIT);
+
+  if (useExact && entries.length > EXACT_MODE_LIMIT) {
+    const error = new Error(
+      `Exact mode supports at most ${EXACT_MODE_LIMIT} unsettled members.`
+    );
+    error.status = 400;
+    throw error;
+  }
+
+  return useExact ? exactTransfers(entries) : greedyTransfers(entries);
+};
+
+module.exports = {
+  simplifyDebts,
+  EXACT_MODE_LIMIT,
+};
@@ -0,0 +1,339 @@
+// Importing expenses from CSV. Two layouts are understood:
+//
+// - generic: one expense per row, with columns picked by a mapping (date,
+//   description, amount and paidBy, plus optional currency, category,
+//   participants and notes). Participants are names separated by ";" and
+//   share the amount equally; with none, the whole group shares it.
+// - splitwise: Splitwise's spreadsheet export. Date, Description, Category,
+//   Cost and Currency are followed by one column per person holding what
+//   that person is owed (+) or owes (-) for the row. "Payment" rows are
+//   settlements between two people.
+//
+// Rows are read into a neutral shape that names people as written in the
+// file; matching names to group members is a separate step, so a preview
+// can flag the people it doesn't know.
+const { parseRows, parseCsv } = require("./csv");
+const { toMinorUnits, splitEvenly } = require("./money");
+const { normalizeCurrency } = require("./currency");
+
+const IMPORT_FORMATS = ["generic", "splitwise"];
+
+const GENERIC_FIELDS = [
+  "date",
+  "description",
+  "amount",
+  "currency",
+  "category",
+  "paidBy",
+  "participants",
+  "notes",
+];
+const REQUIRED_GENERIC_FIELDS = ["date", "description", "amount", "paidBy"];
+
+const SPLITWISE_COLUMNS = [
+  "date",
+  "description",
+  "category",
+  "cost",
+  "currency",
+];
+const SPLITWISE_PAYMENT_CATEGORY = "payment";
+const SPLITWISE_TOTAL_ROW = "total balance";
+
+const PARTICIPANT_SEPARATOR = /[;|]/;
+
+const isSplitwiseHeader = (headers) =>
+  headers.length > SPLITWISE_COLUMNS.length &&
+  SPLITWISE_COLUMNS.every((column, index) => headers[index] === column);
+
+// Columns named like a field map to it unless the mapping says otherwise
+const defaultMapping = (headers) => {
+  const mapping = {};
+  GENERIC_FIELDS.forEach((field) => {
+    if (headers.includes(field.toLowerCase())) {
+      mapping[field] = field.toLowerCase();
+    }
+  });
+  return mapping;
+};
+
+const parseDate = (value) => {
+  const date = new Date(value);
+  return value && !isNaN(date.getTime()) ? date : null;
+};
+
+// Minor units of a decimal cell such as "1,234.50"; null when it is not a
+// number. Blank cells are 0.
+const parseAmount = (value, currency) => {
+  const number = Number(String(value || "0").replace(/,/g, ""));
+  return Number.isFinite(number) ? toMinorUnits(number, currency) : null;
+};
+
+const readCurrency = (value, fallback) =>
+  value ? normalizeCurrency(value) : fallback;
+
+const readGenericRow = (record, mapping, defaultCurrency) => {
+  const cell = (field) => (mapping[field] ? record[mapping[field]] || "" : "");
+  const errors = [];
+
+  const currency = readCurrency(cell("currency"), defaultCurrency);
+  if (!currency) errors.push("Invalid currency code.");
+
+  const date = parseDate(cell("date"));
+  if (!date) errors.push("Invalid date.");
+
+  const description = cell("description");
+  if (!description) errors.push("Description is required.");
+
+  const amount = parseAmount(cell("amount"), currency || defaultCurrency);
+  if (!amount || amount <= 0) errors.push("Amount must be a positive number.");
+
+  const payer = cell("paidBy");
+  if (!payer) errors.push("Payer is required.");
+
+  const participants = cell("participants")
+    .split(PARTICIPANT_SEPARATOR)
+    .map((name) => name.trim())
+    .filter(Boolean);
+  const shares = splitEvenly(amount || 0, participants.length);
+
+  return {
+    row: record.row,
+    kind: "expense",
+    date,
+    description,
+    category: cell("category"),
+    notes: cell("notes"),
+    currency,
+    amount,
+    payers: payer ? [{ name: payer, amount }] : [],
+    // Null when the whole group shares the expense
+    shares:
+      participants.length > 0
+        ? participants.map((name, index) => ({ name, amount: shares[index] }))
+        : null,
+    errors,
+  };
+};
+
+// A Splitwise row only says how much each person's balance moved. Whoever
+// went negative owes that much; whoever went positive paid, with what is
+// left of the cost shared between them.
+const readSplitwiseRow = (record, people, defaultCurrency) => {
+  const description = record.description;
+  if (!record.date && description.toLowerCase() === SPLITWISE_TOTAL_ROW) {
+    return null;
+  }
+
+  const errors = [];
+  const currency = readCurrency(record.currency, defaultCurrency);
+  if (!currency) errors.push("Invalid currency code.");
+
+  const date = parseDate(record.date);
+  if (!date) errors.push("Invalid date.");
+
+  const cost = parseAmount(record.cost, currency || defaultCurrency);
+  if (!cost || cost <= 0) errors.push("Cost must be a positive number.");
+
+  const balances = people
+    .map((person) => ({
+      name: person.name,
+      net: parseAmount(record[person.key], currency || defaultCurrency),
+    }))
+    .filter((person) => person.net !== 0);
+  if (balances.some((person) => person.net === null)) {
+    errors.push("Every balance must be a number.");
+  } else if (balances.reduce((sum, person) => sum + person.net, 0) !== 0) {
+    errors.push("Balances for this row don't add up to zero.");
+  }
+
+  const owed = balances.filter((person) => person.net > 0);
+  const owing = balances.filter((person) => person.net < 0);
+  const base = {
+    row: record.row,
+    date,
+    description,
+    category: record.category,
+    notes: "",
+    currency,
+    amount: cost,
+    errors,
+  };
+
+  if ((record.category || "").toLowerCase() === SPLITWISE_PAYMENT_CATEGORY) {
+    if (owed.length !== 1 || owing.length !== 1) {
+      errors.push("A payment must be between exactly two people.");
+    }
+    return {
+      ...base,
+      kind: "payment",
+      from: owed[0] ? owed[0].name : null,
+      to: owing[0] ? owing[0].name : null,
+    };
+  }
+
+  if (owed.length === 0 && errors.length === 0) {
+    errors.push("No one paid for this row.");
+  }
+  const owingTotal = owing.reduce((sum, person) => sum - person.net, 0);
+  const payerShares = splitEvenly(
+    Math.max((cost || 0) - owingTotal, 0),
+    owed.length
+  );
+  if (cost && owingTotal > cost) {
+    errors.push("Balances are larger than the cost.");
+  }
+
+  return {
+    ...base,
+    kind: "expense",
+    payers: owed.map((person, index) => ({
+      name: person.name,
+      amount: person.net + payerShares[index],
+    })),
+    shares: [
+      ...owing.map((person) => ({ name: person.name, amount: -person.net })),
+      ...owed.map((person, index) => ({
+        name: person.name,
+        amount: payerShares[index],
+      })),
+    ].filter((share) => share.amount > 0),
+  };
+};
+
+// Read CSV text into import rows. `format` is detected from the header when
+// unset; `mapping` (generic only) maps field names to header names.
+// Returns { format, headers, mapping, rows } or { error }.
+const readImportRows = (text, { format, mapping, currency }) => {
+  const [rawHeader] = parseRows(text);
+  const { headers, records } = parseCsv(text);
+  if (!rawHeader || records.length === 0) {
+    return { error: "The CSV file has no rows to import." };
+  }
+
+  const detected =
+    format || (isSplitwiseHeader(headers) ? "splitwise" : "generic");
+  if (!IMPORT_FORMATS.includes(detected)) {
+    return { error: "Unknown import format." };
+  }
+
+  if (detected === "splitwise") {
+    if (!isSplitwiseHeader(headers)) {
+      return {
+        error:
+          "Not a Splitwise export: expected Date, Description, Category, " +
+          "Cost and Currency followed by a column per person.",
+      };
+    }
+    const people = rawHeader
+      .slice(SPLITWISE_COLUMNS.length)
+      .map((name, index) => ({
+        name: name.trim(),
+        key: headers[SPLITWISE_COLUMNS.length + index],
+      }));
+    return {
+      format: detected,
+      headers: rawHeader.map((name) => name.trim()),
+      mapping: {},
+      rows: records
+        .map((record) => readSplitwiseRow(record, people, currency))
+        .filter(Boolean),
+    };
+  }
+
+  const columns = {
+    ...defaultMapping(headers),
+    ...Object.fromEntries(
+      Object.entries(mapping || {})
+        .filter(([field]) => GENERIC_FIELDS.includes(field))
+        .map(([field, header]) => [field, String(header).toLowerCase()])
+    ),
+  };
+  const unmapped = REQUIRED_GENERIC_FIELDS.filter(
+    (field) => !columns[field] || !headers.includes(columns[field])
+  );
+
+  return {
+    format: detected,
+    headers: rawHeader.map((name) => name.trim()),
+    mapping: columns,
+    // Nothing can be read until every required field has a column
+    rows:
+      unmapped.length > 0
+        ? []
+        : records.map((record) => readGenericRow(record, columns, currency)),
+    unmapped,
+  };
+};
+
+// Every name a row mentions
+const rowPeople = (row) =>
+  row.kind === "payment"
+    ? [row.from, row.to].filter(Boolean)
+    : [...row.payers, ...(row.shares || [])].map((person) => person.name);
+
+const normalizeName = (name) => String(name).trim().toLowerCase();
+
+// Match the names in the rows to group members by username, full name,
+// email or (when no one else shares it) first name, ignoring case.
+// `memberMap` pins names to member ids, e.g. for nicknames. Returns a Map of
+// name to user id, or null for people no member matched.
+const matchPeople = (rows, members, memberMap = {}) => {
+  const users = members.map((member) => member.user);
+  const memberIds = new Set(users.map((user) => user._id.toString()));
+
+  const exactNames = new Map();
+  const firstNames = new Map();
+  users.forEach((user) => {
+    [user.username, `${user.firstName} ${user.lastName}`, user.email]
+      .filter(Boolean)
+      .forEach((name) => exactNames.set(normalizeName(name), user._id));
+    const first = normalizeName(user.firstName || "");
+    firstNames.set(first, firstNames.has(first) ? null : user._id);
+  });
+
+  const matches = new Map();
+  rows.flatMap(rowPeople).forEach((name) => {
+    if (matches.has(name)) return;
+    const pinned = memberMap[name];
+    if (pinned && memberIds.has(String(pinned))) {
+      matches.set(name, pinned);
+      return;
+    }
+    const key = normalizeName(name);
+    matches.set(name, exactNames.get(key) || firstNames.get(key) || null);
+  });
+  return matches;
+};
+
+// Key that two copies of the same expense share: day, original currency
+// and amount, and description
+const expenseDuplicateKey = ({ date, currency, amount, description }) =>
+  [
+    "expense",
+    new Date(date).toISOString().slice(0, 10),
+    currency,
+    amount,
+    normalizeName(description),
+  ].join("|");
+
+// Key that two records of the same payment share
+const paymentDuplicateKey = ({ date, amount, fromUser, toUser }) =>
+  [
+    "payment",
+    new Date(date).toISOString().slice(0, 10),
+    amount,
+    fromUser.toString(),
+    toUser.toString(),
+  ].join("|");
+
+module.exports = {
+  IMPORT_FORMATS,
+  GENERIC_FIELDS,
+  REQUIRED_GENERIC_FIELDS,
+  readImportRows,
+  rowPeople,
+  matchPeople,
+  expenseDuplicateKey,
+  paymentDuplicateKey,
+};
@@ -0,0 +1,232 @@
+// Expense search. A query mixes free text with field filters, e.g.
+//
+//   taxi amount>50 paidBy:me category:food with:nimal date>=2026-01-01
+//
+// Free text matches the description and notes (through the text index),
+// category names and the names of the people on the expense. Amounts are in
+// major units of each expense's currency; dates are whole UTC days.
+const Category = require("../models/Category");
+const User = require("../models/User");
+const { CURRENCY_DECIMALS, toMinorUnits } = require("./money");
+
+// field<operator>value, a "quoted phrase" or a plain word
+const TOKEN_PATTERN = /(\w+)(:|>=|<=|>|<|=)("[^"]*"|\S+)|"([^"]*)"|(\S+)/g;
+
+const FILTER_FIELDS = ["amount", "date", "paidby", "with", "category"];
+const RANGE_FIELDS = ["amount", "date"];
+
+const COMPARISONS = {
+  ">": "$gt",
+  ">=": "$gte",
+  "<": "$lt",
+  "<=": "$lte",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Split a query into free-text terms and field filters. Words that only
+// look like filters (e.g. "note:") stay free text.
+const parseSearchQuery = (query = "") => {
+  const terms = [];
+  const filters = [];
+
+  for (const match of String(query).matchAll(TOKEN_PATTERN)) {
+    const [token, field, operator, value, phrase, word] = match;
+    if (field && FILTER_FIELDS.includes(field.toLowerCase())) {
+      filters.push({
+        field: field.toLowerCase(),
+        operator: operator === "=" ? ":" : operator,
+        value: value.replace(/^"|"$/g, ""),
+      });
+    } else if (phrase !== undefined) {
+      if (phrase.trim()) terms.push(phrase.trim());
+    } else {
+      terms.push(word || token);
+    }
+  }
+
+  return { terms, filters };
+};
+
+// Amounts are stored in minor units, so the same major amount is a
+// different stored number for currencies with 0, 2 or 3 decimals
+const amountCondition = (operator, majorAmount) => {
+  const byDecimals = {};
+  Object.entries(CURRENCY_DECIMALS).forEach(([currency, decimals]) => {
+    (byDecimals[decimals] = byDecimals[decimals] || []).push(currency);
+  });
+  const otherCurrencies = Object.keys(CURRENCY_DECIMALS);
+
+  const compare = (currency) => {
+    const amount = toMinorUnits(majorAmount, currency);
+    return operator === ":" ? amount : { [COMPARISONS[operator]]: amount };
+  };
+
+  return {
+    $or: [
+      ...Object.values(byDecimals).map((currencies) => ({
+        currency: { $in: currencies },
+        amount: compare(currencies[0]),
+      })),
+      { currency: { $nin: otherCurrencies }, amount: compare("USD") },
+    ],
+  };
+};
+
+const dateCondition = (operator, day) => {
+  const nextDay = new Date(day.getTime() + DAY_MS);
+  switch (operator) {
+    case ">":
+      return { $gte: nextDay };
+    case ">=":
+      return { $gte: day };
+    case "<":
+      return { $lt: day };
+    case "<=":
+      return { $lt: nextDay };
+    default:
+      return { $gte: day, $lt: nextDay };
+  }
+};
+
+// Ids of the people searched whose username or first/last name matches
+const peopleNamed = async (pattern, context) => {
+  const users = await User.find({
+    _id: { $in: context.memberIds },
+    $or: [
+      { username: pattern },
+      { firstName: pattern },
+      { lastName: pattern },
+    ],
+  }).select("_id");
+  return users.map((user) => user._id);
+};
+
+// Users a filter value names: "me", or a username or first/last name
+const userIdsFor = async (value, context) => {
+  if (value.toLowerCase() === "me") return [context.userId];
+  return peopleNamed(new RegExp(`^${escapeRegExp(value)}`, "i"), context);
+};
+
+// Categories (with their subcategories) a filter value names, out of the
+// given groups' categories and the shared ones
+const categoryIdsFor = async (value, groupIds) => {
+  const categories = await Category.find({
+    group: { $in: [...groupIds, null] },
+    $or: [
+      { key: value.toLowerCase() },
+      { name: new RegExp(`^${escapeRegExp(value)}$`, "i") },
+    ],
+  }).select("_id");
+
+  const ids = await Promise.all(
+    categories.map((category) => Category.idsWithChildren(category._id))
+  );
+  return ids.flat();
+};
+
+const filterCondition = async ({ field, operator, value }, context) => {
+  if (!RANGE_FIELDS.includes(field) && operator !== ":") {
+    return { error: `Use ${field}:value to filter by ${field}.` };
+  }
+
+  switch (field) {
+    case "amount": {
+      const amount = Number(value);
+      if (!Number.isFinite(amount) || amount < 0) {
+        return { error: `Invalid amount "${value}".` };
+      }
+      return { condition: amountCondition(operator, amount) };
+    }
+    case "date": {
+      const day = new Date(value);
+      if (isNaN(day.getTime())) {
+        return { error: `Invalid date "${value}"; use YYYY-MM-DD.` };
+      }
+      return { condition: { date: dateCondition(operator, day) } };
+    }
+    case "paidby": {
+      const ids = await userIdsFor(value, context);
+      return {
+        condition: {
+          $or: [
+            { paidBy: { $in: ids } },
+            { "paidByMultiple.user": { $in: ids } },
+          ],
+        },
+      };
+    }
+    case "with": {
+      const ids = await userIdsFor(value, context);
+      return {
+        condition: {
+          $or: [{ paidBy: { $in: ids } }, { "splits.user": { $in: ids } }],
+        },
+      };
+    }
+    case "category":
+      return {
+        condition: {
+          category: { $in: await categoryIdsFor(value, context.groupIds) },
+        },
+      };
+    default:
+      return {};
+  }
+};
+
+// Free text: the text index for description and notes, or a category or
+// person whose name contains one of the terms
+const textCondition = async (terms, context) => {
+  const pattern = new RegExp(terms.map(escapeRegExp).join("|"), "i");
+  const [categories, userIds] = await Promise.all([
+    Category.find({
+      group: { $in: [...context.groupIds, null] },
+      name: pattern,
+    }).select("_id"),
+    peopleNamed(pattern, context),
+  ]);
+
+  const search = terms
+    .map((term) => (term.includes(" ") ? `"${term}"` : term))
+    .join(" ");
+  const clauses = [{ $text: { $search: search } }];
+  if (categories.length > 0) {
+    clauses.push({
+      category: { $in: categories.map((category) => category._id) },
+    });
+  }
+  if (userIds.length > 0) {
+    clauses.push(
+      { paidBy: { $in: userIds } },
+      { "splits.user": { $in: userIds } }
+    );
+  }
+
+  return clauses.length === 1 ? clauses[0] : { $or: clauses };
+};
+
+// Turn a search query into conditions to AND onto an expense query.
+// `context` holds the searching user's id and the groups searched, for
+// "me" and category names, and the ids of the people whose names can be
+// matched. Returns { conditions, search } or { error }.
+const buildExpenseSearch = async (query, context) => {
+  const search = parseSearchQuery(query);
+  const conditions = [];
+
+  for (const filter of search.filters) {
+    const { condition, error } = await filterCondition(filter, context);
+    if (error) return { error };
+    if (condition) conditions.push(condition);
+  }
+
+  if (search.terms.length > 0) {
+    conditions.push(await textCondition(search.terms, context));
+  }
+
+  return { conditions, search };
+};
+
+module.exports = { parseSearchQuery, buildExpenseSearch };
@@ -0,0 +1,33 @@
+// CSV export: the ledger tables one after another, each under a line with
+// its title and separated by a blank line
+const { createObjectCsvStringifier } = require("csv-writer");
+const { ledgerTables } = require("./tables");
+
+// Rows are written in batches so large ledgers stream out
+const BATCH_SIZE = 500;
+
+const cellValue = (value) =>
+  value instanceof Date ? value.toISOString().slice(0, 10) : value;
+
+const writeCsv = async (ledger, stream) => {
+  ledgerTables(ledger).forEach((table, index) => {
+    const stringifier = createObjectCsvStringifier({ header: table.columns });
+    if (index > 0) stream.write("\n");
+    stream.write(`${table.title}\n`);
+    stream.write(stringifier.getHeaderString());
+
+    for (let start = 0; start < table.rows.length; start += BATCH_SIZE) {
+      const batch = table.rows
+        .slice(start, start + BATCH_SIZE)
+        .map((row) =>
+          Object.fromEntries(
+            Object.entries(row).map(([key, value]) => [key, cellValue(value)])
+          )
+        );
+      stream.write(stringifier.stringifyRecords(batch));
+    }
+  });
+  stream.end();
+};
+
+module.exports = { writeCsv };
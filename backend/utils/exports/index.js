@@ -0,0 +1,53 @@
+// Group ledger exports. Each format has a content type, a file extension
+// and write(ledger, stream, options), which ends the stream when done.
+const { writeCsv } = require("./csv");
+const { writeXlsx } = require("./xlsx");
+const { writePdf } = require("./pdf");
+const { parsePeriod, buildGroupLedger } = require("./ledger");
+
+const writeJson = async (ledger, stream) => {
+  stream.end(JSON.stringify(ledger, null, 2));
+};
+
+const EXPORT_FORMATS = {
+  csv: {
+    contentType: "text/csv; charset=utf-8",
+    extension: "csv",
+    write: writeCsv,
+  },
+  xlsx: {
+    contentType:
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    extension: "xlsx",
+    write: writeXlsx,
+  },
+  json: {
+    contentType: "application/json; charset=utf-8",
+    extension: "json",
+    write: writeJson,
+  },
+  pdf: {
+    contentType: "application/pdf",
+    extension: "pdf",
+    write: writePdf,
+  },
+};
+
+// e.g. "flat-expenses-2026-01-01-to-2026-03-31.xlsx"
+const exportFileName = (ledger, extension) => {
+  const slug =
+    ledger.group.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "group";
+  const day = (date) => date.toISOString().slice(0, 10);
+  const from = ledger.period.from ? day(ledger.period.from) : "start";
+  return `${slug}-${from}-to-${day(ledger.period.to)}.${extension}`;
+};
+
+module.exports = {
+  EXPORT_FORMATS,
+  exportFileName,
+  parsePeriod,
+  buildGroupLedger,
+};
@@ -0,0 +1,482 @@
+// Plain-text accounting journals of one user's side of their shared
+// expenses, in Ledger, hledger or Beancount syntax. Each expense books the
+// user's share to an expense account, what they paid to their payment
+// account and the rest to an account per person they owe or are owed by;
+// settlements move money between the payment account and that person's
+// account. A person's account then holds what the groups show between
+// the two of them: positive when they owe the user.
+const Expense = require("../../models/Expense");
+const Settlement = require("../../models/Settlement");
+const Group = require("../../models/Group");
+const User = require("../../models/User");
+const { allocate, toMajorUnits, currencyDecimals } = require("../money");
+const { idOf, getPayerContributions } = require("../balances");
+const { displayName, settledOn } = require("./ledger");
+
+const ACCOUNT_ROOTS = ["Assets", "Liabilities", "Equity", "Income", "Expenses"];
+const PLACEHOLDERS = ["category", "name", "group"];
+const OPENING_ACCOUNT = "Equity:Opening Balances";
+const PERSONAL_GROUP = "Personal";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Check account names and templates from the settings. Returns an error
+// message, or null when they are usable.
+const validateJournalAccounts = (accounts) => {
+  const names = [
+    accounts.expenses,
+    accounts.people,
+    accounts.payments,
+    ...(accounts.categoryAccounts || []).map((entry) => entry.account),
+    ...(accounts.personAccounts || []).map((entry) => entry.account),
+  ];
+
+  for (const name of names) {
+    if (typeof name !== "string" || !name.trim()) {
+      return "Account names can't be empty.";
+    }
+    const components = name.split(":").map((part) => part.trim());
+    if (!ACCOUNT_ROOTS.includes(components[0])) {
+      return `"${name}" must start with one of: ${ACCOUNT_ROOTS.join(", ")}.`;
+    }
+    if (components.length < 2 || components.some((part) => !part)) {
+      return `"${name}" needs a name after each ":".`;
+    }
+    const unknown = (name.match(/\{(\w*)\}/g) || []).find(
+      (placeholder) => !PLACEHOLDERS.includes(placeholder.slice(1, -1))
+    );
+    if (unknown) {
+      return (
+        `Unknown placeholder ${unknown}; ` +
+        "use {category}, {name} or {group}."
+      );
+    }
+  }
+  return null;
+};
+
+// A name used inside an account, e.g. a person's, can't add components
+const accountPart = (value) => String(value).replace(/:/g, " ").trim();
+
+const fillTemplate = (template, values) =>
+  template.replace(/\{(\w+)\}/g, (placeholder, key) =>
+    values[key] === undefined ? placeholder : values[key]
+  );
+
+// Account names for the postings, from the user's settings
+const accountResolver = (settings, nameOf) => {
+  const byCategory = new Map(
+    settings.categoryAccounts.map((entry) => [
+      entry.category.toLowerCase(),
+      entry.account,
+    ])
+  );
+  const byPerson = new Map(
+    settings.personAccounts.map((entry) => [idOf(entry.user), entry.account])
+  );
+
+  return {
+    // Subcategories nest under their parent, e.g. Expenses:Food:Groceries
+    expense: (category, groupName) =>
+      (category && byCategory.get(category.name.toLowerCase())) ||
+      fillTemplate(settings.expenses, {
+        category: category
+          ? [category.parent && category.parent.name, category.name]
+              .filter(Boolean)
+              .map(accountPart)
+              .join(":")
+          : "Uncategorized",
+        group: accountPart(groupName),
+      }),
+    person: (userId, groupName) =>
+      byPerson.get(userId) ||
+      fillTemplate(settings.people, {
+        name: accountPart(nameOf(userId)),
+        group: accountPart(groupName),
+      }),
+    payments: (groupName) =>
+      fillTemplate(settings.payments, { group: accountPart(groupName) }),
+  };
+};
+
+// Postings to the same account (e.g. a template without {name}) are merged
+// and empty ones dropped
+const mergePostings = (postings) => {
+  const merged = new Map();
+  postings.forEach((posting) => {
+    const existing = merged.get(posting.account);
+    if (existing) existing.amount += posting.amount;
+    else merged.set(posting.account, { ...posting });
+  });
+  return [...merged.values()].filter((posting) => posting.amount !== 0);
+};
+
+// What each other person owes the user (+) or is owed (-) for an expense,
+// divided between co-payers the same way as the group balances
+const expenseDebts = (expense, userId) => {
+  const contributions = getPayerContributions(expense);
+  const weights = contributions.map((contribution) => contribution.amount);
+  const debts = new Map();
+  if (weights.reduce((sum, weight) => sum + weight, 0) <= 0) return debts;
+
+  const add = (person, amount) => {
+    if (person === userId || amount === 0) return;
+    debts.set(person, (debts.get(person) || 0) + amount);
+  };
+  expense.splits.forEach((split) => {
+    const person = idOf(split.user);
+    const portions = allocate(split.amount, weights);
+    contributions.forEach((contribution, index) => {
+      if (person === userId) add(contribution.user, -portions[index]);
+      else if (contribution.user === userId) add(person, portions[index]);
+    });
+  });
+  return debts;
+};
+
+// The user's entry for an expense, or null when it doesn't involve them
+const expenseEntry = (expense, userId, accounts) => {
+  const paid = getPayerContributions(expense)
+    .filter((contribution) => contribution.user === userId)
+    .reduce((sum, contribution) => sum + contribution.amount, 0);
+  const split = expense.splits.find((entry) => idOf(entry.user) === userId);
+  const share = split ? split.amount : 0;
+  if (paid === 0 && share === 0) return null;
+
+  const groupName = expense.group ? expense.group.name : PERSONAL_GROUP;
+  const postings = [
+    { account: accounts.expense(expense.category, groupName), amount: share },
+    ...[...expenseDebts(expense, userId)].map(([person, amount]) => ({
+      account: accounts.person(person, groupName),
+      amount,
+      person: true,
+    })),
+    { account: accounts.payments(groupName), amount: -paid },
+  ];
+
+  // Rounding between co-payers can leave a minor unit over; it goes on the
+  // first posting so the entry balances
+  const residual = postings.reduce((sum, posting) => sum + posting.amount, 0);
+  postings[0].amount -= residual;
+
+  return {
+    id: idOf(expense),
+    date: expense.date,
+    description: expense.description,
+    notes: expense.notes || "",
+    tags: {
+      group: groupName,
+      category: expense.category ? expense.category.name : "",
+    },
+    currency: expense.currency,
+    postings: mergePostings(postings),
+  };
+};
+
+// The user's entry for a settlement they paid or received
+const settlementEntry = (settlement, userId, accounts, nameOf) => {
+  const amount = settlement.paidAmount ?? settlement.amount;
+  const from = idOf(settlement.fromUser);
+  const to = idOf(settlement.toUser);
+  if (!amount || (from !== userId && to !== userId)) return null;
+
+  const paying = from === userId;
+  const other = paying ? to : from;
+  const groupName = settlement.group ? settlement.group.name : PERSONAL_GROUP;
+  return {
+    id: idOf(settlement),
+    date: settledOn(settlement),
+    description: paying
+      ? `Payment to ${nameOf(other)}`
+      : `Payment from ${nameOf(other)}`,
+    notes: settlement.notes || "",
+    tags: { group: groupName },
+    currency: settlement.currency,
+    postings: mergePostings([
+      {
+        account: accounts.person(other, groupName),
+        amount: paying ? amount : -amount,
+        person: true,
+      },
+      {
+        account: accounts.payments(groupName),
+        amount: paying ? -amount : amount,
+      },
+    ]),
+  };
+};
+
+// One entry bringing people's accounts to what they stood at when the
+// period starts, per currency
+const openingEntries = (entries, date) => {
+  const totals = new Map();
+  entries.forEach((entry) => {
+    entry.postings
+      .filter((posting) => posting.person)
+      .forEach((posting) => {
+        const key = `${entry.currency}|${posting.account}`;
+        totals.set(key, (totals.get(key) || 0) + posting.amount);
+      });
+  });
+
+  const byCurrency = new Map();
+  totals.forEach((amount, key) => {
+    const [currency, account] = key.split("|");
+    if (!byCurrency.has(currency)) byCurrency.set(currency, []);
+    byCurrency.get(currency).push({ account, amount });
+  });
+
+  return [...byCurrency].map(([currency, postings]) => {
+    const total = postings.reduce((sum, posting) => sum + posting.amount, 0);
+    return {
+      id: null,
+      date,
+      description: "Opening balances",
+      notes: "",
+      tags: {},
+      currency,
+      postings: mergePostings([
+        ...postings,
+        { account: OPENING_ACCOUNT, amount: -total },
+      ]),
+    };
+  });
+};
+
+// Build the journal of `user` for a period from parsePeriod, across their
+// groups and expenses outside any group, or for just one group
+const buildUserJournal = async (user, { from, to }, { groupId } = {}) => {
+  const userId = idOf(user);
+  const involved = [
+    { paidBy: user._id },
+    { "paidByMultiple.user": user._id },
+    { "splits.user": user._id },
+  ];
+
+  let groupFilter;
+  if (groupId) {
+    groupFilter = groupId;
+  } else {
+    const groups = await Group.find({
+      members: { $elemMatch: { user: user._id } },
+    }).select("_id");
+    groupFilter = { $in: [...groups.map((group) => group._id), null] };
+  }
+
+  const [expenses, allSettlements] = await Promise.all([
+    Expense.find({ group: groupFilter, $or: involved, date: { $lt: to } })
+      .populate({
+        path: "category",
+        select: "name parent",
+        populate: { path: "parent", select: "name" },
+      })
+      .populate("group", "name")
+      .sort({ date: 1 }),
+    Settlement.findSettled({
+      group: groupFilter,
+      $or: [{ fromUser: user._id }, { toUser: user._id }],
+    })
+      .select("completedAt createdAt currency notes group")
+      .populate("group", "name"),
+  ]);
+  const settlements = allSettlements.filter(
+    (settlement) => settledOn(settlement) < to
+  );
+
+  // Everyone the user shares expenses or payments with
+  const peopleIds = new Set();
+  expenses.forEach((expense) => {
+    getPayerContributions(expense).forEach((contribution) =>
+      peopleIds.add(contribution.user)
+    );
+    expense.splits.forEach((split) => peopleIds.add(idOf(split.user)));
+  });
+  settlements.forEach((settlement) => {
+    peopleIds.add(idOf(settlement.fromUser));
+    peopleIds.add(idOf(settlement.toUser));
+  });
+  const people = await User.find({ _id: { $in: [...peopleIds] } }).select(
+    "username firstName lastName"
+  );
+  const users = new Map(people.map((person) => [idOf(person), person]));
+  const nameOf = (id) => displayName(users.get(id));
+
+  const accounts = accountResolver(user.journalAccounts, nameOf);
+  const entries = [
+    ...expenses.map((expense) => expenseEntry(expense, userId, accounts)),
+    ...settlements.map((settlement) =>
+      settlementEntry(settlement, userId, accounts, nameOf)
+    ),
+  ]
+    .filter(Boolean)
+    .sort((a, b) => a.date - b.date);
+
+  const inPeriod = (entry) => !from || entry.date >= from;
+  return {
+    user: { id: userId, name: displayName(user), username: user.username },
+    period: { from, to: new Date(to.getTime() - DAY_MS) },
+    generatedAt: new Date(),
+    entries: [
+      ...(from
+        ? openingEntries(
+            entries.filter((entry) => !inPeriod(entry)),
+            from
+          )
+        : []),
+      ...entries.filter(inPeriod),
+    ],
+  };
+};
+
+const day = (date) => date.toISOString().slice(0, 10);
+
+const formatAmount = (amount, currency) =>
+  toMajorUnits(amount, currency).toFixed(currencyDecimals(currency));
+
+// Every account the entries use as written by `account`, sorted
+const accountsUsed = (journal, account) =>
+  [
+    ...new Set(
+      journal.entries.flatMap((entry) =>
+        entry.postings.map((posting) => account(posting.account))
+      )
+    ),
+  ].sort();
+
+const journalTitle = (journal) =>
+  `${journal.user.name}'s shared expenses, ` +
+  `${journal.period.from ? day(journal.period.from) : "all time"} to ` +
+  `${day(journal.period.to)}`;
+
+// Ledger and hledger read account names up to two spaces or a tab, and
+// descriptions up to a comment
+const plainAccount = (account) => account.replace(/\s+/g, " ").trim();
+const plainText = (text) => String(text).replace(/[;\s]+/g, " ").trim();
+
+const postingLines = (entry, indent, account) => {
+  const width = Math.max(
+    ...entry.postings.map((posting) => account(posting.account).length)
+  );
+  return entry.postings.map(
+    (posting) =>
+      `${indent}${account(posting.account).padEnd(width)}  ` +
+      `${formatAmount(posting.amount, entry.currency).padStart(12)} ` +
+      entry.currency
+  );
+};
+
+// Ledger keeps tags as "Key: value" metadata lines in the entry
+const renderLedger = (journal) =>
+  [
+    `; ${journalTitle(journal)}`,
+    `; Exported ${journal.generatedAt.toISOString()}`,
+    "",
+    ...accountsUsed(journal, plainAccount).map(
+      (account) => `account ${account}`
+    ),
+    ...journal.entries.flatMap((entry) => [
+      "",
+      `${day(entry.date)} *${entry.id ? ` (${entry.id})` : ""} ` +
+        plainText(entry.description),
+      ...Object.entries(entry.tags)
+        .filter(([, value]) => value)
+        .map(([key, value]) => `    ; ${key}: ${plainText(value)}`),
+      ...(entry.notes ? [`    ; ${plainText(entry.notes)}`] : []),
+      ...postingLines(entry, "    ", plainAccount),
+    ]),
+    "",
+  ].join("\n");
+
+// hledger keeps tags as "name:value" on the description line; a tag value
+// ends at a comma
+const renderHledger = (journal) =>
+  [
+    `; ${journalTitle(journal)}`,
+    `; Exported ${journal.generatedAt.toISOString()}`,
+    "",
+    ...accountsUsed(journal, plainAccount).map(
+      (account) => `account ${account}`
+    ),
+    ...journal.entries.flatMap((entry) => {
+      const tags = Object.entries(entry.tags)
+        .filter(([, value]) => value)
+        .map(([key, value]) => `${key}:${plainText(value).replace(/,/g, "")}`);
+      return [
+        "",
+        `${day(entry.date)} *${entry.id ? ` (${entry.id})` : ""} ` +
+          plainText(entry.description) +
+          (tags.length > 0 ? `  ; ${tags.join(", ")}` : ""),
+        ...(entry.notes ? [`    ; ${plainText(entry.notes)}`] : []),
+        ...postingLines(entry, "    ", plainAccount),
+      ];
+    }),
+    "",
+  ].join("\n");
+
+// Beancount account components start with a capital letter or digit and
+// hold only letters, digits and dashes
+const beancountAccount = (account) =>
+  account
+    .split(":")
+    .map((part) => {
+      const cleaned = part
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .replace(/[^A-Za-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "");
+      return cleaned
+        ? cleaned.charAt(0).toUpperCase() + cleaned.slice(1)
+        : "Unknown";
+    })
+    .join(":");
+
+const beancountString = (text) =>
+  `"${String(text).replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+// Beancount needs every account opened before its first use
+const renderBeancount = (journal) => {
+  const firstEntry = journal.entries[0];
+  return [
+    `; ${journalTitle(journal)}`,
+    `; Exported ${journal.generatedAt.toISOString()}`,
+    "",
+    ...(firstEntry
+      ? accountsUsed(journal, beancountAccount).map(
+          (account) => `${day(firstEntry.date)} open ${account}`
+        )
+      : []),
+    ...journal.entries.flatMap((entry) => [
+      "",
+      `${day(entry.date)} * ${beancountString(entry.description)}`,
+      ...(entry.id ? [`  id: ${beancountString(entry.id)}`] : []),
+      ...Object.entries(entry.tags)
+        .filter(([, value]) => value)
+        .map(([key, value]) => `  ${key}: ${beancountString(value)}`),
+      ...(entry.notes ? [`  notes: ${beancountString(entry.notes)}`] : []),
+      ...postingLines(entry, "  ", beancountAccount),
+    ]),
+    "",
+  ].join("\n");
+};
+
+const JOURNAL_FORMATS = {
+  ledger: { extension: "ledger", render: renderLedger },
+  hledger: { extension: "journal", render: renderHledger },
+  beancount: { extension: "beancount", render: renderBeancount },
+};
+
+// e.g. "alex-2026-01-01-to-2026-03-31.beancount"
+const journalFileName = (journal, extension) => {
+  const from = journal.period.from ? day(journal.period.from) : "start";
+  return (
+    `${journal.user.username}-${from}-to-${day(journal.period.to)}.` +
+    extension
+  );
+};
+
+module.exports = {
+  JOURNAL_FORMATS,
+  validateJournalAccounts,
+  buildUserJournal,
+  journalFileName,
+};
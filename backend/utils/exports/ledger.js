@@ -0,0 +1,177 @@
+// The data behind every group export: the expenses and settlements in a
+// period with a column per member, and each member's balance at the start
+// and end of it. Amounts are minor units of the group currency.
+const Expense = require("../../models/Expense");
+const Settlement = require("../../models/Settlement");
+const User = require("../../models/User");
+const {
+  idOf,
+  getPayerContributions,
+  computeBalances,
+} = require("../balances");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const displayName = (user) =>
+  user
+    ? [user.firstName, user.lastName].filter(Boolean).join(" ") ||
+      user.username
+    : "Former member";
+
+// When a settlement's money counts as having moved
+const settledOn = (settlement) =>
+  settlement.completedAt || settlement.updatedAt || settlement.createdAt;
+
+// Balances of everyone in `memberIds` from the given records
+const balancesById = (expenses, settlements, memberIds) => {
+  const { balances } = computeBalances({ expenses, settlements, memberIds });
+  return new Map(balances.map((balance) => [balance.user, balance]));
+};
+
+// Parse the from/to query values into a period covering whole UTC days.
+// Returns { from, to } (from may be null) or { error }.
+const parsePeriod = ({ from, to }) => {
+  const start = from ? new Date(from) : null;
+  const end = to ? new Date(to) : new Date();
+  if ((start && isNaN(start.getTime())) || isNaN(end.getTime())) {
+    return { error: "Dates must be in YYYY-MM-DD format." };
+  }
+  if (start) start.setUTCHours(0, 0, 0, 0);
+  end.setUTCHours(0, 0, 0, 0);
+  const endExclusive = new Date(end.getTime() + DAY_MS);
+
+  if (start && start >= endExclusive) {
+    return { error: "The start date must be before the end date." };
+  }
+  return { from: start, to: endExclusive };
+};
+
+// Build the ledger of `group` (with populated members) for a period from
+// parsePeriod
+const buildGroupLedger = async (group, { from, to }) => {
+  const [allExpenses, allSettlements] = await Promise.all([
+    Expense.find({ group: group._id, date: { $lt: to } })
+      .populate("category", "name")
+      .sort({ date: 1 }),
+    Settlement.findSettled({ group: group._id }).select(
+      "completedAt createdAt method notes"
+    ),
+  ]);
+  const settlements = allSettlements
+    .filter((settlement) => settledOn(settlement) < to)
+    .sort((a, b) => settledOn(a) - settledOn(b));
+
+  const inPeriod = (date) => !from || date >= from;
+  const memberIds = group.members.map((member) => member.user._id);
+
+  const opening = balancesById(
+    allExpenses.filter((expense) => !inPeriod(expense.date)),
+    settlements.filter((settlement) => !inPeriod(settledOn(settlement))),
+    memberIds
+  );
+  const closingResult = computeBalances({
+    expenses: allExpenses,
+    settlements,
+    memberIds,
+  });
+  const closing = new Map(
+    closingResult.balances.map((balance) => [balance.user, balance])
+  );
+
+  // Former members keep their columns while they have history here
+  const users = new Map(
+    group.members.map((member) => [idOf(member.user), member.user])
+  );
+  const formerIds = [...closing.keys()].filter((id) => !users.has(id));
+  if (formerIds.length > 0) {
+    const former = await User.find({ _id: { $in: formerIds } }).select(
+      "username firstName lastName"
+    );
+    former.forEach((user) => users.set(idOf(user), user));
+  }
+  const nameOf = (id) => displayName(users.get(idOf(id)));
+
+  const members = [...closing.keys()].map((id) => ({
+    id,
+    name: nameOf(id),
+    username: users.get(id) ? users.get(id).username : null,
+  }));
+
+  const expenses = allExpenses
+    .filter((expense) => inPeriod(expense.date))
+    .map((expense) => {
+      const payers = getPayerContributions(expense);
+      return {
+        id: idOf(expense),
+        date: expense.date,
+        description: expense.description,
+        category: expense.category ? expense.category.name : "",
+        notes: expense.notes || "",
+        amount: expense.amount,
+        originalAmount: expense.originalAmount,
+        originalCurrency: expense.originalCurrency,
+        payers: payers.map((payer) => ({
+          ...payer,
+          name: nameOf(payer.user),
+        })),
+        // Member id to the amount they paid / their share
+        paid: Object.fromEntries(
+          payers.map((payer) => [payer.user, payer.amount])
+        ),
+        splits: Object.fromEntries(
+          expense.splits.map((split) => [idOf(split.user), split.amount])
+        ),
+      };
+    });
+
+  const emptyBalance = {
+    paid: 0,
+    owed: 0,
+    settlementsPaid: 0,
+    settlementsReceived: 0,
+    net: 0,
+  };
+  const balances = members.map(({ id, name }) => {
+    const start = opening.get(id) || emptyBalance;
+    const end = closing.get(id) || emptyBalance;
+    return {
+      user: id,
+      name,
+      opening: start.net,
+      paid: end.paid - start.paid,
+      owed: end.owed - start.owed,
+      settlementsPaid: end.settlementsPaid - start.settlementsPaid,
+      settlementsReceived: end.settlementsReceived - start.settlementsReceived,
+      closing: end.net,
+    };
+  });
+
+  return {
+    group: { id: idOf(group), name: group.name, currency: group.currency },
+    period: { from, to: new Date(to.getTime() - DAY_MS) },
+    generatedAt: new Date(),
+    members,
+    expenses,
+    settlements: settlements
+      .filter((settlement) => inPeriod(settledOn(settlement)))
+      .map((settlement) => ({
+        id: idOf(settlement),
+        date: settledOn(settlement),
+        from: idOf(settlement.fromUser),
+        fromName: nameOf(settlement.fromUser),
+        to: idOf(settlement.toUser),
+        toName: nameOf(settlement.toUser),
+        amount: settlement.paidAmount ?? settlement.amount,
+        method: settlement.method,
+        notes: settlement.notes || "",
+      })),
+    balances,
+    debts: closingResult.debts.map((debt) => ({
+      ...debt,
+      fromName: nameOf(debt.from),
+      toName: nameOf(debt.to),
+    })),
+  };
+};
+
+module.exports = { displayName, settledOn, parsePeriod, buildGroupLedger };
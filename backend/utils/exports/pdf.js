@@ -0,0 +1,164 @@
+// PDF export: a printable statement for each member (or just one), each
+// starting on a new page. A statement lists everything that moved the
+// member's balance in the period with a running total, then who they owe
+// or are owed at the end of it.
+const PDFDocument = require("pdfkit");
+const { toMajorUnits, currencyDecimals } = require("../money");
+
+const MARGIN = 50;
+const LINE_HEIGHT = 16;
+
+// Widths add up to the A4 page less its margins
+const COLUMNS = [
+  { key: "date", title: "Date", width: 70 },
+  { key: "description", title: "Description", width: 185 },
+  { key: "credit", title: "Credit", width: 80, align: "right" },
+  { key: "debit", title: "Debit", width: 80, align: "right" },
+  { key: "balance", title: "Balance", width: 80, align: "right" },
+];
+
+const day = (date) => date.toISOString().slice(0, 10);
+
+const formatMoney = (amount, currency) => {
+  const decimals = currencyDecimals(currency);
+  return toMajorUnits(amount, currency).toLocaleString("en-US", {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  });
+};
+
+// What moved a member's balance: credits for what they paid (expenses and
+// payments made), debits for their shares and payments they received
+const statementEntries = (ledger, memberId) =>
+  [
+    ...ledger.expenses
+      .filter((expense) => expense.paid[memberId] || expense.splits[memberId])
+      .map((expense) => ({
+        date: expense.date,
+        description: expense.description,
+        credit: expense.paid[memberId] || 0,
+        debit: expense.splits[memberId] || 0,
+      })),
+    ...ledger.settlements
+      .filter(
+        (settlement) =>
+          settlement.from === memberId || settlement.to === memberId
+      )
+      .map((settlement) =>
+        settlement.from === memberId
+          ? {
+              date: settlement.date,
+              description: `Payment to ${settlement.toName}`,
+              credit: settlement.amount,
+              debit: 0,
+            }
+          : {
+              date: settlement.date,
+              description: `Payment from ${settlement.fromName}`,
+              credit: 0,
+              debit: settlement.amount,
+            }
+      ),
+  ].sort((a, b) => a.date - b.date);
+
+const writeRow = (doc, cells, { bold = false } = {}) => {
+  if (doc.y + LINE_HEIGHT > doc.page.height - MARGIN) doc.addPage();
+
+  const y = doc.y;
+  let x = MARGIN;
+  doc.font(bold ? "Helvetica-Bold" : "Helvetica");
+  COLUMNS.forEach((column) => {
+    doc.text(cells[column.key] || "", x, y, {
+      width: column.width,
+      height: LINE_HEIGHT,
+      align: column.align || "left",
+      ellipsis: true,
+    });
+    x += column.width;
+  });
+  doc.x = MARGIN;
+  doc.y = y + LINE_HEIGHT;
+};
+
+const writeStatement = (doc, ledger, member) => {
+  const { currency } = ledger.group;
+  const money = (amount) => formatMoney(amount, currency);
+  const balance = ledger.balances.find((entry) => entry.user === member.id);
+  const { from, to } = ledger.period;
+
+  doc.font("Helvetica-Bold").fontSize(18).text(ledger.group.name);
+  doc.fontSize(12).text(`Statement for ${member.name}`);
+  doc
+    .font("Helvetica")
+    .fontSize(10)
+    .text(
+      `${from ? day(from) : "All time"} to ${day(to)} · ` +
+        `Amounts in ${currency}`
+    )
+    .moveDown();
+
+  let running = balance.opening;
+  writeRow(
+    doc,
+    Object.fromEntries(COLUMNS.map((column) => [column.key, column.title])),
+    { bold: true }
+  );
+  writeRow(doc, {
+    description: "Opening balance",
+    balance: money(running),
+  });
+  statementEntries(ledger, member.id).forEach((entry) => {
+    running += entry.credit - entry.debit;
+    writeRow(doc, {
+      date: day(entry.date),
+      description: entry.description,
+      credit: entry.credit ? money(entry.credit) : "",
+      debit: entry.debit ? money(entry.debit) : "",
+      balance: money(running),
+    });
+  });
+  writeRow(
+    doc,
+    { description: "Closing balance", balance: money(balance.closing) },
+    { bold: true }
+  );
+
+  doc.moveDown().font("Helvetica").fontSize(10);
+  const debts = ledger.debts.filter(
+    (debt) => debt.from === member.id || debt.to === member.id
+  );
+  if (debts.length === 0) {
+    doc.text("All settled up.");
+  }
+  debts.forEach((debt) => {
+    doc.text(
+      debt.from === member.id
+        ? `You owe ${debt.toName} ${money(debt.amount)}`
+        : `${debt.fromName} owes you ${money(debt.amount)}`
+    );
+  });
+
+  doc
+    .moveDown()
+    .fontSize(8)
+    .fillColor("gray")
+    .text(`Generated ${ledger.generatedAt.toISOString()}`)
+    .fillColor("black");
+};
+
+// `options.member` limits the export to one member's statement
+const writePdf = async (ledger, stream, options = {}) => {
+  const doc = new PDFDocument({ size: "A4", margin: MARGIN });
+  doc.pipe(stream);
+
+  ledger.members
+    .filter((member) => !options.member || member.id === options.member)
+    .forEach((member, index) => {
+      if (index > 0) doc.addPage();
+      writeStatement(doc, ledger, member);
+    });
+
+  doc.end();
+};
+
+module.exports = { writePdf };
@@ -0,0 +1,95 @@
+// The ledger as plain tables (expenses, settlements, balances) for the
+// spreadsheet exports. Amounts are in major units, e.g. 12.5 for 1250 cents.
+const { toMajorUnits } = require("../money");
+
+const ledgerTables = (ledger) => {
+  const { currency } = ledger.group;
+  const money = (amount) => toMajorUnits(amount || 0, currency);
+
+  const expenseColumns = [
+    { id: "date", title: "Date" },
+    { id: "description", title: "Description", width: 32 },
+    { id: "category", title: "Category" },
+    { id: "amount", title: `Amount (${currency})` },
+    { id: "originalAmount", title: "Original amount" },
+    { id: "originalCurrency", title: "Original currency" },
+    { id: "paidBy", title: "Paid by", width: 24 },
+    // One share column per member
+    ...ledger.members.map((member) => ({
+      id: `share_${member.id}`,
+      title: `${member.name} share`,
+    })),
+    { id: "notes", title: "Notes", width: 32 },
+  ];
+
+  const expenseRows = ledger.expenses.map((expense) => ({
+    date: expense.date,
+    description: expense.description,
+    category: expense.category,
+    amount: money(expense.amount),
+    originalAmount: expense.originalCurrency
+      ? toMajorUnits(expense.originalAmount, expense.originalCurrency)
+      : "",
+    originalCurrency: expense.originalCurrency || "",
+    paidBy: expense.payers
+      .map((payer) =>
+        expense.payers.length > 1
+          ? `${payer.name} (${money(payer.amount)})`
+          : payer.name
+      )
+      .join("; "),
+    ...Object.fromEntries(
+      ledger.members.map((member) => [
+        `share_${member.id}`,
+        money(expense.splits[member.id]),
+      ])
+    ),
+    notes: expense.notes,
+  }));
+
+  return [
+    { title: "Expenses", columns: expenseColumns, rows: expenseRows },
+    {
+      title: "Settlements",
+      columns: [
+        { id: "date", title: "Date" },
+        { id: "from", title: "From", width: 24 },
+        { id: "to", title: "To", width: 24 },
+        { id: "amount", title: `Amount (${currency})` },
+        { id: "method", title: "Method" },
+        { id: "notes", title: "Notes", width: 32 },
+      ],
+      rows: ledger.settlements.map((settlement) => ({
+        date: settlement.date,
+        from: settlement.fromName,
+        to: settlement.toName,
+        amount: money(settlement.amount),
+        method: settlement.method,
+        notes: settlement.notes,
+      })),
+    },
+    {
+      title: "Balances",
+      columns: [
+        { id: "name", title: "Member", width: 24 },
+        { id: "opening", title: "Opening balance" },
+        { id: "paid", title: "Paid" },
+        { id: "owed", title: "Share of expenses" },
+        { id: "settlementsPaid", title: "Settlements paid" },
+        { id: "settlementsReceived", title: "Settlements received" },
+        { id: "closing", title: "Closing balance" },
+      ],
+      rows: ledger.balances.map((balance) => ({
+        name: balance.name,
+        opening: money(balance.opening),
+        paid: money(balance.paid),
+        owed: money(balance.owed),
+        settlementsPaid: money(balance.settlementsPaid),
+        settlementsReceived: money(balance.settlementsReceived),
+        closing: money(balance.closing),
+      })),
+    },
+  ];
+};
+
+module.exports = { ledgerTables };
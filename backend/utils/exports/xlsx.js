@@ -0,0 +1,34 @@
+// Excel export: one worksheet per ledger table, streamed row by row
+const ExcelJS = require("exceljs");
+const { ledgerTables } = require("./tables");
+
+const DEFAULT_COLUMN_WIDTH = 14;
+
+const writeXlsx = async (ledger, stream) => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream,
+    useStyles: true,
+  });
+  workbook.creator = "Aspire Expenses";
+  workbook.created = ledger.generatedAt;
+
+  ledgerTables(ledger).forEach((table) => {
+    const sheet = workbook.addWorksheet(table.title, {
+      views: [{ state: "frozen", ySplit: 1 }],
+    });
+    sheet.columns = table.columns.map((column) => ({
+      header: column.title,
+      key: column.id,
+      width: column.width || DEFAULT_COLUMN_WIDTH,
+      ...(column.id === "date" && { style: { numFmt: "yyyy-mm-dd" } }),
+    }));
+    sheet.getRow(1).font = { bold: true };
+
+    table.rows.forEach((row) => sheet.addRow(row).commit());
+    sheet.commit();
+  });
+
+  await workbook.commit();
+};
+
+module.exports = { writeXlsx };
@@ -0,0 +1,149 @@
+// Change history for expenses and settlements. `historyPlugin` records every
+// create, update and delete of a document as a versioned AuditLog entry with
+// the actor, a field-level diff and a snapshot of the result.
+const AuditLog = require("../models/AuditLog");
+const logger = require("../config/logger");
+const { idOf } = require("./balances");
+
+// Bookkeeping fields that are never reported as changes
+const IGNORED_FIELDS = ["_id", "__v", "createdAt", "updatedAt"];
+
+const DUPLICATE_KEY = 11000;
+
+// Plain JSON copy of a document: ids become strings and dates ISO strings
+const snapshotOf = (doc) =>
+  doc
+    ? JSON.parse(
+        JSON.stringify(
+          typeof doc.toObject === "function"
+            ? doc.toObject({ depopulate: true })
+            : doc
+        )
+      )
+    : null;
+
+// Comparable form of a snapshot value: nested subdocument ids are dropped
+// (splits are rebuilt on every edit) and keys are sorted
+const comparable = (value) => {
+  if (Array.isArray(value)) return value.map(comparable);
+  if (value && typeof value === "object") {
+    return Object.keys(value)
+      .filter((key) => key !== "_id")
+      .sort()
+      .reduce((result, key) => {
+        result[key] = comparable(value[key]);
+        return result;
+      }, {});
+  }
+  return value;
+};
+
+// Top-level fields that differ between two snapshots
+const diffSnapshots = (before, after) => {
+  if (!before || !after) return [];
+
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...fields]
+    .filter((field) => !IGNORED_FIELDS.includes(field))
+    .filter(
+      (field) =>
+        JSON.stringify(comparable(before[field])) !==
+        JSON.stringify(comparable(after[field]))
+    )
+    .map((field) => ({ field, from: before[field], to: after[field] }));
+};
+
+// Append the next version for `doc`, retrying if another change to the same
+// document took that version number first. Changes are never written in a
+// transaction, so a failed attempt leaves nothing to roll back.
+const appendEntry = async (doc, entityType, entry) => {
+  for (let attempt = 1; ; attempt++) {
+    const latest = await AuditLog.findOne({ entity: doc._id })
+      .sort({ version: -1 })
+      .select("version");
+
+    try {
+      await AuditLog.create({
+        ...entry,
+        entityType,
+        entity: doc._id,
+        group: doc.group ? idOf(doc.group) : undefined,
+        version: (latest?.version || 0) + 1,
+        actor: doc.$locals.actor || null,
+      });
+      return;
+    } catch (error) {
+      if (error.code !== DUPLICATE_KEY || attempt >= 3) throw error;
+    }
+  }
+};
+
+// The change has already been written by the time it is logged, so a
+// failure here is reported rather than failing the request
+const recordChange = async (doc, entityType, entry) => {
+  try {
+    await appendEntry(doc, entityType, entry);
+  } catch (error) {
+    logger.error(`Record ${entityType} ${doc._id} history error:`, error);
+  }
+};
+
+const historyPlugin = (schema, { entityType }) => {
+  // Who is making the next change; unset for changes made by the server
+  schema.methods.setActor = function (userId) {
+    this.$locals.actor = userId;
+    return this;
+  };
+
+  // The stored copy is read straight from the collection so that no query
+  // middleware (such as soft-delete filtering) can hide it
+  schema.pre("save", async function () {
+    this.$locals.historyBefore = this.isNew
+      ? null
+      : await this.constructor.collection.findOne({ _id: this._id });
+  });
+
+  schema.post("save", async function (doc) {
+    const before = snapshotOf(doc.$locals.historyBefore);
+    const after = snapshotOf(doc);
+    delete doc.$locals.historyBefore;
+
+    if (!before) {
+      return recordChange(doc, entityType, {
+        action: "create",
+        snapshot: after,
+      });
+    }
+
+    const changes = diffSnapshots(before, after);
+    const { restoredFrom, historyAction } = doc.$locals;
+    delete doc.$locals.restoredFrom;
+    delete doc.$locals.historyAction;
+    if (changes.length === 0 && !restoredFrom && !historyAction) return;
+
+    await recordChange(doc, entityType, {
+      action: historyAction || (restoredFrom ? "restore" : "update"),
+      changes,
+      snapshot: after,
+      restoredFrom,
+    });
+  });
+
+  schema.post(
+    "deleteOne",
+    { document: true, query: false },
+    async function (doc) {
+      await recordChange(doc, entityType, {
+        action: doc.$locals.historyAction || "delete",
+        snapshot: snapshotOf(doc),
+      });
+    }
+  );
+};
+
+module.exports = {
+  IGNORED_FIELDS,
+  snapshotOf,
+  diffSnapshots,
+  historyPlugin,
+};
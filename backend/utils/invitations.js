@@ -0,0 +1,66 @@
+// Inviting people to a group by email, whether or not they have an account
+const Invitation = require("../models/Invitation");
+const User = require("../models/User");
+const logger = require("../config/logger");
+const { sendMail } = require("./mailer");
+
+const displayName = (user) =>
+  [user.firstName, user.lastName].filter(Boolean).join(" ") || user.username;
+
+const sendInvitationEmail = (invitation, group, invitedBy) =>
+  sendMail({
+    to: invitation.email,
+    subject: `${displayName(invitedBy)} invited you to ${group.name}`,
+    text:
+      `${displayName(invitedBy)} added you to "${group.name}" on Aspire ` +
+      `Expenses to share expenses.\n\n` +
+      `Join the group here:\n${invitation.link()}\n\n` +
+      `If you don't have an account yet, you can sign up from the link ` +
+      `with this email address (${invitation.email}). The link expires on ` +
+      `${invitation.expiresAt.toDateString()}.`,
+  });
+
+// Admins get the link along with each invitation so they can share it
+const invitationJson = (invitation) => ({
+  ...invitation.toObject(),
+  kind: invitation.kind,
+  link: invitation.link(),
+});
+
+// Add the person with `email` to the group as a pending member (making a
+// pending user for them if needed) and email them an invitation. Earlier
+// open invitations for them to this group are replaced.
+const inviteByEmail = async (group, email, { role = "member", invitedBy }) => {
+  const user = await User.findOrCreatePending(email);
+  if (!group.isMember(user._id)) {
+    await group.addMember(user._id, role);
+    await User.findByIdAndUpdate(user._id, {
+      $addToSet: { groups: group._id },
+    });
+  }
+
+  await Invitation.updateMany(
+    { group: group._id, user: user._id, acceptedAt: null, revokedAt: null },
+    { revokedAt: new Date(), revokedBy: invitedBy._id }
+  );
+  const invitation = await Invitation.create({
+    group: group._id,
+    email: user.email,
+    user: user._id,
+    role,
+    invitedBy: invitedBy._id,
+    expiresAt: Invitation.expiryFor("email"),
+  });
+
+  // The invitation stands even if the email fails; admins can share its
+  // link instead
+  try {
+    await sendInvitationEmail(invitation, group, invitedBy);
+  } catch (error) {
+    logger.error("Send invitation email error:", error);
+  }
+
+  return { user, invitation };
+};
+
+module.exports = { invitationJson, inviteByEmail };
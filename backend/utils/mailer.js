@@ -0,0 +1,40 @@
+// Outgoing email. With SMTP_HOST set, mail goes out through that server
+// (SMTP_PORT, SMTP_USER, SMTP_PASS, MAIL_FROM); without it, messages are
+// only logged so invitations can be tried out locally.
+const nodemailer = require("nodemailer");
+const logger = require("../config/logger");
+
+let transport = null;
+
+// Created on first use so the environment has been loaded by then
+const getTransport = () => {
+  if (!transport && process.env.SMTP_HOST) {
+    const port = Number(process.env.SMTP_PORT) || 587;
+    transport = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+  }
+  return transport;
+};
+
+const sendMail = async ({ to, subject, text }) => {
+  const mailer = getTransport();
+  if (!mailer) {
+    logger.info(`Email to ${to} (SMTP not configured): ${subject}\n${text}`);
+    return;
+  }
+
+  await mailer.sendMail({
+    from: process.env.MAIL_FROM || "Aspire Expenses <no-reply@localhost>",
+    to,
+    subject,
+    text,
+  });
+};
+
+module.exports = { sendMail };
@@ -0,0 +1,227 @@
+// Membership changes: moving a member's place in a group to another user
+// or merging it into theirs, and members leaving with a settled balance
+const Expense = require("../models/Expense");
+const RecurringExpense = require("../models/RecurringExpense");
+const Settlement = require("../models/Settlement");
+const User = require("../models/User");
+const { computeBalances } = require("./balances");
+
+// References to group members in each model: fields naming one member and
+// per-user arrays of `{ user, ... }` entries
+const MEMBER_REFERENCES = [
+  [Expense, { fields: ["paidBy"], arrays: ["paidByMultiple", "splits"] }],
+  [
+    RecurringExpense,
+    { fields: ["paidBy"], arrays: ["paidByMultiple", "customSplits"] },
+  ],
+  [Settlement, { fields: ["fromUser", "toUser"], arrays: [] }],
+];
+const SUMMED_FIELDS = ["amount", "percentage", "shares", "adjustment"];
+
+// Fold entries for the same user into one, adding up what they paid or owe
+const combineEntries = (entries) => {
+  const byUser = new Map();
+  for (const entry of entries) {
+    const key = entry.user.toString();
+    const combined = byUser.get(key);
+    if (!combined) {
+      byUser.set(key, { ...entry });
+      continue;
+    }
+    for (const field of SUMMED_FIELDS) {
+      if (typeof entry[field] === "number") {
+        combined[field] = (combined[field] || 0) + entry[field];
+      }
+    }
+    if (typeof combined.isPaid === "boolean") {
+      combined.isPaid = combined.isPaid && entry.isPaid;
+    }
+  }
+  return [...byUser.values()];
+};
+
+const uniqueIds = (ids) =>
+  ids.filter(
+    (id, index) => ids.findIndex((other) => other.equals(id)) === index
+  );
+
+// Replace `fromId` with `toId` throughout `doc`, combining entries that then
+// name the same person twice
+const reassignDocument = (doc, { fields, arrays }, fromId, toId) => {
+  const swap = (id) => (id && id.equals(fromId) ? toId : id);
+
+  fields.forEach((field) => {
+    doc[field] = swap(doc[field]);
+  });
+  arrays.forEach((path) => {
+    doc[path] = combineEntries(
+      (doc[path] || []).map((entry) => ({
+        ...entry.toObject(),
+        user: swap(entry.user),
+      }))
+    );
+  });
+  (doc.items || []).forEach((item) => {
+    item.assignedTo = uniqueIds(item.assignedTo.map(swap));
+  });
+};
+
+// Point every reference to `fromId` in the group's expenses (trashed ones
+// too, so restoring one doesn't bring back someone who is no longer in the
+// group), recurring expenses and settlements at `toId`. Documents are saved
+// one at a time so each change lands in their history. Settlements left
+// between `toId` and themselves no longer mean anything and are deleted.
+const reassignGroupRecords = async (groupId, fromId, toId, actorId) => {
+  for (const [Model, references] of MEMBER_REFERENCES) {
+    const docs = await Model.find({
+      group: groupId,
+      $or: [
+        ...references.fields.map((field) => ({ [field]: fromId })),
+        ...references.arrays.map((path) => ({ [`${path}.user`]: fromId })),
+        ...(Model === Expense ? [{ "items.assignedTo": fromId }] : []),
+      ],
+    }).setOptions({ withDeleted: true });
+
+    for (const doc of docs) {
+      if (doc.setActor) doc.setActor(actorId);
+      reassignDocument(doc, references, fromId, toId);
+
+      if (Model === Settlement && doc.fromUser.equals(doc.toUser)) {
+        await doc.deleteOne();
+      } else {
+        await doc.save();
+      }
+    }
+  }
+};
+
+// Take `userId` out of the group's list on their user. Users without an
+// account are deleted once they are in no group.
+const dropGroupFromUser = async (group, userId) => {
+  await User.updateOne({ _id: userId }, { $pull: { groups: group._id } });
+  await User.deleteOne({
+    _id: userId,
+    status: { $ne: "active" },
+    groups: { $size: 0 },
+  });
+};
+
+// Give `toId` the group membership of `fromId` (who must be a member and
+// `toId` not), along with everything the group's records say they paid or
+// owe. A pending or placeholder user left without groups is deleted.
+// Changes to the records are made as `actorId`.
+const transferMembership = async (group, fromId, toId, actorId) => {
+  await reassignGroupRecords(group._id, fromId, toId, actorId);
+
+  const member = group.members.find(
+    (entry) => entry.user.toString() === fromId.toString()
+  );
+  member.user = toId;
+  await group.save();
+
+  await User.updateOne({ _id: toId }, { $addToSet: { groups: group._id } });
+  await dropGroupFromUser(group, fromId);
+};
+
+// Merge the membership of `fromId` into that of `toId` (both members), so
+// everything `fromId` paid or owes in the group counts for `toId`.
+// Settlements between the two of them no longer mean anything and are
+// deleted; `toId` keeps their own role. Changes to the records are made as
+// `actorId`.
+const mergeMembership = async (group, fromId, toId, actorId) => {
+  await reassignGroupRecords(group._id, fromId, toId, actorId);
+  await removeMembership(group, fromId);
+};
+
+// Take `userId` out of the group
+const removeMembership = async (group, userId) => {
+  await group.removeMember(userId);
+  await dropGroupFromUser(group, userId);
+};
+
+// Balances and pairwise debts of the group's members, from its expenses and
+// what has been paid of its settlements
+const loadGroupBalances = async (group) => {
+  const [expenses, settlements] = await Promise.all([
+    Expense.find({ group: group._id }).select(
+      "amount paidBy paidByMultiple splits"
+    ),
+    Settlement.findSettled({ group: group._id }),
+  ]);
+
+  return computeBalances({
+    expenses,
+    settlements,
+    memberIds: group.members.map((member) => member.user),
+  });
+};
+
+// What the group owes `userId` (negative when they owe the group)
+const netBalanceOf = async (group, userId) => {
+  const { balances } = await loadGroupBalances(group);
+  const balance = balances.find((entry) => entry.user === userId.toString());
+  return balance ? balance.net : 0;
+};
+
+// Zero a member's balance without money changing hands: everyone they owe
+// forgives the debt, and they forgive everyone who owes them. Each is
+// recorded as a completed write-off settlement. Rounding between the
+// pairwise debts and the balance goes on the largest one.
+const writeOffBalance = async (group, userId, actorId, reason) => {
+  const { balances, debts } = await loadGroupBalances(group);
+  const id = userId.toString();
+  const net = balances.find((entry) => entry.user === id)?.net || 0;
+
+  const transfers = debts
+    .filter((debt) => debt.from === id || debt.to === id)
+    .map((debt) => ({
+      fromUser: debt.from,
+      toUser: debt.to,
+      amount: debt.amount,
+    }))
+    .sort((a, b) => b.amount - a.amount);
+
+  // With only rounding left there are no debts; it goes to whoever is
+  // furthest the other way
+  if (transfers.length === 0 && net !== 0) {
+    const [other] = balances
+      .filter((entry) => entry.user !== id)
+      .sort((x, y) => (net > 0 ? x.net - y.net : y.net - x.net));
+    if (other) {
+      transfers.push(
+        net > 0
+          ? { fromUser: other.user, toUser: id, amount: 0 }
+          : { fromUser: id, toUser: other.user, amount: 0 }
+      );
+    }
+  }
+
+  // A settlement paid by the member raises their balance; one paid to
+  // them lowers it
+  const effect = (transfer) =>
+    transfer.fromUser === id ? transfer.amount : -transfer.amount;
+  const residual = -net - transfers.reduce((sum, t) => sum + effect(t), 0);
+  if (residual !== 0 && transfers.length > 0) {
+    transfers[0].amount +=
+      transfers[0].fromUser === id ? residual : -residual;
+  }
+
+  for (const transfer of transfers) {
+    if (transfer.amount <= 0) continue;
+    const settlement = new Settlement({
+      ...transfer,
+      group: group._id,
+      currency: group.currency,
+    });
+    await settlement.setActor(actorId).writeOff(actorId, reason);
+  }
+};
+
+module.exports = {
+  transferMembership,
+  mergeMembership,
+  removeMembership,
+  loadGroupBalances,
+  netBalanceOf,
+  writeOffBalance,
+};
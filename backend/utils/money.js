@@ -0,0 +1,107 @@
+// Integer money helpers. Every stored amount is a whole number of the
+// currency's minor unit (cents for USD, cents for LKR, yen for JPY).
+
+// ISO 4217 minor-unit exponents that differ from the usual 2
+const CURRENCY_DECIMALS = {
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  ISK: 0,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  PYG: 0,
+  RWF: 0,
+  UGX: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+};
+
+const currencyDecimals = (currency) =>
+  CURRENCY_DECIMALS[currency] !== undefined ? CURRENCY_DECIMALS[currency] : 2;
+
+const minorUnitFactor = (currency) => 10 ** currencyDecimals(currency);
+
+// Convert a decimal amount (e.g. 12.34) to minor units (1234)
+const toMinorUnits = (amount, currency) =>
+  Math.round(Number(amount) * minorUnitFactor(currency));
+
+// Convert minor units back to a decimal amount, for display and exports
+const toMajorUnits = (amount, currency) => amount / minorUnitFactor(currency);
+
+const isMinorUnitAmount = (amount) => Number.isInteger(amount) && amount >= 0;
+
+// Mongoose validator for minor-unit fields
+const minorUnitValidator = {
+  validator: Number.isInteger,
+  message: "{PATH} must be a whole number of minor currency units",
+};
+
+// Split `total` into integer parts proportional to `weights` using the
+// largest-remainder method. Leftover units go to the largest fractional
+// remainders; ties go to the earlier index, so the result is deterministic.
+const allocate = (total, weights) => {
+  if (weights.length === 0) return [];
+
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight <= 0) {
+    // Nothing to weigh by; fall back to an even split
+    return splitEvenly(total, weights.length);
+  }
+
+  const exact = weights.map((weight) => (total * weight) / totalWeight);
+  const parts = exact.map(Math.floor);
+  let leftover = total - parts.reduce((sum, part) => sum + part, 0);
+
+  const order = exact
+    .map((value, index) => ({ index, remainder: value - parts[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (let i = 0; leftover > 0; i = (i + 1) % order.length) {
+    parts[order[i].index] += 1;
+    leftover -= 1;
+  }
+
+  return parts;
+};
+
+// Split `total` into `count` integer parts. The leftover units are handed out
+// one each, round-robin, starting at `startIndex` (typically the payer).
+const splitEvenly = (total, count, startIndex = 0) => {
+  if (count === 0) return [];
+
+  const base = Math.floor(total / count);
+  const parts = new Array(count).fill(base);
+  let leftover = total - base * count;
+  const start = startIndex >= 0 && startIndex < count ? startIndex : 0;
+
+  for (let i = start; leftover > 0; i = (i + 1) % count) {
+    parts[i] += 1;
+    leftover -= 1;
+  }
+
+  return parts;
+};
+
+module.exports = {
+  CURRENCY_DECIMALS,
+  currencyDecimals,
+  minorUnitFactor,
+  toMinorUnits,
+  toMajorUnits,
+  isMinorUnitAmount,
+  minorUnitValidator,
+  allocate,
+  splitEvenly,
+};
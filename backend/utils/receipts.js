@@ -0,0 +1,84 @@
+// Receipt file handling: content checks, thumbnails and storage keys
+const crypto = require("crypto");
+const sharp = require("sharp");
+const { getStorage } = require("./storage");
+
+const MAX_RECEIPT_SIZE = 5 * 1024 * 1024;
+
+// Accepted upload types and the extension they are stored under
+const RECEIPT_TYPES = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "application/pdf": "pdf",
+};
+
+// sharp's name for each accepted image format
+const IMAGE_FORMATS = {
+  "image/jpeg": "jpeg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+const THUMBNAIL_SIZE = 320;
+
+// Check the file really is what its content type says (the browser-supplied
+// type is not trusted) and build a JPEG thumbnail for images.
+// Returns { thumbnail } (null for PDFs) or { error }.
+const processReceipt = async (file) => {
+  if (file.mimetype === "application/pdf") {
+    if (file.buffer.subarray(0, 5).toString("latin1") !== "%PDF-") {
+      return { error: "The file is not a valid PDF." };
+    }
+    return { thumbnail: null };
+  }
+
+  try {
+    const image = sharp(file.buffer);
+    const { format } = await image.metadata();
+    if (format !== IMAGE_FORMATS[file.mimetype]) {
+      return { error: "The file content does not match its type." };
+    }
+
+    const thumbnail = await image
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, {
+        fit: "inside",
+        withoutEnlargement: true,
+      })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+    return { thumbnail };
+  } catch (error) {
+    return { error: "The file is not a readable image." };
+  }
+};
+
+// Storage keys for a new receipt; random so a replaced receipt never
+// collides with the one it replaces
+const receiptKeys = (expenseId, mimetype) => {
+  const id = crypto.randomUUID();
+  return {
+    key: `receipts/${expenseId}/${id}.${RECEIPT_TYPES[mimetype]}`,
+    thumbnailKey: `receipts/${expenseId}/${id}-thumb.jpg`,
+  };
+};
+
+// Remove a receipt's stored files. Missing files are not an error.
+const removeReceiptFiles = async (receiptFile) => {
+  if (!receiptFile || !receiptFile.key) return;
+
+  const storage = getStorage();
+  await storage.remove(receiptFile.key);
+  if (receiptFile.thumbnailKey) {
+    await storage.remove(receiptFile.thumbnailKey);
+  }
+};
+
+module.exports = {
+  MAX_RECEIPT_SIZE,
+  RECEIPT_TYPES,
+  processReceipt,
+  receiptKeys,
+  removeReceiptFiles,
+};
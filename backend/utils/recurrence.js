@@ -0,0 +1,94 @@
+// Recurrence rules for recurring expenses: every `interval` days, weeks,
+// months or years from `startDate`, optionally until `endDate`.
+// Occurrence n is always computed from the start date rather than from the
+// previous occurrence, so a monthly rule starting on the 31st lands on the
+// last day of shorter months and returns to the 31st afterwards.
+
+const FREQUENCIES = ["daily", "weekly", "monthly", "yearly"];
+
+const daysInMonth = (year, month) =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Add whole months, clamping the day to the end of the target month
+const addMonths = (date, months) => {
+  const start = new Date(date);
+  const target = new Date(start);
+  const totalMonths = start.getUTCMonth() + months;
+  const year = start.getUTCFullYear() + Math.floor(totalMonths / 12);
+  const month = ((totalMonths % 12) + 12) % 12;
+  target.setUTCFullYear(
+    year,
+    month,
+    Math.min(start.getUTCDate(), daysInMonth(year, month))
+  );
+  return target;
+};
+
+const addDays = (date, days) => {
+  const target = new Date(date);
+  target.setUTCDate(target.getUTCDate() + days);
+  return target;
+};
+
+// Date of occurrence `index` (0 is the start date itself)
+const occurrenceDate = ({ frequency, interval = 1, startDate }, index) => {
+  const steps = index * interval;
+  switch (frequency) {
+    case "daily":
+      return addDays(startDate, steps);
+    case "weekly":
+      return addDays(startDate, steps * 7);
+    case "monthly":
+      return addMonths(startDate, steps);
+    case "yearly":
+      return addMonths(startDate, steps * 12);
+    default:
+      throw new Error(`Unknown frequency "${frequency}"`);
+  }
+};
+
+const isAfterEnd = (schedule, date) =>
+  Boolean(schedule.endDate) && date > new Date(schedule.endDate);
+
+// Index of the first occurrence on or after `date`
+const firstIndexOnOrAfter = (schedule, date) => {
+  const target = new Date(date);
+  let index = 0;
+  // Jump close to the target first so long-running rules stay cheap. Using
+  // the longest possible period keeps the estimate at or before the target.
+  const longestPeriodDays = {
+    daily: 1,
+    weekly: 7,
+    monthly: 31,
+    yearly: 366,
+  }[schedule.frequency];
+  const elapsedDays = (target - new Date(schedule.startDate)) / 86400000;
+  if (elapsedDays > 0) {
+    index = Math.floor(
+      elapsedDays / (longestPeriodDays * (schedule.interval || 1))
+    );
+  }
+  while (occurrenceDate(schedule, index) < target) {
+    index++;
+  }
+  return index;
+};
+
+// Next `count` occurrence dates from `index`, stopping at the end date
+const upcomingDates = (schedule, index, count) => {
+  const dates = [];
+  for (let i = index; dates.length < count; i++) {
+    const date = occurrenceDate(schedule, i);
+    if (isAfterEnd(schedule, date)) break;
+    dates.push(date);
+  }
+  return dates;
+};
+
+module.exports = {
+  FREQUENCIES,
+  occurrenceDate,
+  isAfterEnd,
+  firstIndexOnOrAfter,
+  upcomingDates,
+};
@@ -0,0 +1,64 @@
+// Soft deletion. Deleted documents keep a deletedAt/deletedBy marker instead
+// of being removed, and every query (finds, counts, distinct, updates and
+// deletes) and aggregate skips them unless the query filters on deletedAt
+// itself or sets the `withDeleted` option.
+const mongoose = require("mongoose");
+
+const QUERY_HOOKS = [
+  "countDocuments",
+  "deleteMany",
+  "distinct",
+  "find",
+  "findOne",
+  "findOneAndUpdate",
+  "updateMany",
+  "updateOne",
+];
+
+const softDeletePlugin = (schema) => {
+  schema.add({
+    deletedAt: {
+      type: Date,
+      default: null,
+    },
+    deletedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+    },
+  });
+  schema.index({ deletedAt: 1 });
+
+  schema.pre(QUERY_HOOKS, function () {
+    if (this.getOptions().withDeleted) return;
+    if (this.getFilter().deletedAt !== undefined) return;
+    this.where({ deletedAt: null });
+  });
+
+  schema.pre("aggregate", function () {
+    if (this.options.withDeleted) return;
+    this.pipeline().unshift({ $match: { deletedAt: null } });
+  });
+
+  schema.methods.isDeleted = function () {
+    return Boolean(this.deletedAt);
+  };
+
+  // Move to the trash; the document can be restored until it is purged
+  schema.methods.moveToTrash = function (userId) {
+    this.deletedAt = new Date();
+    this.deletedBy = userId;
+    this.$locals.actor = userId;
+    this.$locals.historyAction = "delete";
+    return this.save();
+  };
+
+  schema.methods.restoreFromTrash = function (userId) {
+    this.deletedAt = null;
+    this.deletedBy = undefined;
+    this.$locals.actor = userId;
+    this.$locals.historyAction = "restore";
+    return this.save();
+  };
+};
+
+module.exports = { softDeletePlugin };
@@ -0,0 +1,333 @@
+// Expense split computation. All amounts are integer minor units.
+const { idOf } = require("./balances");
+const { allocate, splitEvenly, isMinorUnitAmount } = require("./money");
+
+const SPLIT_TYPES = [
+  "equal",
+  "percentage",
+  "shares",
+  "adjustment",
+  "custom",
+  "itemized",
+];
+
+// Bill lines that are shared in proportion to each person's item subtotal
+const CHARGE_FIELDS = ["tax", "serviceCharge", "tip"];
+
+// The per-participant input each split type keeps on its splits, so the
+// splits can be rebuilt when only the expense amount changes
+const CARRIED_SPLIT_FIELDS = {
+  percentage: "percentage",
+  shares: "shares",
+  adjustment: "adjustment",
+};
+
+const percentageOf = (part, total) => (total > 0 ? (part / total) * 100 : 0);
+
+const chargesTotal = (charges) =>
+  CHARGE_FIELDS.reduce((sum, field) => sum + (charges[field] || 0), 0);
+
+// Split types whose shares come from per-person `customSplits`
+const CUSTOM_SPLIT_TYPES = ["percentage", "shares", "adjustment", "custom"];
+
+// Custom split inputs need one entry per person, each of them taking part in
+// the expense
+const validateCustomSplits = (customSplits, participants) => {
+  if (customSplits.length === 0) {
+    return "No participants specified for expense.";
+  }
+
+  const userIds = customSplits.map((split) =>
+    split.userId ? idOf(split.userId) : null
+  );
+  if (userIds.some((userId) => !userId)) {
+    return "Every split needs a participant.";
+  }
+  if (new Set(userIds).size !== userIds.length) {
+    return "Each participant can only be listed once.";
+  }
+
+  const participantIds = participants.map(idOf);
+  if (
+    participantIds.length > 0 &&
+    userIds.some((userId) => !participantIds.includes(userId))
+  ) {
+    return "Splits can only include people taking part in the expense.";
+  }
+
+  return null;
+};
+
+// Total of an itemized bill: every item line plus tax, service and tip
+const itemizedTotal = (items = [], charges = {}) =>
+  items.reduce((sum, item) => sum + item.price * item.quantity, 0) +
+  chargesTotal(charges);
+
+const validateItems = (items, charges, participants) => {
+  if (items.length === 0) {
+    return "Add at least one item.";
+  }
+
+  const participantIds = participants.map(idOf);
+  for (const item of items) {
+    if (!item.name || !String(item.name).trim()) {
+      return "Every item needs a name.";
+    }
+    if (!isMinorUnitAmount(item.price)) {
+      return `Price of "${item.name}" must be a whole number of minor units.`;
+    }
+    if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+      return `Quantity of "${item.name}" must be a whole number of at least 1.`;
+    }
+    if (!item.assignedTo || item.assignedTo.length === 0) {
+      return `Assign "${item.name}" to at least one person.`;
+    }
+    if (
+      participantIds.length > 0 &&
+      item.assignedTo.some((userId) => !participantIds.includes(idOf(userId)))
+    ) {
+      return `"${item.name}" is assigned to someone outside the expense.`;
+    }
+  }
+
+  if (CHARGE_FIELDS.some((field) => !isMinorUnitAmount(charges[field] || 0))) {
+    return "Tax, service charge and tip must be whole numbers of minor units.";
+  }
+
+  return null;
+};
+
+// Each item line is divided equally between the people it is assigned to;
+// tax, service and tip are then shared in proportion to those subtotals
+const buildItemizedSplits = (amount, items, charges, participants) => {
+  const itemError = validateItems(items, charges, participants);
+  if (itemError) {
+    return { error: itemError };
+  }
+  if (itemizedTotal(items, charges) !== amount) {
+    return {
+      error: "Items, tax, service charge and tip must add up to the amount.",
+    };
+  }
+
+  const subtotals = new Map();
+  items.forEach((item) => {
+    const assignees = item.assignedTo.map(idOf);
+    const parts = splitEvenly(item.price * item.quantity, assignees.length);
+    assignees.forEach((userId, index) => {
+      subtotals.set(userId, (subtotals.get(userId) || 0) + parts[index]);
+    });
+  });
+
+  const userIds = [...subtotals.keys()];
+  const extras = allocate(
+    chargesTotal(charges),
+    userIds.map((userId) => subtotals.get(userId))
+  );
+
+  return {
+    splits: userIds.map((userId, index) => {
+      const share = subtotals.get(userId) + extras[index];
+      return {
+        user: userId,
+        amount: share,
+        percentage: percentageOf(share, amount),
+        isPaid: false,
+      };
+    }),
+  };
+};
+
+// Build the splits for an expense of `amount` minor units.
+// - equal: everyone gets the same share; leftover units go one each to the
+//   participants in order, starting with the payer
+// - percentage: shares follow `customSplits[].percentage`; leftover units go
+//   to the largest fractional remainders
+// - shares: shares follow `customSplits[].shares` weights (e.g. 2 for a
+//   couple, 0.5 for a kid); leftover units go to the largest remainders
+// - adjustment: each participant carries `customSplits[].adjustment` minor
+//   units on top of (or off) an equal share of whatever remains; leftover
+//   units follow the equal rule
+// - custom: `customSplits[].amount` are taken as-is and must add up exactly
+// - itemized: shares come from `items` and the tax/service/tip `charges`
+// Returns { splits } or { error }.
+const buildSplits = ({
+  splitType = "equal",
+  amount,
+  participants = [],
+  customSplits = [],
+  items = [],
+  charges = {},
+  payerId,
+}) => {
+  if (!isMinorUnitAmount(amount)) {
+    return { error: "Amount must be a whole number of minor currency units." };
+  }
+
+  if (CUSTOM_SPLIT_TYPES.includes(splitType)) {
+    const inputError = validateCustomSplits(customSplits, participants);
+    if (inputError) return { error: inputError };
+  }
+
+  if (splitType === "equal") {
+    if (participants.length === 0) {
+      return { error: "No participants specified for expense." };
+    }
+
+    const payerIndex = payerId
+      ? participants.findIndex((userId) => idOf(userId) === idOf(payerId))
+      : 0;
+    const amounts = splitEvenly(amount, participants.length, payerIndex);
+
+    return {
+      splits: participants.map((userId, index) => ({
+        user: userId,
+        amount: amounts[index],
+        percentage: 100 / participants.length,
+        isPaid: false,
+      })),
+    };
+  }
+
+  if (splitType === "percentage") {
+    if (
+      customSplits.some(
+        (split) => !Number.isFinite(split.percentage) || split.percentage <= 0
+      )
+    ) {
+      return { error: "Percentages must be numbers greater than zero." };
+    }
+
+    const totalPercentage = customSplits.reduce(
+      (sum, split) => sum + split.percentage,
+      0
+    );
+    if (Math.abs(totalPercentage - 100) > 0.01) {
+      return { error: "Percentages must add up to 100%." };
+    }
+
+    const amounts = allocate(
+      amount,
+      customSplits.map((split) => split.percentage)
+    );
+
+    return {
+      splits: customSplits.map((split, index) => ({
+        user: split.userId,
+        amount: amounts[index],
+        percentage: split.percentage,
+        isPaid: false,
+      })),
+    };
+  }
+
+  if (splitType === "shares") {
+    // Anyone without a share is left out of the split rather than listed
+    if (
+      customSplits.some(
+        (split) => !Number.isFinite(split.shares) || split.shares <= 0
+      )
+    ) {
+      return { error: "Shares must be numbers greater than zero." };
+    }
+
+    const totalShares = customSplits.reduce(
+      (sum, split) => sum + split.shares,
+      0
+    );
+
+    const amounts = allocate(
+      amount,
+      customSplits.map((split) => split.shares)
+    );
+
+    return {
+      splits: customSplits.map((split, index) => ({
+        user: split.userId,
+        amount: amounts[index],
+        percentage: percentageOf(split.shares, totalShares),
+        shares: split.shares,
+        isPaid: false,
+      })),
+    };
+  }
+
+  if (splitType === "adjustment") {
+    if (customSplits.some((split) => !Number.isInteger(split.adjustment))) {
+      return { error: "Adjustments must be whole numbers of minor units." };
+    }
+
+    const totalAdjustment = customSplits.reduce(
+      (sum, split) => sum + split.adjustment,
+      0
+    );
+    const remainder = amount - totalAdjustment;
+    if (remainder < 0) {
+      return { error: "Adjustments cannot add up to more than the amount." };
+    }
+
+    const payerIndex = payerId
+      ? customSplits.findIndex((split) => idOf(split.userId) === idOf(payerId))
+      : 0;
+    const equalParts = splitEvenly(remainder, customSplits.length, payerIndex);
+    const amounts = customSplits.map(
+      (split, index) => equalParts[index] + split.adjustment
+    );
+    if (amounts.some((share) => share < 0)) {
+      return {
+        error: "An adjustment cannot leave someone with a negative share.",
+      };
+    }
+
+    return {
+      splits: customSplits.map((split, index) => ({
+        user: split.userId,
+        amount: amounts[index],
+        percentage: percentageOf(amounts[index], amount),
+        adjustment: split.adjustment,
+        isPaid: false,
+      })),
+    };
+  }
+
+  if (splitType === "custom") {
+    if (customSplits.some((split) => !isMinorUnitAmount(split.amount))) {
+      return {
+        error: "Custom split amounts must be whole numbers of minor units.",
+      };
+    }
+
+    const totalAmount = customSplits.reduce(
+      (sum, split) => sum + split.amount,
+      0
+    );
+    if (totalAmount !== amount) {
+      return {
+        error: "Custom split amounts must add up to the total expense amount.",
+      };
+    }
+
+    return {
+      splits: customSplits.map((split) => ({
+        user: split.userId,
+        amount: split.amount,
+        percentage: percentageOf(split.amount, amount),
+        isPaid: false,
+      })),
+    };
+  }
+
+  if (splitType === "itemized") {
+    return buildItemizedSplits(amount, items, charges, participants);
+  }
+
+  return { error: "Invalid split type." };
+};
+
+module.exports = {
+  SPLIT_TYPES,
+  CHARGE_FIELDS,
+  CARRIED_SPLIT_FIELDS,
+  itemizedTotal,
+  buildSplits,
+};
@@ -0,0 +1,44 @@
+// File storage used for uploads. STORAGE_DRIVER picks the backend:
+// - local (default): files on disk under UPLOAD_DIR
+// - s3: an S3-compatible bucket (S3_BUCKET, S3_REGION, S3_ENDPOINT,
+//   S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY)
+// Every backend exposes put(key, buffer, contentType), get(key) -> stream or
+// null, and remove(key).
+const path = require("path");
+const { createLocalStorage } = require("./local");
+const { createS3Storage } = require("./s3");
+
+let storage = null;
+
+const createStorage = () => {
+  const driver = process.env.STORAGE_DRIVER || "local";
+
+  if (driver === "local") {
+    return createLocalStorage({
+      root:
+        process.env.UPLOAD_DIR || path.join(__dirname, "..", "..", "uploads"),
+    });
+  }
+
+  if (driver === "s3") {
+    return createS3Storage({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION,
+      endpoint: process.env.S3_ENDPOINT,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    });
+  }
+
+  throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+};
+
+// Created on first use so the environment has been loaded by then
+const getStorage = () => {
+  if (!storage) {
+    storage = createStorage();
+  }
+  return storage;
+};
+
+module.exports = { getStorage };
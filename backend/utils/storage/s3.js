@@ -0,0 +1,59 @@
+// Stores files in an S3-compatible bucket. Setting S3_ENDPOINT points the
+// client at another implementation such as a local MinIO server.
+const {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+} = require("@aws-sdk/client-s3");
+
+const createS3Storage = ({
+  bucket,
+  region,
+  endpoint,
+  accessKeyId,
+  secretAccessKey,
+}) => {
+  if (!bucket) {
+    throw new Error("S3_BUCKET must be set when STORAGE_DRIVER is s3");
+  }
+
+  const client = new S3Client({
+    region: region || "us-east-1",
+    ...(endpoint && { endpoint, forcePathStyle: true }),
+    ...(accessKeyId &&
+      secretAccessKey && { credentials: { accessKeyId, secretAccessKey } }),
+  });
+
+  return {
+    async put(key, buffer, contentType) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: buffer,
+          ContentType: contentType,
+        })
+      );
+    },
+
+    // Readable stream of the object, or null if it does not exist
+    async get(key) {
+      try {
+        const object = await client.send(
+          new GetObjectCommand({ Bucket: bucket, Key: key })
+        );
+        return object.Body;
+      } catch (error) {
+        if (error.name === "NoSuchKey") return null;
+        throw error;
+      }
+    },
+
+    async remove(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+  };
+};
+
+module.exports = { createS3Storage };
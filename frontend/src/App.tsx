@@ -4,6 +4,7 @@ import {
   Routes,
   Route,
   Navigate,
+  useLocation,
 } from "react-router-dom";
 import { Toaster } from "react-hot-toast";
 import { AuthProvider, useAuth } from "./contexts/AuthContext";
@@ -14,9 +15,12 @@ import Dashboard from "./pages/Dashboard";
 import Groups from "./pages/Groups";
 import GroupDetail from "./pages/GroupDetail";
 import GroupExpenses from "./pages/GroupExpenses";
+import ImportExpenses from "./pages/ImportExpenses";
 import Expenses from "./pages/Expenses";
 import Settlements from "./pages/Settlements";
 import Profile from "./pages/Profile";
+import ExchangeRates from "./pages/ExchangeRates";
+import AcceptInvite from "./pages/AcceptInvite";
 
 // Protected Route Component
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({
@@ -35,9 +39,11 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({
   return user ? <>{children}</> : <Navigate to="/login" />;
 };
 
-// Public Route Component (redirects if already logged in)
+// Public Route Component (redirects if already logged in, back to the
+// invite link they came from if any)
 const PublicRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user, loading } = useAuth();
+  const invite = new URLSearchParams(useLocation().search).get("invite");
 
   if (loading) {
     return (
@@ -47,7 +53,14 @@ const PublicRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     );
   }
 
-  return user ? <Navigate to="/dashboard" /> : <>{children}</>;
+  if (user) {
+    return (
+      <Navigate
+        to={invite ? `/invite/${encodeURIComponent(invite)}` : "/dashboard"}
+      />
+    );
+  }
+  return <>{children}</>;
 };
 
 function App() {
@@ -99,6 +112,9 @@ function App() {
               }
             />
 
+            {/* Invite links work signed in or out */}
+            <Route path="/invite/:token" element={<AcceptInvite />} />
+
             {/* Protected Routes */}
             <Route
               path="/"
@@ -116,9 +132,14 @@ function App() {
                 path="groups/:groupId/expenses"
                 element={<GroupExpenses />}
               />
+              <Route
+                path="groups/:groupId/import"
+                element={<ImportExpenses />}
+              />
               <Route path="expenses" element={<Expenses />} />
               <Route path="settlements" element={<Settlements />} />
               <Route path="profile" element={<Profile />} />
+              <Route path="exchange-rates" element={<ExchangeRates />} />
             </Route>
           </Routes>
         </div>
@@ -1,8 +1,25 @@
 import React, { useState, useEffect } from "react";
 import Modal from "./Modal";
+import ExchangeRateField from "./ExchangeRateField";
+import ShareSplitInputs from "./ShareSplitInputs";
+import AdjustmentSplitInputs from "./AdjustmentSplitInputs";
+import ReceiptViewer from "./ReceiptViewer";
+import CategorySelect from "./CategorySelect";
+import { notifyBudgetAlerts } from "./BudgetProgressBar";
+import ItemizedSplitEditor, {
+  ItemCharges,
+  ItemDraft,
+  itemizedTotal,
+} from "./ItemizedSplitEditor";
 import { expensesApi, authApi } from "../services/api";
 import { Group, User } from "../types";
 import { useAuth } from "../contexts/AuthContext";
+import {
+  CURRENCIES,
+  formatCurrency,
+  toMajorUnits,
+  toMinorUnits,
+} from "../utils/currency";
 import toast from "react-hot-toast";
 import { Search, Plus, X, Users } from "lucide-react";
 
@@ -15,6 +32,8 @@ interface AddExpenseModalProps {
 
 // Removed PaidByUser interface - using single payer now
 
+const emptyCharges: ItemCharges = { tax: 0, serviceCharge: 0, tip: 0 };
+
 const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
   isOpen,
   onClose,
@@ -22,10 +41,13 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
   onExpenseAdded,
 }) => {
   const { user } = useAuth();
+  const baseCurrency = group?.currency || "LKR";
   const [formData, setFormData] = useState({
     description: "",
     amount: "",
-    category: "other",
+    currency: baseCurrency,
+    exchangeRate: "",
+    category: "",
     date: new Date().toISOString().slice(0, 16),
     notes: "",
     splitType: "equal",
@@ -34,6 +56,14 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
   const [customSplits, setCustomSplits] = useState<{
     [userId: string]: number;
   }>({});
+  // Share weights for "shares" splits; participants default to one share
+  const [shares, setShares] = useState<Record<string, number>>({});
+  // Per-person adjustments (major units) for "adjustment" splits
+  const [adjustments, setAdjustments] = useState<Record<string, number>>({});
+  // Receipt items and charges (major units) for "itemized" splits
+  const [items, setItems] = useState<ItemDraft[]>([]);
+  const [charges, setCharges] = useState<ItemCharges>(emptyCharges);
+  const [receipt, setReceipt] = useState<File | null>(null);
   const [selectedPayer, setSelectedPayer] = useState<User | null>(null);
   const [participants, setParticipants] = useState<User[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
@@ -48,6 +78,11 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
     if (isOpen && user) {
       // Initialize payer to current user
       setSelectedPayer(user);
+      setFormData((prev) => ({
+        ...prev,
+        currency: baseCurrency,
+        exchangeRate: "",
+      }));
 
       // Initialize participants based on group or empty for non-group expenses
       if (group) {
@@ -64,12 +99,27 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
         setParticipants([]);
         setCustomSplits({});
       }
+      setShares({});
+      setAdjustments({});
+      setItems([]);
+      setCharges(emptyCharges);
+      setReceipt(null);
 
       // Load all users for search
       loadAllUsers();
     }
   }, [isOpen, group, user]);
 
+  // Itemized expenses total up their receipt
+  useEffect(() => {
+    if (formData.splitType !== "itemized") return;
+    const total = itemizedTotal(items, charges, formData.currency);
+    setFormData((prev) => ({
+      ...prev,
+      amount: total > 0 ? toMajorUnits(total, prev.currency).toString() : "",
+    }));
+  }, [formData.splitType, formData.currency, items, charges]);
+
   // Ensure payer is included in participants when payer changes
   useEffect(() => {
     if (
@@ -164,7 +214,9 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
       return;
     }
 
-    const amount = parseFloat(formData.amount);
+    // The form works in major units; the API expects minor units
+    const toMinor = (value: number) => toMinorUnits(value, formData.currency);
+    const amount = toMinor(parseFloat(formData.amount));
     if (isNaN(amount) || amount <= 0) {
       toast.error("Please enter a valid amount");
       return;
@@ -182,10 +234,10 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
 
     if (formData.splitType === "custom") {
       const totalCustomAmount = Object.values(customSplits).reduce(
-        (sum, split) => sum + split,
+        (sum, split) => sum + toMinor(split),
         0
       );
-      if (Math.abs(totalCustomAmount - amount) > 0.01) {
+      if (totalCustomAmount !== amount) {
         toast.error("Custom split amounts must equal the total expense amount");
         return;
       }
@@ -202,23 +254,67 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
         date: formData.date,
         notes: formData.notes,
         splitType: formData.splitType,
+        currency: formData.currency,
+        ...(formData.currency !== baseCurrency &&
+          parseFloat(formData.exchangeRate) > 0 && {
+            exchangeRate: parseFloat(formData.exchangeRate),
+          }),
         participants: group ? undefined : participants.map((p) => p._id),
         paidByMultiple: selectedPayer
           ? [{ user: selectedPayer._id, amount }]
           : undefined,
         ...(formData.splitType === "custom" && {
           customSplits: Object.entries(customSplits).map(
-            ([userId, amount]) => ({ userId, amount })
+            ([userId, amount]) => ({ userId, amount: toMinor(amount) })
           ),
         }),
+        ...(formData.splitType === "shares" && {
+          // A share of zero leaves someone out of the split
+          customSplits: participants
+            .map((participant) => ({
+              userId: participant._id,
+              shares: shares[participant._id] ?? 1,
+            }))
+            .filter((split) => split.shares > 0),
+        }),
+        ...(formData.splitType === "adjustment" && {
+          customSplits: participants.map((participant) => ({
+            userId: participant._id,
+            adjustment: toMinor(adjustments[participant._id] || 0),
+          })),
+        }),
+        ...(formData.splitType === "itemized" && {
+          items: items.map((item) => ({
+            ...item,
+            price: toMinor(item.price),
+          })),
+          tax: toMinor(charges.tax),
+          serviceCharge: toMinor(charges.serviceCharge),
+          tip: toMinor(charges.tip),
+        }),
       };
 
       // Debug: Log the expense data being sent
       console.log("Expense data being sent:", expenseData);
 
-      await expensesApi.createExpense(expenseData);
+      const { expense, budgetAlerts } = await expensesApi.createExpense(
+        expenseData
+      );
+
+      // The receipt can only be attached once the expense exists
+      if (receipt) {
+        try {
+          await expensesApi.uploadReceipt(expense._id, receipt);
+        } catch (error: any) {
+          toast.error(
+            error.response?.data?.message ||
+              "Expense saved, but the receipt could not be uploaded"
+          );
+        }
+      }
 
       toast.success("Expense added successfully!");
+      notifyBudgetAlerts(budgetAlerts);
       onExpenseAdded();
       onClose();
 
@@ -226,7 +322,9 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
       setFormData({
         description: "",
         amount: "",
-        category: "other",
+        currency: baseCurrency,
+        exchangeRate: "",
+        category: "",
         date: new Date().toISOString().slice(0, 16),
         notes: "",
         splitType: "equal",
@@ -234,6 +332,11 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
       setSelectedPayer(null);
       setParticipants([]);
       setCustomSplits({});
+      setShares({});
+      setAdjustments({});
+      setItems([]);
+      setCharges(emptyCharges);
+      setReceipt(null);
     } catch (error: any) {
       toast.error(error.response?.data?.message || "Failed to add expense");
     } finally {
@@ -241,15 +344,6 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
     }
   };
 
-  const categories = [
-    { value: "food", label: "Food & Dining" },
-    { value: "transport", label: "Transportation" },
-    { value: "entertainment", label: "Entertainment" },
-    { value: "shopping", label: "Shopping" },
-    { value: "bills", label: "Bills & Utilities" },
-    { value: "other", label: "Other" },
-  ];
-
   // Removed multiple payer calculations
 
   return (
@@ -275,14 +369,14 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
           />
         </div>
 
-        {/* Amount and Category */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {/* Amount, Currency and Category */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <div>
             <label
               htmlFor="amount"
               className="block text-sm font-medium text-gray-700 mb-2"
             >
-              Amount (LKR) *
+              Amount ({formData.currency}) *
             </label>
             <input
               type="number"
@@ -294,32 +388,60 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
               min="0"
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               placeholder="0.00"
+              readOnly={formData.splitType === "itemized"}
               required
             />
           </div>
           <div>
             <label
-              htmlFor="category"
+              htmlFor="currency"
               className="block text-sm font-medium text-gray-700 mb-2"
             >
-              Category
+              Currency
             </label>
             <select
-              id="category"
-              name="category"
-              value={formData.category}
+              id="currency"
+              name="currency"
+              value={formData.currency}
               onChange={handleInputChange}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
-              {categories.map((category) => (
-                <option key={category.value} value={category.value}>
-                  {category.label}
+              {CURRENCIES.map((currency) => (
+                <option key={currency.value} value={currency.value}>
+                  {currency.value}
                 </option>
               ))}
             </select>
           </div>
+          <div>
+            <label
+              htmlFor="category"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Category
+            </label>
+            <CategorySelect
+              id="category"
+              groupId={group?._id}
+              value={formData.category}
+              onChange={(category) =>
+                setFormData((prev) => ({ ...prev, category }))
+              }
+            />
+          </div>
         </div>
 
+        <ExchangeRateField
+          currency={formData.currency}
+          baseCurrency={baseCurrency}
+          date={formData.date}
+          amount={parseFloat(formData.amount) || 0}
+          manualRate={formData.exchangeRate}
+          onManualRateChange={(exchangeRate) =>
+            setFormData((prev) => ({ ...prev, exchangeRate }))
+          }
+        />
+
         {/* Date */}
         <div>
           <label
@@ -478,10 +600,52 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
             <option value="equal">Split equally</option>
+            <option value="shares">By shares</option>
+            <option value="adjustment">Equally, with adjustments</option>
+            <option value="itemized">Itemized receipt</option>
             <option value="custom">Custom amounts</option>
           </select>
         </div>
 
+        {/* Share Splits */}
+        {formData.splitType === "shares" && (
+          <ShareSplitInputs
+            participants={participants}
+            shares={shares}
+            onSharesChange={setShares}
+            amount={
+              toMinorUnits(parseFloat(formData.amount), formData.currency) || 0
+            }
+            currency={formData.currency}
+          />
+        )}
+
+        {/* Adjustment Splits */}
+        {formData.splitType === "adjustment" && (
+          <AdjustmentSplitInputs
+            participants={participants}
+            adjustments={adjustments}
+            onAdjustmentsChange={setAdjustments}
+            amount={
+              toMinorUnits(parseFloat(formData.amount), formData.currency) || 0
+            }
+            currency={formData.currency}
+            payerId={selectedPayer?._id}
+          />
+        )}
+
+        {/* Itemized Receipt */}
+        {formData.splitType === "itemized" && (
+          <ItemizedSplitEditor
+            participants={participants}
+            items={items}
+            onItemsChange={setItems}
+            charges={charges}
+            onChargesChange={setCharges}
+            currency={formData.currency}
+          />
+        )}
+
         {/* Custom Splits */}
         {formData.splitType === "custom" && (
           <div>
@@ -517,14 +681,22 @@ const AddExpenseModal: React.FC<AddExpenseModalProps> = ({
               ))}
             </div>
             <div className="text-xs text-gray-500 mt-1">
-              Total: LKR{" "}
-              {Object.values(customSplits)
-                .reduce((sum, amount) => sum + amount, 0)
-                .toFixed(2)}
+              Total:{" "}
+              {formatCurrency(
+                Object.values(customSplits).reduce(
+                  (sum, amount) =>
+                    sum + toMinorUnits(amount, formData.currency),
+                  0
+                ),
+                formData.currency
+              )}
             </div>
           </div>
         )}
 
+        {/* Receipt */}
+        <ReceiptViewer pendingFile={receipt} onPendingFileChange={setReceipt} />
+
         {/* Notes */}
         <div>
           <label
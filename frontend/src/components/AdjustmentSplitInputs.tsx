@@ -0,0 +1,99 @@
+import React from "react";
+import { User } from "../types";
+import { formatCurrency, splitEvenly, toMinorUnits } from "../utils/currency";
+
+interface AdjustmentSplitInputsProps {
+  participants: User[];
+  // Adjustments in major units of `currency`, as typed
+  adjustments: Record<string, number>;
+  onAdjustmentsChange: (adjustments: Record<string, number>) => void;
+  // Expense total in minor units of `currency`, for the preview
+  amount: number;
+  currency: string;
+  payerId?: string;
+}
+
+// Per-person adjustments on top of an equal split (e.g. +15 for someone's
+// extra drink), with a live preview of each person's resulting share
+const AdjustmentSplitInputs: React.FC<AdjustmentSplitInputsProps> = ({
+  participants,
+  adjustments,
+  onAdjustmentsChange,
+  amount,
+  currency,
+  payerId,
+}) => {
+  const minorAdjustments = participants.map((participant) =>
+    toMinorUnits(adjustments[participant._id] || 0, currency)
+  );
+  const remainder =
+    amount - minorAdjustments.reduce((sum, adjustment) => sum + adjustment, 0);
+  const equalParts = splitEvenly(
+    Math.max(remainder, 0),
+    participants.length,
+    participants.findIndex((participant) => participant._id === payerId)
+  );
+  const preview = equalParts.map(
+    (part, index) => part + minorAdjustments[index]
+  );
+  const invalid = remainder < 0 || preview.some((share) => share < 0);
+
+  return (
+    <div>
+      <label
+        htmlFor="adjustment-splits"
+        className="block text-sm font-medium text-gray-700 mb-2"
+      >
+        Adjustments
+      </label>
+      <div
+        id="adjustment-splits"
+        className="space-y-2 max-h-40 overflow-y-auto"
+      >
+        {participants.map((participant, index) => (
+          <div
+            key={participant._id}
+            className="flex items-center justify-between"
+          >
+            <span className="text-sm text-gray-700">
+              {participant.firstName} {participant.lastName}
+            </span>
+            <div className="flex items-center space-x-2">
+              {amount > 0 && !invalid && (
+                <span className="text-xs text-gray-500">
+                  {formatCurrency(preview[index], currency)}
+                </span>
+              )}
+              <input
+                type="number"
+                value={adjustments[participant._id] || 0}
+                onChange={(e) =>
+                  onAdjustmentsChange({
+                    ...adjustments,
+                    [participant._id]: parseFloat(e.target.value) || 0,
+                  })
+                }
+                step="0.01"
+                className="w-24 px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="text-xs text-gray-500 mt-1">
+        {invalid ? (
+          <span className="text-red-600">
+            Adjustments leave someone with a negative share
+          </span>
+        ) : (
+          <span>
+            {formatCurrency(remainder, currency)} split equally after
+            adjustments
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdjustmentSplitInputs;
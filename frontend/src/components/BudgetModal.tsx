@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from "react";
+import Modal from "./Modal";
+import { budgetsApi, categoriesApi } from "../services/api";
+import { Budget, BudgetRollover, Category, Group } from "../types";
+import {
+  categoryLabel,
+  categoryOptionLabel,
+  nestCategories,
+} from "../utils/categories";
+import { toMajorUnits, toMinorUnits } from "../utils/currency";
+import toast from "react-hot-toast";
+
+interface BudgetModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  group: Group;
+  // Budget to edit; a new one is created when unset
+  budget?: Budget;
+  onSaved: () => void;
+}
+
+const ROLLOVER_OPTIONS: { value: BudgetRollover; label: string }[] = [
+  { value: "none", label: "Start fresh every month" },
+  { value: "unspent", label: "Carry unspent money forward" },
+  { value: "full", label: "Carry unspent money and overspending forward" },
+];
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+// Create or edit a monthly budget for a group or one of its categories
+const BudgetModal: React.FC<BudgetModalProps> = ({
+  isOpen,
+  onClose,
+  group,
+  budget,
+  onSaved,
+}) => {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [category, setCategory] = useState("");
+  const [amount, setAmount] = useState("");
+  const [rollover, setRollover] = useState<BudgetRollover>("none");
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setCategory(budget?.category?._id || "");
+    setAmount(
+      budget ? String(toMajorUnits(budget.amount, group.currency)) : ""
+    );
+    setRollover(budget?.rollover || "none");
+    if (!budget) {
+      categoriesApi
+        .getGroupCategories(group._id)
+        .then(setCategories)
+        .catch(() => setCategories([]));
+    }
+  }, [isOpen, budget, group._id, group.currency]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const minorAmount = toMinorUnits(parseFloat(amount) || 0, group.currency);
+    if (minorAmount <= 0) {
+      toast.error("Please enter a valid amount");
+      return;
+    }
+
+    try {
+      setLoading(true);
+      if (budget) {
+        await budgetsApi.updateBudget(group._id, budget._id, {
+          amount: minorAmount,
+          rollover,
+        });
+        toast.success("Budget updated");
+      } else {
+        await budgetsApi.createBudget(group._id, {
+          category: category || null,
+          amount: minorAmount,
+          rollover,
+        });
+        toast.success("Budget created");
+      }
+      onSaved();
+      onClose();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to save budget");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={budget ? "Edit Budget" : "New Budget"}
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label
+            htmlFor="budget-category"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            Applies to
+          </label>
+          {budget ? (
+            <p className="text-gray-900">
+              {budget.category
+                ? categoryLabel(budget.category)
+                : "All group spending"}
+            </p>
+          ) : (
+            <select
+              id="budget-category"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">All group spending</option>
+              {nestCategories(categories).map(({ category, depth }) => (
+                <option key={category._id} value={category._id}>
+                  {categoryOptionLabel(category, depth)}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        <div>
+          <label
+            htmlFor="budget-amount"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            Monthly amount ({group.currency}) *
+          </label>
+          <input
+            type="number"
+            id="budget-amount"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            step="0.01"
+            min="0"
+            className={inputClass}
+            required
+          />
+        </div>
+
+        <div>
+          <label
+            htmlFor="budget-rollover"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            At the end of the month
+          </label>
+          <select
+            id="budget-rollover"
+            value={rollover}
+            onChange={(e) => setRollover(e.target.value as BudgetRollover)}
+            className={inputClass}
+          >
+            {ROLLOVER_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-end space-x-3 pt-4">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={loading}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {loading ? "Saving..." : "Save Budget"}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default BudgetModal;
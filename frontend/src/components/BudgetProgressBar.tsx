@@ -0,0 +1,70 @@
+import React from "react";
+import { Budget, BudgetAlert } from "../types";
+import { categoryLabel } from "../utils/categories";
+import { formatCurrency } from "../utils/currency";
+import toast from "react-hot-toast";
+
+interface BudgetProgressBarProps {
+  budget: Budget;
+  currency: string;
+}
+
+const BAR_COLORS: Record<Budget["status"], string> = {
+  ok: "bg-green-500",
+  warning: "bg-yellow-500",
+  exceeded: "bg-red-500",
+};
+
+const budgetName = (category: Budget["category"]) =>
+  category ? categoryLabel(category) : "Overall";
+
+// Toast the budgets an expense just pushed past 80% or 100%
+export const notifyBudgetAlerts = (alerts: BudgetAlert[] = []) => {
+  alerts.forEach((alert) => {
+    const name = budgetName(alert.category);
+    if (alert.threshold >= 100) {
+      toast.error(`${name} budget exceeded (${alert.percent}% used)`);
+    } else {
+      toast(`${name} budget is ${alert.percent}% used`, { icon: "⚠️" });
+    }
+  });
+};
+
+// This month's spending against one budget
+const BudgetProgressBar: React.FC<BudgetProgressBarProps> = ({
+  budget,
+  currency,
+}) => (
+  <div>
+    <div className="flex justify-between text-sm mb-1">
+      <span className="font-medium text-gray-900">
+        {budgetName(budget.category)}
+      </span>
+      <span
+        className={
+          budget.status === "exceeded" ? "text-red-600" : "text-gray-600"
+        }
+      >
+        {formatCurrency(budget.spent, currency)} of{" "}
+        {formatCurrency(budget.limit, currency)}
+      </span>
+    </div>
+    <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+      <div
+        className={`h-2 rounded-full ${BAR_COLORS[budget.status]}`}
+        style={{ width: `${Math.min(budget.percent, 100)}%` }}
+      ></div>
+    </div>
+    <div className="flex justify-between text-xs text-gray-500 mt-1">
+      <span>{budget.percent}% used</span>
+      {budget.carried !== 0 && (
+        <span>
+          {budget.carried > 0 ? "+" : "−"}
+          {formatCurrency(Math.abs(budget.carried), currency)} rolled over
+        </span>
+      )}
+    </div>
+  </div>
+);
+
+export default BudgetProgressBar;
@@ -0,0 +1,116 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { Edit, Plus, Trash2 } from "lucide-react";
+import BudgetModal from "./BudgetModal";
+import BudgetProgressBar from "./BudgetProgressBar";
+import { budgetsApi } from "../services/api";
+import { Budget, Group } from "../types";
+import toast from "react-hot-toast";
+
+interface BudgetsPanelProps {
+  group: Group;
+  // Only admins can add, edit and delete budgets
+  isAdmin: boolean;
+  // Changes whenever the group's expenses are reloaded, to reload progress
+  refreshKey?: unknown;
+}
+
+// This month's budgets for a group, as progress bars
+const BudgetsPanel: React.FC<BudgetsPanelProps> = ({
+  group,
+  isAdmin,
+  refreshKey,
+}) => {
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [showModal, setShowModal] = useState(false);
+  const [editing, setEditing] = useState<Budget | undefined>();
+
+  const loadBudgets = useCallback(async () => {
+    try {
+      setBudgets(await budgetsApi.getGroupBudgets(group._id));
+    } catch (error) {
+      console.error("Error loading budgets:", error);
+    }
+  }, [group._id]);
+
+  useEffect(() => {
+    loadBudgets();
+  }, [loadBudgets, refreshKey]);
+
+  const openModal = (budget?: Budget) => {
+    setEditing(budget);
+    setShowModal(true);
+  };
+
+  const handleDelete = async (budget: Budget) => {
+    if (!window.confirm("Delete this budget?")) return;
+
+    try {
+      await budgetsApi.deleteBudget(group._id, budget._id);
+      toast.success("Budget deleted");
+      loadBudgets();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to delete budget");
+    }
+  };
+
+  if (budgets.length === 0 && !isAdmin) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Budgets</h2>
+        {isAdmin && (
+          <button
+            onClick={() => openModal()}
+            className="text-blue-600 hover:text-blue-700"
+            title="Add budget"
+          >
+            <Plus className="h-5 w-5" />
+          </button>
+        )}
+      </div>
+
+      {budgets.length > 0 ? (
+        <div className="space-y-4">
+          {budgets.map((budget) => (
+            <div key={budget._id}>
+              <BudgetProgressBar budget={budget} currency={group.currency} />
+              {isAdmin && (
+                <div className="flex justify-end space-x-2 mt-1">
+                  <button
+                    onClick={() => openModal(budget)}
+                    className="text-gray-400 hover:text-blue-600"
+                    title="Edit budget"
+                  >
+                    <Edit className="h-3 w-3" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(budget)}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Delete budget"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">
+          No budgets yet. Set a monthly limit for the group or a category.
+        </p>
+      )}
+
+      <BudgetModal
+        isOpen={showModal}
+        onClose={() => setShowModal(false)}
+        group={group}
+        budget={editing}
+        onSaved={loadBudgets}
+      />
+    </div>
+  );
+};
+
+export default BudgetsPanel;
@@ -0,0 +1,253 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { Edit, Trash2 } from "lucide-react";
+import Modal from "./Modal";
+import { categoriesApi } from "../services/api";
+import { Category, CategoryInput, Group } from "../types";
+import { FALLBACK_CATEGORY_KEY, nestCategories } from "../utils/categories";
+import toast from "react-hot-toast";
+
+interface CategoriesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  group: Group;
+  // Only admins can add, edit and delete categories
+  isAdmin: boolean;
+  // Called after categories change, as expenses may have been moved
+  onChanged?: () => void;
+}
+
+const emptyForm: Required<CategoryInput> = {
+  name: "",
+  icon: "🏷️",
+  color: "#3b82f6",
+  parent: null,
+};
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+// A group's categories, with add/edit/delete for admins
+const CategoriesModal: React.FC<CategoriesModalProps> = ({
+  isOpen,
+  onClose,
+  group,
+  isAdmin,
+  onChanged,
+}) => {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(false);
+  // Id of the category being edited, "new" for the add form
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const loadCategories = useCallback(async () => {
+    try {
+      setLoading(true);
+      setCategories(await categoriesApi.getGroupCategories(group._id));
+    } catch (error) {
+      toast.error("Failed to load categories");
+    } finally {
+      setLoading(false);
+    }
+  }, [group._id]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadCategories();
+      setEditingId(null);
+    }
+  }, [isOpen, loadCategories]);
+
+  const startEditing = (category?: Category) => {
+    setEditingId(category ? category._id : "new");
+    setForm(
+      category
+        ? {
+            name: category.name,
+            icon: category.icon,
+            color: category.color,
+            parent: category.parent,
+          }
+        : emptyForm
+    );
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) return;
+
+    try {
+      setSaving(true);
+      if (editingId === "new") {
+        await categoriesApi.createCategory(group._id, form);
+        toast.success("Category added");
+      } else if (editingId) {
+        await categoriesApi.updateCategory(group._id, editingId, form);
+        toast.success("Category updated");
+      }
+      setEditingId(null);
+      await loadCategories();
+      onChanged?.();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to save category");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    if (
+      !window.confirm(
+        `Delete "${category.name}"? Its expenses move to ` +
+          (category.parent ? "its parent category." : "the default category.")
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await categoriesApi.deleteCategory(group._id, category._id);
+      toast.success("Category deleted");
+      await loadCategories();
+      onChanged?.();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to delete category");
+    }
+  };
+
+  // A category with subcategories stays top-level
+  const parentOptions = categories.filter(
+    (category) =>
+      !category.parent &&
+      category._id !== editingId &&
+      !categories.some((child) => child.parent === editingId)
+  );
+
+  const renderForm = () => (
+    <form onSubmit={handleSave} className="p-3 bg-gray-50 rounded-lg space-y-3">
+      <div className="grid grid-cols-6 gap-2">
+        <input
+          type="text"
+          value={form.icon}
+          onChange={(e) => setForm({ ...form, icon: e.target.value })}
+          maxLength={8}
+          className={`${inputClass} col-span-1 text-center`}
+          title="Icon"
+        />
+        <input
+          type="text"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          maxLength={50}
+          placeholder="Category name"
+          className={`${inputClass} col-span-4`}
+          required
+        />
+        <input
+          type="color"
+          value={form.color}
+          onChange={(e) => setForm({ ...form, color: e.target.value })}
+          className="col-span-1 h-10 w-full border border-gray-300 rounded-lg"
+          title="Color"
+        />
+      </div>
+      <select
+        value={form.parent || ""}
+        onChange={(e) => setForm({ ...form, parent: e.target.value || null })}
+        className={inputClass}
+      >
+        <option value="">No parent (top-level)</option>
+        {parentOptions.map((category) => (
+          <option key={category._id} value={category._id}>
+            Under {category.icon} {category.name}
+          </option>
+        ))}
+      </select>
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={() => setEditingId(null)}
+          className="px-3 py-1 text-sm text-gray-700 bg-gray-100 rounded hover:bg-gray-200"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving || !form.name.trim()}
+          className="px-3 py-1 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </form>
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Categories" size="lg">
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : (
+        <div className="space-y-2">
+          {nestCategories(categories).map(({ category, depth }) =>
+            editingId === category._id ? (
+              <div key={category._id}>{renderForm()}</div>
+            ) : (
+              <div
+                key={category._id}
+                className={`flex items-center justify-between p-3 bg-gray-50 rounded-lg ${
+                  depth > 0 ? "ml-8" : ""
+                }`}
+              >
+                <div className="flex items-center space-x-3">
+                  <span
+                    className="w-3 h-3 rounded-full"
+                    style={{ backgroundColor: category.color }}
+                  ></span>
+                  <span className="text-lg">{category.icon}</span>
+                  <span className="font-medium text-gray-900">
+                    {category.name}
+                  </span>
+                </div>
+                {isAdmin && (
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => startEditing(category)}
+                      className="text-gray-400 hover:text-blue-600"
+                      title="Edit category"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    {category.key !== FALLBACK_CATEGORY_KEY && (
+                      <button
+                        onClick={() => handleDelete(category)}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Delete category"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          )}
+
+          {isAdmin &&
+            (editingId === "new" ? (
+              renderForm()
+            ) : (
+              <button
+                onClick={() => startEditing()}
+                className="w-full py-2 text-sm text-blue-600 border border-dashed border-blue-300 rounded-lg hover:bg-blue-50"
+              >
+                Add category
+              </button>
+            ))}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default CategoriesModal;
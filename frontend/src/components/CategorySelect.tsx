@@ -0,0 +1,69 @@
+import React, { useState, useEffect } from "react";
+import { categoriesApi } from "../services/api";
+import { Category } from "../types";
+import {
+  categoryOptionLabel,
+  fallbackCategory,
+  nestCategories,
+} from "../utils/categories";
+
+interface CategorySelectProps {
+  id: string;
+  // Group whose categories to offer; the shared ones when unset
+  groupId?: string | null;
+  // Category id
+  value: string;
+  onChange: (categoryId: string) => void;
+}
+
+// Category picker loading a group's categories. An empty or unknown value
+// is replaced with the fallback category once they have loaded.
+const CategorySelect: React.FC<CategorySelectProps> = ({
+  id,
+  groupId,
+  value,
+  onChange,
+}) => {
+  const [categories, setCategories] = useState<Category[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    (groupId
+      ? categoriesApi.getGroupCategories(groupId)
+      : categoriesApi.getSharedCategories()
+    )
+      .then((loaded) => {
+        if (!cancelled) setCategories(loaded);
+      })
+      .catch(() => {
+        if (!cancelled) setCategories([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [groupId]);
+
+  useEffect(() => {
+    if (categories.length === 0) return;
+    if (categories.some((category) => category._id === value)) return;
+    const fallback = fallbackCategory(categories);
+    if (fallback) onChange(fallback._id);
+  }, [categories, value]);
+
+  return (
+    <select
+      id={id}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+    >
+      {nestCategories(categories).map(({ category, depth }) => (
+        <option key={category._id} value={category._id}>
+          {categoryOptionLabel(category, depth)}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default CategorySelect;
@@ -0,0 +1,106 @@
+import React, { useState } from "react";
+import Modal from "./Modal";
+import { groupsApi } from "../services/api";
+import { Group, User } from "../types";
+import toast from "react-hot-toast";
+
+interface ClaimGuestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  group: Group;
+  guest: User | null;
+  onClaimed: () => void;
+}
+
+// Merge a guest into a member with an account, moving over everything the
+// guest paid or owes in the group
+const ClaimGuestModal: React.FC<ClaimGuestModalProps> = ({
+  isOpen,
+  onClose,
+  group,
+  guest,
+  onClaimed,
+}) => {
+  const [userId, setUserId] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  // Only people who have signed up can take over a guest's place
+  const candidates = group.members
+    .map((member) => member.user)
+    .filter((member) => (member.status || "active") === "active");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!guest || !userId) {
+      toast.error("Please choose a member");
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const result = await groupsApi.claimGuest(group._id, guest._id, userId);
+      toast.success(result.message);
+      onClaimed();
+      onClose();
+      setUserId("");
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to claim guest");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Claim Guest" size="md">
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div>
+          <label
+            htmlFor="claim-user"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            Who is {guest?.firstName}?
+          </label>
+          <select
+            id="claim-user"
+            value={userId}
+            onChange={(e) => setUserId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            required
+          >
+            <option value="">Choose a member</option>
+            {candidates.map((member) => (
+              <option key={member._id} value={member._id}>
+                {member.firstName} {member.lastName}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">
+            Their expenses, splits and settlements in this group move to the
+            member you choose, and the guest is removed. This can't be undone.
+          </p>
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            disabled={loading}
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={loading}
+          >
+            {loading ? "Merging..." : "Merge"}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default ClaimGuestModal;
@@ -0,0 +1,265 @@
+import React, { useState, useEffect } from "react";
+import { Edit, Send, Trash2 } from "lucide-react";
+import { expensesApi } from "../services/api";
+import { ExpenseComment, User } from "../types";
+import { useAuth } from "../contexts/AuthContext";
+import toast from "react-hot-toast";
+
+interface CommentThreadProps {
+  expenseId: string;
+  // People who can be @mentioned
+  members: User[];
+  // Group admins can remove anyone's comment
+  isAdmin?: boolean;
+  onCountChange?: (count: number) => void;
+}
+
+const MENTION_PATTERN = /(@[\w.-]+)/g;
+// An @mention being typed at the end of the draft
+const PARTIAL_MENTION = /@([\w.-]*)$/;
+
+// Comment body with @mentions of known users highlighted
+const renderBody = (comment: ExpenseComment) => {
+  const mentioned = comment.mentions.map((user) =>
+    user.username.toLowerCase()
+  );
+  return comment.body.split(MENTION_PATTERN).map((part, index) =>
+    part.startsWith("@") && mentioned.includes(part.slice(1).toLowerCase()) ? (
+      <span key={index} className="font-medium text-blue-600">
+        {part}
+      </span>
+    ) : (
+      <React.Fragment key={index}>{part}</React.Fragment>
+    )
+  );
+};
+
+// Discussion thread for one expense, with @mention suggestions
+const CommentThread: React.FC<CommentThreadProps> = ({
+  expenseId,
+  members,
+  isAdmin = false,
+  onCountChange,
+}) => {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<ExpenseComment[]>([]);
+  const [editWindowMinutes, setEditWindowMinutes] = useState(15);
+  const [draft, setDraft] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState("");
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    expensesApi
+      .getComments(expenseId)
+      .then((result) => {
+        if (cancelled) return;
+        setComments(result.comments);
+        setEditWindowMinutes(result.editWindowMinutes);
+      })
+      .catch(() => {
+        if (!cancelled) toast.error("Failed to load comments");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [expenseId]);
+
+  const updateComments = (updated: ExpenseComment[]) => {
+    setComments(updated);
+    onCountChange?.(updated.length);
+  };
+
+  const partialMention = draft.match(PARTIAL_MENTION)?.[1];
+  const suggestions =
+    partialMention !== undefined
+      ? members
+          .filter((member) =>
+            member.username
+              .toLowerCase()
+              .startsWith(partialMention.toLowerCase())
+          )
+          .slice(0, 5)
+      : [];
+
+  const insertMention = (member: User) => {
+    setDraft(draft.replace(PARTIAL_MENTION, `@${member.username} `));
+  };
+
+  const canEdit = (comment: ExpenseComment) =>
+    comment.author._id === user?._id &&
+    Date.now() - new Date(comment.createdAt).getTime() <=
+      editWindowMinutes * 60 * 1000;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+
+    try {
+      setSending(true);
+      const comment = await expensesApi.addComment(expenseId, draft);
+      updateComments([...comments, comment]);
+      setDraft("");
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to add comment");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleSaveEdit = async (commentId: string) => {
+    try {
+      const updated = await expensesApi.updateComment(
+        expenseId,
+        commentId,
+        editDraft
+      );
+      updateComments(
+        comments.map((comment) =>
+          comment._id === commentId ? updated : comment
+        )
+      );
+      setEditingId(null);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to edit comment");
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    if (!window.confirm("Delete this comment?")) return;
+
+    try {
+      await expensesApi.deleteComment(expenseId, commentId);
+      updateComments(comments.filter((comment) => comment._id !== commentId));
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to delete comment");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {comments.length > 0 ? (
+        <div className="space-y-3">
+          {comments.map((comment) => (
+            <div key={comment._id} className="p-3 bg-gray-50 rounded-lg">
+              <div className="flex items-start justify-between">
+                <div className="text-xs text-gray-500">
+                  <span className="font-medium text-gray-900">
+                    {comment.author.firstName} {comment.author.lastName}
+                  </span>{" "}
+                  • {new Date(comment.createdAt).toLocaleString()}
+                  {comment.editedAt && " (edited)"}
+                </div>
+                <div className="flex space-x-2">
+                  {canEdit(comment) && editingId !== comment._id && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setEditingId(comment._id);
+                        setEditDraft(comment.body);
+                      }}
+                      className="text-gray-400 hover:text-gray-600"
+                      title="Edit"
+                    >
+                      <Edit className="h-3 w-3" />
+                    </button>
+                  )}
+                  {(comment.author._id === user?._id || isAdmin) && (
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(comment._id)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Delete"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              {editingId === comment._id ? (
+                <div className="mt-2 space-y-2">
+                  <textarea
+                    value={editDraft}
+                    onChange={(e) => setEditDraft(e.target.value)}
+                    rows={2}
+                    maxLength={2000}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <div className="flex justify-end space-x-2">
+                    <button
+                      type="button"
+                      onClick={() => setEditingId(null)}
+                      className="px-3 py-1 text-xs text-gray-700 bg-gray-100 rounded hover:bg-gray-200"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleSaveEdit(comment._id)}
+                      className="px-3 py-1 text-xs text-white bg-blue-600 rounded hover:bg-blue-700"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <p className="mt-1 text-sm text-gray-800 whitespace-pre-wrap">
+                  {renderBody(comment)}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">
+          No comments yet. Questions about this expense can go here.
+        </p>
+      )}
+
+      {/* Composer */}
+      <form onSubmit={handleSubmit} className="relative">
+        <div className="flex items-end space-x-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+                handleSubmit(e);
+              }
+            }}
+            rows={2}
+            maxLength={2000}
+            placeholder="Add a comment… use @ to mention someone"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            disabled={sending || !draft.trim()}
+            className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Send"
+          >
+            <Send className="h-4 w-4" />
+          </button>
+        </div>
+        {suggestions.length > 0 && (
+          <div className="absolute left-0 bottom-full mb-1 w-56 bg-white border border-gray-200 rounded-lg shadow-lg z-10">
+            {suggestions.map((member) => (
+              <button
+                key={member._id}
+                type="button"
+                onClick={() => insertMention(member)}
+                className="block w-full text-left px-3 py-2 text-sm hover:bg-gray-50"
+              >
+                {member.firstName} {member.lastName}{" "}
+                <span className="text-gray-500">@{member.username}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default CommentThread;
@@ -1,7 +1,29 @@
 import React, { useState, useEffect } from "react";
-import { X, DollarSign, Calendar, Tag, Plus, Trash2 } from "lucide-react";
+import { X, DollarSign, Calendar, Plus, Trash2 } from "lucide-react";
 import { expensesApi } from "../services/api";
-import { Expense, Group, User, PaidByMultiple } from "../types";
+import { useAuth } from "../contexts/AuthContext";
+import {
+  Expense,
+  Group,
+  User,
+  PaidByMultiple,
+  ReceiptFile,
+} from "../types";
+import ExchangeRateField from "./ExchangeRateField";
+import ShareSplitInputs from "./ShareSplitInputs";
+import AdjustmentSplitInputs from "./AdjustmentSplitInputs";
+import ReceiptViewer from "./ReceiptViewer";
+import ExpenseHistory from "./ExpenseHistory";
+import CommentThread from "./CommentThread";
+import CategorySelect from "./CategorySelect";
+import { notifyBudgetAlerts } from "./BudgetProgressBar";
+import {
+  CURRENCIES,
+  allocate,
+  formatOriginalAmount,
+  toMajorUnits,
+  toMinorUnits,
+} from "../utils/currency";
 
 import toast from "react-hot-toast";
 
@@ -20,11 +42,17 @@ const EditExpenseModal: React.FC<EditExpenseModalProps> = ({
   group,
   onExpenseUpdated,
 }) => {
+  const { user: currentUser } = useAuth();
   const [loading, setLoading] = useState(false);
+  const [activeTab, setActiveTab] = useState<
+    "details" | "comments" | "history"
+  >("details");
   const [formData, setFormData] = useState({
     description: "",
     amount: "",
-    category: "other",
+    currency: "",
+    exchangeRate: "",
+    category: "",
     date: "",
     notes: "",
     splitType: "equal",
@@ -34,6 +62,9 @@ const EditExpenseModal: React.FC<EditExpenseModalProps> = ({
   const [paidByMultiple, setPaidByMultiple] = useState<PaidByMultiple[]>([]);
   const [participants, setParticipants] = useState<User[]>([]);
   const [customSplits, setCustomSplits] = useState<Record<string, number>>({});
+  const [shares, setShares] = useState<Record<string, number>>({});
+  const [adjustments, setAdjustments] = useState<Record<string, number>>({});
+  const [receiptFile, setReceiptFile] = useState<ReceiptFile | undefined>();
 
   // User search states
   const [searchTerm, setSearchTerm] = useState("");
@@ -46,11 +77,28 @@ const EditExpenseModal: React.FC<EditExpenseModalProps> = ({
 
   useEffect(() => {
     if (isOpen && expense) {
+      setActiveTab("details");
+      // Foreign-currency expenses are edited in the currency they were paid
+      // in; amounts are shown in major units
+      const isForeign = formatOriginalAmount(expense) !== null;
+      const currency = isForeign
+        ? (expense.originalCurrency as string)
+        : expense.currency;
+      const originalTotal = isForeign
+        ? (expense.originalAmount as number)
+        : expense.amount;
+      const toOriginal = (amounts: number[]) =>
+        (isForeign ? allocate(originalTotal, amounts) : amounts).map(
+          (amount) => toMajorUnits(amount, currency)
+        );
+
       // Initialize form with expense data
       setFormData({
         description: expense.description,
-        amount: expense.amount.toString(),
-        category: expense.category,
+        amount: toMajorUnits(originalTotal, currency).toString(),
+        currency,
+        exchangeRate: "",
+        category: expense.category?._id || "",
         date: new Date(expense.date).toISOString().slice(0, 16),
         notes: expense.notes || "",
         splitType: expense.splitType,
@@ -58,10 +106,23 @@ const EditExpenseModal: React.FC<EditExpenseModalProps> = ({
 
       // Initialize paidByMultiple
       if (expense.paidByMultiple && expense.paidByMultiple.length > 0) {
-        setPaidByMultiple(expense.paidByMultiple);
+        const payerAmounts = toOriginal(
+          expense.paidByMultiple.map((payer) => payer.amount)
+        );
+        setPaidByMultiple(
+          expense.paidByMultiple.map((payer, index) => ({
+            ...payer,
+            amount: payerAmounts[index],
+          }))
+        );
       } else {
         // Single payer
-        setPaidByMultiple([{ user: expense.paidBy, amount: expense.amount }]);
+        setPaidByMultiple([
+          {
+            user: expense.paidBy,
+            amount: toMajorUnits(originalTotal, currency),
+          },
+        ]);
       }
 
       // Initialize participants
@@ -78,14 +139,43 @@ const EditExpenseModal: React.FC<EditExpenseModalProps> = ({
       // Initialize custom splits if needed
       if (expense.splitType === "custom" && expense.splits) {
         const splits: Record<string, number> = {};
-        expense.splits.forEach((split) => {
+        const splitAmounts = toOriginal(
+          expense.splits.map((split) => split.amount)
+        );
+        expense.splits.forEach((split, index) => {
           if (split.user && split.user._id) {
-            splits[split.user._id] = split.amount;
+            splits[split.user._id] = splitAmounts[index];
           }
         });
         setCustomSplits(splits);
       }
 
+      // Initialize share weights; anyone without one counts as one share
+      const initialShares: Record<string, number> = {};
+      if (expense.splitType === "shares" && expense.splits) {
+        expense.splits.forEach((split) => {
+          if (split.user && split.user._id && split.shares !== undefined) {
+            initialShares[split.user._id] = split.shares;
+          }
+        });
+      }
+      setShares(initialShares);
+
+      // Initialize adjustments, which are kept in the entered currency
+      const initialAdjustments: Record<string, number> = {};
+      if (expense.splitType === "adjustment" && expense.splits) {
+        expense.splits.forEach((split) => {
+          if (split.user && split.user._id && split.adjustment) {
+            initialAdjustments[split.user._id] = toMajorUnits(
+              split.adjustment,
+              currency
+            );
+          }
+        });
+      }
+      setAdjustments(initialAdjustments);
+      setReceiptFile(expense.receiptFile);
+
       loadAllUsers();
     }
   }, [isOpen, expense, group]);
@@ -162,7 +252,9 @@ const EditExpenseModal: React.FC<EditExpenseModalProps> = ({
     try {
       setLoading(true);
 
-      const amount = parseFloat(formData.amount);
+      // The form works in major units; the API expects minor units
+      const toMinor = (value: number) => toMinorUnits(value, formData.currency);
+      const amount = toMinor(parseFloat(formData.amount));
       if (isNaN(amount) || amount <= 0) {
         toast.error("Please enter a valid amount");
         return;
@@ -171,10 +263,10 @@ const EditExpenseModal: React.FC<EditExpenseModalProps> = ({
       // Validate paidByMultiple amounts if multiple payers
       if (paidByMultiple.length > 1) {
         const totalPaidAmount = paidByMultiple.reduce(
-          (sum, p) => sum + p.amount,
+          (sum, p) => sum + toMinor(p.amount),
           0
         );
-        if (Math.abs(totalPaidAmount - amount) > 0.01) {
+        if (totalPaidAmount !== amount) {
           toast.error("Total paid amounts must equal the expense amount");
           return;
         }
@@ -194,6 +286,11 @@ const EditExpenseModal: React.FC<EditExpenseModalProps> = ({
         date: formData.date,
         notes: formData.notes,
         splitType: formData.splitType,
+        currency: formData.currency,
+        ...(formData.currency !== expense.currency &&
+          parseFloat(formData.exchangeRate) > 0 && {
+            exchangeRate: parseFloat(formData.exchangeRate),
+          }),
         participants: group
           ? undefined
           : participants.filter((p) => p && p._id).map((p) => p._id),
@@ -203,18 +300,37 @@ const EditExpenseModal: React.FC<EditExpenseModalProps> = ({
                 .filter((p) => p && p.user)
                 .map((p) => ({
                   user: p.user._id,
-                  amount: p.amount,
+                  amount: toMinor(p.amount),
                 }))
             : undefined,
         ...(formData.splitType === "custom" && {
           customSplits: Object.entries(customSplits).map(
-            ([userId, amount]) => ({ userId, amount })
+            ([userId, amount]) => ({ userId, amount: toMinor(amount) })
           ),
         }),
+        ...(formData.splitType === "shares" && {
+          // A share of zero leaves someone out of the split
+          customSplits: participants
+            .filter((p) => p && p._id)
+            .map((p) => ({ userId: p._id, shares: shares[p._id] ?? 1 }))
+            .filter((split) => split.shares > 0),
+        }),
+        ...(formData.splitType === "adjustment" && {
+          customSplits: participants
+            .filter((p) => p && p._id)
+            .map((p) => ({
+              userId: p._id,
+              adjustment: toMinor(adjustments[p._id] || 0),
+            })),
+        }),
       };
 
-      await expensesApi.updateExpense(expense._id, expenseData);
+      const { budgetAlerts } = await expensesApi.updateExpense(
+        expense._id,
+        expenseData
+      );
       toast.success("Expense updated successfully");
+      notifyBudgetAlerts(budgetAlerts);
       onExpenseUpdated();
       onClose();
     } catch (error: any) {
@@ -227,6 +343,15 @@ const EditExpenseModal: React.FC<EditExpenseModalProps> = ({
 
   if (!isOpen || !expense) return null;
 
+  // Group members plus anyone else on the expense
+  const groupUsers = [
+    ...(group?.members.map((member) => member.user) || []),
+    ...participants.filter(
+      (participant) =>
+        !group?.members.some((member) => member.user._id === participant._id)
+    ),
+  ];
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -240,341 +365,478 @@ const EditExpenseModal: React.FC<EditExpenseModalProps> = ({
           </button>
         </div>
 
-        <form onSubmit={handleSubmit} className="p-6 space-y-6">
-          {/* Description */}
-          <div>
-            <label
-              htmlFor="description"
-              className="block text-sm font-medium text-gray-700 mb-2"
+        {/* Tabs */}
+        <div className="flex border-b px-6">
+          {(["details", "comments", "history"] as const).map((tab) => (
+            <button
+              key={tab}
+              type="button"
+              onClick={() => setActiveTab(tab)}
+              className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                activeTab === tab
+                  ? "border-blue-600 text-blue-600"
+                  : "border-transparent text-gray-500 hover:text-gray-700"
+              }`}
             >
-              Description
-            </label>
-            <input
-              type="text"
-              id="description"
-              value={formData.description}
-              onChange={(e) =>
-                setFormData({ ...formData, description: e.target.value })
-              }
-              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              required
+              {tab.charAt(0).toUpperCase() + tab.slice(1)}
+            </button>
+          ))}
+        </div>
+
+        {activeTab === "comments" ? (
+          <div className="p-6">
+            <CommentThread
+              expenseId={expense._id}
+              members={groupUsers}
+              isAdmin={group?.members.some(
+                (member) =>
+                  member.user._id === currentUser?._id &&
+                  member.role === "admin"
+              )}
             />
           </div>
-
-          {/* Amount */}
-          <div>
-            <label
-              htmlFor="amount"
-              className="block text-sm font-medium text-gray-700 mb-2"
-            >
-              Amount
-            </label>
-            <div className="relative">
-              <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+        ) : activeTab === "history" ? (
+          <div className="p-6">
+            <ExpenseHistory
+              expense={expense}
+              users={groupUsers}
+              onRestored={() => {
+                onExpenseUpdated();
+                onClose();
+              }}
+            />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-6 space-y-6">
+            {/* Description */}
+            <div>
+              <label
+                htmlFor="description"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Description
+              </label>
               <input
-                type="number"
-                id="amount"
-                step="0.01"
-                min="0"
-                value={formData.amount}
+                type="text"
+                id="description"
+                value={formData.description}
                 onChange={(e) =>
-                  setFormData({ ...formData, amount: e.target.value })
+                  setFormData({ ...formData, description: e.target.value })
                 }
-                className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 required
               />
             </div>
-          </div>
 
-          {/* Date */}
-          <div>
-            <label
-              htmlFor="date"
-              className="block text-sm font-medium text-gray-700 mb-2"
-            >
-              Date
-            </label>
-            <div className="relative">
-              <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-              <input
-                type="datetime-local"
-                id="date"
-                value={formData.date}
-                onChange={(e) =>
-                  setFormData({ ...formData, date: e.target.value })
-                }
-                className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                required
-              />
+            {/* Amount and Currency */}
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <label
+                  htmlFor="amount"
+                  className="block text-sm font-medium text-gray-700 mb-2"
+                >
+                  Amount ({formData.currency})
+                </label>
+                <div className="relative">
+                  <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                  <input
+                    type="number"
+                    id="amount"
+                    step="0.01"
+                    min="0"
+                    value={formData.amount}
+                    onChange={(e) =>
+                      setFormData({ ...formData, amount: e.target.value })
+                    }
+                    className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    readOnly={formData.splitType === "itemized"}
+                    required
+                  />
+                </div>
+                {formData.splitType === "itemized" && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Set by the receipt items ({expense?.items?.length || 0})
+                  </p>
+                )}
+              </div>
+              <div>
+                <label
+                  htmlFor="currency"
+                  className="block text-sm font-medium text-gray-700 mb-2"
+                >
+                  Currency
+                </label>
+                <select
+                  id="currency"
+                  value={formData.currency}
+                  onChange={(e) =>
+                    setFormData({ ...formData, currency: e.target.value })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {CURRENCIES.map((currency) => (
+                    <option key={currency.value} value={currency.value}>
+                      {currency.value}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
-          </div>
 
-          {/* Category */}
-          <div>
-            <label
-              htmlFor="category"
-              className="block text-sm font-medium text-gray-700 mb-2"
-            >
-              Category
-            </label>
-            <div className="relative">
-              <Tag className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
-              <select
-                id="category"
-                value={formData.category}
-                onChange={(e) =>
-                  setFormData({ ...formData, category: e.target.value })
-                }
-                className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            <ExchangeRateField
+              currency={formData.currency}
+              baseCurrency={expense.currency}
+              date={formData.date}
+              amount={parseFloat(formData.amount) || 0}
+              manualRate={formData.exchangeRate}
+              onManualRateChange={(exchangeRate) =>
+                setFormData({ ...formData, exchangeRate })
+              }
+            />
+            {formatOriginalAmount(expense) && (
+              <p className="text-xs text-gray-500 -mt-4">
+                Currently converted at {expense.exchangeRate}{" "}
+                {expense.currency} per {expense.originalCurrency}. The stored
+                rate is kept unless you change the currency or enter a new
+                rate.
+              </p>
+            )}
+
+            {/* Date */}
+            <div>
+              <label
+                htmlFor="date"
+                className="block text-sm font-medium text-gray-700 mb-2"
               >
-                <option value="food">🍽️ Food</option>
-                <option value="transport">🚗 Transport</option>
-                <option value="entertainment">🎬 Entertainment</option>
-                <option value="shopping">🛍️ Shopping</option>
-                <option value="bills">📄 Bills</option>
-                <option value="other">💰 Other</option>
-              </select>
+                Date
+              </label>
+              <div className="relative">
+                <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <input
+                  type="datetime-local"
+                  id="date"
+                  value={formData.date}
+                  onChange={(e) =>
+                    setFormData({ ...formData, date: e.target.value })
+                  }
+                  className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                />
+              </div>
             </div>
-          </div>
 
-          {/* Paid By */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Paid By
-            </label>
-            <div className="space-y-2">
-              {paidByMultiple
-                .filter((payer) => payer && payer.user)
-                .map((payer, index) => (
-                  <div
-                    key={`payer-${payer.user._id}-${index}`}
-                    className="flex items-center space-x-2"
-                  >
-                    <div className="flex-1 flex items-center space-x-2">
-                      <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
-                        <span className="text-blue-600 font-medium text-sm">
-                          {payer.user.firstName?.[0]}
-                          {payer.user.lastName?.[0]}
-                        </span>
-                      </div>
-                      <span className="text-sm text-gray-700">
-                        {payer.user.firstName} {payer.user.lastName}
-                      </span>
-                    </div>
-                    {paidByMultiple.length > 1 && (
-                      <div className="flex items-center space-x-2">
-                        <input
-                          type="number"
-                          step="0.01"
-                          min="0"
-                          value={payer.amount}
-                          onChange={(e) =>
-                            updatePaidByAmount(
-                              payer.user._id,
-                              parseFloat(e.target.value) || 0
-                            )
-                          }
-                          className="w-20 px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-transparent"
-                          placeholder="0.00"
-                        />
-                        <button
-                          type="button"
-                          onClick={() => removePaidByUser(payer.user._id)}
-                          className="text-red-500 hover:text-red-700 transition-colors"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </button>
-                      </div>
-                    )}
-                  </div>
-                ))}
-
-              <button
-                type="button"
-                onClick={() => {
-                  setSearchMode("payer");
-                  setShowUserSearch(true);
-                }}
-                className="flex items-center space-x-2 text-blue-600 hover:text-blue-700 text-sm"
+            {/* Category */}
+            <div>
+              <label
+                htmlFor="category"
+                className="block text-sm font-medium text-gray-700 mb-2"
               >
-                <Plus className="h-4 w-4" />
-                <span>Add Payer</span>
-              </button>
+                Category
+              </label>
+              <CategorySelect
+                id="category"
+                groupId={
+                  group?._id ||
+                  (typeof expense?.group === "string"
+                    ? expense.group
+                    : expense?.group?._id)
+                }
+                value={formData.category}
+                onChange={(category) =>
+                  setFormData((prev) => ({ ...prev, category }))
+                }
+              />
             </div>
-          </div>
 
-          {/* Participants (for non-group expenses) */}
-          {!group && (
+            {/* Paid By */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Participants
+                Paid By
               </label>
               <div className="space-y-2">
-                {participants
-                  .filter((participant) => participant && participant._id)
-                  .map((participant) => (
+                {paidByMultiple
+                  .filter((payer) => payer && payer.user)
+                  .map((payer, index) => (
                     <div
-                      key={participant._id}
-                      className="flex items-center justify-between"
+                      key={`payer-${payer.user._id}-${index}`}
+                      className="flex items-center space-x-2"
                     >
-                      <div className="flex items-center space-x-2">
-                        <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
-                          <span className="text-green-600 font-medium text-sm">
-                            {participant.firstName?.[0]}
-                            {participant.lastName?.[0]}
+                      <div className="flex-1 flex items-center space-x-2">
+                        <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
+                          <span className="text-blue-600 font-medium text-sm">
+                            {payer.user.firstName?.[0]}
+                            {payer.user.lastName?.[0]}
                           </span>
                         </div>
                         <span className="text-sm text-gray-700">
-                          {participant.firstName} {participant.lastName}
+                          {payer.user.firstName} {payer.user.lastName}
                         </span>
                       </div>
-                      <button
-                        type="button"
-                        onClick={() => removeParticipant(participant._id)}
-                        className="text-red-500 hover:text-red-700 transition-colors"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </button>
+                      {paidByMultiple.length > 1 && (
+                        <div className="flex items-center space-x-2">
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={payer.amount}
+                            onChange={(e) =>
+                              updatePaidByAmount(
+                                payer.user._id,
+                                parseFloat(e.target.value) || 0
+                              )
+                            }
+                            className="w-20 px-2 py-1 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-blue-500 focus:border-transparent"
+                            placeholder="0.00"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => removePaidByUser(payer.user._id)}
+                            className="text-red-500 hover:text-red-700 transition-colors"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      )}
                     </div>
                   ))}
 
                 <button
                   type="button"
                   onClick={() => {
-                    setSearchMode("participant");
+                    setSearchMode("payer");
                     setShowUserSearch(true);
                   }}
                   className="flex items-center space-x-2 text-blue-600 hover:text-blue-700 text-sm"
                 >
                   <Plus className="h-4 w-4" />
-                  <span>Add Participant</span>
+                  <span>Add Payer</span>
                 </button>
               </div>
             </div>
-          )}
 
-          {/* Split Type */}
-          <div>
-            <label
-              htmlFor="splitType"
-              className="block text-sm font-medium text-gray-700 mb-2"
-            >
-              Split Type
-            </label>
-            <select
-              id="splitType"
-              value={formData.splitType}
-              onChange={(e) =>
-                setFormData({ ...formData, splitType: e.target.value })
-              }
-              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            >
-              <option value="equal">Equal Split</option>
-              <option value="percentage">Percentage Split</option>
-              <option value="custom">Custom Split</option>
-            </select>
-          </div>
-
-          {/* Notes */}
-          <div>
-            <label
-              htmlFor="notes"
-              className="block text-sm font-medium text-gray-700 mb-2"
-            >
-              Notes (Optional)
-            </label>
-            <textarea
-              id="notes"
-              value={formData.notes}
-              onChange={(e) =>
-                setFormData({ ...formData, notes: e.target.value })
-              }
-              rows={3}
-              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              placeholder="Add any additional notes..."
-            />
-          </div>
+            {/* Participants (for non-group expenses) */}
+            {!group && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Participants
+                </label>
+                <div className="space-y-2">
+                  {participants
+                    .filter((participant) => participant && participant._id)
+                    .map((participant) => (
+                      <div
+                        key={participant._id}
+                        className="flex items-center justify-between"
+                      >
+                        <div className="flex items-center space-x-2">
+                          <div className="w-8 h-8 bg-green-100 rounded-full flex items-center justify-center">
+                            <span className="text-green-600 font-medium text-sm">
+                              {participant.firstName?.[0]}
+                              {participant.lastName?.[0]}
+                            </span>
+                          </div>
+                          <span className="text-sm text-gray-700">
+                            {participant.firstName} {participant.lastName}
+                          </span>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => removeParticipant(participant._id)}
+                          className="text-red-500 hover:text-red-700 transition-colors"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
 
-          {/* User Search Modal */}
-          {showUserSearch && (
-            <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-60">
-              <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6">
-                <div className="flex items-center justify-between mb-4">
-                  <h3 className="text-lg font-semibold text-gray-900">
-                    {searchMode === "payer" ? "Add Payer" : "Add Participant"}
-                  </h3>
                   <button
-                    onClick={() => setShowUserSearch(false)}
-                    className="text-gray-400 hover:text-gray-600 transition-colors"
+                    type="button"
+                    onClick={() => {
+                      setSearchMode("participant");
+                      setShowUserSearch(true);
+                    }}
+                    className="flex items-center space-x-2 text-blue-600 hover:text-blue-700 text-sm"
                   >
-                    <X className="h-5 w-5" />
+                    <Plus className="h-4 w-4" />
+                    <span>Add Participant</span>
                   </button>
                 </div>
+              </div>
+            )}
 
-                <div className="mb-4">
-                  <input
-                    type="text"
-                    placeholder="Search users..."
-                    value={searchTerm}
-                    onChange={(e) => handleSearch(e.target.value)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  />
-                </div>
+            {/* Split Type */}
+            <div>
+              <label
+                htmlFor="splitType"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Split Type
+              </label>
+              <select
+                id="splitType"
+                value={formData.splitType}
+                onChange={(e) =>
+                  setFormData({ ...formData, splitType: e.target.value })
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="equal">Equal Split</option>
+                <option value="percentage">Percentage Split</option>
+                <option value="shares">Shares Split</option>
+                <option value="adjustment">Equal Split with Adjustments</option>
+                <option value="custom">Custom Split</option>
+                {expense?.splitType === "itemized" && (
+                  <option value="itemized">Itemized Receipt</option>
+                )}
+              </select>
+            </div>
 
-                <div className="space-y-2 max-h-60 overflow-y-auto">
-                  {searchResults
-                    .filter((user) => user && user._id)
-                    .map((user) => (
-                      <div
-                        key={user._id}
-                        onClick={() => {
-                          if (searchMode === "payer") {
-                            addPaidByUser(user);
-                          } else {
-                            addParticipant(user);
-                          }
-                        }}
-                        className="flex items-center space-x-3 p-2 hover:bg-gray-50 rounded-lg cursor-pointer"
-                      >
-                        <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
-                          <span className="text-blue-600 font-medium text-sm">
-                            {user.firstName?.[0]}
-                            {user.lastName?.[0]}
-                          </span>
-                        </div>
-                        <div>
-                          <div className="text-sm font-medium text-gray-900">
-                            {user.firstName} {user.lastName}
+            {/* Share Splits */}
+            {formData.splitType === "shares" && (
+              <ShareSplitInputs
+                participants={participants.filter((p) => p && p._id)}
+                shares={shares}
+                onSharesChange={setShares}
+                amount={
+                  toMinorUnits(
+                    parseFloat(formData.amount),
+                    formData.currency
+                  ) || 0
+                }
+                currency={formData.currency}
+              />
+            )}
+
+            {/* Adjustment Splits */}
+            {formData.splitType === "adjustment" && (
+              <AdjustmentSplitInputs
+                participants={participants.filter((p) => p && p._id)}
+                adjustments={adjustments}
+                onAdjustmentsChange={setAdjustments}
+                amount={
+                  toMinorUnits(
+                    parseFloat(formData.amount),
+                    formData.currency
+                  ) || 0
+                }
+                currency={formData.currency}
+                payerId={paidByMultiple[0]?.user._id}
+              />
+            )}
+
+            {/* Receipt */}
+            {expense && (
+              <ReceiptViewer
+                expenseId={expense._id}
+                receiptFile={receiptFile}
+                onReceiptChange={(updated) => {
+                  setReceiptFile(updated);
+                  onExpenseUpdated();
+                }}
+              />
+            )}
+
+            {/* Notes */}
+            <div>
+              <label
+                htmlFor="notes"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Notes (Optional)
+              </label>
+              <textarea
+                id="notes"
+                value={formData.notes}
+                onChange={(e) =>
+                  setFormData({ ...formData, notes: e.target.value })
+                }
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="Add any additional notes..."
+              />
+            </div>
+
+            {/* User Search Modal */}
+            {showUserSearch && (
+              <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-60">
+                <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold text-gray-900">
+                      {searchMode === "payer" ? "Add Payer" : "Add Participant"}
+                    </h3>
+                    <button
+                      onClick={() => setShowUserSearch(false)}
+                      className="text-gray-400 hover:text-gray-600 transition-colors"
+                    >
+                      <X className="h-5 w-5" />
+                    </button>
+                  </div>
+
+                  <div className="mb-4">
+                    <input
+                      type="text"
+                      placeholder="Search users..."
+                      value={searchTerm}
+                      onChange={(e) => handleSearch(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+
+                  <div className="space-y-2 max-h-60 overflow-y-auto">
+                    {searchResults
+                      .filter((user) => user && user._id)
+                      .map((user) => (
+                        <div
+                          key={user._id}
+                          onClick={() => {
+                            if (searchMode === "payer") {
+                              addPaidByUser(user);
+                            } else {
+                              addParticipant(user);
+                            }
+                          }}
+                          className="flex items-center space-x-3 p-2 hover:bg-gray-50 rounded-lg cursor-pointer"
+                        >
+                          <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center">
+                            <span className="text-blue-600 font-medium text-sm">
+                              {user.firstName?.[0]}
+                              {user.lastName?.[0]}
+                            </span>
                           </div>
-                          <div className="text-xs text-gray-500">
-                            {user.email}
+                          <div>
+                            <div className="text-sm font-medium text-gray-900">
+                              {user.firstName} {user.lastName}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {user.email}
+                            </div>
                           </div>
                         </div>
-                      </div>
-                    ))}
+                      ))}
+                  </div>
                 </div>
               </div>
-            </div>
-          )}
+            )}
 
-          {/* Form Actions */}
-          <div className="flex justify-end space-x-3 pt-6 border-t">
-            <button
-              type="button"
-              onClick={onClose}
-              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
-            >
-              Cancel
-            </button>
-            <button
-              type="submit"
-              disabled={loading}
-              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {loading ? "Updating..." : "Update Expense"}
-            </button>
-          </div>
-        </form>
+            {/* Form Actions */}
+            <div className="flex justify-end space-x-3 pt-6 border-t">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? "Updating..." : "Update Expense"}
+              </button>
+            </div>
+          </form>
+        )}
       </div>
     </div>
   );
@@ -2,6 +2,7 @@ import React, { useState } from "react";
 import Modal from "./Modal";
 import { groupsApi } from "../services/api";
 import { Group } from "../types";
+import { CURRENCIES } from "../utils/currency";
 import toast from "react-hot-toast";
 
 interface EditGroupModalProps {
@@ -58,19 +59,6 @@ const EditGroupModal: React.FC<EditGroupModalProps> = ({
     }
   };
 
-  const currencies = [
-    { value: "USD", label: "US Dollar ($)" },
-    { value: "EUR", label: "Euro (€)" },
-    { value: "GBP", label: "British Pound (£)" },
-    { value: "JPY", label: "Japanese Yen (¥)" },
-    { value: "CAD", label: "Canadian Dollar (C$)" },
-    { value: "AUD", label: "Australian Dollar (A$)" },
-    { value: "CHF", label: "Swiss Franc (CHF)" },
-    { value: "CNY", label: "Chinese Yuan (¥)" },
-    { value: "INR", label: "Indian Rupee (₹)" },
-    { value: "BRL", label: "Brazilian Real (R$)" },
-  ];
-
   return (
     <Modal isOpen={isOpen} onClose={onClose} title="Edit Group" size="md">
       <form onSubmit={handleSubmit} className="space-y-6">
@@ -128,7 +116,7 @@ const EditGroupModal: React.FC<EditGroupModalProps> = ({
             onChange={handleInputChange}
             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
-            {currencies.map((currency) => (
+            {CURRENCIES.map((currency) => (
               <option key={currency.value} value={currency.value}>
                 {currency.label}
               </option>
@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from "react";
+import { exchangeRatesApi } from "../services/api";
+import { ExchangeRateLookup } from "../types";
+import { formatCurrency, toMinorUnits } from "../utils/currency";
+
+interface ExchangeRateFieldProps {
+  currency: string;
+  baseCurrency: string;
+  date: string;
+  // Amount in major units of `currency`, as typed in the form
+  amount: number;
+  manualRate: string;
+  onManualRateChange: (rate: string) => void;
+}
+
+// Shows the rate-table conversion for a foreign-currency expense and lets
+// the user override the rate (e.g. with the rate on their card statement)
+const ExchangeRateField: React.FC<ExchangeRateFieldProps> = ({
+  currency,
+  baseCurrency,
+  date,
+  amount,
+  manualRate,
+  onManualRateChange,
+}) => {
+  const [lookup, setLookup] = useState<ExchangeRateLookup | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (currency === baseCurrency) return;
+
+    let cancelled = false;
+    setLoading(true);
+    exchangeRatesApi
+      .lookupRate(currency, baseCurrency, date || undefined)
+      .then((result) => {
+        if (!cancelled) setLookup(result);
+      })
+      .catch(() => {
+        if (!cancelled) setLookup(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currency, baseCurrency, date]);
+
+  if (currency === baseCurrency) return null;
+
+  const override = parseFloat(manualRate);
+  const rate = override > 0 ? override : lookup?.rate;
+
+  return (
+    <div className="p-3 bg-blue-50 rounded-lg space-y-2">
+      <label
+        htmlFor="exchangeRate"
+        className="block text-sm font-medium text-gray-700"
+      >
+        Exchange rate (1 {currency} = ? {baseCurrency})
+      </label>
+      <input
+        type="number"
+        id="exchangeRate"
+        value={manualRate}
+        onChange={(e) => onManualRateChange(e.target.value)}
+        step="any"
+        min="0"
+        placeholder={lookup ? lookup.rate.toString() : "Enter rate"}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+      <p className="text-xs text-gray-600">
+        {loading
+          ? "Looking up rate..."
+          : lookup
+          ? `Rate table: ${lookup.rate} ${
+              lookup.date
+                ? `(from ${new Date(lookup.date).toLocaleDateString()})`
+                : ""
+            }. Leave blank to use it.`
+          : `No ${currency} to ${baseCurrency} rate on file for this date. Enter the rate you were charged.`}
+      </p>
+      {rate && amount > 0 ? (
+        <p className="text-sm text-gray-900">
+          ≈{" "}
+          {formatCurrency(
+            toMinorUnits(amount * rate, baseCurrency),
+            baseCurrency
+          )}{" "}
+          in group currency
+        </p>
+      ) : null}
+    </div>
+  );
+};
+
+export default ExchangeRateField;
@@ -0,0 +1,227 @@
+import React, { useState, useEffect } from "react";
+import { RotateCcw } from "lucide-react";
+import { categoriesApi, expensesApi } from "../services/api";
+import {
+  AuditLogChange,
+  AuditLogEntry,
+  Category,
+  Expense,
+  User,
+} from "../types";
+import { formatCurrency } from "../utils/currency";
+import toast from "react-hot-toast";
+
+interface ExpenseHistoryProps {
+  expense: Expense;
+  // Used to show names for user ids in the changes
+  users: User[];
+  onRestored: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  description: "Description",
+  amount: "Amount",
+  currency: "Currency",
+  originalAmount: "Amount entered",
+  originalCurrency: "Currency entered",
+  exchangeRate: "Exchange rate",
+  exchangeRateDate: "Exchange rate date",
+  category: "Category",
+  date: "Date",
+  notes: "Notes",
+  paidBy: "Paid by",
+  paidByMultiple: "Payers",
+  splitType: "Split type",
+  splits: "Split",
+  items: "Items",
+  tax: "Tax",
+  serviceCharge: "Service charge",
+  tip: "Tip",
+  receipt: "Receipt",
+  receiptFile: "Receipt",
+  deletedAt: "Deleted",
+  deletedBy: "Deleted by",
+};
+
+const ACTION_LABELS: Record<AuditLogEntry["action"], string> = {
+  create: "Created",
+  update: "Edited",
+  delete: "Deleted",
+  restore: "Restored",
+  purge: "Permanently deleted",
+};
+
+// Money fields kept in the group currency; the rest are in the entered one
+const GROUP_MONEY_FIELDS = ["amount"];
+const ENTERED_MONEY_FIELDS = ["originalAmount", "tax", "serviceCharge", "tip"];
+
+// Version list with field-level changes; any earlier version can be restored
+const ExpenseHistory: React.FC<ExpenseHistoryProps> = ({
+  expense,
+  users,
+  onRestored,
+}) => {
+  const [history, setHistory] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState<number | null>(null);
+  // Used to show names for category ids in the changes
+  const [categories, setCategories] = useState<Category[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    expensesApi
+      .getExpenseHistory(expense._id)
+      .then((entries) => {
+        if (!cancelled) setHistory(entries);
+      })
+      .catch(() => {
+        if (!cancelled) toast.error("Failed to load history");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [expense._id]);
+
+  const groupId =
+    typeof expense.group === "string" ? expense.group : expense.group?._id;
+  useEffect(() => {
+    (groupId
+      ? categoriesApi.getGroupCategories(groupId)
+      : categoriesApi.getSharedCategories()
+    )
+      .then(setCategories)
+      .catch(() => setCategories([]));
+  }, [groupId]);
+
+  const userName = (userId: string) => {
+    const user = users.find((candidate) => candidate._id === userId);
+    return user ? `${user.firstName} ${user.lastName}` : "Someone";
+  };
+
+  const formatValue = (change: AuditLogChange, value: any) => {
+    if (value === undefined || value === null || value === "") return "—";
+    if (GROUP_MONEY_FIELDS.includes(change.field)) {
+      return formatCurrency(value, expense.currency);
+    }
+    if (ENTERED_MONEY_FIELDS.includes(change.field)) {
+      return formatCurrency(
+        value,
+        expense.originalCurrency || expense.currency
+      );
+    }
+    if (["date", "exchangeRateDate", "deletedAt"].includes(change.field)) {
+      return new Date(value).toLocaleDateString();
+    }
+    if (change.field === "category") {
+      // Older versions hold a built-in key rather than an id
+      const category = categories.find(
+        (candidate) => candidate._id === value || candidate.key === value
+      );
+      return category ? category.name : "a deleted category";
+    }
+    if (change.field === "paidBy" || change.field === "deletedBy") {
+      return userName(value);
+    }
+    if (typeof value === "object") return null;
+    return String(value);
+  };
+
+  const describeChange = (change: AuditLogChange) => {
+    const label = FIELD_LABELS[change.field] || change.field;
+    const from = formatValue(change, change.from);
+    const to = formatValue(change, change.to);
+    // Lists and nested values are summarised rather than spelled out
+    if (from === null || to === null) return `${label} changed`;
+    return `${label}: ${from} → ${to}`;
+  };
+
+  const handleRestore = async (entry: AuditLogEntry) => {
+    if (
+      !window.confirm(
+        `Restore this expense to version ${entry.version}? The current ` +
+          "version stays in the history."
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setRestoring(entry.version);
+      await expensesApi.restoreExpenseVersion(expense._id, entry.version);
+      toast.success(`Restored version ${entry.version}`);
+      onRestored();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to restore");
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading history...</p>;
+  }
+
+  if (history.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        No changes have been recorded for this expense yet.
+      </p>
+    );
+  }
+
+  const currentVersion = history[0].version;
+
+  return (
+    <div className="space-y-3">
+      {history.map((entry) => (
+        <div key={entry._id} className="p-3 border border-gray-200 rounded-lg">
+          <div className="flex items-start justify-between">
+            <div>
+              <div className="text-sm font-medium text-gray-900">
+                v{entry.version} · {ACTION_LABELS[entry.action]}
+                {entry.restoredFrom && ` from v${entry.restoredFrom}`}
+                {entry.version === currentVersion && (
+                  <span className="ml-2 text-xs text-gray-500">(current)</span>
+                )}
+              </div>
+              <div className="text-xs text-gray-500">
+                {entry.actor
+                  ? `${entry.actor.firstName} ${entry.actor.lastName}`
+                  : "Automatic"}{" "}
+                • {new Date(entry.createdAt).toLocaleString()}
+              </div>
+            </div>
+            {entry.version !== currentVersion && entry.action !== "delete" && (
+              <button
+                type="button"
+                onClick={() => handleRestore(entry)}
+                disabled={restoring !== null}
+                className="flex items-center space-x-1 text-xs text-blue-600 hover:text-blue-700 disabled:opacity-50"
+              >
+                <RotateCcw className="h-3 w-3" />
+                <span>
+                  {restoring === entry.version ? "Restoring..." : "Restore"}
+                </span>
+              </button>
+            )}
+          </div>
+          {entry.changes.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {entry.changes.map((change) => (
+                <li key={change.field} className="text-xs text-gray-700">
+                  {describeChange(change)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ExpenseHistory;
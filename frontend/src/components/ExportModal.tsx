@@ -0,0 +1,165 @@
+import React, { useState } from "react";
+import Modal from "./Modal";
+import { exportApi } from "../services/api";
+import { ExportFormat, Group } from "../types";
+import { saveBlob, downloadErrorMessage } from "../utils/download";
+import toast from "react-hot-toast";
+
+interface ExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  group: Group;
+}
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV (expenses, settlements and balances)" },
+  { value: "xlsx", label: "Excel workbook" },
+  { value: "json", label: "JSON" },
+  { value: "pdf", label: "PDF statements" },
+];
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+// Download a group's ledger for a period, e.g. for the quarterly accounts
+const ExportModal: React.FC<ExportModalProps> = ({
+  isOpen,
+  onClose,
+  group,
+}) => {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [member, setMember] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setLoading(true);
+      const blob = await exportApi.exportGroupLedger(group._id, {
+        format,
+        from: from || undefined,
+        to: to || undefined,
+        member: format === "pdf" && member ? member : undefined,
+      });
+      const period = `${from || "start"}-to-${
+        to || new Date().toISOString().slice(0, 10)
+      }`;
+      saveBlob(blob, `${group.name}-${period}.${format}`);
+      onClose();
+    } catch (error: any) {
+      toast.error(await downloadErrorMessage(error, "Failed to export"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Export Ledger">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label
+            htmlFor="export-format"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            Format
+          </label>
+          <select
+            id="export-format"
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            className={inputClass}
+          >
+            {FORMAT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label
+              htmlFor="export-from"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              From
+            </label>
+            <input
+              type="date"
+              id="export-from"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="export-to"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              To
+            </label>
+            <input
+              type="date"
+              id="export-to"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Leave the dates empty to export everything up to today.
+        </p>
+
+        {format === "pdf" && (
+          <div>
+            <label
+              htmlFor="export-member"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Statements for
+            </label>
+            <select
+              id="export-member"
+              value={member}
+              onChange={(e) => setMember(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Every member</option>
+              {group.members.map((groupMember) => (
+                <option key={groupMember.user._id} value={groupMember.user._id}>
+                  {groupMember.user.firstName} {groupMember.user.lastName}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex justify-end space-x-3 pt-4">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={loading}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {loading ? "Exporting..." : "Download"}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default ExportModal;
@@ -0,0 +1,95 @@
+import React from "react";
+import { ArrowRight } from "lucide-react";
+import { GroupBalances } from "../types";
+import { formatCurrency } from "../utils/currency";
+
+interface GroupBalancesPanelProps {
+  balances: GroupBalances;
+  currentUserId?: string;
+}
+
+const GroupBalancesPanel: React.FC<GroupBalancesPanelProps> = ({
+  balances,
+  currentUserId,
+}) => {
+  const { currency } = balances;
+
+  const sortedBalances = [...balances.balances].sort((a, b) => b.net - a.net);
+
+  const displayName = (user: { _id: string; firstName?: string }) =>
+    user._id === currentUserId ? "You" : user.firstName || "Former member";
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Balances</h2>
+
+      {/* Per-member net positions */}
+      <div className="space-y-3">
+        {sortedBalances.map((balance) => (
+          <div
+            key={balance.user._id}
+            className="flex justify-between items-center p-3 bg-gray-50 rounded-lg"
+          >
+            <div>
+              <div className="font-medium text-gray-900">
+                {balance.user.firstName
+                  ? `${balance.user.firstName} ${balance.user.lastName}`
+                  : "Former member"}
+                {balance.user._id === currentUserId && (
+                  <span className="ml-2 text-xs text-gray-500">(you)</span>
+                )}
+              </div>
+              <div className="text-sm text-gray-500">
+                Paid {formatCurrency(balance.paid, currency)} • Share{" "}
+                {formatCurrency(balance.owed, currency)}
+              </div>
+            </div>
+            <div
+              className={`font-semibold ${
+                balance.net > 0
+                  ? "text-green-600"
+                  : balance.net < 0
+                  ? "text-red-600"
+                  : "text-gray-500"
+              }`}
+            >
+              {balance.net > 0
+                ? `gets back ${formatCurrency(balance.net, currency)}`
+                : balance.net < 0
+                ? `owes ${formatCurrency(-balance.net, currency)}`
+                : "settled up"}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Who owes whom */}
+      <h3 className="text-sm font-medium text-gray-700 mt-6 mb-3">
+        Who owes whom
+      </h3>
+      {balances.debts.length > 0 ? (
+        <div className="space-y-2">
+          {balances.debts.map((debt) => (
+            <div
+              key={`${debt.from._id}-${debt.to._id}`}
+              className="flex items-center justify-between text-sm"
+            >
+              <div className="flex items-center space-x-2 text-gray-700">
+                <span>{displayName(debt.from)}</span>
+                <ArrowRight className="h-4 w-4 text-gray-400" />
+                <span>{displayName(debt.to)}</span>
+              </div>
+              <span className="font-medium text-gray-900">
+                {formatCurrency(debt.amount, currency)}
+              </span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">Everyone is settled up.</p>
+      )}
+    </div>
+  );
+};
+
+export default GroupBalancesPanel;
@@ -0,0 +1,25 @@
+import React from "react";
+import { highlightSegments } from "../utils/search";
+
+interface HighlightedTextProps {
+  text: string;
+  // Search terms to mark; the text is shown as is when there are none
+  terms?: string[];
+}
+
+// Text with the parts that matched a search marked
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, terms }) => (
+  <>
+    {highlightSegments(text, terms).map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="bg-yellow-200 rounded px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+export default HighlightedText;
@@ -1,7 +1,8 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
+import { Copy, Link as LinkIcon, Mail, UserPlus, X } from "lucide-react";
 import Modal from "./Modal";
-import { groupsApi, authApi } from "../services/api";
-import { Group, User } from "../types";
+import { groupsApi, authApi, invitationsApi } from "../services/api";
+import { Group, Invitation, User } from "../types";
 import toast from "react-hot-toast";
 
 interface InviteMemberModalProps {
@@ -22,6 +23,20 @@ const InviteMemberModal: React.FC<InviteMemberModalProps> = ({
   const [loading, setLoading] = useState(false);
   const [searchResults, setSearchResults] = useState<User[]>([]);
   const [searchLoading, setSearchLoading] = useState(false);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [linkExpiryDays, setLinkExpiryDays] = useState(7);
+  const [creatingLink, setCreatingLink] = useState(false);
+  const [guestName, setGuestName] = useState("");
+  const [guestEmail, setGuestEmail] = useState("");
+  const [addingGuest, setAddingGuest] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    invitationsApi
+      .getGroupInvitations(group._id)
+      .then(setInvitations)
+      .catch(() => setInvitations([]));
+  }, [isOpen, group._id]);
 
   const handleEmailChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
@@ -48,6 +63,68 @@ const InviteMemberModal: React.FC<InviteMemberModalProps> = ({
     }
   };
 
+  const copyLink = async (link: string) => {
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success("Invite link copied");
+    } catch {
+      window.prompt("Copy the invite link", link);
+    }
+  };
+
+  const handleCreateLink = async () => {
+    try {
+      setCreatingLink(true);
+      const invitation = await invitationsApi.createInviteLink(group._id, {
+        role,
+        expiresInDays: linkExpiryDays,
+      });
+      setInvitations((current) => [invitation, ...current]);
+      await copyLink(invitation.link);
+    } catch (error: any) {
+      toast.error(
+        error.response?.data?.message || "Failed to create invite link"
+      );
+    } finally {
+      setCreatingLink(false);
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    try {
+      await invitationsApi.revokeInvitation(group._id, invitation._id);
+      setInvitations((current) =>
+        current.filter((entry) => entry._id !== invitation._id)
+      );
+      toast.success("Invitation revoked");
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to revoke");
+    }
+  };
+
+  const handleAddGuest = async () => {
+    if (!guestName.trim()) {
+      toast.error("Please enter the guest's name");
+      return;
+    }
+
+    try {
+      setAddingGuest(true);
+      const result = await groupsApi.addGuest(group._id, {
+        name: guestName.trim(),
+        email: guestEmail.trim() || undefined,
+      });
+      toast.success(result.message);
+      onMemberAdded();
+      setGuestName("");
+      setGuestEmail("");
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to add guest");
+    } finally {
+      setAddingGuest(false);
+    }
+  };
+
   const handleUserSelect = (user: User) => {
     setEmail(user.email);
     setSearchResults([]);
@@ -63,9 +140,11 @@ const InviteMemberModal: React.FC<InviteMemberModalProps> = ({
 
     try {
       setLoading(true);
-      await groupsApi.addMember(group._id, email, role);
+      // Without an account they are emailed an invitation and join as a
+      // pending member
+      const result = await groupsApi.addMember(group._id, email, role);
 
-      toast.success("Member invited successfully!");
+      toast.success(result.message || "Member invited successfully!");
       onMemberAdded();
       onClose();
 
@@ -149,8 +228,136 @@ const InviteMemberModal: React.FC<InviteMemberModalProps> = ({
           <p className="text-xs text-gray-500 mt-1">
             Admins can manage group settings and invite/remove members
           </p>
+          <p className="text-xs text-gray-500 mt-1">
+            People without an account get an email invitation and can be added
+            to expenses right away.
+          </p>
+        </div>
+
+        {/* Invite link */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Invite Link
+          </label>
+          <div className="flex space-x-2">
+            <select
+              value={linkExpiryDays}
+              onChange={(e) => setLinkExpiryDays(Number(e.target.value))}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              aria-label="Link expiry"
+            >
+              <option value={1}>Expires in 1 day</option>
+              <option value={7}>Expires in 7 days</option>
+              <option value={30}>Expires in 30 days</option>
+            </select>
+            <button
+              type="button"
+              onClick={handleCreateLink}
+              disabled={creatingLink}
+              className="px-4 py-2 text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors disabled:opacity-50 flex items-center space-x-2"
+            >
+              <LinkIcon className="h-4 w-4" />
+              <span>{creatingLink ? "Creating..." : "Create Link"}</span>
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Anyone with the link can join as a {role} until it expires.
+          </p>
+        </div>
+
+        {/* Guest */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Add a Guest
+          </label>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={guestName}
+              onChange={(e) => setGuestName(e.target.value)}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Name"
+              aria-label="Guest name"
+            />
+            <input
+              type="email"
+              value={guestEmail}
+              onChange={(e) => setGuestEmail(e.target.value)}
+              className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Email (optional)"
+              aria-label="Guest email"
+            />
+            <button
+              type="button"
+              onClick={handleAddGuest}
+              disabled={addingGuest}
+              className="px-4 py-2 text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors disabled:opacity-50 flex items-center space-x-2"
+            >
+              <UserPlus className="h-4 w-4" />
+              <span>{addingGuest ? "Adding..." : "Add"}</span>
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            For people who won't sign up. Guests are split with like anyone
+            else, and members record their payments. Inviting the guest's
+            email lets them sign up and take over their place.
+          </p>
         </div>
 
+        {/* Open invitations */}
+        {invitations.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Open Invitations
+            </label>
+            <div className="max-h-40 overflow-y-auto space-y-1">
+              {invitations.map((invitation) => (
+                <div
+                  key={invitation._id}
+                  className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded"
+                >
+                  <div className="flex items-center space-x-2 min-w-0">
+                    {invitation.kind === "email" ? (
+                      <Mail className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                    ) : (
+                      <LinkIcon className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <div className="text-gray-700 truncate">
+                        {invitation.kind === "email"
+                          ? invitation.email
+                          : `Link for ${invitation.role}s · ${invitation.uses.length} joined`}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        Expires{" "}
+                        {new Date(invitation.expiresAt).toLocaleDateString()}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <button
+                      type="button"
+                      onClick={() => copyLink(invitation.link)}
+                      className="p-1 text-gray-400 hover:text-blue-600"
+                      aria-label="Copy invite link"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleRevoke(invitation)}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      aria-label="Revoke invitation"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Current Members */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -164,6 +371,14 @@ const InviteMemberModal: React.FC<InviteMemberModalProps> = ({
               >
                 <span className="text-gray-700">
                   {member.user.firstName} {member.user.lastName}
+                  {member.user.status === "pending" && (
+                    <span className="ml-2 text-xs text-amber-600">
+                      (pending)
+                    </span>
+                  )}
+                  {member.user.status === "placeholder" && (
+                    <span className="ml-2 text-xs text-gray-500">(guest)</span>
+                  )}
                 </span>
                 <span
                   className={`px-2 py-1 rounded-full text-xs font-medium ${
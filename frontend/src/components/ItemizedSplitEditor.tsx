@@ -0,0 +1,269 @@
+import React from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { User } from "../types";
+import {
+  allocate,
+  formatCurrency,
+  splitEvenly,
+  toMinorUnits,
+} from "../utils/currency";
+
+// An item as edited in the form; `price` is the unit price in major units
+export interface ItemDraft {
+  name: string;
+  price: number;
+  quantity: number;
+  assignedTo: string[];
+}
+
+// Tax, service charge and tip in major units
+export interface ItemCharges {
+  tax: number;
+  serviceCharge: number;
+  tip: number;
+}
+
+const chargeLabels: { field: keyof ItemCharges; label: string }[] = [
+  { field: "tax", label: "Tax" },
+  { field: "serviceCharge", label: "Service charge" },
+  { field: "tip", label: "Tip" },
+];
+
+interface ItemizedSplitEditorProps {
+  participants: User[];
+  items: ItemDraft[];
+  onItemsChange: (items: ItemDraft[]) => void;
+  charges: ItemCharges;
+  onChargesChange: (charges: ItemCharges) => void;
+  currency: string;
+}
+
+// Work out each person's share the way the server does: every item line is
+// split equally between its assignees, then tax, service and tip are shared
+// in proportion to the item subtotals
+const previewShares = (
+  items: ItemDraft[],
+  charges: ItemCharges,
+  currency: string
+): Map<string, number> => {
+  const subtotals = new Map<string, number>();
+  items.forEach((item) => {
+    if (item.assignedTo.length === 0) return;
+    const parts = splitEvenly(
+      toMinorUnits(item.price, currency) * item.quantity,
+      item.assignedTo.length
+    );
+    item.assignedTo.forEach((userId, index) => {
+      subtotals.set(userId, (subtotals.get(userId) || 0) + parts[index]);
+    });
+  });
+
+  const userIds = [...subtotals.keys()];
+  const extras = allocate(
+    chargeLabels.reduce(
+      (sum, { field }) => sum + toMinorUnits(charges[field], currency),
+      0
+    ),
+    userIds.map((userId) => subtotals.get(userId) || 0)
+  );
+
+  const shares = new Map<string, number>();
+  userIds.forEach((userId, index) => {
+    shares.set(userId, (subtotals.get(userId) || 0) + extras[index]);
+  });
+  return shares;
+};
+
+/**
+ * Total of an itemized bill in minor units
+ */
+export const itemizedTotal = (
+  items: ItemDraft[],
+  charges: ItemCharges,
+  currency: string
+): number =>
+  items.reduce(
+    (sum, item) => sum + toMinorUnits(item.price, currency) * item.quantity,
+    0
+  ) +
+  chargeLabels.reduce(
+    (sum, { field }) => sum + toMinorUnits(charges[field], currency),
+    0
+  );
+
+// Receipt editor for itemized splits: items with who had them, plus the
+// bill-wide charges, and what each person ends up owing
+const ItemizedSplitEditor: React.FC<ItemizedSplitEditorProps> = ({
+  participants,
+  items,
+  onItemsChange,
+  charges,
+  onChargesChange,
+  currency,
+}) => {
+  const shares = previewShares(items, charges, currency);
+
+  const updateItem = (index: number, changes: Partial<ItemDraft>) => {
+    onItemsChange(
+      items.map((item, i) => (i === index ? { ...item, ...changes } : item))
+    );
+  };
+
+  const toggleAssignee = (index: number, userId: string) => {
+    const assignedTo = items[index].assignedTo;
+    updateItem(index, {
+      assignedTo: assignedTo.includes(userId)
+        ? assignedTo.filter((id) => id !== userId)
+        : [...assignedTo, userId],
+    });
+  };
+
+  const addItem = () => {
+    onItemsChange([
+      ...items,
+      {
+        name: "",
+        price: 0,
+        quantity: 1,
+        assignedTo: participants.map((participant) => participant._id),
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="block text-sm font-medium text-gray-700">Items</span>
+        <button
+          type="button"
+          onClick={addItem}
+          className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+        >
+          <Plus className="h-4 w-4" />
+          <span>Add item</span>
+        </button>
+      </div>
+
+      {items.map((item, index) => (
+        <div key={index} className="p-3 border border-gray-200 rounded-lg">
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={item.name}
+              onChange={(e) => updateItem(index, { name: e.target.value })}
+              placeholder="Item"
+              className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <input
+              type="number"
+              value={item.quantity}
+              onChange={(e) =>
+                updateItem(index, {
+                  quantity: Math.max(parseInt(e.target.value) || 1, 1),
+                })
+              }
+              min="1"
+              step="1"
+              aria-label="Quantity"
+              className="w-14 px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <input
+              type="number"
+              value={item.price}
+              onChange={(e) =>
+                updateItem(index, { price: parseFloat(e.target.value) || 0 })
+              }
+              min="0"
+              step="0.01"
+              aria-label="Unit price"
+              className="w-24 px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              type="button"
+              onClick={() =>
+                onItemsChange(items.filter((_, i) => i !== index))
+              }
+              className="text-red-500 hover:text-red-700 transition-colors"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-1 mt-2">
+            {participants.map((participant) => (
+              <button
+                key={participant._id}
+                type="button"
+                onClick={() => toggleAssignee(index, participant._id)}
+                className={`px-2 py-0.5 rounded-full text-xs ${
+                  item.assignedTo.includes(participant._id)
+                    ? "bg-blue-100 text-blue-800"
+                    : "bg-gray-100 text-gray-500"
+                }`}
+              >
+                {participant.firstName}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div className="grid grid-cols-3 gap-2">
+        {chargeLabels.map(({ field, label }) => (
+          <div key={field}>
+            <label
+              htmlFor={`charge-${field}`}
+              className="block text-xs font-medium text-gray-600 mb-1"
+            >
+              {label}
+            </label>
+            <input
+              type="number"
+              id={`charge-${field}`}
+              value={charges[field]}
+              onChange={(e) =>
+                onChargesChange({
+                  ...charges,
+                  [field]: parseFloat(e.target.value) || 0,
+                })
+              }
+              min="0"
+              step="0.01"
+              className="w-full px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        ))}
+      </div>
+
+      {shares.size > 0 && (
+        <div className="p-3 bg-gray-50 rounded-lg space-y-1">
+          {participants
+            .filter((participant) => shares.has(participant._id))
+            .map((participant) => (
+              <div
+                key={participant._id}
+                className="flex justify-between text-sm text-gray-700"
+              >
+                <span>
+                  {participant.firstName} {participant.lastName}
+                </span>
+                <span>
+                  {formatCurrency(shares.get(participant._id) || 0, currency)}
+                </span>
+              </div>
+            ))}
+          <div className="flex justify-between text-sm font-medium text-gray-900 pt-1 border-t">
+            <span>Total</span>
+            <span>
+              {formatCurrency(
+                itemizedTotal(items, charges, currency),
+                currency
+              )}
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ItemizedSplitEditor;
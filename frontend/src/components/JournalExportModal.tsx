@@ -0,0 +1,406 @@
+import React, { useEffect, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import Modal from "./Modal";
+import { exportApi } from "../services/api";
+import { useAuth } from "../contexts/AuthContext";
+import { Group, JournalAccounts, JournalFormat, User } from "../types";
+import { saveBlob, downloadErrorMessage } from "../utils/download";
+import toast from "react-hot-toast";
+
+interface JournalExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  groups: Group[];
+}
+
+const FORMAT_OPTIONS: {
+  value: JournalFormat;
+  label: string;
+  extension: string;
+}[] = [
+  { value: "ledger", label: "Ledger", extension: "ledger" },
+  { value: "hledger", label: "hledger", extension: "journal" },
+  { value: "beancount", label: "Beancount", extension: "beancount" },
+];
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+const labelClass = "block text-sm font-medium text-gray-700 mb-2";
+
+const userId = (user: User | string) =>
+  typeof user === "string" ? user : user._id;
+
+// People come back populated; the form edits their ids
+const editable = (saved: JournalAccounts): JournalAccounts => ({
+  ...saved,
+  personAccounts: saved.personAccounts.map((entry) => ({
+    ...entry,
+    user: userId(entry.user),
+  })),
+});
+
+// Download the user's side of their shared expenses for personal
+// bookkeeping, with the account names each posting goes to
+const JournalExportModal: React.FC<JournalExportModalProps> = ({
+  isOpen,
+  onClose,
+  groups,
+}) => {
+  const { user } = useAuth();
+  const [format, setFormat] = useState<JournalFormat>("ledger");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [groupId, setGroupId] = useState("");
+  const [accounts, setAccounts] = useState<JournalAccounts | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    exportApi
+      .getJournalAccounts()
+      .then((saved) => setAccounts(editable(saved)))
+      .catch(() => toast.error("Failed to load account names"));
+  }, [isOpen]);
+
+  // Everyone the user shares a group with
+  const people = Array.from(
+    new Map(
+      groups
+        .flatMap((group) => group.members.map((member) => member.user))
+        .filter((member) => member._id !== user?._id)
+        .map((member) => [member._id, member])
+    ).values()
+  );
+
+  const updateAccounts = (changes: Partial<JournalAccounts>) => {
+    setAccounts((current) => (current ? { ...current, ...changes } : current));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!accounts) return;
+
+    try {
+      setLoading(true);
+      // The account names are kept for next time
+      const saved = await exportApi.updateJournalAccounts(accounts);
+      setAccounts(editable(saved));
+
+      const blob = await exportApi.exportJournal({
+        format,
+        from: from || undefined,
+        to: to || undefined,
+        groupId: groupId || undefined,
+      });
+      const extension = FORMAT_OPTIONS.find(
+        (option) => option.value === format
+      )!.extension;
+      const period = `${from || "start"}-to-${
+        to || new Date().toISOString().slice(0, 10)
+      }`;
+      saveBlob(blob, `${user?.username || "journal"}-${period}.${extension}`);
+      onClose();
+    } catch (error: any) {
+      toast.error(await downloadErrorMessage(error, "Failed to export"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Export Journal">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="journal-format" className={labelClass}>
+              Format
+            </label>
+            <select
+              id="journal-format"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as JournalFormat)}
+              className={inputClass}
+            >
+              {FORMAT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="journal-group" className={labelClass}>
+              Expenses from
+            </label>
+            <select
+              id="journal-group"
+              value={groupId}
+              onChange={(e) => setGroupId(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Every group and non-group expense</option>
+              {groups.map((group) => (
+                <option key={group._id} value={group._id}>
+                  {group.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="journal-from" className={labelClass}>
+              From
+            </label>
+            <input
+              type="date"
+              id="journal-from"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="journal-to" className={labelClass}>
+              To
+            </label>
+            <input
+              type="date"
+              id="journal-to"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          With a start date, what people owe you before it is brought in as an
+          opening balance.
+        </p>
+
+        {accounts && (
+          <div className="space-y-4 border-t pt-4">
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900">
+                Account names
+              </h3>
+              <p className="text-xs text-gray-500">
+                {"{category}"}, {"{name}"} and {"{group}"} are filled in for
+                each posting.
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="journal-expenses" className={labelClass}>
+                Your share of expenses
+              </label>
+              <input
+                id="journal-expenses"
+                value={accounts.expenses}
+                onChange={(e) => updateAccounts({ expenses: e.target.value })}
+                className={inputClass}
+                placeholder="Expenses:{category}"
+              />
+            </div>
+            <div>
+              <label htmlFor="journal-people" className={labelClass}>
+                What you owe or are owed, per person
+              </label>
+              <input
+                id="journal-people"
+                value={accounts.people}
+                onChange={(e) => updateAccounts({ people: e.target.value })}
+                className={inputClass}
+                placeholder="Liabilities:Shared:{name}"
+              />
+            </div>
+            <div>
+              <label htmlFor="journal-payments" className={labelClass}>
+                Money you paid or received
+              </label>
+              <input
+                id="journal-payments"
+                value={accounts.payments}
+                onChange={(e) => updateAccounts({ payments: e.target.value })}
+                className={inputClass}
+                placeholder="Assets:Cash"
+              />
+            </div>
+
+            {/* Category overrides */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-700">
+                  Category accounts
+                </span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateAccounts({
+                      categoryAccounts: [
+                        ...accounts.categoryAccounts,
+                        { category: "", account: "" },
+                      ],
+                    })
+                  }
+                  className="text-sm text-blue-600 hover:text-blue-700 flex items-center space-x-1"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add</span>
+                </button>
+              </div>
+              {accounts.categoryAccounts.map((entry, index) => (
+                <div key={index} className="flex space-x-2">
+                  <input
+                    value={entry.category}
+                    onChange={(e) =>
+                      updateAccounts({
+                        categoryAccounts: accounts.categoryAccounts.map(
+                          (item, i) =>
+                            i === index
+                              ? { ...item, category: e.target.value }
+                              : item
+                        ),
+                      })
+                    }
+                    className={inputClass}
+                    placeholder="Category name"
+                  />
+                  <input
+                    value={entry.account}
+                    onChange={(e) =>
+                      updateAccounts({
+                        categoryAccounts: accounts.categoryAccounts.map(
+                          (item, i) =>
+                            i === index
+                              ? { ...item, account: e.target.value }
+                              : item
+                        ),
+                      })
+                    }
+                    className={inputClass}
+                    placeholder="Expenses:Home:Rent"
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateAccounts({
+                        categoryAccounts: accounts.categoryAccounts.filter(
+                          (_, i) => i !== index
+                        ),
+                      })
+                    }
+                    className="p-2 text-gray-400 hover:text-red-600"
+                    aria-label="Remove category account"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {/* Person overrides */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-700">
+                  Person accounts
+                </span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateAccounts({
+                      personAccounts: [
+                        ...accounts.personAccounts,
+                        { user: "", account: "" },
+                      ],
+                    })
+                  }
+                  className="text-sm text-blue-600 hover:text-blue-700 flex items-center space-x-1"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add</span>
+                </button>
+              </div>
+              {accounts.personAccounts.map((entry, index) => (
+                <div key={index} className="flex space-x-2">
+                  <select
+                    value={userId(entry.user)}
+                    onChange={(e) =>
+                      updateAccounts({
+                        personAccounts: accounts.personAccounts.map(
+                          (item, i) =>
+                            i === index
+                              ? { ...item, user: e.target.value }
+                              : item
+                        ),
+                      })
+                    }
+                    className={inputClass}
+                  >
+                    <option value="">Choose a person</option>
+                    {people.map((person) => (
+                      <option key={person._id} value={person._id}>
+                        {person.firstName} {person.lastName}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    value={entry.account}
+                    onChange={(e) =>
+                      updateAccounts({
+                        personAccounts: accounts.personAccounts.map(
+                          (item, i) =>
+                            i === index
+                              ? { ...item, account: e.target.value }
+                              : item
+                        ),
+                      })
+                    }
+                    className={inputClass}
+                    placeholder="Liabilities:Splitwise:Alex"
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateAccounts({
+                        personAccounts: accounts.personAccounts.filter(
+                          (_, i) => i !== index
+                        ),
+                      })
+                    }
+                    className="p-2 text-gray-400 hover:text-red-600"
+                    aria-label="Remove person account"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex justify-end space-x-3 pt-4">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={loading || !accounts}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {loading ? "Exporting..." : "Download"}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default JournalExportModal;
@@ -9,6 +9,7 @@ import {
   Menu,
   X,
   LogOut,
+  ArrowLeftRight,
 } from "lucide-react";
 import { useAuth } from "../contexts/AuthContext";
 
@@ -23,6 +24,15 @@ const Layout: React.FC = () => {
     { name: "Expenses", href: "/expenses", icon: Receipt },
     { name: "Settlements", href: "/settlements", icon: CreditCard },
     { name: "Profile", href: "/profile", icon: User },
+    ...(user?.isAdmin
+      ? [
+          {
+            name: "Exchange Rates",
+            href: "/exchange-rates",
+            icon: ArrowLeftRight,
+          },
+        ]
+      : []),
   ];
 
   const handleLogout = () => {
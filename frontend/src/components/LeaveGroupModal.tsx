@@ -0,0 +1,165 @@
+import React, { useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import Modal from "./Modal";
+import { groupsApi } from "../services/api";
+import { Group } from "../types";
+import { formatCurrency } from "../utils/currency";
+import toast from "react-hot-toast";
+
+interface LeaveGroupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  group: Group;
+  currentUserId?: string;
+  // The current user's net balance in the group
+  balance: number;
+  onLeft: () => void;
+}
+
+// Leaving needs a settled balance (or an admin writing off what they're
+// owed), and the last admin has to hand the group over
+const LeaveGroupModal: React.FC<LeaveGroupModalProps> = ({
+  isOpen,
+  onClose,
+  group,
+  currentUserId,
+  balance,
+  onLeft,
+}) => {
+  const [transferTo, setTransferTo] = useState("");
+  const [writeOff, setWriteOff] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const others = group.members.filter(
+    (member) => member.user._id !== currentUserId
+  );
+  const isAdmin = group.members.some(
+    (member) => member.user._id === currentUserId && member.role === "admin"
+  );
+  const isLastAdmin =
+    isAdmin && !others.some((member) => member.role === "admin");
+  // Only what others owe can be written off; debts have to be paid
+  const canWriteOff = isAdmin && balance > 0;
+  // Only people who have signed up can run the group
+  const successors = others.filter(
+    (member) => (member.user.status || "active") === "active"
+  );
+
+  const blocked =
+    others.length === 0 ||
+    (balance !== 0 && !writeOff) ||
+    (isLastAdmin && !transferTo);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (blocked) return;
+
+    try {
+      setLoading(true);
+      const result = await groupsApi.leaveGroup(group._id, {
+        force: writeOff || undefined,
+        transferTo: isLastAdmin ? transferTo : undefined,
+      });
+      toast.success(result.message);
+      onLeft();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to leave group");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Leave Group" size="md">
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {others.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            You are the only member of {group.name}. Delete the group instead.
+          </p>
+        ) : (
+          <p className="text-sm text-gray-600">
+            You'll no longer see {group.name} or be added to its expenses.
+            Expenses you were part of stay in the group.
+          </p>
+        )}
+
+        {/* Outstanding balance */}
+        {balance !== 0 && (
+          <div className="p-3 bg-amber-50 rounded-lg space-y-2">
+            <div className="flex items-start space-x-2 text-sm text-amber-800">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>
+                {balance > 0 ? "You are owed " : "You owe "}
+                {formatCurrency(Math.abs(balance), group.currency)} in this
+                group. Settle up before leaving.
+              </span>
+            </div>
+            {canWriteOff && (
+              <label className="flex items-start space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={writeOff}
+                  onChange={(e) => setWriteOff(e.target.checked)}
+                  className="mt-0.5"
+                />
+                <span>
+                  Write off what I'm owed. It's recorded as settled with
+                  everyone involved, without any money changing hands.
+                </span>
+              </label>
+            )}
+          </div>
+        )}
+
+        {/* Ownership transfer */}
+        {isLastAdmin && others.length > 0 && (
+          <div>
+            <label
+              htmlFor="leave-transfer-to"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Who takes over as admin? *
+            </label>
+            <select
+              id="leave-transfer-to"
+              value={transferTo}
+              onChange={(e) => setTransferTo(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">Choose a member</option>
+              {successors.map((member) => (
+                <option key={member.user._id} value={member.user._id}>
+                  {member.user.firstName} {member.user.lastName}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              You're the group's only admin, so someone has to take over.
+            </p>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            disabled={loading}
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={loading || blocked}
+          >
+            {loading ? "Leaving..." : "Leave Group"}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default LeaveGroupModal;
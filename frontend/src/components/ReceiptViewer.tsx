@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from "react";
+import { FileText, Trash2, Upload } from "lucide-react";
+import { expensesApi } from "../services/api";
+import { ReceiptFile } from "../types";
+import toast from "react-hot-toast";
+
+const RECEIPT_ACCEPT = "image/jpeg,image/png,image/webp,application/pdf";
+const MAX_RECEIPT_SIZE = 5 * 1024 * 1024;
+
+interface ReceiptViewerProps {
+  // Saved expense whose receipt is managed directly on the server
+  expenseId?: string;
+  receiptFile?: ReceiptFile;
+  onReceiptChange?: (receiptFile?: ReceiptFile) => void;
+  // New expense: the file is held until the expense has been created
+  pendingFile?: File | null;
+  onPendingFileChange?: (file: File | null) => void;
+}
+
+const openBlob = (blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  window.open(url, "_blank", "noopener");
+  // Give the new tab time to load before the URL is released
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+};
+
+// Receipt thumbnail with view, replace and remove actions. Receipts are
+// served behind authentication, so images are loaded as blobs.
+const ReceiptViewer: React.FC<ReceiptViewerProps> = ({
+  expenseId,
+  receiptFile,
+  onReceiptChange,
+  pendingFile,
+  onPendingFileChange,
+}) => {
+  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+
+  useEffect(() => {
+    let url: string | null = null;
+    let cancelled = false;
+
+    if (pendingFile && pendingFile.type.startsWith("image/")) {
+      url = URL.createObjectURL(pendingFile);
+      setThumbnailUrl(url);
+    } else if (expenseId && receiptFile?.thumbnailKey) {
+      expensesApi
+        .getReceipt(expenseId, true)
+        .then((blob) => {
+          if (cancelled) return;
+          url = URL.createObjectURL(blob);
+          setThumbnailUrl(url);
+        })
+        .catch(() => {
+          if (!cancelled) setThumbnailUrl(null);
+        });
+    } else {
+      setThumbnailUrl(null);
+    }
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [
+    expenseId,
+    receiptFile?.uploadedAt,
+    receiptFile?.thumbnailKey,
+    pendingFile,
+  ]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (file.size > MAX_RECEIPT_SIZE) {
+      toast.error("Receipts can be at most 5 MB");
+      return;
+    }
+
+    if (!expenseId) {
+      onPendingFileChange?.(file);
+      return;
+    }
+
+    try {
+      setUploading(true);
+      const result = await expensesApi.uploadReceipt(expenseId, file);
+      onReceiptChange?.(result.receiptFile);
+      toast.success("Receipt uploaded");
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to upload receipt");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleView = async () => {
+    if (pendingFile) {
+      openBlob(pendingFile);
+      return;
+    }
+    if (!expenseId) return;
+
+    try {
+      openBlob(await expensesApi.getReceipt(expenseId));
+    } catch (error) {
+      toast.error("Failed to load receipt");
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!expenseId) {
+      onPendingFileChange?.(null);
+      return;
+    }
+    if (!window.confirm("Remove this receipt?")) return;
+
+    try {
+      await expensesApi.deleteReceipt(expenseId);
+      onReceiptChange?.(undefined);
+      toast.success("Receipt removed");
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to remove receipt");
+    }
+  };
+
+  const hasReceipt = Boolean(pendingFile || receiptFile);
+  const name = pendingFile?.name || receiptFile?.originalName || "Receipt";
+
+  return (
+    <div>
+      <span className="block text-sm font-medium text-gray-700 mb-2">
+        Receipt (optional)
+      </span>
+      {hasReceipt ? (
+        <div className="flex items-center space-x-3 p-3 border border-gray-200 rounded-lg">
+          <button
+            type="button"
+            onClick={handleView}
+            className="flex-shrink-0 w-16 h-16 bg-gray-100 rounded flex items-center justify-center overflow-hidden"
+            title="View receipt"
+          >
+            {thumbnailUrl ? (
+              <img
+                src={thumbnailUrl}
+                alt="Receipt thumbnail"
+                className="w-full h-full object-cover"
+              />
+            ) : (
+              <FileText className="h-8 w-8 text-gray-400" />
+            )}
+          </button>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-gray-900 truncate">{name}</p>
+            <button
+              type="button"
+              onClick={handleView}
+              className="text-xs text-blue-600 hover:text-blue-700"
+            >
+              View
+            </button>
+          </div>
+          <label className="cursor-pointer text-gray-500 hover:text-gray-700">
+            <Upload className="h-4 w-4" />
+            <input
+              type="file"
+              accept={RECEIPT_ACCEPT}
+              onChange={handleFileChange}
+              disabled={uploading}
+              className="hidden"
+            />
+          </label>
+          <button
+            type="button"
+            onClick={handleRemove}
+            className="text-red-500 hover:text-red-700 transition-colors"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      ) : (
+        <label className="flex items-center justify-center space-x-2 p-3 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer text-sm text-gray-600 hover:border-blue-400">
+          <Upload className="h-4 w-4" />
+          <span>{uploading ? "Uploading..." : "Attach a photo or PDF"}</span>
+          <input
+            type="file"
+            accept={RECEIPT_ACCEPT}
+            onChange={handleFileChange}
+            disabled={uploading}
+            className="hidden"
+          />
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default ReceiptViewer;
@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from "react";
+import Modal from "./Modal";
+import { settlementsApi } from "../services/api";
+import { Settlement } from "../types";
+import {
+  formatCurrency,
+  toMajorUnits,
+  toMinorUnits,
+} from "../utils/currency";
+import toast from "react-hot-toast";
+
+interface RecordPaymentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settlement: Settlement;
+  onPaymentRecorded: () => void;
+}
+
+const RecordPaymentModal: React.FC<RecordPaymentModalProps> = ({
+  isOpen,
+  onClose,
+  settlement,
+  onPaymentRecorded,
+}) => {
+  const [formData, setFormData] = useState({
+    amount: "",
+    date: new Date().toISOString().slice(0, 10),
+    method: settlement.method,
+    note: "",
+  });
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData({
+        amount: toMajorUnits(
+          settlement.remainingAmount,
+          settlement.currency
+        ).toString(),
+        date: new Date().toISOString().slice(0, 10),
+        method: settlement.method,
+        note: "",
+      });
+    }
+  }, [isOpen, settlement]);
+
+  const handleInputChange = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement
+    >
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({
+      ...prev,
+      [name]: value,
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = toMinorUnits(
+      parseFloat(formData.amount),
+      settlement.currency
+    );
+    if (isNaN(amount) || amount <= 0) {
+      toast.error("Please enter a valid amount");
+      return;
+    }
+
+    if (amount > settlement.remainingAmount) {
+      toast.error("Payment cannot exceed the remaining amount");
+      return;
+    }
+
+    try {
+      setLoading(true);
+      await settlementsApi.recordPayment(settlement._id, {
+        amount,
+        date: formData.date,
+        method: formData.method,
+        note: formData.note,
+      });
+      toast.success("Payment recorded successfully!");
+      onPaymentRecorded();
+      onClose();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to record payment");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Record Payment" size="sm">
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <p className="text-sm text-gray-600">
+          Remaining:{" "}
+          <span className="font-semibold text-gray-900">
+            {formatCurrency(settlement.remainingAmount, settlement.currency)}
+          </span>{" "}
+          of {formatCurrency(settlement.amount, settlement.currency)}
+        </p>
+
+        {/* Amount and Date */}
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label
+              htmlFor="amount"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Amount *
+            </label>
+            <input
+              type="number"
+              id="amount"
+              name="amount"
+              value={formData.amount}
+              onChange={handleInputChange}
+              step="0.01"
+              min="0"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              required
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="date"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Date
+            </label>
+            <input
+              type="date"
+              id="date"
+              name="date"
+              value={formData.date}
+              onChange={handleInputChange}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        {/* Method */}
+        <div>
+          <label
+            htmlFor="method"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            Method
+          </label>
+          <select
+            id="method"
+            name="method"
+            value={formData.method}
+            onChange={handleInputChange}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="cash">Cash</option>
+            <option value="bank_transfer">Bank transfer</option>
+            <option value="digital_wallet">Digital wallet</option>
+            <option value="other">Other</option>
+          </select>
+        </div>
+
+        {/* Note */}
+        <div>
+          <label
+            htmlFor="note"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            Note (optional)
+          </label>
+          <textarea
+            id="note"
+            name="note"
+            value={formData.note}
+            onChange={handleInputChange}
+            rows={2}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            disabled={loading}
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={loading}
+          >
+            {loading ? "Saving..." : "Record Payment"}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default RecordPaymentModal;
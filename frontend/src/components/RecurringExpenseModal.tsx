@@ -0,0 +1,392 @@
+import React, { useState, useEffect } from "react";
+import Modal from "./Modal";
+import ShareSplitInputs from "./ShareSplitInputs";
+import CategorySelect from "./CategorySelect";
+import { recurringExpensesApi } from "../services/api";
+import {
+  Group,
+  RecurrenceFrequency,
+  RecurringExpense,
+  RecurringExpenseInput,
+} from "../types";
+import { useAuth } from "../contexts/AuthContext";
+import { toMajorUnits, toMinorUnits } from "../utils/currency";
+import toast from "react-hot-toast";
+
+interface RecurringExpenseModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  group: Group;
+  // Template being edited; a new one is created when omitted
+  recurringExpense?: RecurringExpense;
+  onSaved: () => void;
+}
+
+const FREQUENCY_OPTIONS: { value: RecurrenceFrequency; label: string }[] = [
+  { value: "daily", label: "Day(s)" },
+  { value: "weekly", label: "Week(s)" },
+  { value: "monthly", label: "Month(s)" },
+  { value: "yearly", label: "Year(s)" },
+];
+
+const toDateInput = (date?: string) => (date ? date.slice(0, 10) : "");
+
+const RecurringExpenseModal: React.FC<RecurringExpenseModalProps> = ({
+  isOpen,
+  onClose,
+  group,
+  recurringExpense,
+  onSaved,
+}) => {
+  const { user } = useAuth();
+  const currency = recurringExpense?.currency || group.currency;
+  const participants = group.members.map((member) => member.user);
+
+  const initialForm = () => ({
+    description: recurringExpense?.description || "",
+    amount: recurringExpense
+      ? String(toMajorUnits(recurringExpense.amount, currency))
+      : "",
+    category: recurringExpense?.category?._id || "",
+    paidBy: recurringExpense?.paidBy._id || user?._id || "",
+    splitType: recurringExpense?.splitType === "shares" ? "shares" : "equal",
+    frequency: recurringExpense?.frequency || "monthly",
+    interval: String(recurringExpense?.interval || 1),
+    startDate:
+      toDateInput(recurringExpense?.startDate) ||
+      new Date().toISOString().slice(0, 10),
+    endDate: toDateInput(recurringExpense?.endDate),
+    notes: recurringExpense?.notes || "",
+  });
+
+  const initialShares = () =>
+    Object.fromEntries(
+      (recurringExpense?.customSplits || [])
+        .filter((split) => split.shares !== undefined)
+        .map((split) => [split.user, split.shares as number])
+    );
+
+  const [formData, setFormData] = useState(initialForm);
+  const [shares, setShares] = useState<Record<string, number>>(initialShares);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(initialForm());
+      setShares(initialShares());
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, recurringExpense]);
+
+  const handleInputChange = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({
+      ...prev,
+      [name]: value,
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = toMinorUnits(parseFloat(formData.amount) || 0, currency);
+    if (!formData.description.trim()) {
+      toast.error("Description is required");
+      return;
+    }
+    if (amount <= 0) {
+      toast.error("Please enter a valid amount");
+      return;
+    }
+
+    const data: RecurringExpenseInput = {
+      description: formData.description.trim(),
+      amount,
+      currency,
+      paidBy: formData.paidBy,
+      category: formData.category,
+      splitType: formData.splitType,
+      customSplits:
+        formData.splitType === "shares"
+          ? participants
+              .map((participant) => ({
+                userId: participant._id,
+                shares: shares[participant._id] ?? 1,
+              }))
+              .filter((split) => split.shares > 0)
+          : [],
+      notes: formData.notes,
+      frequency: formData.frequency as RecurrenceFrequency,
+      interval: parseInt(formData.interval, 10) || 1,
+      startDate: formData.startDate,
+      endDate: formData.endDate || undefined,
+    };
+
+    try {
+      setLoading(true);
+      if (recurringExpense) {
+        await recurringExpensesApi.updateRecurringExpense(
+          recurringExpense._id,
+          data
+        );
+        toast.success("Recurring expense updated");
+      } else {
+        await recurringExpensesApi.createRecurringExpense(group._id, data);
+        toast.success("Recurring expense created");
+      }
+      onSaved();
+      onClose();
+    } catch (error: any) {
+      toast.error(
+        error.response?.data?.message || "Failed to save recurring expense"
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={
+        recurringExpense ? "Edit Recurring Expense" : "New Recurring Expense"
+      }
+      size="lg"
+    >
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {/* Description */}
+        <div>
+          <label
+            htmlFor="recurring-description"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            Description *
+          </label>
+          <input
+            type="text"
+            id="recurring-description"
+            name="description"
+            value={formData.description}
+            onChange={handleInputChange}
+            className={inputClass}
+            placeholder="e.g. Rent, Internet, Netflix"
+            required
+          />
+        </div>
+
+        {/* Amount and category */}
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label
+              htmlFor="recurring-amount"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Amount ({currency}) *
+            </label>
+            <input
+              type="number"
+              id="recurring-amount"
+              name="amount"
+              value={formData.amount}
+              onChange={handleInputChange}
+              step="0.01"
+              min="0"
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="recurring-category"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Category
+            </label>
+            <CategorySelect
+              id="recurring-category"
+              groupId={group._id}
+              value={formData.category}
+              onChange={(category) =>
+                setFormData((prev) => ({ ...prev, category }))
+              }
+            />
+          </div>
+        </div>
+
+        {/* Payer and split */}
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label
+              htmlFor="recurring-paid-by"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Paid by
+            </label>
+            <select
+              id="recurring-paid-by"
+              name="paidBy"
+              value={formData.paidBy}
+              onChange={handleInputChange}
+              className={inputClass}
+            >
+              {participants.map((participant) => (
+                <option key={participant._id} value={participant._id}>
+                  {participant.firstName} {participant.lastName}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label
+              htmlFor="recurring-split-type"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Split
+            </label>
+            <select
+              id="recurring-split-type"
+              name="splitType"
+              value={formData.splitType}
+              onChange={handleInputChange}
+              className={inputClass}
+            >
+              <option value="equal">Equally between members</option>
+              <option value="shares">By shares</option>
+            </select>
+          </div>
+        </div>
+
+        {formData.splitType === "shares" && (
+          <ShareSplitInputs
+            participants={participants}
+            shares={shares}
+            onSharesChange={setShares}
+            amount={toMinorUnits(parseFloat(formData.amount) || 0, currency)}
+            currency={currency}
+          />
+        )}
+
+        {/* Schedule */}
+        <div>
+          <span className="block text-sm font-medium text-gray-700 mb-2">
+            Repeats every
+          </span>
+          <div className="flex space-x-2">
+            <input
+              type="number"
+              name="interval"
+              aria-label="Interval"
+              value={formData.interval}
+              onChange={handleInputChange}
+              min="1"
+              step="1"
+              className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <select
+              name="frequency"
+              aria-label="Frequency"
+              value={formData.frequency}
+              onChange={handleInputChange}
+              className={inputClass}
+            >
+              {FREQUENCY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label
+              htmlFor="recurring-start-date"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Starts on *
+            </label>
+            <input
+              type="date"
+              id="recurring-start-date"
+              name="startDate"
+              value={formData.startDate}
+              onChange={handleInputChange}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="recurring-end-date"
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Ends on
+            </label>
+            <input
+              type="date"
+              id="recurring-end-date"
+              name="endDate"
+              value={formData.endDate}
+              onChange={handleInputChange}
+              min={formData.startDate}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        {recurringExpense && (
+          <p className="text-xs text-gray-500">
+            Changes apply to future occurrences only. A new schedule starts
+            from today; past dates are not back-filled.
+          </p>
+        )}
+
+        {/* Notes */}
+        <div>
+          <label
+            htmlFor="recurring-notes"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            Notes
+          </label>
+          <textarea
+            id="recurring-notes"
+            name="notes"
+            value={formData.notes}
+            onChange={handleInputChange}
+            rows={2}
+            className={inputClass}
+          />
+        </div>
+
+        {/* Actions */}
+        <div className="flex justify-end space-x-3 pt-4">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={loading}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {loading ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default RecurringExpenseModal;
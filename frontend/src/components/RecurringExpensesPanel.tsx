@@ -0,0 +1,240 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Edit,
+  Pause,
+  Play,
+  Plus,
+  Repeat,
+  SkipForward,
+  Trash2,
+} from "lucide-react";
+import RecurringExpenseModal from "./RecurringExpenseModal";
+import { recurringExpensesApi } from "../services/api";
+import { Group, RecurringExpense } from "../types";
+import { formatCurrency } from "../utils/currency";
+import toast from "react-hot-toast";
+
+interface RecurringExpensesPanelProps {
+  group: Group;
+  // Called when a change may have created expenses
+  onExpensesChanged: () => void;
+}
+
+const FREQUENCY_UNITS = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+  yearly: "year",
+};
+
+const describeSchedule = (template: RecurringExpense) => {
+  const unit = FREQUENCY_UNITS[template.frequency];
+  return template.interval === 1
+    ? `Every ${unit}`
+    : `Every ${template.interval} ${unit}s`;
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, { timeZone: "UTC" });
+
+const RecurringExpensesPanel: React.FC<RecurringExpensesPanelProps> = ({
+  group,
+  onExpensesChanged,
+}) => {
+  const [templates, setTemplates] = useState<RecurringExpense[]>([]);
+  const [showModal, setShowModal] = useState(false);
+  const [editing, setEditing] = useState<RecurringExpense | undefined>();
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setTemplates(
+        await recurringExpensesApi.getGroupRecurringExpenses(group._id)
+      );
+    } catch (error) {
+      console.error("Error loading recurring expenses:", error);
+    }
+  }, [group._id]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const runAction = async (
+    action: () => Promise<unknown>,
+    successMessage: string
+  ) => {
+    try {
+      await action();
+      toast.success(successMessage);
+      loadTemplates();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Something went wrong");
+    }
+  };
+
+  const handleDelete = (template: RecurringExpense) => {
+    if (
+      !window.confirm(
+        `Stop "${template.description}"? Expenses it already created are kept.`
+      )
+    ) {
+      return;
+    }
+    runAction(
+      () => recurringExpensesApi.deleteRecurringExpense(template._id),
+      "Recurring expense deleted"
+    );
+  };
+
+  const openModal = (template?: RecurringExpense) => {
+    setEditing(template);
+    setShowModal(true);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Recurring</h2>
+        <button
+          onClick={() => openModal()}
+          className="text-blue-600 hover:text-blue-700"
+          title="Add recurring expense"
+        >
+          <Plus className="h-5 w-5" />
+        </button>
+      </div>
+
+      {templates.length > 0 ? (
+        <div className="space-y-3">
+          {templates.map((template) => (
+            <div key={template._id} className="p-3 bg-gray-50 rounded-lg">
+              <div className="flex justify-between items-start">
+                <div className="min-w-0">
+                  <div className="font-medium text-gray-900 truncate">
+                    {template.description}
+                  </div>
+                  <div className="text-sm text-gray-500">
+                    {formatCurrency(
+                      template.amount,
+                      template.currency || group.currency
+                    )}{" "}
+                    • {describeSchedule(template)}
+                  </div>
+                </div>
+                <span
+                  className={`text-xs px-2 py-1 rounded-full ${
+                    template.status === "active"
+                      ? "bg-green-100 text-green-800"
+                      : template.status === "paused"
+                      ? "bg-yellow-100 text-yellow-800"
+                      : "bg-gray-100 text-gray-600"
+                  }`}
+                >
+                  {template.status}
+                </span>
+              </div>
+
+              {template.status === "active" && template.upcoming[0] && (
+                <div className="text-xs text-gray-500 mt-1">
+                  Next: {formatDate(template.upcoming[0])}
+                </div>
+              )}
+              {template.lastError && (
+                <div className="text-xs text-red-600 mt-1">
+                  {template.lastError}
+                </div>
+              )}
+
+              <div className="flex space-x-3 mt-2">
+                {template.status === "active" && (
+                  <>
+                    <button
+                      onClick={() =>
+                        runAction(
+                          () =>
+                            recurringExpensesApi.pauseRecurringExpense(
+                              template._id
+                            ),
+                          "Recurring expense paused"
+                        )
+                      }
+                      className="text-gray-500 hover:text-gray-700"
+                      title="Pause"
+                    >
+                      <Pause className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() =>
+                        runAction(
+                          () =>
+                            recurringExpensesApi.skipOccurrence(template._id),
+                          "Next occurrence skipped"
+                        )
+                      }
+                      className="text-gray-500 hover:text-gray-700"
+                      title="Skip next occurrence"
+                    >
+                      <SkipForward className="h-4 w-4" />
+                    </button>
+                  </>
+                )}
+                {template.status === "paused" && (
+                  <button
+                    onClick={() =>
+                      runAction(
+                        () =>
+                          recurringExpensesApi.resumeRecurringExpense(
+                            template._id
+                          ),
+                        "Recurring expense resumed"
+                      )
+                    }
+                    className="text-gray-500 hover:text-gray-700"
+                    title="Resume"
+                  >
+                    <Play className="h-4 w-4" />
+                  </button>
+                )}
+                <button
+                  onClick={() => openModal(template)}
+                  className="text-gray-500 hover:text-gray-700"
+                  title="Edit"
+                >
+                  <Edit className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(template)}
+                  className="text-red-500 hover:text-red-700"
+                  title="Delete"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-4">
+          <Repeat className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+          <p className="text-sm text-gray-500">
+            Rent, subscriptions and other regular bills can be added
+            automatically.
+          </p>
+        </div>
+      )}
+
+      <RecurringExpenseModal
+        isOpen={showModal}
+        onClose={() => setShowModal(false)}
+        group={group}
+        recurringExpense={editing}
+        onSaved={() => {
+          loadTemplates();
+          onExpensesChanged();
+        }}
+      />
+    </div>
+  );
+};
+
+export default RecurringExpensesPanel;
@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from "react";
+import { ArrowRight } from "lucide-react";
+import Modal from "./Modal";
+import { settlementsApi } from "../services/api";
+import { Group, SettlementMode, SettlementPlanPreview } from "../types";
+import { formatCurrency } from "../utils/currency";
+import toast from "react-hot-toast";
+
+interface SettlementPlanModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  group: Group;
+  onPlanCommitted: () => void;
+}
+
+const SettlementPlanModal: React.FC<SettlementPlanModalProps> = ({
+  isOpen,
+  onClose,
+  group,
+  onPlanCommitted,
+}) => {
+  const [mode, setMode] = useState<SettlementMode>("auto");
+  const [preview, setPreview] = useState<SettlementPlanPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [committing, setCommitting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadPreview(mode);
+    }
+  }, [isOpen, mode]);
+
+  const loadPreview = async (selectedMode: SettlementMode) => {
+    try {
+      setLoading(true);
+      const data = await settlementsApi.previewSettlements(
+        group._id,
+        selectedMode
+      );
+      setPreview(data);
+    } catch (error: any) {
+      toast.error(
+        error.response?.data?.message || "Failed to preview settlements"
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!preview) return;
+
+    try {
+      setCommitting(true);
+      await settlementsApi.commitSettlements(group._id, preview);
+      toast.success("Settlement plan saved!");
+      onPlanCommitted();
+      onClose();
+    } catch (error: any) {
+      toast.error(
+        error.response?.data?.message || "Failed to save settlement plan"
+      );
+      // The balances moved under us; show the fresh plan instead
+      if (error.response?.status === 409) {
+        loadPreview(mode);
+      }
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Settle Up" size="md">
+      <div className="space-y-6">
+        {/* Mode */}
+        <div>
+          <label
+            htmlFor="settlement-mode"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            Simplification
+          </label>
+          <select
+            id="settlement-mode"
+            value={mode}
+            onChange={(e) => setMode(e.target.value as SettlementMode)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="auto">Automatic</option>
+            <option value="greedy">Fast (largest debts first)</option>
+            <option value="exact">Fewest transfers</option>
+          </select>
+        </div>
+
+        {/* Preview */}
+        {loading ? (
+          <div className="animate-pulse space-y-3">
+            <div className="h-10 bg-gray-200 rounded"></div>
+            <div className="h-10 bg-gray-200 rounded"></div>
+          </div>
+        ) : preview && preview.settlements.length > 0 ? (
+          <div>
+            <p className="text-sm text-gray-600 mb-3">
+              {preview.settlements.length} transfer
+              {preview.settlements.length !== 1 ? "s" : ""} will settle this
+              group, based on {preview.plan.basis.expenses.length} expenses and{" "}
+              {preview.plan.basis.settlements.length} completed settlements.
+              Saving replaces any pending transfers from the previous plan.
+            </p>
+            <div className="space-y-2">
+              {preview.settlements.map((settlement) => (
+                <div
+                  key={`${settlement.fromUser._id}-${settlement.toUser._id}`}
+                  className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
+                >
+                  <div className="flex items-center space-x-2 text-sm text-gray-700">
+                    <span>
+                      {settlement.fromUser.firstName}{" "}
+                      {settlement.fromUser.lastName}
+                    </span>
+                    <ArrowRight className="h-4 w-4 text-gray-400" />
+                    <span>
+                      {settlement.toUser.firstName} {settlement.toUser.lastName}
+                    </span>
+                  </div>
+                  <span className="font-semibold text-gray-900">
+                    {formatCurrency(settlement.amount, settlement.currency)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="text-center py-6 text-gray-500">
+            <p>Everyone is settled up. There is nothing to transfer.</p>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            disabled={committing}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleCommit}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={
+              loading ||
+              committing ||
+              !preview ||
+              preview.settlements.length === 0
+            }
+          >
+            {committing ? "Saving..." : "Save Plan"}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default SettlementPlanModal;
@@ -0,0 +1,81 @@
+import React from "react";
+import { User } from "../types";
+import { allocate, formatCurrency } from "../utils/currency";
+
+interface ShareSplitInputsProps {
+  participants: User[];
+  shares: Record<string, number>;
+  onSharesChange: (shares: Record<string, number>) => void;
+  // Expense total in minor units of `currency`, for the preview
+  amount: number;
+  currency: string;
+}
+
+// Participants without an entry count as one share
+const shareOf = (shares: Record<string, number>, userId: string) =>
+  shares[userId] ?? 1;
+
+// Share weight inputs (e.g. 2 for a couple, 0.5 for a kid) with a preview
+// of what each participant will owe
+const ShareSplitInputs: React.FC<ShareSplitInputsProps> = ({
+  participants,
+  shares,
+  onSharesChange,
+  amount,
+  currency,
+}) => {
+  const weights = participants.map((participant) =>
+    shareOf(shares, participant._id)
+  );
+  const totalShares = weights.reduce((sum, weight) => sum + weight, 0);
+  const preview =
+    totalShares > 0 && amount > 0 ? allocate(amount, weights) : null;
+
+  return (
+    <div>
+      <label
+        htmlFor="share-splits"
+        className="block text-sm font-medium text-gray-700 mb-2"
+      >
+        Shares
+      </label>
+      <div id="share-splits" className="space-y-2 max-h-40 overflow-y-auto">
+        {participants.map((participant, index) => (
+          <div
+            key={participant._id}
+            className="flex items-center justify-between"
+          >
+            <span className="text-sm text-gray-700">
+              {participant.firstName} {participant.lastName}
+            </span>
+            <div className="flex items-center space-x-2">
+              {preview && (
+                <span className="text-xs text-gray-500">
+                  {formatCurrency(preview[index], currency)}
+                </span>
+              )}
+              <input
+                type="number"
+                value={weights[index]}
+                onChange={(e) =>
+                  onSharesChange({
+                    ...shares,
+                    [participant._id]: parseFloat(e.target.value) || 0,
+                  })
+                }
+                step="0.5"
+                min="0"
+                className="w-20 px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="text-xs text-gray-500 mt-1">
+        Total: {totalShares} share{totalShares !== 1 ? "s" : ""}
+      </div>
+    </div>
+  );
+};
+
+export default ShareSplitInputs;
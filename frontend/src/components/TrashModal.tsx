@@ -0,0 +1,155 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { RotateCcw, Trash2 } from "lucide-react";
+import Modal from "./Modal";
+import { expensesApi } from "../services/api";
+import { Expense, Group } from "../types";
+import { formatCurrency } from "../utils/currency";
+import toast from "react-hot-toast";
+
+interface TrashModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  group: Group;
+  isAdmin: boolean;
+  currentUserId?: string;
+  // Called after an expense is restored
+  onRestored: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days left before the retention period purges a trashed item
+export const daysUntilPurge = (deletedAt: string, retentionDays: number) =>
+  Math.max(
+    0,
+    Math.ceil(
+      (new Date(deletedAt).getTime() + retentionDays * DAY_MS - Date.now()) /
+        DAY_MS
+    )
+  );
+
+const TrashModal: React.FC<TrashModalProps> = ({
+  isOpen,
+  onClose,
+  group,
+  isAdmin,
+  currentUserId,
+  onRestored,
+}) => {
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [loading, setLoading] = useState(false);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setLoading(true);
+      const trash = await expensesApi.getGroupTrash(group._id);
+      setExpenses(trash.expenses);
+      setRetentionDays(trash.retentionDays);
+    } catch (error) {
+      toast.error("Failed to load the trash");
+    } finally {
+      setLoading(false);
+    }
+  }, [group._id]);
+
+  useEffect(() => {
+    if (isOpen) loadTrash();
+  }, [isOpen, loadTrash]);
+
+  const handleRestore = async (expense: Expense) => {
+    try {
+      await expensesApi.restoreExpense(expense._id);
+      toast.success("Expense restored");
+      setExpenses(expenses.filter((item) => item._id !== expense._id));
+      onRestored();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to restore expense");
+    }
+  };
+
+  const handlePurge = async (expense: Expense) => {
+    if (
+      !window.confirm(
+        `Permanently delete "${expense.description}"? This cannot be undone.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await expensesApi.purgeExpense(expense._id);
+      toast.success("Expense permanently deleted");
+      setExpenses(expenses.filter((item) => item._id !== expense._id));
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to delete expense");
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Trash" size="lg">
+      <p className="text-sm text-gray-500 mb-4">
+        Deleted expenses stay here for {retentionDays} days before they are
+        permanently deleted.
+      </p>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : expenses.length > 0 ? (
+        <div className="space-y-3">
+          {expenses.map((expense) => {
+            const canRestore =
+              isAdmin || expense.paidBy?._id === currentUserId;
+            return (
+              <div
+                key={expense._id}
+                className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
+              >
+                <div className="min-w-0">
+                  <div className="font-medium text-gray-900 truncate">
+                    {expense.description}
+                  </div>
+                  <div className="text-sm text-gray-500">
+                    {formatCurrency(expense.amount, group.currency)} • Deleted
+                    by {expense.deletedBy?.firstName || "someone"} on{" "}
+                    {new Date(expense.deletedAt as string).toLocaleDateString()}
+                  </div>
+                  <div className="text-xs text-gray-400">
+                    {daysUntilPurge(expense.deletedAt as string, retentionDays)}{" "}
+                    days left
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3 ml-4">
+                  {canRestore && (
+                    <button
+                      onClick={() => handleRestore(expense)}
+                      className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                      <span>Restore</span>
+                    </button>
+                  )}
+                  {isAdmin && (
+                    <button
+                      onClick={() => handlePurge(expense)}
+                      className="text-red-500 hover:text-red-700"
+                      title="Delete permanently"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 text-center py-6">
+          The trash is empty.
+        </p>
+      )}
+    </Modal>
+  );
+};
+
+export default TrashModal;
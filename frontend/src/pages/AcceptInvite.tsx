@@ -0,0 +1,116 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { Users } from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import { invitationsApi } from "../services/api";
+import { InvitationPreview } from "../types";
+import toast from "react-hot-toast";
+
+// Landing page of an invite link. Signed-in people join straight away;
+// everyone else signs in or up first and is sent back here.
+const AcceptInvite: React.FC = () => {
+  const { token = "" } = useParams<{ token: string }>();
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(
+    null
+  );
+  const [error, setError] = useState("");
+  // Joining only happens once, even if the effect runs again
+  const joinStarted = useRef(false);
+
+  useEffect(() => {
+    if (loading || user) return;
+    invitationsApi
+      .getInvitation(token)
+      .then(setInvitation)
+      .catch((err: any) =>
+        setError(err.response?.data?.message || "Invitation not found")
+      );
+  }, [token, user, loading]);
+
+  useEffect(() => {
+    if (loading || !user || joinStarted.current) return;
+    joinStarted.current = true;
+
+    invitationsApi
+      .acceptInvitation(token)
+      .then((result) => {
+        toast.success(result.message);
+        navigate(`/groups/${result.group._id}`, { replace: true });
+      })
+      .catch((err: any) =>
+        setError(err.response?.data?.message || "Failed to join the group")
+      );
+  }, [token, user, loading, navigate]);
+
+  const inviteQuery = `?invite=${encodeURIComponent(token)}`;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary-50 to-primary-100 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full bg-white rounded-lg shadow-sm border p-8 text-center space-y-6">
+        <div className="mx-auto h-16 w-16 bg-primary-600 rounded-full flex items-center justify-center">
+          <Users className="h-8 w-8 text-white" />
+        </div>
+
+        {error ? (
+          <>
+            <h2 className="text-2xl font-bold text-gray-900">
+              Can't join this group
+            </h2>
+            <p className="text-sm text-gray-600">{error}</p>
+            <Link
+              to={user ? "/groups" : "/login"}
+              className="inline-block font-medium text-primary-600 hover:text-primary-500"
+            >
+              {user ? "Go to your groups" : "Sign in"}
+            </Link>
+          </>
+        ) : user || !invitation ? (
+          <div className="flex justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        ) : (
+          <>
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">
+                Join {invitation.group.name}
+              </h2>
+              <p className="mt-2 text-sm text-gray-600">
+                {invitation.invitedBy
+                  ? `${invitation.invitedBy} invited you to share expenses.`
+                  : "You've been invited to share expenses."}
+              </p>
+              {invitation.email && (
+                <p className="mt-2 text-sm text-gray-600">
+                  Sign up with {invitation.email} and you'll be added
+                  automatically.
+                </p>
+              )}
+            </div>
+            <div className="flex flex-col space-y-3">
+              <Link
+                to={`/register${inviteQuery}`}
+                className="w-full px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
+              >
+                Create an account
+              </Link>
+              <Link
+                to={`/login${inviteQuery}`}
+                className="w-full px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                I already have an account
+              </Link>
+            </div>
+            <p className="text-xs text-gray-500">
+              This invitation expires on{" "}
+              {new Date(invitation.expiresAt).toLocaleDateString()}.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvite;
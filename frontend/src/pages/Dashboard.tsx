@@ -11,27 +11,52 @@ import {
   Trash2,
 } from "lucide-react";
 import { useAuth } from "../contexts/AuthContext";
-import { groupsApi, expensesApi, settlementsApi } from "../services/api";
-import { Group, Expense, Settlement } from "../types";
-import { formatCurrency } from "../utils/currency";
+import {
+  groupsApi,
+  expensesApi,
+  settlementsApi,
+  budgetsApi,
+} from "../services/api";
+import {
+  Group,
+  Expense,
+  Settlement,
+  Budget,
+  CurrencyTotals,
+} from "../types";
+import { categoryLabel } from "../utils/categories";
+import {
+  formatCurrency,
+  formatCurrencyTotals,
+  formatOriginalAmount,
+} from "../utils/currency";
 import toast from "react-hot-toast";
 import AddExpenseModal from "../components/AddExpenseModal";
 import EditExpenseModal from "../components/EditExpenseModal";
+import BudgetProgressBar from "../components/BudgetProgressBar";
 
 const Dashboard: React.FC = () => {
   const { user } = useAuth();
   const [groups, setGroups] = useState<Group[]>([]);
   const [recentExpenses, setRecentExpenses] = useState<Expense[]>([]);
   const [settlements, setSettlements] = useState<Settlement[]>([]);
+  const [budgetGroups, setBudgetGroups] = useState<
+    { group: Pick<Group, "_id" | "name" | "currency">; budgets: Budget[] }[]
+  >([]);
   const [loading, setLoading] = useState(true);
   const [showAddExpenseModal, setShowAddExpenseModal] = useState(false);
   const [showEditExpenseModal, setShowEditExpenseModal] = useState(false);
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
-  const [stats, setStats] = useState({
+  const [stats, setStats] = useState<{
+    totalGroups: number;
+    totalExpenses: CurrencyTotals;
+    totalOwed: CurrencyTotals;
+    totalOwing: CurrencyTotals;
+  }>({
     totalGroups: 0,
-    totalExpenses: 0,
-    totalOwed: 0,
-    totalOwing: 0,
+    totalExpenses: {},
+    totalOwed: {},
+    totalOwing: {},
   });
 
   useEffect(() => {
@@ -73,38 +98,25 @@ const Dashboard: React.FC = () => {
       const userSettlements = await settlementsApi.getUserSettlements();
       setSettlements(userSettlements.settlements);
 
-      // Calculate stats
-      const totalExpenses = allExpenses.reduce(
-        (sum, expense) => sum + expense.amount,
-        0
+      // This month's budgets across the user's groups
+      try {
+        setBudgetGroups(await budgetsApi.getUserBudgets());
+      } catch (error) {
+        console.error("Error fetching budgets:", error);
+      }
+
+      // Calculate stats, per currency since amounts in different
+      // currencies can't be added up
+      const totalExpenses = uniqueExpenses.reduce<CurrencyTotals>(
+        (totals, expense) => ({
+          ...totals,
+          [expense.currency]: (totals[expense.currency] || 0) + expense.amount,
+        }),
+        {}
       );
 
-      // Calculate what user is owed (money others owe to user)
-      const totalOwed = allExpenses.reduce((sum, expense) => {
-        // If user paid for this expense, they are owed money from others
-        if (expense.paidBy._id === user?._id) {
-          const unpaidSplits = expense.splits.filter((split) => !split.isPaid);
-          return (
-            sum +
-            unpaidSplits.reduce((splitSum, split) => splitSum + split.amount, 0)
-          );
-        }
-        return sum;
-      }, 0);
-
-      // Calculate what user owes (money user owes to others)
-      const totalOwing = allExpenses.reduce((sum, expense) => {
-        // If user didn't pay for this expense, they might owe money
-        if (expense.paidBy._id !== user?._id) {
-          const userSplit = expense.splits.find(
-            (split) => split.user._id === user?._id
-          );
-          if (userSplit && !userSplit.isPaid) {
-            return sum + userSplit.amount;
-          }
-        }
-        return sum;
-      }, 0);
+      // What the user is owed and owes, with co-payers credited their share
+      const { totalOwed, totalOwing } = await expensesApi.getUserBalances();
 
       setStats({
         totalGroups: userGroups.length,
@@ -133,10 +145,10 @@ const Dashboard: React.FC = () => {
   };
 
   const handleDeleteExpense = async (expenseId: string) => {
-    if (window.confirm("Are you sure you want to delete this expense?")) {
+    if (window.confirm("Move this expense to the trash?")) {
       try {
         await expensesApi.deleteExpense(expenseId);
-        toast.success("Expense deleted successfully");
+        toast.success("Expense moved to the trash");
         fetchDashboardData(); // Reload data
       } catch (error: any) {
         console.error("Delete expense error:", error);
@@ -227,9 +239,11 @@ const Dashboard: React.FC = () => {
               <p className="text-sm font-medium text-gray-600">
                 Total Expenses
               </p>
-              <p className="text-2xl font-bold text-gray-900">
-                {formatCurrency(stats.totalExpenses)}
-              </p>
+              {formatCurrencyTotals(stats.totalExpenses).map((total) => (
+                <p key={total} className="text-2xl font-bold text-gray-900">
+                  {total}
+                </p>
+              ))}
             </div>
           </div>
         </div>
@@ -241,9 +255,11 @@ const Dashboard: React.FC = () => {
             </div>
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">You're Owed</p>
-              <p className="text-2xl font-bold text-warning-600">
-                {formatCurrency(stats.totalOwed)}
-              </p>
+              {formatCurrencyTotals(stats.totalOwed).map((total) => (
+                <p key={total} className="text-2xl font-bold text-warning-600">
+                  {total}
+                </p>
+              ))}
             </div>
           </div>
         </div>
@@ -255,9 +271,11 @@ const Dashboard: React.FC = () => {
             </div>
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">You Owe</p>
-              <p className="text-2xl font-bold text-danger-600">
-                {formatCurrency(stats.totalOwing)}
-              </p>
+              {formatCurrencyTotals(stats.totalOwing).map((total) => (
+                <p key={total} className="text-2xl font-bold text-danger-600">
+                  {total}
+                </p>
+              ))}
             </div>
           </div>
         </div>
@@ -350,9 +368,17 @@ const Dashboard: React.FC = () => {
                     (split) => split.user._id === user?._id
                   );
                   const allSplits = expense.splits;
-                  const isUserPayer = expense.paidBy._id === user?._id;
+                  const userContribution =
+                    expense.paidByMultiple && expense.paidByMultiple.length > 0
+                      ? expense.paidByMultiple.find(
+                          (payer) => payer.user._id === user?._id
+                        )?.amount
+                      : expense.paidBy._id === user?._id
+                      ? expense.amount
+                      : undefined;
+                  const isUserPayer = userContribution !== undefined;
                   const userOweAmount = userSplit?.amount || 0;
-                  const userPaidAmount = isUserPayer ? expense.amount : 0;
+                  const userPaidAmount = userContribution || 0;
 
                   return (
                     <div
@@ -381,10 +407,15 @@ const Dashboard: React.FC = () => {
                         <div className="flex items-center space-x-3">
                           <div className="text-right">
                             <p className="font-medium text-gray-900">
-                              {formatCurrency(expense.amount)}
+                              {formatCurrency(expense.amount, expense.currency)}
                             </p>
-                            <p className="text-xs text-gray-500 capitalize">
-                              {expense.category}
+                            {formatOriginalAmount(expense) && (
+                              <p className="text-xs text-gray-500">
+                                paid {formatOriginalAmount(expense)}
+                              </p>
+                            )}
+                            <p className="text-xs text-gray-500">
+                              {categoryLabel(expense.category)}
                             </p>
                           </div>
                           <div className="flex space-x-1">
@@ -433,7 +464,11 @@ const Dashboard: React.FC = () => {
                                     className="text-xs text-gray-500"
                                   >
                                     {payer.user.firstName} {payer.user.lastName}
-                                    : {formatCurrency(payer.amount)}
+                                    :{" "}
+                                    {formatCurrency(
+                                      payer.amount,
+                                      expense.currency
+                                    )}
                                   </div>
                                 ))}
                               </div>
@@ -450,14 +485,20 @@ const Dashboard: React.FC = () => {
                               <div className="flex items-center justify-between">
                                 <span className="text-green-600">You paid</span>
                                 <span className="font-medium text-green-600">
-                                  {formatCurrency(userPaidAmount)}
+                                  {formatCurrency(
+                                    userPaidAmount,
+                                    expense.currency
+                                  )}
                                 </span>
                               </div>
                             ) : (
                               <div className="flex items-center justify-between">
                                 <span className="text-orange-600">You owe</span>
                                 <span className="font-medium text-orange-600">
-                                  {formatCurrency(userOweAmount)}
+                                  {formatCurrency(
+                                    userOweAmount,
+                                    expense.currency
+                                  )}
                                 </span>
                               </div>
                             )}
@@ -493,7 +534,12 @@ const Dashboard: React.FC = () => {
                                   {split.user.firstName} {split.user.lastName}
                                 </span>
                                 <span className="text-gray-500">
-                                  ({formatCurrency(split.amount)})
+                                  (
+                                  {formatCurrency(
+                                    split.amount,
+                                    expense.currency
+                                  )}
+                                  )
                                 </span>
                                 <span
                                   className={`w-2 h-2 rounded-full ${
@@ -516,6 +562,38 @@ const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Budgets */}
+      {budgetGroups.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border">
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">
+              Budgets this month
+            </h2>
+          </div>
+          <div className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {budgetGroups.map(({ group, budgets }) => (
+              <div key={group._id}>
+                <Link
+                  to={`/groups/${group._id}`}
+                  className="block font-medium text-gray-700 hover:text-blue-600 mb-3"
+                >
+                  {group.name}
+                </Link>
+                <div className="space-y-4">
+                  {budgets.map((budget) => (
+                    <BudgetProgressBar
+                      key={budget._id}
+                      budget={budget}
+                      currency={group.currency}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Pending Settlements */}
       {settlements.length > 0 && (
         <div className="bg-white rounded-lg shadow-sm border">
@@ -548,7 +626,7 @@ const Dashboard: React.FC = () => {
                   </div>
                   <div className="text-right">
                     <p className="font-medium text-gray-900">
-                      {formatCurrency(settlement.amount)}
+                      {formatCurrency(settlement.amount, settlement.currency)}
                     </p>
                     <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-warning-100 text-warning-800">
                       Pending
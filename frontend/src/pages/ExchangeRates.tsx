@@ -0,0 +1,324 @@
+import React, { useState, useEffect } from "react";
+import { Plus, Trash2, Upload } from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import { exchangeRatesApi } from "../services/api";
+import { ExchangeRate, ExchangeRateImportResult } from "../types";
+import { CURRENCIES } from "../utils/currency";
+import toast from "react-hot-toast";
+
+const ExchangeRates: React.FC = () => {
+  const { user } = useAuth();
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importResult, setImportResult] =
+    useState<ExchangeRateImportResult | null>(null);
+  const [newRate, setNewRate] = useState({
+    base: "USD",
+    quote: "LKR",
+    rate: "",
+    date: new Date().toISOString().slice(0, 10),
+  });
+
+  useEffect(() => {
+    fetchRates();
+  }, []);
+
+  const fetchRates = async () => {
+    try {
+      setLoading(true);
+      const data = await exchangeRatesApi.getRates();
+      setRates(data);
+    } catch (error) {
+      console.error("Error fetching exchange rates:", error);
+      toast.error("Failed to load exchange rates");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreateRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const rate = parseFloat(newRate.rate);
+    if (isNaN(rate) || rate <= 0) {
+      toast.error("Please enter a valid rate");
+      return;
+    }
+
+    if (newRate.base === newRate.quote) {
+      toast.error("Choose two different currencies");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await exchangeRatesApi.createRate({ ...newRate, rate });
+      toast.success("Exchange rate saved!");
+      setNewRate((prev) => ({ ...prev, rate: "" }));
+      await fetchRates();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to save rate");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!importFile) return;
+
+    try {
+      setImporting(true);
+      const result = await exchangeRatesApi.importRates(importFile);
+      setImportResult(result);
+      toast.success(`Imported ${result.imported} rates`);
+      setImportFile(null);
+      await fetchRates();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to import rates");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDeleteRate = async (rateId: string) => {
+    if (!window.confirm("Are you sure you want to delete this rate?")) {
+      return;
+    }
+
+    try {
+      await exchangeRatesApi.deleteRate(rateId);
+      setRates((prev) => prev.filter((rate) => rate._id !== rateId));
+      toast.success("Exchange rate deleted");
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to delete rate");
+    }
+  };
+
+  if (!user?.isAdmin) {
+    return (
+      <div className="px-4 py-6">
+        <h1 className="text-3xl font-bold text-gray-900">Exchange Rates</h1>
+        <p className="text-gray-600 mt-2">
+          Only administrators can manage exchange rates.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-4 py-6">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Exchange Rates</h1>
+        <p className="text-gray-600 mt-1">
+          Rates used to convert foreign-currency expenses into group currencies
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+        {/* Add Rate */}
+        <form
+          onSubmit={handleCreateRate}
+          className="bg-white p-6 rounded-lg shadow-sm border space-y-4"
+        >
+          <h2 className="text-lg font-semibold text-gray-900">Add Rate</h2>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor="base"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                From
+              </label>
+              <select
+                id="base"
+                value={newRate.base}
+                onChange={(e) =>
+                  setNewRate({ ...newRate, base: e.target.value })
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {CURRENCIES.map((currency) => (
+                  <option key={currency.value} value={currency.value}>
+                    {currency.value}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label
+                htmlFor="quote"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                To
+              </label>
+              <select
+                id="quote"
+                value={newRate.quote}
+                onChange={(e) =>
+                  setNewRate({ ...newRate, quote: e.target.value })
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {CURRENCIES.map((currency) => (
+                  <option key={currency.value} value={currency.value}>
+                    {currency.value}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label
+                htmlFor="rate"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Rate (1 {newRate.base} = ? {newRate.quote})
+              </label>
+              <input
+                type="number"
+                id="rate"
+                value={newRate.rate}
+                onChange={(e) =>
+                  setNewRate({ ...newRate, rate: e.target.value })
+                }
+                step="any"
+                min="0"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="date"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Effective from
+              </label>
+              <input
+                type="date"
+                id="date"
+                value={newRate.date}
+                onChange={(e) =>
+                  setNewRate({ ...newRate, date: e.target.value })
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                required
+              />
+            </div>
+          </div>
+          <button
+            type="submit"
+            disabled={saving}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus className="h-4 w-4" />
+            <span>{saving ? "Saving..." : "Save Rate"}</span>
+          </button>
+        </form>
+
+        {/* CSV Import */}
+        <div className="bg-white p-6 rounded-lg shadow-sm border space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">Import CSV</h2>
+          <p className="text-sm text-gray-600">
+            Upload a CSV with <code>date</code>, <code>base</code>,{" "}
+            <code>quote</code> and <code>rate</code> columns. Rows for a pair
+            and day that already exist are replaced.
+          </p>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => setImportFile(e.target.files?.[0] || null)}
+            className="block w-full text-sm text-gray-700"
+          />
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={!importFile || importing}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Upload className="h-4 w-4" />
+            <span>{importing ? "Importing..." : "Import"}</span>
+          </button>
+          {importResult && importResult.errors.length > 0 && (
+            <div className="p-3 bg-red-50 rounded-lg text-sm text-red-700 space-y-1">
+              <p className="font-medium">
+                {importResult.errors.length} row
+                {importResult.errors.length !== 1 ? "s were" : " was"} skipped:
+              </p>
+              {importResult.errors.map((error) => (
+                <p key={error.row}>
+                  Row {error.row}: {error.message}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Rates */}
+      <div className="bg-white rounded-lg shadow-sm border">
+        {loading ? (
+          <div className="p-6 animate-pulse space-y-3">
+            <div className="h-6 bg-gray-200 rounded"></div>
+            <div className="h-6 bg-gray-200 rounded"></div>
+          </div>
+        ) : rates.length > 0 ? (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Date
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Pair
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                  Rate
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Source
+                </th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rates.map((rate) => (
+                <tr key={rate._id}>
+                  <td className="px-6 py-3 text-sm text-gray-700">
+                    {new Date(rate.date).toLocaleDateString()}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-900">
+                    {rate.base} → {rate.quote}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-900 text-right">
+                    {rate.rate}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-500 capitalize">
+                    {rate.source}
+                  </td>
+                  <td className="px-6 py-3 text-right">
+                    <button
+                      onClick={() => handleDeleteRate(rate._id)}
+                      className="text-red-500 hover:text-red-700 transition-colors"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="text-center py-12 text-gray-500">
+            <p>No exchange rates yet.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExchangeRates;
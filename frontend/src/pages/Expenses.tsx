@@ -10,14 +10,18 @@ import {
   DollarSign,
   Calendar,
   Tag,
+  BookOpen,
 } from "lucide-react";
 import { useAuth } from "../contexts/AuthContext";
 import { expensesApi, groupsApi } from "../services/api";
 import { Expense, Group } from "../types";
-import { formatCurrency } from "../utils/currency";
+import { formatCurrency, formatOriginalAmount } from "../utils/currency";
 import toast from "react-hot-toast";
 import AddExpenseModal from "../components/AddExpenseModal";
 import EditExpenseModal from "../components/EditExpenseModal";
+import HighlightedText from "../components/HighlightedText";
+import JournalExportModal from "../components/JournalExportModal";
+import { SEARCH_HINT } from "../utils/search";
 
 const Expenses: React.FC = () => {
   const { user } = useAuth();
@@ -26,20 +30,29 @@ const Expenses: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [selectedGroup, setSelectedGroup] = useState<string>("");
   const [searchTerm, setSearchTerm] = useState("");
+  // The search last submitted, which the server filters by
+  const [searchQuery, setSearchQuery] = useState("");
+  // Terms the server matched, to highlight
+  const [matchedTerms, setMatchedTerms] = useState<string[]>([]);
   const [showAddExpenseModal, setShowAddExpenseModal] = useState(false);
   const [showEditExpenseModal, setShowEditExpenseModal] = useState(false);
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  const [showJournalModal, setShowJournalModal] = useState(false);
 
   useEffect(() => {
     fetchExpenses();
     fetchGroups();
-  }, [selectedGroup]);
+  }, [selectedGroup, searchQuery]);
 
   const fetchExpenses = async () => {
     try {
       setLoading(true);
       const params: any = {};
-      if (selectedGroup) params.groupId = selectedGroup;
+      // Non-group expenses are picked out below
+      if (selectedGroup && selectedGroup !== "no-group") {
+        params.groupId = selectedGroup;
+      }
+      if (searchQuery) params.q = searchQuery;
 
       const response = await expensesApi.getUserExpenses(params);
 
@@ -54,6 +67,7 @@ const Expenses: React.FC = () => {
       );
 
       setExpenses(sortedExpenses);
+      setMatchedTerms(response.search?.terms || []);
     } catch (error) {
       console.error("Error fetching expenses:", error);
       toast.error("Failed to load expenses");
@@ -71,28 +85,6 @@ const Expenses: React.FC = () => {
     }
   };
 
-  const getCategoryIcon = (category: string) => {
-    switch (category) {
-      case "food":
-        return "🍽️";
-      case "transport":
-        return "🚗";
-      case "entertainment":
-        return "🎬";
-      case "shopping":
-        return "🛍️";
-      case "utilities":
-        return "⚡";
-      case "health":
-        return "🏥";
-      case "travel":
-        return "✈️";
-      case "other":
-        return "📝";
-      default:
-        return "📝";
-    }
-  };
 
   const getSplitTypeColor = (splitType: string) => {
     switch (splitType) {
@@ -100,6 +92,12 @@ const Expenses: React.FC = () => {
         return "bg-blue-100 text-blue-800";
       case "percentage":
         return "bg-green-100 text-green-800";
+      case "shares":
+        return "bg-yellow-100 text-yellow-800";
+      case "adjustment":
+        return "bg-orange-100 text-orange-800";
+      case "itemized":
+        return "bg-pink-100 text-pink-800";
       case "custom":
         return "bg-purple-100 text-purple-800";
       default:
@@ -121,10 +119,10 @@ const Expenses: React.FC = () => {
   };
 
   const handleDeleteExpense = async (expenseId: string) => {
-    if (window.confirm("Are you sure you want to delete this expense?")) {
+    if (window.confirm("Move this expense to the trash?")) {
       try {
         await expensesApi.deleteExpense(expenseId);
-        toast.success("Expense deleted successfully");
+        toast.success("Expense moved to the trash");
         fetchExpenses(); // Reload data
       } catch (error: any) {
         console.error("Delete expense error:", error);
@@ -139,6 +137,11 @@ const Expenses: React.FC = () => {
     fetchExpenses(); // Reload data to show the updated expense
   };
 
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearchQuery(searchTerm.trim());
+  };
+
   const filteredExpenses = expenses.filter((expense) => {
     // Filter by group
     if (selectedGroup === "no-group") {
@@ -157,11 +160,7 @@ const Expenses: React.FC = () => {
       }
     }
 
-    // Filter by search term
-    return (
-      expense.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      expense.category.toLowerCase().includes(searchTerm.toLowerCase())
-    );
+    return true;
   });
 
   if (loading) {
@@ -197,6 +196,13 @@ const Expenses: React.FC = () => {
             </p>
           </div>
           <div className="flex space-x-3">
+            <button
+              onClick={() => setShowJournalModal(true)}
+              className="px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+            >
+              <BookOpen className="h-4 w-4" />
+              <span>Export Journal</span>
+            </button>
             <button
               onClick={() => setShowAddExpenseModal(true)}
               className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors flex items-center space-x-2"
@@ -309,16 +315,17 @@ const Expenses: React.FC = () => {
             ))}
           </select>
 
-          <div className="relative">
+          <form onSubmit={handleSearch} className="relative">
             <Search className="h-5 w-5 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
             <input
               type="text"
               placeholder="Search expenses..."
+              title={SEARCH_HINT}
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
             />
-          </div>
+          </form>
         </div>
       </div>
 
@@ -355,11 +362,14 @@ const Expenses: React.FC = () => {
                   <div className="flex items-center justify-between mb-4">
                     <div className="flex items-center space-x-4">
                       <div className="text-2xl">
-                        {getCategoryIcon(expense.category)}
+                        {expense.category?.icon || "💰"}
                       </div>
                       <div>
                         <p className="font-medium text-gray-900">
-                          {expense.description}
+                          <HighlightedText
+                            text={expense.description}
+                            terms={matchedTerms}
+                          />
                         </p>
                         <div className="flex items-center space-x-4 text-sm text-gray-500">
                           <span className="flex items-center space-x-1">
@@ -376,10 +386,11 @@ const Expenses: React.FC = () => {
                             <span>{formatDate(expense.date)}</span>
                           </span>
                           <span className="flex items-center space-x-1">
-                            <Tag className="h-4 w-4" />
-                            <span className="capitalize">
-                              {expense.category}
-                            </span>
+                            <Tag
+                              className="h-4 w-4"
+                              style={{ color: expense.category?.color }}
+                            />
+                            <span>{expense.category?.name || "Other"}</span>
                           </span>
                         </div>
                       </div>
@@ -388,8 +399,13 @@ const Expenses: React.FC = () => {
                     <div className="flex items-center space-x-4">
                       <div className="text-right">
                         <p className="text-lg font-semibold text-gray-900">
-                          {formatCurrency(expense.amount)}
+                          {formatCurrency(expense.amount, expense.currency)}
                         </p>
+                        {formatOriginalAmount(expense) && (
+                          <p className="text-xs text-gray-500">
+                            paid {formatOriginalAmount(expense)}
+                          </p>
+                        )}
                         <span
                           className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getSplitTypeColor(
                             expense.splitType
@@ -442,7 +458,7 @@ const Expenses: React.FC = () => {
                                 className="text-xs text-gray-500"
                               >
                                 {payer.user.firstName} {payer.user.lastName}:{" "}
-                                {formatCurrency(payer.amount)}
+                                {formatCurrency(payer.amount, expense.currency)}
                               </div>
                             ))}
                           </div>
@@ -459,14 +475,14 @@ const Expenses: React.FC = () => {
                           <div className="flex items-center justify-between">
                             <span className="text-green-600">You paid</span>
                             <span className="font-medium text-green-600">
-                              {formatCurrency(userPaidAmount)}
+                              {formatCurrency(userPaidAmount, expense.currency)}
                             </span>
                           </div>
                         ) : (
                           <div className="flex items-center justify-between">
                             <span className="text-orange-600">You owe</span>
                             <span className="font-medium text-orange-600">
-                              {formatCurrency(userOweAmount)}
+                              {formatCurrency(userOweAmount, expense.currency)}
                             </span>
                           </div>
                         )}
@@ -502,7 +518,10 @@ const Expenses: React.FC = () => {
                               </span>
                               <div className="flex items-center space-x-1">
                                 <span className="text-gray-500">
-                                  {formatCurrency(split.amount)}
+                                  {formatCurrency(
+                                    split.amount,
+                                    expense.currency
+                                  )}
                                 </span>
                                 <span
                                   className={`w-2 h-2 rounded-full ${
@@ -556,6 +575,13 @@ const Expenses: React.FC = () => {
           onExpenseUpdated={handleExpenseUpdated}
         />
       )}
+
+      {/* Journal Export Modal */}
+      <JournalExportModal
+        isOpen={showJournalModal}
+        onClose={() => setShowJournalModal(false)}
+        groups={groups}
+      />
     </div>
   );
 };
@@ -2,11 +2,21 @@ import React, { useState, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
 import { groupsApi, expensesApi, settlementsApi } from "../services/api";
-import { Group, Expense, Settlement } from "../types";
+import { Group, Expense, Settlement, GroupBalances, User } from "../types";
+import { formatCurrency, formatOriginalAmount } from "../utils/currency";
 import toast from "react-hot-toast";
 import AddExpenseModal from "../components/AddExpenseModal";
 import InviteMemberModal from "../components/InviteMemberModal";
 import EditGroupModal from "../components/EditGroupModal";
+import GroupBalancesPanel from "../components/GroupBalancesPanel";
+import RecurringExpensesPanel from "../components/RecurringExpensesPanel";
+import BudgetsPanel from "../components/BudgetsPanel";
+import SettlementPlanModal from "../components/SettlementPlanModal";
+import TrashModal from "../components/TrashModal";
+import CategoriesModal from "../components/CategoriesModal";
+import ExportModal from "../components/ExportModal";
+import ClaimGuestModal from "../components/ClaimGuestModal";
+import LeaveGroupModal from "../components/LeaveGroupModal";
 
 const GroupDetail: React.FC = () => {
   const { groupId } = useParams<{ groupId: string }>();
@@ -17,11 +27,19 @@ const GroupDetail: React.FC = () => {
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [settlements, setSettlements] = useState<Settlement[]>([]);
   const [summary, setSummary] = useState<any>(null);
+  const [balances, setBalances] = useState<GroupBalances | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showAddExpenseModal, setShowAddExpenseModal] = useState(false);
   const [showInviteMemberModal, setShowInviteMemberModal] = useState(false);
   const [showEditGroupModal, setShowEditGroupModal] = useState(false);
+  const [showSettlementPlanModal, setShowSettlementPlanModal] =
+    useState(false);
+  const [showTrashModal, setShowTrashModal] = useState(false);
+  const [showCategoriesModal, setShowCategoriesModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [claimingGuest, setClaimingGuest] = useState<User | null>(null);
+  const [showLeaveGroupModal, setShowLeaveGroupModal] = useState(false);
 
   useEffect(() => {
     if (groupId) {
@@ -36,14 +54,20 @@ const GroupDetail: React.FC = () => {
       setLoading(true);
       setError(null);
 
-      // Load group data, expenses, settlements, and summary in parallel
-      const [groupData, expensesData, settlementsData, summaryData] =
-        await Promise.all([
-          groupsApi.getGroup(groupId),
-          expensesApi.getGroupExpenses(groupId, { limit: 10 }),
-          settlementsApi.getGroupSettlements(groupId),
-          expensesApi.getExpenseSummary(groupId),
-        ]);
+      // Load group data, expenses, settlements, summary and balances in parallel
+      const [
+        groupData,
+        expensesData,
+        settlementsData,
+        summaryData,
+        balancesData,
+      ] = await Promise.all([
+        groupsApi.getGroup(groupId),
+        expensesApi.getGroupExpenses(groupId, { limit: 10 }),
+        settlementsApi.getGroupSettlements(groupId),
+        expensesApi.getExpenseSummary(groupId),
+        groupsApi.getGroupBalances(groupId),
+      ]);
 
       setGroup(groupData);
 
@@ -60,6 +84,7 @@ const GroupDetail: React.FC = () => {
 
       setSettlements(settlementsData.settlements || []);
       setSummary(summaryData);
+      setBalances(balancesData);
     } catch (err: any) {
       setError(err.response?.data?.message || "Failed to load group data");
       toast.error("Failed to load group data");
@@ -133,6 +158,44 @@ const GroupDetail: React.FC = () => {
     (member) => member.user._id === user?._id && member.role === "admin"
   );
 
+  const netBalanceOf = (userId?: string) =>
+    balances?.balances.find((balance) => balance.user._id === userId)?.net ||
+    0;
+
+  const handleMakeAdmin = async (member: User) => {
+    try {
+      await groupsApi.changeMemberRole(group._id, member._id, "admin");
+      toast.success(`${member.firstName} is now an admin`);
+      loadGroupData();
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || "Failed to change role");
+    }
+  };
+
+  // Members with an outstanding balance can only be removed by writing it
+  // off, so nobody's debts are silently dropped
+  const handleRemoveMember = async (member: User) => {
+    const name = `${member.firstName} ${member.lastName}`.trim();
+    const balance = netBalanceOf(member._id);
+    const confirmed = window.confirm(
+      balance === 0
+        ? `Remove ${name} from the group?`
+        : `${name} ${balance > 0 ? "is owed" : "owes"} ${formatCurrency(
+            Math.abs(balance),
+            group.currency
+          )} in this group. Remove them anyway and write off their balance?`
+    );
+    if (!confirmed) return;
+
+    try {
+      await groupsApi.removeMember(group._id, member._id, balance !== 0);
+      toast.success(`${name} was removed from the group`);
+      loadGroupData();
+    } catch (err: any) {
+      toast.error(err.response?.data?.message || "Failed to remove member");
+    }
+  };
+
   return (
     <div className="px-4 py-6 max-w-6xl mx-auto">
       {/* Group Header */}
@@ -162,6 +225,44 @@ const GroupDetail: React.FC = () => {
                 Edit Group
               </button>
             )}
+            {isAdmin && (
+              <button
+                onClick={() => navigate(`/groups/${groupId}/import`)}
+                className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Import
+              </button>
+            )}
+            <button
+              onClick={() => setShowCategoriesModal(true)}
+              className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Categories
+            </button>
+            <button
+              onClick={() => setShowTrashModal(true)}
+              className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Trash
+            </button>
+            <button
+              onClick={() => setShowExportModal(true)}
+              className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Export
+            </button>
+            <button
+              onClick={() => setShowSettlementPlanModal(true)}
+              className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Settle Up
+            </button>
+            <button
+              onClick={() => setShowLeaveGroupModal(true)}
+              className="bg-gray-100 text-red-600 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Leave
+            </button>
             <button
               onClick={handleAddExpense}
               className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
@@ -184,13 +285,13 @@ const GroupDetail: React.FC = () => {
               <div className="grid grid-cols-2 gap-4">
                 <div className="text-center p-4 bg-blue-50 rounded-lg">
                   <div className="text-2xl font-bold text-blue-600">
-                    {group.currency} {summary.totalSpent?.toFixed(2) || "0.00"}
+                    {formatCurrency(summary.totalSpent || 0, group.currency)}
                   </div>
                   <div className="text-sm text-gray-600">Total Spent</div>
                 </div>
                 <div className="text-center p-4 bg-green-50 rounded-lg">
                   <div className="text-2xl font-bold text-green-600">
-                    {group.currency} {summary.totalOwed?.toFixed(2) || "0.00"}
+                    {formatCurrency(summary.totalOwed || 0, group.currency)}
                   </div>
                   <div className="text-sm text-gray-600">Total Owed</div>
                 </div>
@@ -198,6 +299,11 @@ const GroupDetail: React.FC = () => {
             </div>
           )}
 
+          {/* Balances */}
+          {balances && (
+            <GroupBalancesPanel balances={balances} currentUserId={user?._id} />
+          )}
+
           {/* Recent Expenses */}
           <div className="bg-white rounded-lg shadow-sm border p-6">
             <div className="flex justify-between items-center mb-4">
@@ -229,8 +335,13 @@ const GroupDetail: React.FC = () => {
                     </div>
                     <div className="text-right">
                       <div className="font-semibold text-gray-900">
-                        {expense.currency} {expense.amount.toFixed(2)}
+                        {formatCurrency(expense.amount, expense.currency)}
                       </div>
+                      {formatOriginalAmount(expense) && (
+                        <div className="text-xs text-gray-500">
+                          paid {formatOriginalAmount(expense)}
+                        </div>
+                      )}
                       <div className="text-sm text-gray-500">
                         {new Date(expense.date).toLocaleDateString()}
                       </div>
@@ -277,10 +388,47 @@ const GroupDetail: React.FC = () => {
                     <div>
                       <div className="font-medium text-gray-900">
                         {member.user.firstName} {member.user.lastName}
+                        {member.user.status === "pending" && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                            Pending
+                          </span>
+                        )}
+                        {member.user.status === "placeholder" && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                            Guest
+                          </span>
+                        )}
                       </div>
                       <div className="text-sm text-gray-500">
                         {member.user.email}
                       </div>
+                      {isAdmin && member.user._id !== user?._id && (
+                        <div className="flex space-x-3">
+                          {member.user.status === "placeholder" && (
+                            <button
+                              onClick={() => setClaimingGuest(member.user)}
+                              className="text-xs text-blue-600 hover:text-blue-700"
+                            >
+                              Claim
+                            </button>
+                          )}
+                          {member.role === "member" &&
+                            (member.user.status || "active") === "active" && (
+                              <button
+                                onClick={() => handleMakeAdmin(member.user)}
+                                className="text-xs text-blue-600 hover:text-blue-700"
+                              >
+                                Make admin
+                              </button>
+                            )}
+                          <button
+                            onClick={() => handleRemoveMember(member.user)}
+                            className="text-xs text-red-600 hover:text-red-700"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      )}
                     </div>
                   </div>
                   <span
@@ -297,6 +445,19 @@ const GroupDetail: React.FC = () => {
             </div>
           </div>
 
+          {/* Budgets */}
+          <BudgetsPanel
+            group={group}
+            isAdmin={Boolean(isAdmin)}
+            refreshKey={expenses}
+          />
+
+          {/* Recurring expenses */}
+          <RecurringExpensesPanel
+            group={group}
+            onExpensesChanged={loadGroupData}
+          />
+
           {/* Settlements */}
           {settlements.length > 0 && (
             <div className="bg-white rounded-lg shadow-sm border p-6">
@@ -314,7 +475,7 @@ const GroupDetail: React.FC = () => {
                       {settlement.toUser.firstName}
                     </div>
                     <div className="font-semibold text-gray-900">
-                      {settlement.currency} {settlement.amount.toFixed(2)}
+                      {formatCurrency(settlement.amount, settlement.currency)}
                     </div>
                   </div>
                 ))}
@@ -353,6 +514,47 @@ const GroupDetail: React.FC = () => {
             group={group}
             onGroupUpdated={handleGroupUpdated}
           />
+          <SettlementPlanModal
+            isOpen={showSettlementPlanModal}
+            onClose={() => setShowSettlementPlanModal(false)}
+            group={group}
+            onPlanCommitted={loadGroupData}
+          />
+          <TrashModal
+            isOpen={showTrashModal}
+            onClose={() => setShowTrashModal(false)}
+            group={group}
+            isAdmin={Boolean(isAdmin)}
+            currentUserId={user?._id}
+            onRestored={loadGroupData}
+          />
+          <CategoriesModal
+            isOpen={showCategoriesModal}
+            onClose={() => setShowCategoriesModal(false)}
+            group={group}
+            isAdmin={Boolean(isAdmin)}
+            onChanged={loadGroupData}
+          />
+          <ExportModal
+            isOpen={showExportModal}
+            onClose={() => setShowExportModal(false)}
+            group={group}
+          />
+          <LeaveGroupModal
+            isOpen={showLeaveGroupModal}
+            onClose={() => setShowLeaveGroupModal(false)}
+            group={group}
+            currentUserId={user?._id}
+            balance={netBalanceOf(user?._id)}
+            onLeft={() => navigate("/groups")}
+          />
+          <ClaimGuestModal
+            isOpen={Boolean(claimingGuest)}
+            onClose={() => setClaimingGuest(null)}
+            group={group}
+            guest={claimingGuest}
+            onClaimed={loadGroupData}
+          />
         </>
       )}
     </div>
@@ -9,14 +9,19 @@ import {
   DollarSign,
   Edit,
   Trash2,
+  MessageCircle,
 } from "lucide-react";
 import { useAuth } from "../contexts/AuthContext";
-import { groupsApi, expensesApi } from "../services/api";
-import { Group, Expense } from "../types";
-import { formatCurrency } from "../utils/currency";
+import { groupsApi, expensesApi, categoriesApi } from "../services/api";
+import { Group, Expense, Category } from "../types";
+import { formatCurrency, formatOriginalAmount } from "../utils/currency";
+import { categoryOptionLabel, nestCategories } from "../utils/categories";
 import toast from "react-hot-toast";
 import AddExpenseModal from "../components/AddExpenseModal";
 import EditExpenseModal from "../components/EditExpenseModal";
+import CommentThread from "../components/CommentThread";
+import HighlightedText from "../components/HighlightedText";
+import { SEARCH_HINT } from "../utils/search";
 
 const GroupExpenses: React.FC = () => {
   const { groupId } = useParams<{ groupId: string }>();
@@ -30,9 +35,14 @@ const GroupExpenses: React.FC = () => {
   const [showAddExpenseModal, setShowAddExpenseModal] = useState(false);
   const [showEditExpenseModal, setShowEditExpenseModal] = useState(false);
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  const [openCommentsId, setOpenCommentsId] = useState<string | null>(null);
 
   // Filtering and pagination states
   const [searchTerm, setSearchTerm] = useState("");
+  // The search last submitted, which the server filters by
+  const [searchQuery, setSearchQuery] = useState("");
+  // Terms the server matched, to highlight
+  const [matchedTerms, setMatchedTerms] = useState<string[]>([]);
   const [selectedCategory, setSelectedCategory] = useState("");
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
@@ -41,29 +51,32 @@ const GroupExpenses: React.FC = () => {
   const [totalExpenses, setTotalExpenses] = useState(0);
   const [limit] = useState(20);
 
-  const categories = [
-    "all",
-    "food",
-    "transport",
-    "entertainment",
-    "shopping",
-    "bills",
-    "other",
-  ];
+  const [categories, setCategories] = useState<Category[]>([]);
 
   useEffect(() => {
     if (groupId) {
       loadGroupData();
       loadExpenses();
     }
-  }, [groupId, currentPage, selectedCategory, startDate, endDate]);
+  }, [
+    groupId,
+    currentPage,
+    selectedCategory,
+    startDate,
+    endDate,
+    searchQuery,
+  ]);
 
   const loadGroupData = async () => {
     if (!groupId) return;
 
     try {
-      const groupData = await groupsApi.getGroup(groupId);
+      const [groupData, groupCategories] = await Promise.all([
+        groupsApi.getGroup(groupId),
+        categoriesApi.getGroupCategories(groupId),
+      ]);
       setGroup(groupData);
+      setCategories(groupCategories);
     } catch (err: any) {
       setError(err.response?.data?.message || "Failed to load group data");
       toast.error("Failed to load group data");
@@ -85,6 +98,7 @@ const GroupExpenses: React.FC = () => {
       }
       if (startDate) params.startDate = startDate;
       if (endDate) params.endDate = endDate;
+      if (searchQuery) params.q = searchQuery;
 
       const response = await expensesApi.getGroupExpenses(groupId, params);
 
@@ -99,6 +113,7 @@ const GroupExpenses: React.FC = () => {
       );
 
       setExpenses(sortedExpenses);
+      setMatchedTerms(response.search?.terms || []);
       setTotalPages(response.totalPages || 1);
       setTotalExpenses(response.total || 0);
     } catch (err: any) {
@@ -120,34 +135,18 @@ const GroupExpenses: React.FC = () => {
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     setCurrentPage(1);
-    loadExpenses();
+    setSearchQuery(searchTerm.trim());
   };
 
   const clearFilters = () => {
     setSearchTerm("");
+    setSearchQuery("");
     setSelectedCategory("");
     setStartDate("");
     setEndDate("");
     setCurrentPage(1);
   };
 
-  const getCategoryIcon = (category: string) => {
-    switch (category) {
-      case "food":
-        return "🍽️";
-      case "transport":
-        return "🚗";
-      case "entertainment":
-        return "🎬";
-      case "shopping":
-        return "🛍️";
-      case "bills":
-        return "📄";
-      default:
-        return "💰";
-    }
-  };
-
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
       month: "short",
@@ -162,10 +161,10 @@ const GroupExpenses: React.FC = () => {
   };
 
   const handleDeleteExpense = async (expenseId: string) => {
-    if (window.confirm("Are you sure you want to delete this expense?")) {
+    if (window.confirm("Move this expense to the trash?")) {
       try {
         await expensesApi.deleteExpense(expenseId);
-        toast.success("Expense deleted successfully");
+        toast.success("Expense moved to the trash");
         loadExpenses(); // Reload data
       } catch (error: any) {
         console.error("Delete expense error:", error);
@@ -180,16 +179,6 @@ const GroupExpenses: React.FC = () => {
     loadExpenses(); // Reload data to show the updated expense
   };
 
-  const filteredExpenses = expenses.filter((expense) =>
-    searchTerm
-      ? expense.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        expense.paidBy.firstName
-          .toLowerCase()
-          .includes(searchTerm.toLowerCase()) ||
-        expense.paidBy.lastName.toLowerCase().includes(searchTerm.toLowerCase())
-      : true
-  );
-
   if (loading && !group) {
     return (
       <div className="px-4 py-6">
@@ -227,6 +216,10 @@ const GroupExpenses: React.FC = () => {
     );
   }
 
+  const isAdmin = group.members.some(
+    (member) => member.user._id === user?._id && member.role === "admin"
+  );
+
   return (
     <div className="px-4 py-6 max-w-6xl mx-auto">
       {/* Header */}
@@ -279,6 +272,7 @@ const GroupExpenses: React.FC = () => {
                 className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
             </div>
+            <p className="text-xs text-gray-500 mt-1">{SEARCH_HINT}</p>
           </form>
 
           {/* Category Filter */}
@@ -288,10 +282,9 @@ const GroupExpenses: React.FC = () => {
             className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
             <option value="all">All Categories</option>
-            {categories.slice(1).map((category) => (
-              <option key={category} value={category}>
-                {getCategoryIcon(category)}{" "}
-                {category.charAt(0).toUpperCase() + category.slice(1)}
+            {nestCategories(categories).map(({ category, depth }) => (
+              <option key={category._id} value={category._id}>
+                {categoryOptionLabel(category, depth)}
               </option>
             ))}
           </select>
@@ -336,9 +329,9 @@ const GroupExpenses: React.FC = () => {
               ))}
             </div>
           </div>
-        ) : filteredExpenses.length > 0 ? (
+        ) : expenses.length > 0 ? (
           <div className="divide-y divide-gray-200">
-            {filteredExpenses.map((expense) => {
+            {expenses.map((expense) => {
               const isUserPayer = expense.paidBy._id === user?._id;
               const userSplit = expense.splits.find(
                 (split) => split.user._id === user?._id
@@ -351,11 +344,14 @@ const GroupExpenses: React.FC = () => {
                   <div className="flex items-center justify-between mb-4">
                     <div className="flex items-center space-x-4">
                       <div className="text-2xl">
-                        {getCategoryIcon(expense.category)}
+                        {expense.category?.icon || "💰"}
                       </div>
                       <div>
                         <h3 className="text-lg font-semibold text-gray-900">
-                          {expense.description}
+                          <HighlightedText
+                            text={expense.description}
+                            terms={matchedTerms}
+                          />
                         </h3>
                         <div className="flex items-center space-x-4 text-sm text-gray-500">
                           <span className="flex items-center space-x-1">
@@ -363,10 +359,11 @@ const GroupExpenses: React.FC = () => {
                             <span>{formatDate(expense.date)}</span>
                           </span>
                           <span className="flex items-center space-x-1">
-                            <Tag className="h-4 w-4" />
-                            <span className="capitalize">
-                              {expense.category}
-                            </span>
+                            <Tag
+                              className="h-4 w-4"
+                              style={{ color: expense.category?.color }}
+                            />
+                            <span>{expense.category?.name || "Other"}</span>
                           </span>
                         </div>
                       </div>
@@ -374,13 +371,37 @@ const GroupExpenses: React.FC = () => {
                     <div className="flex items-center space-x-3">
                       <div className="text-right">
                         <div className="text-2xl font-bold text-gray-900">
-                          {formatCurrency(expense.amount)}
+                          {formatCurrency(expense.amount, expense.currency)}
                         </div>
                         <div className="text-sm text-gray-500">
-                          {expense.currency}
+                          {formatOriginalAmount(expense)
+                            ? `paid ${formatOriginalAmount(expense)}`
+                            : expense.currency}
                         </div>
                       </div>
                       <div className="flex space-x-1">
+                        <button
+                          onClick={() =>
+                            setOpenCommentsId(
+                              openCommentsId === expense._id
+                                ? null
+                                : expense._id
+                            )
+                          }
+                          className={`flex items-center space-x-1 p-1 transition-colors ${
+                            openCommentsId === expense._id
+                              ? "text-blue-600"
+                              : "text-gray-400 hover:text-blue-600"
+                          }`}
+                          title="Comments"
+                        >
+                          <MessageCircle className="h-4 w-4" />
+                          {(expense.commentCount || 0) > 0 && (
+                            <span className="text-xs font-medium">
+                              {expense.commentCount}
+                            </span>
+                          )}
+                        </button>
                         <button
                           onClick={() => handleEditExpense(expense)}
                           className="p-1 text-gray-400 hover:text-blue-600 transition-colors"
@@ -422,7 +443,7 @@ const GroupExpenses: React.FC = () => {
                                 className="text-xs text-gray-500"
                               >
                                 {payer.user.firstName} {payer.user.lastName}:{" "}
-                                {formatCurrency(payer.amount)}
+                                {formatCurrency(payer.amount, expense.currency)}
                               </div>
                             ))}
                           </div>
@@ -437,14 +458,18 @@ const GroupExpenses: React.FC = () => {
                       <div className="space-y-1">
                         {isUserPayer ? (
                           <div className="text-sm text-gray-600">
-                            You paid {formatCurrency(expense.amount)}
+                            You paid{" "}
+                            {formatCurrency(expense.amount, expense.currency)}
                           </div>
                         ) : userSplit ? (
                           <div className="space-y-1">
                             <div className="flex items-center justify-between">
                               <span className="text-gray-500">You owe</span>
                               <span className="font-medium text-gray-900">
-                                {formatCurrency(userSplit.amount)}
+                                {formatCurrency(
+                                  userSplit.amount,
+                                  expense.currency
+                                )}
                               </span>
                             </div>
                             <div className="flex items-center justify-between">
@@ -492,7 +517,9 @@ const GroupExpenses: React.FC = () => {
                                 {split.user.firstName} {split.user.lastName}
                               </span>
                               <span className="text-gray-500 ml-1">
-                                ({formatCurrency(split.amount)})
+                                (
+                                {formatCurrency(split.amount, expense.currency)}
+                                )
                               </span>
                             </div>
                             <span
@@ -511,10 +538,33 @@ const GroupExpenses: React.FC = () => {
                     <div className="mt-4 pt-4 border-t border-gray-100">
                       <p className="text-sm text-gray-600">
                         <span className="font-medium">Notes:</span>{" "}
-                        {expense.notes}
+                        <HighlightedText
+                          text={expense.notes}
+                          terms={matchedTerms}
+                        />
                       </p>
                     </div>
                   )}
+
+                  {/* Comments */}
+                  {openCommentsId === expense._id && (
+                    <div className="mt-4 pt-4 border-t border-gray-100">
+                      <CommentThread
+                        expenseId={expense._id}
+                        members={group.members.map((member) => member.user)}
+                        isAdmin={isAdmin}
+                        onCountChange={(count) =>
+                          setExpenses((current) =>
+                            current.map((item) =>
+                              item._id === expense._id
+                                ? { ...item, commentCount: count }
+                                : item
+                            )
+                          )
+                        }
+                      />
+                    </div>
+                  )}
                 </div>
               );
             })}
@@ -528,7 +578,7 @@ const GroupExpenses: React.FC = () => {
               No expenses found
             </h3>
             <p className="text-gray-500 mb-6">
-              {searchTerm || selectedCategory !== "all" || startDate || endDate
+              {searchQuery || selectedCategory !== "all" || startDate || endDate
                 ? "Try adjusting your filters to see more expenses."
                 : "Get started by adding the first expense to this group."}
             </p>
@@ -7,15 +7,21 @@ import {
   Trash2,
   UserPlus,
   Calendar,
+  RotateCcw,
 } from "lucide-react";
 import { useAuth } from "../contexts/AuthContext";
 import { groupsApi, authApi } from "../services/api";
 import { Group, User } from "../types";
+import { CURRENCIES } from "../utils/currency";
+import { daysUntilPurge } from "../components/TrashModal";
 import toast from "react-hot-toast";
 
 const Groups: React.FC = () => {
   const { user } = useAuth();
   const [groups, setGroups] = useState<Group[]>([]);
+  // Trashed groups the user administers, restorable until purged
+  const [deletedGroups, setDeletedGroups] = useState<Group[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
   const [allUsers, setAllUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -33,6 +39,7 @@ const Groups: React.FC = () => {
 
   useEffect(() => {
     fetchGroups();
+    fetchDeletedGroups();
     fetchAllUsers();
   }, []);
 
@@ -49,6 +56,16 @@ const Groups: React.FC = () => {
     }
   };
 
+  const fetchDeletedGroups = async () => {
+    try {
+      const trash = await groupsApi.getDeletedGroups();
+      setDeletedGroups(trash.groups);
+      setRetentionDays(trash.retentionDays);
+    } catch (error) {
+      console.error("Error fetching deleted groups:", error);
+    }
+  };
+
   const fetchAllUsers = async () => {
     try {
       const users = await authApi.getAllUsers();
@@ -101,7 +118,7 @@ const Groups: React.FC = () => {
   const handleDeleteGroup = async (groupId: string) => {
     if (
       !window.confirm(
-        "Are you sure you want to delete this group? This action cannot be undone."
+        "Move this group to the trash? Its expenses and settlements go with it, and you can restore it from Recently deleted."
       )
     ) {
       return;
@@ -110,7 +127,39 @@ const Groups: React.FC = () => {
     try {
       await groupsApi.deleteGroup(groupId);
       setGroups(groups.filter((group) => group._id !== groupId));
-      toast.success("Group deleted successfully!");
+      fetchDeletedGroups();
+      toast.success("Group moved to the trash");
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to delete group");
+    }
+  };
+
+  const handleRestoreGroup = async (groupId: string) => {
+    try {
+      await groupsApi.restoreGroup(groupId);
+      setDeletedGroups(deletedGroups.filter((group) => group._id !== groupId));
+      await fetchGroups();
+      toast.success("Group restored");
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to restore group");
+    }
+  };
+
+  const handlePurgeGroup = async (group: Group) => {
+    if (
+      !window.confirm(
+        `Permanently delete "${group.name}" with all its expenses and settlements? This cannot be undone.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await groupsApi.purgeGroup(group._id);
+      setDeletedGroups(
+        deletedGroups.filter((deleted) => deleted._id !== group._id)
+      );
+      toast.success("Group permanently deleted");
     } catch (error: any) {
       toast.error(error.response?.data?.message || "Failed to delete group");
     }
@@ -270,6 +319,51 @@ const Groups: React.FC = () => {
         </div>
       )}
 
+      {/* Recently deleted */}
+      {deletedGroups.length > 0 && (
+        <div className="mt-10">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">
+            Recently deleted
+          </h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Deleted groups are permanently removed after {retentionDays} days.
+          </p>
+          <div className="bg-white rounded-lg shadow-sm border divide-y">
+            {deletedGroups.map((group) => (
+              <div
+                key={group._id}
+                className="flex items-center justify-between p-4"
+              >
+                <div>
+                  <div className="font-medium text-gray-900">{group.name}</div>
+                  <div className="text-sm text-gray-500">
+                    Deleted {formatDate(group.deletedAt as string)} •{" "}
+                    {daysUntilPurge(group.deletedAt as string, retentionDays)}{" "}
+                    days left
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => handleRestoreGroup(group._id)}
+                    className="flex items-center text-sm text-primary-600 hover:text-primary-700"
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Restore
+                  </button>
+                  <button
+                    onClick={() => handlePurgeGroup(group)}
+                    className="p-1 text-gray-400 hover:text-danger-600"
+                    title="Delete permanently"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Create Group Modal */}
       {showCreateModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -319,7 +413,11 @@ const Groups: React.FC = () => {
                     }
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500"
                   >
-                    <option value="LKR">LKR (Sri Lankan Rupee)</option>
+                    {CURRENCIES.map((currency) => (
+                      <option key={currency.value} value={currency.value}>
+                        {currency.label}
+                      </option>
+                    ))}
                   </select>
                 </div>
               </div>
@@ -0,0 +1,436 @@
+import React, { useState, useEffect } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { ArrowLeft, Upload } from "lucide-react";
+import { useAuth } from "../contexts/AuthContext";
+import { groupsApi, importApi } from "../services/api";
+import {
+  Group,
+  ImportField,
+  ImportFormat,
+  ImportMapping,
+  ImportPreview,
+  ImportResult,
+  ImportRow,
+} from "../types";
+import { formatCurrency } from "../utils/currency";
+import toast from "react-hot-toast";
+
+const FIELDS: { field: ImportField; label: string; required?: boolean }[] = [
+  { field: "date", label: "Date", required: true },
+  { field: "description", label: "Description", required: true },
+  { field: "amount", label: "Amount", required: true },
+  { field: "paidBy", label: "Paid by", required: true },
+  { field: "participants", label: "Split between (names separated by ;)" },
+  { field: "currency", label: "Currency" },
+  { field: "category", label: "Category" },
+  { field: "notes", label: "Notes" },
+];
+
+const STATUS_STYLES: Record<ImportRow["status"], string> = {
+  ready: "bg-green-100 text-green-800",
+  duplicate: "bg-yellow-100 text-yellow-800",
+  error: "bg-red-100 text-red-800",
+};
+
+const selectClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+// Who paid and who shares a row, as written in the file
+const describePeople = (row: ImportRow) => {
+  if (row.kind === "payment") return `${row.from} paid ${row.to}`;
+  const payers = (row.payers || []).map((payer) => payer.name).join(", ");
+  const shares = row.shares
+    ? row.shares.map((share) => share.name).join(", ")
+    : "everyone";
+  return `${payers} for ${shares}`;
+};
+
+// Wizard for importing a CSV of expenses (a Splitwise export or any
+// spreadsheet) into a group: pick the file, map its columns, match its
+// people to members, then review and import
+const ImportExpenses: React.FC = () => {
+  const { groupId } = useParams<{ groupId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+
+  const [group, setGroup] = useState<Group | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [csv, setCsv] = useState("");
+  const [format, setFormat] = useState<ImportFormat | "">("");
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [memberMap, setMemberMap] = useState<Record<string, string>>({});
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  useEffect(() => {
+    if (!groupId) return;
+    groupsApi
+      .getGroup(groupId)
+      .then(setGroup)
+      .catch(() => toast.error("Failed to load group"));
+  }, [groupId]);
+
+  // Preview again whenever the file or any choice about it changes
+  useEffect(() => {
+    if (!groupId || !csv) return;
+
+    let cancelled = false;
+    setPreviewing(true);
+    importApi
+      .previewImport(groupId, csv, {
+        format: format || undefined,
+        mapping,
+        memberMap,
+      })
+      .then((data) => {
+        if (!cancelled) setPreview(data);
+      })
+      .catch((error: any) => {
+        if (cancelled) return;
+        setPreview(null);
+        toast.error(error.response?.data?.message || "Failed to read file");
+      })
+      .finally(() => {
+        if (!cancelled) setPreviewing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [groupId, csv, format, mapping, memberMap]);
+
+  const handleFile = async (file: File | undefined) => {
+    setResult(null);
+    setPreview(null);
+    setMapping({});
+    setMemberMap({});
+    setFileName(file?.name || "");
+    setCsv(file ? await file.text() : "");
+  };
+
+  const handleImport = async () => {
+    if (!groupId || !preview) return;
+
+    try {
+      setImporting(true);
+      const data = await importApi.importExpenses(groupId, csv, {
+        format: preview.format,
+        mapping,
+        memberMap,
+        includeDuplicates,
+      });
+      setResult(data);
+      setCsv("");
+      setPreview(null);
+      toast.success(data.message);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to import");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (!group) {
+    return (
+      <div className="px-4 py-6">
+        <div className="animate-pulse h-8 bg-gray-200 rounded w-1/3"></div>
+      </div>
+    );
+  }
+
+  const isAdmin = group.members.some(
+    (member) => member.user._id === user?._id && member.role === "admin"
+  );
+  const importCount = preview
+    ? preview.summary.ready +
+      (includeDuplicates ? preview.summary.duplicates : 0)
+    : 0;
+
+  return (
+    <div className="px-4 py-6 max-w-6xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <button
+          onClick={() => navigate(`/groups/${groupId}`)}
+          className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors mb-4"
+        >
+          <ArrowLeft className="h-5 w-5" />
+          <span>Back to Group</span>
+        </button>
+        <h1 className="text-3xl font-bold text-gray-900">Import Expenses</h1>
+        <p className="text-gray-600 mt-1">
+          Bring history into {group.name} from a Splitwise export or any
+          spreadsheet saved as CSV.
+        </p>
+      </div>
+
+      {!isAdmin ? (
+        <div className="bg-white rounded-lg shadow-sm border p-6">
+          <p className="text-gray-600">
+            Only group admins can import expenses.
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Step 1: file */}
+          <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+            <h2 className="text-lg font-semibold text-gray-900">
+              1. Choose a file
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="flex items-center justify-center space-x-2 px-4 py-6 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-blue-400 text-gray-600">
+                <Upload className="h-5 w-5" />
+                <span>{fileName || "Select a CSV file"}</span>
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={(e) => handleFile(e.target.files?.[0])}
+                  className="hidden"
+                />
+              </label>
+              <div>
+                <label
+                  htmlFor="import-format"
+                  className="block text-sm font-medium text-gray-700 mb-2"
+                >
+                  Format
+                </label>
+                <select
+                  id="import-format"
+                  value={format}
+                  onChange={(e) =>
+                    setFormat(e.target.value as ImportFormat | "")
+                  }
+                  className={selectClass}
+                >
+                  <option value="">Detect automatically</option>
+                  <option value="splitwise">Splitwise export</option>
+                  <option value="generic">Spreadsheet (map columns)</option>
+                </select>
+                {preview && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Reading as{" "}
+                    {preview.format === "splitwise"
+                      ? "a Splitwise export"
+                      : "a spreadsheet"}
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Step 2: columns */}
+          {preview?.format === "generic" && (
+            <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+              <h2 className="text-lg font-semibold text-gray-900">
+                2. Match columns
+              </h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {FIELDS.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <label
+                      htmlFor={`import-${field}`}
+                      className="block text-sm font-medium text-gray-700 mb-1"
+                    >
+                      {label}
+                      {required && " *"}
+                    </label>
+                    <select
+                      id={`import-${field}`}
+                      value={preview.mapping[field] || ""}
+                      onChange={(e) =>
+                        setMapping({
+                          ...preview.mapping,
+                          [field]: e.target.value,
+                        })
+                      }
+                      className={`${selectClass} ${
+                        preview.unmapped.includes(field)
+                          ? "border-red-400"
+                          : ""
+                      }`}
+                    >
+                      <option value="">
+                        {required ? "Choose a column" : "Not in the file"}
+                      </option>
+                      {preview.headers.map((header) => (
+                        <option key={header} value={header.toLowerCase()}>
+                          {header}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Step 3: people */}
+          {preview && preview.people.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+              <h2 className="text-lg font-semibold text-gray-900">
+                3. Match people to members
+              </h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {preview.people.map((person) => (
+                  <div key={person.name}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {person.name}
+                      {!person.user && (
+                        <span className="ml-2 text-xs text-red-600">
+                          Unknown
+                        </span>
+                      )}
+                    </label>
+                    <select
+                      value={memberMap[person.name] || person.user || ""}
+                      onChange={(e) =>
+                        setMemberMap({
+                          ...memberMap,
+                          [person.name]: e.target.value,
+                        })
+                      }
+                      className={`${selectClass} ${
+                        person.user ? "" : "border-red-400"
+                      }`}
+                    >
+                      <option value="">Choose a member</option>
+                      {group.members.map((member) => (
+                        <option key={member.user._id} value={member.user._id}>
+                          {member.user.firstName} {member.user.lastName} (@
+                          {member.user.username})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Step 4: review */}
+          {preview && (
+            <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+              <div className="flex justify-between items-center">
+                <h2 className="text-lg font-semibold text-gray-900">
+                  4. Review
+                </h2>
+                <div className="text-sm text-gray-600 space-x-3">
+                  <span>{preview.summary.ready} ready</span>
+                  <span>{preview.summary.duplicates} duplicates</span>
+                  <span>{preview.summary.errors} with problems</span>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto max-h-[28rem] overflow-y-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-600">
+                    <tr>
+                      <th className="px-3 py-2">Row</th>
+                      <th className="px-3 py-2">Date</th>
+                      <th className="px-3 py-2">Description</th>
+                      <th className="px-3 py-2">Amount</th>
+                      <th className="px-3 py-2">People</th>
+                      <th className="px-3 py-2">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {preview.rows.map((row) => (
+                      <tr key={row.row}>
+                        <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          {row.date ? row.date.slice(0, 10) : "—"}
+                        </td>
+                        <td className="px-3 py-2">
+                          {row.description}
+                          {row.kind === "payment" && (
+                            <span className="ml-2 text-xs text-gray-500">
+                              (payment)
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          {row.amount !== null && row.currency
+                            ? formatCurrency(row.amount, row.currency)
+                            : "—"}
+                        </td>
+                        <td className="px-3 py-2 text-gray-600">
+                          {describePeople(row)}
+                        </td>
+                        <td className="px-3 py-2">
+                          <span
+                            className={`px-2 py-0.5 rounded-full text-xs ${
+                              STATUS_STYLES[row.status]
+                            }`}
+                          >
+                            {row.status}
+                          </span>
+                          {row.errors.length > 0 && (
+                            <p className="text-xs text-red-600 mt-1">
+                              {row.errors.join(" ")}
+                            </p>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-between items-center pt-2">
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={includeDuplicates}
+                    onChange={(e) => setIncludeDuplicates(e.target.checked)}
+                  />
+                  <span>Import duplicates anyway</span>
+                </label>
+                <button
+                  onClick={handleImport}
+                  disabled={importing || previewing || importCount === 0}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {importing ? "Importing..." : `Import ${importCount} rows`}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Result */}
+          {result && (
+            <div className="bg-white rounded-lg shadow-sm border p-6 space-y-2">
+              <h2 className="text-lg font-semibold text-gray-900">
+                {result.message}
+              </h2>
+              <p className="text-sm text-gray-600">
+                Skipped {result.skipped.duplicates} duplicates and{" "}
+                {result.skipped.errors} rows with problems.
+              </p>
+              {result.errors.length > 0 && (
+                <ul className="text-sm text-red-600 list-disc pl-5">
+                  {result.errors.map((error) => (
+                    <li key={error.row}>
+                      Row {error.row}: {error.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <button
+                onClick={() => navigate(`/groups/${groupId}`)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Back to Group
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ImportExpenses;
@@ -1,5 +1,5 @@
 import React, { useState } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { Eye, EyeOff, Mail, Lock, User } from "lucide-react";
 import { useAuth } from "../contexts/AuthContext";
@@ -15,6 +15,9 @@ const Login: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const { login } = useAuth();
   const navigate = useNavigate();
+  // Set when coming from an invite link, which is where they go back to
+  const invite = useSearchParams()[0].get("invite");
+  const inviteQuery = invite ? `?invite=${encodeURIComponent(invite)}` : "";
 
   const {
     register,
@@ -27,7 +30,9 @@ const Login: React.FC = () => {
     try {
       await login(data.email, data.password);
       toast.success("Login successful!");
-      navigate("/dashboard");
+      navigate(
+        invite ? `/invite/${encodeURIComponent(invite)}` : "/dashboard"
+      );
     } catch (error: any) {
       toast.error(error.response?.data?.message || "Login failed");
     } finally {
@@ -148,7 +153,7 @@ const Login: React.FC = () => {
             <p className="text-sm text-gray-600">
               Don't have an account?{" "}
               <Link
-                to="/register"
+                to={`/register${inviteQuery}`}
                 className="font-medium text-primary-600 hover:text-primary-500 transition-colors duration-200"
               >
                 Sign up here
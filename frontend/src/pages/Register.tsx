@@ -1,5 +1,5 @@
 import React, { useState } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { Eye, EyeOff, Mail, Lock, User, UserPlus } from "lucide-react";
 import { useAuth } from "../contexts/AuthContext";
@@ -20,6 +20,9 @@ const Register: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const { register: registerUser } = useAuth();
   const navigate = useNavigate();
+  // Set when coming from an invite link, which is where they go back to
+  const invite = useSearchParams()[0].get("invite");
+  const inviteQuery = invite ? `?invite=${encodeURIComponent(invite)}` : "";
 
   const {
     register,
@@ -44,9 +47,12 @@ const Register: React.FC = () => {
         password: data.password,
         firstName: data.firstName,
         lastName: data.lastName,
+        inviteToken: invite || undefined,
       });
       toast.success("Registration successful! Welcome to Aspire Expenses!");
-      navigate("/dashboard");
+      navigate(
+        invite ? `/invite/${encodeURIComponent(invite)}` : "/dashboard"
+      );
     } catch (error: any) {
       toast.error(error.response?.data?.message || "Registration failed");
     } finally {
@@ -320,7 +326,7 @@ const Register: React.FC = () => {
             <p className="text-sm text-gray-600">
               Already have an account?{" "}
               <Link
-                to="/login"
+                to={`/login${inviteQuery}`}
                 className="font-medium text-primary-600 hover:text-primary-500 transition-colors duration-200"
               >
                 Sign in here
@@ -6,12 +6,15 @@ import {
   XCircle,
   DollarSign,
   Filter,
+  Send,
+  AlertTriangle,
 } from "lucide-react";
 import { useAuth } from "../contexts/AuthContext";
 import { settlementsApi, groupsApi } from "../services/api";
-import { Settlement, Group } from "../types";
-import { formatCurrency } from "../utils/currency";
+import { Settlement, Group, CurrencyTotals } from "../types";
+import { formatCurrency, formatCurrencyTotals } from "../utils/currency";
 import toast from "react-hot-toast";
+import RecordPaymentModal from "../components/RecordPaymentModal";
 
 const Settlements: React.FC = () => {
   const { user } = useAuth();
@@ -20,14 +23,20 @@ const Settlements: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [selectedGroup, setSelectedGroup] = useState<string>("");
   const [statusFilter, setStatusFilter] = useState<string>("");
+  const [payingSettlement, setPayingSettlement] = useState<Settlement | null>(
+    null
+  );
   const [stats, setStats] = useState({
     total: 0,
     pending: 0,
+    partiallyPaid: 0,
     completed: 0,
     cancelled: 0,
-    totalAmount: 0,
-    pendingAmount: 0,
-    completedAmount: 0,
+    // Minor units keyed by currency
+    totalAmount: {} as CurrencyTotals,
+    paidAmount: {} as CurrencyTotals,
+    outstandingAmount: {} as CurrencyTotals,
+    completedAmount: {} as CurrencyTotals,
   });
 
   useEffect(() => {
@@ -92,6 +101,107 @@ const Settlements: React.FC = () => {
     }
   };
 
+  const handleVoidPayment = async (settlementId: string, paymentId: string) => {
+    if (!window.confirm("Are you sure you want to void this payment?")) {
+      return;
+    }
+
+    try {
+      await settlementsApi.voidPayment(settlementId, paymentId);
+      await fetchSettlements();
+      await fetchStats();
+      toast.success("Payment voided successfully!");
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Failed to void payment");
+    }
+  };
+
+  // Runs a confirmation-flow action, then refreshes the list and stats
+  const runAction = async (
+    action: () => Promise<unknown>,
+    successMessage: string
+  ) => {
+    try {
+      await action();
+      await fetchSettlements();
+      await fetchStats();
+      toast.success(successMessage);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || "Something went wrong");
+    }
+  };
+
+  const handleMarkSent = (settlementId: string) =>
+    runAction(
+      () => settlementsApi.markSent(settlementId),
+      "Marked as sent. Waiting for confirmation."
+    );
+
+  const handleConfirm = (settlementId: string) =>
+    runAction(
+      () => settlementsApi.confirmSettlement(settlementId),
+      "Settlement confirmed!"
+    );
+
+  const handleDispute = (settlementId: string) => {
+    const reason = window.prompt("Why are you disputing this settlement?");
+    if (!reason) return;
+    runAction(
+      () => settlementsApi.disputeSettlement(settlementId, reason),
+      "Settlement disputed"
+    );
+  };
+
+  const handleConfirmPayment = (settlementId: string, paymentId: string) =>
+    runAction(
+      () => settlementsApi.confirmPayment(settlementId, paymentId),
+      "Payment confirmed!"
+    );
+
+  const handleDisputePayment = (settlementId: string, paymentId: string) => {
+    const reason = window.prompt("Why are you disputing this payment?");
+    if (!reason) return;
+    runAction(
+      () => settlementsApi.disputePayment(settlementId, paymentId, reason),
+      "Payment disputed"
+    );
+  };
+
+  // Guests can't sign in, so members settle up on their behalf
+  const actsAsPayer = (settlement: Settlement) =>
+    settlement.fromUser._id === user?._id ||
+    settlement.fromUser.status === "placeholder";
+  const actsAsReceiver = (settlement: Settlement) =>
+    settlement.toUser._id === user?._id ||
+    settlement.toUser.status === "placeholder";
+
+  const partyName = (settlement: Settlement, userId: string) => {
+    if (userId === user?._id) return "You";
+    const party =
+      settlement.fromUser._id === userId
+        ? settlement.fromUser
+        : settlement.toUser;
+    return party.firstName;
+  };
+
+  const eventLabels: Record<string, string> = {
+    sent: "marked as sent",
+    confirmed: "confirmed receipt",
+    disputed: "disputed",
+    cancelled: "cancelled",
+    reopened: "reopened",
+    payment_recorded: "recorded a payment",
+    payment_confirmed: "confirmed a payment",
+    payment_disputed: "disputed a payment",
+    payment_voided: "voided a payment",
+    written_off: "wrote off the balance",
+  };
+
+  const handlePaymentRecorded = async () => {
+    await fetchSettlements();
+    await fetchStats();
+  };
+
   const handleDeleteSettlement = async (settlementId: string) => {
     if (!window.confirm("Are you sure you want to delete this settlement?")) {
       return;
@@ -115,6 +225,12 @@ const Settlements: React.FC = () => {
         return <CheckCircle className="h-5 w-5 text-success-600" />;
       case "pending":
         return <Clock className="h-5 w-5 text-warning-600" />;
+      case "partially_paid":
+        return <Clock className="h-5 w-5 text-primary-600" />;
+      case "sent":
+        return <Send className="h-5 w-5 text-primary-600" />;
+      case "disputed":
+        return <AlertTriangle className="h-5 w-5 text-danger-600" />;
       case "cancelled":
         return <XCircle className="h-5 w-5 text-danger-600" />;
       default:
@@ -128,6 +244,11 @@ const Settlements: React.FC = () => {
         return "bg-success-100 text-success-800";
       case "pending":
         return "bg-warning-100 text-warning-800";
+      case "partially_paid":
+      case "sent":
+        return "bg-primary-100 text-primary-800";
+      case "disputed":
+        return "bg-danger-100 text-danger-800";
       case "cancelled":
         return "bg-danger-100 text-danger-800";
       default:
@@ -222,10 +343,15 @@ const Settlements: React.FC = () => {
             </div>
             <div className="ml-4">
               <p className="text-sm font-medium text-gray-600">
-                Pending Amount
+                Outstanding Amount
               </p>
-              <p className="text-2xl font-bold text-danger-600">
-                {formatCurrency(stats.pendingAmount)}
+              {formatCurrencyTotals(stats.outstandingAmount).map((total) => (
+                <p key={total} className="text-2xl font-bold text-danger-600">
+                  {total}
+                </p>
+              ))}
+              <p className="text-xs text-gray-500">
+                {formatCurrencyTotals(stats.paidAmount).join(", ")} paid so far
               </p>
             </div>
           </div>
@@ -260,6 +386,9 @@ const Settlements: React.FC = () => {
           >
             <option value="">All Status</option>
             <option value="pending">Pending</option>
+            <option value="partially_paid">Partially paid</option>
+            <option value="sent">Awaiting confirmation</option>
+            <option value="disputed">Disputed</option>
             <option value="completed">Completed</option>
             <option value="cancelled">Cancelled</option>
           </select>
@@ -294,7 +423,7 @@ const Settlements: React.FC = () => {
                               {settlement.toUser.lastName}
                             </span>
                           </>
-                        ) : (
+                        ) : settlement.toUser._id === user?._id ? (
                           <>
                             <span className="font-semibold">
                               {settlement.fromUser.firstName}{" "}
@@ -302,6 +431,19 @@ const Settlements: React.FC = () => {
                             </span>{" "}
                             owes you
                           </>
+                        ) : (
+                          // Settled on behalf of a guest
+                          <>
+                            <span className="font-semibold">
+                              {settlement.fromUser.firstName}{" "}
+                              {settlement.fromUser.lastName}
+                            </span>{" "}
+                            owes{" "}
+                            <span className="font-semibold">
+                              {settlement.toUser.firstName}{" "}
+                              {settlement.toUser.lastName}
+                            </span>
+                          </>
                         )}
                       </p>
                       <p className="text-sm text-gray-500">
@@ -313,55 +455,241 @@ const Settlements: React.FC = () => {
                   <div className="flex items-center space-x-4">
                     <div className="text-right">
                       <p className="text-lg font-semibold text-gray-900">
-                        {formatCurrency(settlement.amount)}
+                        {formatCurrency(settlement.amount, settlement.currency)}
                       </p>
                       <span
                         className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(
                           settlement.status
                         )}`}
                       >
-                        {settlement.status}
+                        {settlement.status.replace("_", " ")}
                       </span>
                     </div>
 
-                    {settlement.status === "pending" && (
+                    {["pending", "partially_paid", "sent", "disputed"].includes(
+                      settlement.status
+                    ) && (
                       <div className="flex space-x-2">
-                        {settlement.toUser._id === user?._id && (
+                        <button
+                          onClick={() => setPayingSettlement(settlement)}
+                          className="px-3 py-1 text-sm bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors"
+                        >
+                          Record Payment
+                        </button>
+                        {actsAsPayer(settlement) &&
+                          settlement.status !== "sent" && (
+                            <button
+                              onClick={() => handleMarkSent(settlement._id)}
+                              className="px-3 py-1 text-sm bg-success-600 text-white rounded-md hover:bg-success-700 transition-colors"
+                            >
+                              Mark Sent
+                            </button>
+                          )}
+                        {actsAsReceiver(settlement) && (
+                          <button
+                            onClick={() => handleConfirm(settlement._id)}
+                            className="px-3 py-1 text-sm bg-success-600 text-white rounded-md hover:bg-success-700 transition-colors"
+                          >
+                            Confirm Received
+                          </button>
+                        )}
+                        {actsAsReceiver(settlement) &&
+                          settlement.status === "sent" && (
+                            <button
+                              onClick={() => handleDispute(settlement._id)}
+                              className="px-3 py-1 text-sm bg-warning-600 text-white rounded-md hover:bg-warning-700 transition-colors"
+                            >
+                              Dispute
+                            </button>
+                          )}
+                        {/* Confirmed payments keep a settlement on record */}
+                        {settlement.paidAmount === 0 && (
                           <button
                             onClick={() =>
-                              handleUpdateStatus(settlement._id, "completed")
+                              handleUpdateStatus(settlement._id, "cancelled")
                             }
-                            className="px-3 py-1 text-sm bg-success-600 text-white rounded-md hover:bg-success-700 transition-colors"
+                            className="px-3 py-1 text-sm bg-danger-600 text-white rounded-md hover:bg-danger-700 transition-colors"
                           >
-                            Mark Paid
+                            Cancel
                           </button>
                         )}
-                        <button
-                          onClick={() =>
-                            handleUpdateStatus(settlement._id, "cancelled")
-                          }
-                          className="px-3 py-1 text-sm bg-danger-600 text-white rounded-md hover:bg-danger-700 transition-colors"
-                        >
-                          Cancel
-                        </button>
                       </div>
                     )}
 
-                    {settlement.status === "completed" && (
-                      <button
-                        onClick={() => handleDeleteSettlement(settlement._id)}
-                        className="px-3 py-1 text-sm bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors"
-                      >
-                        Delete
-                      </button>
-                    )}
+                    {/* Only untouched settlements can be deleted */}
+                    {settlement.status === "pending" &&
+                      settlement.paidAmount === 0 && (
+                        <button
+                          onClick={() => handleDeleteSettlement(settlement._id)}
+                          className="px-3 py-1 text-sm bg-gray-600 text-white rounded-md hover:bg-gray-700 transition-colors"
+                        >
+                          Delete
+                        </button>
+                      )}
                   </div>
                 </div>
+
+                {settlement.status === "disputed" &&
+                  settlement.disputeReason && (
+                    <p className="mt-3 ml-9 text-sm text-danger-700">
+                      Disputed: {settlement.disputeReason}
+                    </p>
+                  )}
+
+                {/* Payment progress */}
+                {settlement.payments.length > 0 && (
+                  <div className="mt-4 ml-9">
+                    <div className="flex justify-between text-xs text-gray-500 mb-1">
+                      <span>
+                        {formatCurrency(
+                          settlement.paidAmount,
+                          settlement.currency
+                        )}{" "}
+                        paid
+                      </span>
+                      <span>
+                        {formatCurrency(
+                          settlement.remainingAmount,
+                          settlement.currency
+                        )}{" "}
+                        remaining
+                      </span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className="bg-success-600 h-2 rounded-full"
+                        style={{
+                          width: `${Math.min(
+                            100,
+                            (settlement.paidAmount / settlement.amount) * 100
+                          )}%`,
+                        }}
+                      ></div>
+                    </div>
+                    <div className="mt-2 space-y-1">
+                      {settlement.payments.map((payment) => (
+                        <div
+                          key={payment._id}
+                          className="flex items-center justify-between text-xs"
+                        >
+                          <span
+                            className={
+                              payment.voidedAt
+                                ? "text-gray-400 line-through"
+                                : "text-gray-600"
+                            }
+                          >
+                            {formatDate(payment.date)} •{" "}
+                            {payment.method.replace("_", " ")}
+                            {payment.note ? ` • ${payment.note}` : ""}
+                          </span>
+                          <div className="flex items-center space-x-2">
+                            <span
+                              className={
+                                payment.voidedAt
+                                  ? "text-gray-400 line-through"
+                                  : "font-medium text-gray-900"
+                              }
+                            >
+                              {formatCurrency(
+                                payment.amount,
+                                settlement.currency
+                              )}
+                            </span>
+                            {!payment.voidedAt && !payment.confirmedAt && (
+                              <span className="text-warning-600">
+                                {payment.disputedAt
+                                  ? `Disputed: ${payment.disputeReason}`
+                                  : "Awaiting confirmation"}
+                              </span>
+                            )}
+                            {!payment.voidedAt &&
+                              !payment.confirmedAt &&
+                              actsAsReceiver(settlement) && (
+                                <>
+                                  <button
+                                    onClick={() =>
+                                      handleConfirmPayment(
+                                        settlement._id,
+                                        payment._id
+                                      )
+                                    }
+                                    className="text-success-600 hover:text-success-700"
+                                  >
+                                    Confirm
+                                  </button>
+                                  {!payment.disputedAt && (
+                                    <button
+                                      onClick={() =>
+                                        handleDisputePayment(
+                                          settlement._id,
+                                          payment._id
+                                        )
+                                      }
+                                      className="text-warning-600 hover:text-warning-700"
+                                    >
+                                      Dispute
+                                    </button>
+                                  )}
+                                </>
+                              )}
+                            {!payment.voidedAt &&
+                              settlement.status !== "cancelled" &&
+                              (!payment.confirmedAt ||
+                                actsAsReceiver(settlement)) && (
+                                <button
+                                  onClick={() =>
+                                    handleVoidPayment(
+                                      settlement._id,
+                                      payment._id
+                                    )
+                                  }
+                                  className="text-danger-600 hover:text-danger-700"
+                                >
+                                  Void
+                                </button>
+                              )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Timeline */}
+                {settlement.events && settlement.events.length > 0 && (
+                  <div className="mt-3 ml-9 space-y-0.5">
+                    {settlement.events.map((event) => (
+                      <p key={event._id} className="text-xs text-gray-500">
+                        {formatDate(event.at)} •{" "}
+                        {partyName(settlement, event.by)}{" "}
+                        {eventLabels[event.type]}
+                        {event.amount
+                          ? ` (${formatCurrency(
+                              event.amount,
+                              settlement.currency
+                            )})`
+                          : ""}
+                        {event.reason ? ` — ${event.reason}` : ""}
+                      </p>
+                    ))}
+                  </div>
+                )}
               </div>
             ))
           )}
         </div>
       </div>
+
+      {/* Record Payment Modal */}
+      {payingSettlement && (
+        <RecordPaymentModal
+          isOpen={!!payingSettlement}
+          onClose={() => setPayingSettlement(null)}
+          settlement={payingSettlement}
+          onPaymentRecorded={handlePaymentRecorded}
+        />
+      )}
     </div>
   );
 };
@@ -3,7 +3,35 @@ import {
   User,
   Group,
   Expense,
+  ExpenseItem,
+  ReceiptFile,
   Settlement,
+  SettlementMode,
+  SettlementPlan,
+  SettlementPlanPreview,
+  GroupBalances,
+  UserBalances,
+  ExchangeRate,
+  ExchangeRateLookup,
+  ExchangeRateImportResult,
+  AuditLogEntry,
+  ExpenseComment,
+  ExpenseSearch,
+  Category,
+  CategoryInput,
+  Budget,
+  BudgetAlert,
+  BudgetInput,
+  ExportOptions,
+  JournalAccounts,
+  JournalExportOptions,
+  ImportOptions,
+  Invitation,
+  InvitationPreview,
+  ImportPreview,
+  ImportResult,
+  RecurringExpense,
+  RecurringExpenseInput,
   RegisterData,
   ApiResponse,
   PaginatedResponse,
@@ -129,24 +157,99 @@ export const groupsApi = {
     return (response.data as any).group || (response.data as any).data;
   },
 
+  getGroupBalances: async (groupId: string): Promise<GroupBalances> => {
+    const response = await api.get<GroupBalances>(
+      `/groups/${groupId}/balances`
+    );
+    return response.data;
+  },
+
   deleteGroup: async (groupId: string): Promise<void> => {
     await api.delete(`/groups/${groupId}`);
   },
 
+  getDeletedGroups: async (): Promise<{
+    groups: Group[];
+    retentionDays: number;
+  }> => {
+    const response = await api.get<{ groups: Group[]; retentionDays: number }>(
+      "/groups/trash"
+    );
+    return response.data;
+  },
+
+  restoreGroup: async (groupId: string): Promise<Group> => {
+    const response = await api.post<{ group: Group }>(
+      `/groups/${groupId}/restore`
+    );
+    return response.data.group;
+  },
+
+  purgeGroup: async (groupId: string): Promise<void> => {
+    await api.delete(`/groups/${groupId}/purge`);
+  },
+
+  // People without an account are invited by email as pending members
   addMember: async (
     groupId: string,
     email: string,
     role?: string
-  ): Promise<Group> => {
-    const response = await api.post<ApiResponse<Group>>(
-      `/groups/${groupId}/members`,
-      { email, role }
+  ): Promise<{ message: string; group: Group; invitation?: Invitation }> => {
+    const response = await api.post<{
+      message: string;
+      group: Group;
+      invitation?: Invitation;
+    }>(`/groups/${groupId}/members`, { email, role });
+    return response.data;
+  },
+
+  // Guests have no account; a member records their payments for them
+  addGuest: async (
+    groupId: string,
+    guest: { name: string; email?: string }
+  ): Promise<{ message: string; group: Group }> => {
+    const response = await api.post<{ message: string; group: Group }>(
+      `/groups/${groupId}/guests`,
+      guest
     );
-    return (response.data as any).group || (response.data as any).data;
+    return response.data;
+  },
+
+  // Merge a guest, with everything they paid or owe, into a real user
+  claimGuest: async (
+    groupId: string,
+    guestId: string,
+    userId: string
+  ): Promise<{ message: string; group: Group }> => {
+    const response = await api.post<{ message: string; group: Group }>(
+      `/groups/${groupId}/guests/${guestId}/claim`,
+      { userId }
+    );
+    return response.data;
   },
 
-  removeMember: async (groupId: string, userId: string): Promise<void> => {
-    await api.delete(`/groups/${groupId}/members/${userId}`);
+  // An outstanding balance blocks removal unless an admin forces it,
+  // writing the balance off
+  removeMember: async (
+    groupId: string,
+    userId: string,
+    force = false
+  ): Promise<void> => {
+    await api.delete(`/groups/${groupId}/members/${userId}`, {
+      params: force ? { force } : undefined,
+    });
+  },
+
+  // The last admin names who takes over (`transferTo`)
+  leaveGroup: async (
+    groupId: string,
+    options: { force?: boolean; transferTo?: string } = {}
+  ): Promise<{ message: string }> => {
+    const response = await api.post<{ message: string }>(
+      `/groups/${groupId}/leave`,
+      options
+    );
+    return response.data;
   },
 
   changeMemberRole: async (
@@ -162,11 +265,18 @@ export const groupsApi = {
 export const expensesApi = {
   getUserExpenses: async (params?: {
     groupId?: string;
-  }): Promise<{ expenses: Expense[] }> => {
-    const response = await api.get<ApiResponse<{ expenses: Expense[] }>>(
-      "/expenses",
-      { params }
-    );
+    q?: string;
+    page?: number;
+    limit?: number;
+  }): Promise<{
+    expenses: Expense[];
+    search?: ExpenseSearch;
+    totalPages?: number;
+    total?: number;
+  }> => {
+    const response = await api.get<
+      ApiResponse<{ expenses: Expense[]; search?: ExpenseSearch }>
+    >("/expenses", { params });
     return (response.data as any).data || response.data;
   },
 
@@ -179,9 +289,15 @@ export const expensesApi = {
     notes?: string;
     splitType?: string;
     customSplits?: any[];
+    items?: Omit<ExpenseItem, "_id">[];
+    tax?: number;
+    serviceCharge?: number;
+    tip?: number;
     paidByMultiple?: { user: string; amount: number }[];
     participants?: string[];
-  }): Promise<{ expense: Expense }> => {
+    currency?: string;
+    exchangeRate?: number;
+  }): Promise<{ expense: Expense; budgetAlerts?: BudgetAlert[] }> => {
     const response = await api.post<ApiResponse<{ expense: Expense }>>(
       "/expenses",
       expenseData
@@ -197,12 +313,12 @@ export const expensesApi = {
       category?: string;
       startDate?: string;
       endDate?: string;
+      q?: string;
     }
-  ): Promise<PaginatedResponse<Expense>> => {
-    const response = await api.get<PaginatedResponse<Expense>>(
-      `/expenses/groups/${groupId}/expenses`,
-      { params }
-    );
+  ): Promise<PaginatedResponse<Expense> & { search?: ExpenseSearch }> => {
+    const response = await api.get<
+      PaginatedResponse<Expense> & { search?: ExpenseSearch }
+    >(`/expenses/groups/${groupId}/expenses`, { params });
     return response.data;
   },
 
@@ -223,8 +339,10 @@ export const expensesApi = {
       notes?: string;
       splitType?: string;
       customSplits?: any[];
+      currency?: string;
+      exchangeRate?: number;
     }
-  ): Promise<{ expense: Expense }> => {
+  ): Promise<{ expense: Expense; budgetAlerts?: BudgetAlert[] }> => {
     const response = await api.put<ApiResponse<{ expense: Expense }>>(
       `/expenses/${expenseId}`,
       expenseData
@@ -236,6 +354,40 @@ export const expensesApi = {
     await api.put(`/expenses/${expenseId}/splits/${userId}/paid`);
   },
 
+  uploadReceipt: async (
+    expenseId: string,
+    file: File
+  ): Promise<{ receipt: string; receiptFile: ReceiptFile }> => {
+    const formData = new FormData();
+    formData.append("receipt", file);
+    const response = await api.post<{
+      receipt: string;
+      receiptFile: ReceiptFile;
+    }>(`/expenses/${expenseId}/receipt`, formData, {
+      headers: { "Content-Type": "multipart/form-data" },
+    });
+    return response.data;
+  },
+
+  // Receipts need the auth header, so they are fetched as blobs rather than
+  // linked to directly
+  getReceipt: async (expenseId: string, thumbnail = false): Promise<Blob> => {
+    const response = await api.get<Blob>(`/expenses/${expenseId}/receipt`, {
+      params: thumbnail ? { thumbnail: true } : undefined,
+      responseType: "blob",
+    });
+    return response.data;
+  },
+
+  deleteReceipt: async (expenseId: string): Promise<void> => {
+    await api.delete(`/expenses/${expenseId}/receipt`);
+  },
+
+  getUserBalances: async (): Promise<UserBalances> => {
+    const response = await api.get<UserBalances>("/expenses/balances");
+    return response.data;
+  },
+
   getExpenseSummary: async (groupId: string): Promise<any> => {
     const response = await api.get<ApiResponse<any>>(
       `/expenses/groups/${groupId}/expenses/summary`
@@ -246,15 +398,118 @@ export const expensesApi = {
   deleteExpense: async (expenseId: string): Promise<void> => {
     await api.delete(`/expenses/${expenseId}`);
   },
+
+  getExpenseHistory: async (expenseId: string): Promise<AuditLogEntry[]> => {
+    const response = await api.get<{ history: AuditLogEntry[] }>(
+      `/expenses/${expenseId}/history`
+    );
+    return response.data.history;
+  },
+
+  restoreExpenseVersion: async (
+    expenseId: string,
+    version: number
+  ): Promise<Expense> => {
+    const response = await api.post<{ expense: Expense }>(
+      `/expenses/${expenseId}/history/${version}/restore`
+    );
+    return response.data.expense;
+  },
+
+  getGroupTrash: async (
+    groupId: string
+  ): Promise<{ expenses: Expense[]; retentionDays: number }> => {
+    const response = await api.get<{
+      expenses: Expense[];
+      retentionDays: number;
+    }>(`/expenses/groups/${groupId}/trash`);
+    return response.data;
+  },
+
+  restoreExpense: async (expenseId: string): Promise<Expense> => {
+    const response = await api.post<{ expense: Expense }>(
+      `/expenses/${expenseId}/restore`
+    );
+    return response.data.expense;
+  },
+
+  purgeExpense: async (expenseId: string): Promise<void> => {
+    await api.delete(`/expenses/${expenseId}/purge`);
+  },
+
+  getComments: async (
+    expenseId: string
+  ): Promise<{ comments: ExpenseComment[]; editWindowMinutes: number }> => {
+    const response = await api.get<{
+      comments: ExpenseComment[];
+      editWindowMinutes: number;
+    }>(`/expenses/${expenseId}/comments`);
+    return response.data;
+  },
+
+  addComment: async (
+    expenseId: string,
+    body: string
+  ): Promise<ExpenseComment> => {
+    const response = await api.post<{ comment: ExpenseComment }>(
+      `/expenses/${expenseId}/comments`,
+      { body }
+    );
+    return response.data.comment;
+  },
+
+  updateComment: async (
+    expenseId: string,
+    commentId: string,
+    body: string
+  ): Promise<ExpenseComment> => {
+    const response = await api.put<{ comment: ExpenseComment }>(
+      `/expenses/${expenseId}/comments/${commentId}`,
+      { body }
+    );
+    return response.data.comment;
+  },
+
+  deleteComment: async (expenseId: string, commentId: string): Promise<void> => {
+    await api.delete(`/expenses/${expenseId}/comments/${commentId}`);
+  },
 };
 
 // Settlements API
 export const settlementsApi = {
-  calculateSettlements: async (groupId: string): Promise<Settlement[]> => {
-    const response = await api.get<ApiResponse<Settlement[]>>(
-      `/settlements/groups/${groupId}/settlements/calculate`
+  previewSettlements: async (
+    groupId: string,
+    mode: SettlementMode = "auto"
+  ): Promise<SettlementPlanPreview> => {
+    const response = await api.post<SettlementPlanPreview>(
+      `/settlements/group/${groupId}/calculate`,
+      { mode, dryRun: true }
     );
-    return (response.data as any).settlements || (response.data as any).data;
+    return response.data;
+  },
+
+  commitSettlements: async (
+    groupId: string,
+    preview: SettlementPlanPreview
+  ): Promise<{ plan: SettlementPlan; settlements: Settlement[] }> => {
+    const response = await api.post<{
+      plan: SettlementPlan;
+      settlements: Settlement[];
+    }>(`/settlements/group/${groupId}/calculate`, {
+      mode: preview.plan.mode,
+      fingerprint: preview.plan.basis.fingerprint,
+    });
+    return response.data;
+  },
+
+  getSettlementPlan: async (
+    groupId: string
+  ): Promise<{ plan: SettlementPlan | null; settlements: Settlement[] }> => {
+    const response = await api.get<{
+      plan: SettlementPlan | null;
+      settlements: Settlement[];
+    }>(`/settlements/group/${groupId}/plan`);
+    return response.data;
   },
 
   getGroupSettlements: async (
@@ -280,6 +535,8 @@ export const settlementsApi = {
   },
 
   createSettlement: async (settlementData: {
+    // A guest the payment is recorded for; the current user by default
+    fromUserId?: string;
     toUserId: string;
     groupId: string;
     amount: number;
@@ -304,6 +561,85 @@ export const settlementsApi = {
     return (response.data as any).data || response.data;
   },
 
+  markSent: async (
+    settlementId: string,
+    data?: { method?: string; note?: string }
+  ): Promise<{ settlement: Settlement }> => {
+    const response = await api.post<ApiResponse<{ settlement: Settlement }>>(
+      `/settlements/${settlementId}/sent`,
+      data || {}
+    );
+    return (response.data as any).data || response.data;
+  },
+
+  confirmSettlement: async (
+    settlementId: string
+  ): Promise<{ settlement: Settlement }> => {
+    const response = await api.post<ApiResponse<{ settlement: Settlement }>>(
+      `/settlements/${settlementId}/confirm`
+    );
+    return (response.data as any).data || response.data;
+  },
+
+  disputeSettlement: async (
+    settlementId: string,
+    reason: string
+  ): Promise<{ settlement: Settlement }> => {
+    const response = await api.post<ApiResponse<{ settlement: Settlement }>>(
+      `/settlements/${settlementId}/dispute`,
+      { reason }
+    );
+    return (response.data as any).data || response.data;
+  },
+
+  confirmPayment: async (
+    settlementId: string,
+    paymentId: string
+  ): Promise<{ settlement: Settlement }> => {
+    const response = await api.post<ApiResponse<{ settlement: Settlement }>>(
+      `/settlements/${settlementId}/payments/${paymentId}/confirm`
+    );
+    return (response.data as any).data || response.data;
+  },
+
+  disputePayment: async (
+    settlementId: string,
+    paymentId: string,
+    reason: string
+  ): Promise<{ settlement: Settlement }> => {
+    const response = await api.post<ApiResponse<{ settlement: Settlement }>>(
+      `/settlements/${settlementId}/payments/${paymentId}/dispute`,
+      { reason }
+    );
+    return (response.data as any).data || response.data;
+  },
+
+  recordPayment: async (
+    settlementId: string,
+    paymentData: {
+      amount: number;
+      date?: string;
+      method?: string;
+      note?: string;
+    }
+  ): Promise<{ settlement: Settlement }> => {
+    const response = await api.post<ApiResponse<{ settlement: Settlement }>>(
+      `/settlements/${settlementId}/payments`,
+      paymentData
+    );
+    return (response.data as any).data || response.data;
+  },
+
+  voidPayment: async (
+    settlementId: string,
+    paymentId: string
+  ): Promise<{ settlement: Settlement }> => {
+    const response = await api.delete<ApiResponse<{ settlement: Settlement }>>(
+      `/settlements/${settlementId}/payments/${paymentId}`
+    );
+    return (response.data as any).data || response.data;
+  },
+
   deleteSettlement: async (settlementId: string): Promise<void> => {
     await api.delete(`/settlements/${settlementId}`);
   },
@@ -319,4 +655,329 @@ export const settlementsApi = {
   },
 };
 
+// Exchange rates API
+export const exchangeRatesApi = {
+  getRates: async (params?: {
+    base?: string;
+    quote?: string;
+  }): Promise<ExchangeRate[]> => {
+    const response = await api.get<{ rates: ExchangeRate[] }>(
+      "/exchange-rates",
+      { params }
+    );
+    return response.data.rates;
+  },
+
+  lookupRate: async (
+    from: string,
+    to: string,
+    date?: string
+  ): Promise<ExchangeRateLookup> => {
+    const response = await api.get<ExchangeRateLookup>(
+      "/exchange-rates/lookup",
+      { params: { from, to, date } }
+    );
+    return response.data;
+  },
+
+  createRate: async (rateData: {
+    base: string;
+    quote: string;
+    rate: number;
+    date: string;
+  }): Promise<ExchangeRate> => {
+    const response = await api.post<{ rate: ExchangeRate }>(
+      "/exchange-rates",
+      rateData
+    );
+    return response.data.rate;
+  },
+
+  importRates: async (file: File): Promise<ExchangeRateImportResult> => {
+    const formData = new FormData();
+    formData.append("file", file);
+    const response = await api.post<ExchangeRateImportResult>(
+      "/exchange-rates/import",
+      formData,
+      { headers: { "Content-Type": "multipart/form-data" } }
+    );
+    return response.data;
+  },
+
+  deleteRate: async (rateId: string): Promise<void> => {
+    await api.delete(`/exchange-rates/${rateId}`);
+  },
+};
+
 export default api;
+
+// Recurring expenses API
+export const recurringExpensesApi = {
+  getGroupRecurringExpenses: async (
+    groupId: string
+  ): Promise<RecurringExpense[]> => {
+    const response = await api.get<{ recurringExpenses: RecurringExpense[] }>(
+      `/recurring-expenses/groups/${groupId}`
+    );
+    return response.data.recurringExpenses;
+  },
+
+  createRecurringExpense: async (
+    groupId: string,
+    data: RecurringExpenseInput
+  ): Promise<RecurringExpense> => {
+    const response = await api.post<{ recurringExpense: RecurringExpense }>(
+      "/recurring-expenses",
+      { ...data, groupId }
+    );
+    return response.data.recurringExpense;
+  },
+
+  updateRecurringExpense: async (
+    recurringId: string,
+    data: RecurringExpenseInput
+  ): Promise<RecurringExpense> => {
+    const response = await api.put<{ recurringExpense: RecurringExpense }>(
+      `/recurring-expenses/${recurringId}`,
+      data
+    );
+    return response.data.recurringExpense;
+  },
+
+  pauseRecurringExpense: async (
+    recurringId: string
+  ): Promise<RecurringExpense> => {
+    const response = await api.post<{ recurringExpense: RecurringExpense }>(
+      `/recurring-expenses/${recurringId}/pause`
+    );
+    return response.data.recurringExpense;
+  },
+
+  resumeRecurringExpense: async (
+    recurringId: string
+  ): Promise<RecurringExpense> => {
+    const response = await api.post<{ recurringExpense: RecurringExpense }>(
+      `/recurring-expenses/${recurringId}/resume`
+    );
+    return response.data.recurringExpense;
+  },
+
+  skipOccurrence: async (
+    recurringId: string,
+    date?: string
+  ): Promise<RecurringExpense> => {
+    const response = await api.post<{ recurringExpense: RecurringExpense }>(
+      `/recurring-expenses/${recurringId}/skip`,
+      date ? { date } : {}
+    );
+    return response.data.recurringExpense;
+  },
+
+  deleteRecurringExpense: async (recurringId: string): Promise<void> => {
+    await api.delete(`/recurring-expenses/${recurringId}`);
+  },
+};
+
+// Categories API
+export const categoriesApi = {
+  getGroupCategories: async (groupId: string): Promise<Category[]> => {
+    const response = await api.get<{ categories: Category[] }>(
+      `/groups/${groupId}/categories`
+    );
+    return response.data.categories;
+  },
+
+  // Categories for expenses outside any group
+  getSharedCategories: async (): Promise<Category[]> => {
+    const response = await api.get<{ categories: Category[] }>(
+      "/expenses/categories"
+    );
+    return response.data.categories;
+  },
+
+  createCategory: async (
+    groupId: string,
+    data: CategoryInput
+  ): Promise<Category> => {
+    const response = await api.post<{ category: Category }>(
+      `/groups/${groupId}/categories`,
+      data
+    );
+    return response.data.category;
+  },
+
+  updateCategory: async (
+    groupId: string,
+    categoryId: string,
+    data: CategoryInput
+  ): Promise<Category> => {
+    const response = await api.put<{ category: Category }>(
+      `/groups/${groupId}/categories/${categoryId}`,
+      data
+    );
+    return response.data.category;
+  },
+
+  deleteCategory: async (groupId: string, categoryId: string): Promise<void> => {
+    await api.delete(`/groups/${groupId}/categories/${categoryId}`);
+  },
+};
+
+// Budgets API
+export const budgetsApi = {
+  getGroupBudgets: async (groupId: string): Promise<Budget[]> => {
+    const response = await api.get<{ budgets: Budget[] }>(
+      `/groups/${groupId}/budgets`
+    );
+    return response.data.budgets;
+  },
+
+  // Budgets of every group the user is in that has any
+  getUserBudgets: async (): Promise<
+    { group: Pick<Group, "_id" | "name" | "currency">; budgets: Budget[] }[]
+  > => {
+    const response = await api.get<{
+      groups: {
+        group: Pick<Group, "_id" | "name" | "currency">;
+        budgets: Budget[];
+      }[];
+    }>("/groups/budgets");
+    return response.data.groups;
+  },
+
+  createBudget: async (groupId: string, data: BudgetInput): Promise<Budget> => {
+    const response = await api.post<{ budget: Budget }>(
+      `/groups/${groupId}/budgets`,
+      data
+    );
+    return response.data.budget;
+  },
+
+  updateBudget: async (
+    groupId: string,
+    budgetId: string,
+    data: BudgetInput
+  ): Promise<Budget> => {
+    const response = await api.put<{ budget: Budget }>(
+      `/groups/${groupId}/budgets/${budgetId}`,
+      data
+    );
+    return response.data.budget;
+  },
+
+  deleteBudget: async (groupId: string, budgetId: string): Promise<void> => {
+    await api.delete(`/groups/${groupId}/budgets/${budgetId}`);
+  },
+};
+
+// Import API
+export const importApi = {
+  previewImport: async (
+    groupId: string,
+    csv: string,
+    options: ImportOptions = {}
+  ): Promise<ImportPreview> => {
+    const response = await api.post<ImportPreview>(
+      `/groups/${groupId}/import`,
+      { ...options, csv, dryRun: true }
+    );
+    return response.data;
+  },
+
+  importExpenses: async (
+    groupId: string,
+    csv: string,
+    options: ImportOptions = {}
+  ): Promise<ImportResult> => {
+    const response = await api.post<ImportResult>(
+      `/groups/${groupId}/import`,
+      { ...options, csv }
+    );
+    return response.data;
+  },
+};
+
+// Invitations API
+export const invitationsApi = {
+  getGroupInvitations: async (groupId: string): Promise<Invitation[]> => {
+    const response = await api.get<{ invitations: Invitation[] }>(
+      `/groups/${groupId}/invitations`
+    );
+    return response.data.invitations;
+  },
+
+  createInviteLink: async (
+    groupId: string,
+    options: { role: "admin" | "member"; expiresInDays: number }
+  ): Promise<Invitation> => {
+    const response = await api.post<{ invitation: Invitation }>(
+      `/groups/${groupId}/invitations`,
+      options
+    );
+    return response.data.invitation;
+  },
+
+  revokeInvitation: async (
+    groupId: string,
+    invitationId: string
+  ): Promise<void> => {
+    await api.delete(`/groups/${groupId}/invitations/${invitationId}`);
+  },
+
+  getInvitation: async (token: string): Promise<InvitationPreview> => {
+    const response = await api.get<{ invitation: InvitationPreview }>(
+      `/invitations/${token}`
+    );
+    return response.data.invitation;
+  },
+
+  acceptInvitation: async (
+    token: string
+  ): Promise<{ message: string; group: { _id: string; name: string } }> => {
+    const response = await api.post<{
+      message: string;
+      group: { _id: string; name: string };
+    }>(`/invitations/${token}/accept`);
+    return response.data;
+  },
+};
+
+// Export API
+export const exportApi = {
+  // Files are fetched as blobs so the auth header goes along
+  exportGroupLedger: async (
+    groupId: string,
+    options: ExportOptions
+  ): Promise<Blob> => {
+    const response = await api.get<Blob>(`/groups/${groupId}/export`, {
+      params: options,
+      responseType: "blob",
+    });
+    return response.data;
+  },
+
+  exportJournal: async (options: JournalExportOptions): Promise<Blob> => {
+    const response = await api.get<Blob>("/expenses/journal", {
+      params: options,
+      responseType: "blob",
+    });
+    return response.data;
+  },
+
+  getJournalAccounts: async (): Promise<JournalAccounts> => {
+    const response = await api.get<{ accounts: JournalAccounts }>(
+      "/auth/journal-accounts"
+    );
+    return response.data.accounts;
+  },
+
+  updateJournalAccounts: async (
+    accounts: JournalAccounts
+  ): Promise<JournalAccounts> => {
+    const response = await api.put<{ accounts: JournalAccounts }>(
+      "/auth/journal-accounts",
+      accounts
+    );
+    return response.data.accounts;
+  },
+};
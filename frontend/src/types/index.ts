@@ -5,6 +5,9 @@ export interface User {
   firstName: string;
   lastName: string;
   avatar?: string;
+  isAdmin?: boolean;
+  // Pending users were invited by email and haven't signed up yet
+  status?: "active" | "pending" | "placeholder";
   groups: string[];
   createdAt: string;
 }
@@ -16,10 +19,194 @@ export interface Group {
   members: GroupMember[];
   expenses: string[];
   currency: string;
+  // Set while the group is in the trash
+  deletedAt?: string;
+  deletedBy?: User;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface Category {
+  _id: string;
+  // Null for the shared categories of expenses outside any group
+  group: string | null;
+  name: string;
+  icon: string;
+  color: string;
+  parent: string | null;
+  // Set on the built-in categories
+  key?: string | null;
+}
+
+export interface CategoryInput {
+  name?: string;
+  icon?: string;
+  color?: string;
+  parent?: string | null;
+}
+
+export type BudgetRollover = "none" | "unspent" | "full";
+
+export interface Budget {
+  _id: string;
+  group: string;
+  // Null for the group's overall budget
+  category: Category | null;
+  // Monthly amount, in minor units of the group currency
+  amount: number;
+  rollover: BudgetRollover;
+  startDate: string;
+  // This month's progress; `limit` includes what rolled over
+  period: { start: string; end: string };
+  spent: number;
+  carried: number;
+  limit: number;
+  remaining: number;
+  percent: number;
+  status: "ok" | "warning" | "exceeded";
+}
+
+export interface BudgetInput {
+  category?: string | null;
+  amount?: number;
+  rollover?: BudgetRollover;
+}
+
+// Sent back when an expense pushes a budget past 80% or 100%
+export interface BudgetAlert {
+  budget: string;
+  category: Category | null;
+  threshold: number;
+  percent: number;
+  spent: number;
+  limit: number;
+}
+
+export type ImportFormat = "generic" | "splitwise";
+
+export type ImportField =
+  | "date"
+  | "description"
+  | "amount"
+  | "currency"
+  | "category"
+  | "paidBy"
+  | "participants"
+  | "notes";
+
+// Field name to the (lower-cased) CSV header it is read from
+export type ImportMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportOptions {
+  // Detected from the header when unset
+  format?: ImportFormat;
+  mapping?: ImportMapping;
+  // Names in the file pinned to member ids
+  memberMap?: Record<string, string>;
+  includeDuplicates?: boolean;
+}
+
+// A person named in the file, with the minor units they paid or owe
+export interface ImportShare {
+  name: string;
+  amount: number;
+}
+
+export interface ImportRow {
+  row: number;
+  kind: "expense" | "payment";
+  date: string | null;
+  description: string;
+  category: string;
+  currency: string | null;
+  amount: number | null;
+  payers?: ImportShare[];
+  // Null when the whole group shares the expense
+  shares?: ImportShare[] | null;
+  from?: string | null;
+  to?: string | null;
+  status: "ready" | "duplicate" | "error";
+  errors: string[];
+}
+
+export interface ImportPreview {
+  format: ImportFormat;
+  headers: string[];
+  mapping: ImportMapping;
+  unmapped: ImportField[];
+  // Member each name was matched to, or null
+  people: { name: string; user: string | null }[];
+  rows: ImportRow[];
+  summary: { total: number; ready: number; duplicates: number; errors: number };
+}
+
+export interface ImportResult {
+  message: string;
+  imported: { expenses: number; payments: number };
+  skipped: { duplicates: number; errors: number };
+  errors: { row: number; message: string }[];
+}
+
+export type ExportFormat = "csv" | "xlsx" | "json" | "pdf";
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // YYYY-MM-DD; from the group's start / up to today when unset
+  from?: string;
+  to?: string;
+  // PDF only: one member's statement instead of everyone's
+  member?: string;
+}
+
+export type JournalFormat = "ledger" | "hledger" | "beancount";
+
+export interface JournalExportOptions {
+  format: JournalFormat;
+  from?: string;
+  to?: string;
+  // One group instead of every group and non-group expense
+  groupId?: string;
+}
+
+// Account names for the journal export. The templates fill in {category},
+// {name} and {group}; the overrides replace them for one category or person.
+export interface JournalAccounts {
+  expenses: string;
+  people: string;
+  payments: string;
+  categoryAccounts: { category: string; account: string }[];
+  personAccounts: { user: User | string; account: string }[];
+}
+
+export type InvitationKind = "email" | "link";
+
+// An open invitation to a group, as listed for its admins
+export interface Invitation {
+  _id: string;
+  kind: InvitationKind;
+  group: string;
+  // Email invitations only
+  email: string | null;
+  user: string | null;
+  role: "admin" | "member";
+  invitedBy: User | string;
+  expiresAt: string;
+  // People who joined through a link invitation
+  uses: { user: string; at: string }[];
+  createdAt: string;
+  link: string;
+}
+
+// What an invite link is for, shown before joining
+export interface InvitationPreview {
+  kind: InvitationKind;
+  email: string | null;
+  role: "admin" | "member";
+  expiresAt: string;
+  group: { _id: string; name: string };
+  invitedBy: string | null;
+}
+
 export interface GroupMember {
   user: User;
   role: "admin" | "member";
@@ -31,21 +218,35 @@ export interface Expense {
   description: string;
   amount: number;
   currency: string;
+  originalAmount?: number;
+  originalCurrency?: string;
+  exchangeRate?: number;
+  exchangeRateDate?: string;
   paidBy: User;
   paidByMultiple?: PaidByMultiple[];
   group?: string | Group;
-  category:
-    | "food"
-    | "transport"
-    | "entertainment"
-    | "shopping"
-    | "bills"
-    | "other";
+  category: Category;
   date: string;
   splits: ExpenseSplit[];
-  splitType: "equal" | "percentage" | "custom";
+  splitType:
+    | "equal"
+    | "percentage"
+    | "shares"
+    | "adjustment"
+    | "custom"
+    | "itemized";
+  items?: ExpenseItem[];
+  tax?: number;
+  serviceCharge?: number;
+  tip?: number;
   notes?: string;
   receipt?: string;
+  receiptFile?: ReceiptFile;
+  // Set while the expense is in the trash
+  deletedAt?: string;
+  deletedBy?: User;
+  // Only included in group expense listings
+  commentCount?: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -55,13 +256,173 @@ export interface PaidByMultiple {
   amount: number;
 }
 
+export interface ExpenseItem {
+  _id?: string;
+  name: string;
+  price: number;
+  quantity: number;
+  assignedTo: string[];
+}
+
+export interface ReceiptFile {
+  contentType: string;
+  size: number;
+  originalName?: string;
+  thumbnailKey?: string;
+  uploadedAt: string;
+}
+
 export interface ExpenseSplit {
   user: User;
   amount: number;
   percentage: number;
+  shares?: number;
+  adjustment?: number;
   isPaid: boolean;
 }
 
+export interface ExpenseComment {
+  _id: string;
+  expense: string;
+  author: User;
+  body: string;
+  mentions: User[];
+  editedAt?: string;
+  createdAt: string;
+}
+
+export interface AuditLogChange {
+  field: string;
+  from?: any;
+  to?: any;
+}
+
+export interface AuditLogEntry {
+  _id: string;
+  entityType: "Expense" | "Settlement";
+  entity: string;
+  version: number;
+  action: "create" | "update" | "delete" | "restore" | "purge";
+  // Missing for changes made by the server (e.g. recurring expenses)
+  actor?: User | null;
+  changes: AuditLogChange[];
+  restoredFrom?: number;
+  createdAt: string;
+}
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly";
+
+export interface RecurringExpense {
+  _id: string;
+  group: string;
+  createdBy: User;
+  description: string;
+  amount: number;
+  currency?: string;
+  exchangeRate?: number;
+  paidBy: User;
+  category: Expense["category"];
+  splitType: Exclude<Expense["splitType"], "itemized">;
+  customSplits: {
+    user: string;
+    amount?: number;
+    percentage?: number;
+    shares?: number;
+    adjustment?: number;
+  }[];
+  notes?: string;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: string;
+  endDate?: string;
+  status: "active" | "paused" | "ended";
+  nextOccurrence?: string;
+  skippedDates: string[];
+  lastError?: string;
+  upcoming: string[];
+  createdAt: string;
+}
+
+export interface RecurringExpenseInput {
+  description: string;
+  amount: number;
+  currency?: string;
+  paidBy?: string;
+  category?: string;
+  splitType?: string;
+  customSplits?: any[];
+  notes?: string;
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  startDate: string;
+  endDate?: string;
+}
+
+export interface ExchangeRate {
+  _id: string;
+  base: string;
+  quote: string;
+  rate: number;
+  date: string;
+  source: "manual" | "import";
+  createdAt: string;
+}
+
+export interface ExchangeRateLookup {
+  from: string;
+  to: string;
+  rate: number;
+  date: string | null;
+}
+
+export interface ExchangeRateImportResult {
+  imported: number;
+  errors: { row: number; message: string }[];
+}
+
+// "write_off" settles a balance without money changing hands
+export type PaymentMethod =
+  | "cash"
+  | "bank_transfer"
+  | "digital_wallet"
+  | "other"
+  | "write_off";
+
+export interface SettlementPayment {
+  _id: string;
+  amount: number;
+  date: string;
+  method: PaymentMethod;
+  note?: string;
+  recordedBy: string;
+  confirmedAt?: string;
+  confirmedBy?: string;
+  disputedAt?: string;
+  disputedBy?: string;
+  disputeReason?: string;
+  voidedAt?: string;
+  voidedBy?: string;
+}
+
+export interface SettlementEvent {
+  _id: string;
+  type:
+    | "sent"
+    | "confirmed"
+    | "disputed"
+    | "cancelled"
+    | "reopened"
+    | "payment_recorded"
+    | "payment_confirmed"
+    | "payment_disputed"
+    | "payment_voided"
+    | "written_off";
+  by: string;
+  at: string;
+  amount?: number;
+  reason?: string;
+}
+
 export interface Settlement {
   _id: string;
   fromUser: User;
@@ -69,14 +430,96 @@ export interface Settlement {
   group: string;
   amount: number;
   currency: string;
-  status: "pending" | "completed" | "cancelled";
-  method: "cash" | "bank_transfer" | "digital_wallet" | "other";
+  status:
+    | "pending"
+    | "partially_paid"
+    | "sent"
+    | "disputed"
+    | "completed"
+    | "cancelled";
+  method: PaymentMethod;
+  payments: SettlementPayment[];
+  events: SettlementEvent[];
+  sentAt?: string;
+  confirmedAt?: string;
+  confirmedBy?: string;
+  disputeReason?: string;
+  paidAmount: number;
+  remainingAmount: number;
   notes?: string;
+  plan?: string;
   completedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export type SettlementMode = "auto" | "greedy" | "exact";
+
+export interface SettlementPlanBasis {
+  expenses: string[];
+  settlements: string[];
+  fingerprint: string;
+}
+
+export interface SettlementPlan {
+  _id: string;
+  group: string;
+  version: number;
+  status: "active" | "superseded";
+  mode: SettlementMode;
+  currency: string;
+  basis: SettlementPlanBasis;
+  createdBy: string | User;
+  supersededAt?: string;
+  createdAt: string;
+}
+
+export interface SettlementPlanPreview {
+  plan: Pick<SettlementPlan, "group" | "mode" | "currency" | "basis">;
+  settlements: Pick<
+    Settlement,
+    "fromUser" | "toUser" | "group" | "amount" | "currency"
+  >[];
+}
+
+export interface MemberBalance {
+  user: User;
+  paid: number;
+  owed: number;
+  settlementsPaid: number;
+  settlementsReceived: number;
+  net: number;
+}
+
+export interface PairwiseDebt {
+  from: User;
+  to: User;
+  amount: number;
+}
+
+export interface GroupBalances {
+  currency: string;
+  balances: MemberBalance[];
+  debts: PairwiseDebt[];
+}
+
+export interface UserGroupBalance {
+  group: Pick<Group, "_id" | "name" | "currency"> | null;
+  currency: string;
+  totalOwed: number;
+  totalOwing: number;
+  debts: { from: string; to: string; amount: number }[];
+}
+
+// Minor units per currency code
+export type CurrencyTotals = Record<string, number>;
+
+export interface UserBalances {
+  totalOwed: CurrencyTotals;
+  totalOwing: CurrencyTotals;
+  byGroup: UserGroupBalance[];
+}
+
 export interface AuthContextType {
   user: User | null;
   loading: boolean;
@@ -92,6 +535,8 @@ export interface RegisterData {
   password: string;
   firstName: string;
   lastName: string;
+  // Token of the invite link they signed up from
+  inviteToken?: string;
 }
 
 export interface LoginData {
@@ -105,6 +550,18 @@ export interface ApiResponse<T = any> {
   error?: string;
 }
 
+export interface ExpenseSearchFilter {
+  field: "amount" | "date" | "paidby" | "with" | "category";
+  operator: ":" | ">" | ">=" | "<" | "<=";
+  value: string;
+}
+
+// How the server read a search query; `terms` are the words to highlight
+export interface ExpenseSearch {
+  terms: string[];
+  filters: ExpenseSearchFilter[];
+}
+
 export interface PaginatedResponse<T> {
   data: T[];
   totalPages: number;
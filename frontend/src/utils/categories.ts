@@ -0,0 +1,52 @@
+import { Category } from "../types";
+
+/**
+ * Key of the category used when none is picked (see the backend model)
+ */
+export const FALLBACK_CATEGORY_KEY = "other";
+
+/**
+ * The category a new expense gets when none is picked
+ * @param categories - A group's categories
+ * @returns The fallback category, or the first one if it was renamed away
+ */
+export const fallbackCategory = (
+  categories: Category[]
+): Category | undefined =>
+  categories.find((category) => category.key === FALLBACK_CATEGORY_KEY) ||
+  categories[0];
+
+/**
+ * Order categories for display, each top-level category followed by its
+ * subcategories
+ * @param categories - A group's categories
+ * @returns The categories with their nesting depth (0 or 1)
+ */
+export const nestCategories = (
+  categories: Category[]
+): { category: Category; depth: number }[] =>
+  categories
+    .filter((category) => !category.parent)
+    .flatMap((parent) => [
+      { category: parent, depth: 0 },
+      ...categories
+        .filter((child) => child.parent === parent._id)
+        .map((child) => ({ category: child, depth: 1 })),
+    ]);
+
+/**
+ * Label for a category, e.g. "🍽️ Food"
+ * @param category - The category, if the expense has one
+ * @returns The icon and name
+ */
+export const categoryLabel = (category?: Category | null): string =>
+  category ? `${category.icon} ${category.name}` : "💰 Other";
+
+/**
+ * Label for a category in a select, with subcategories indented
+ * @param category - The category
+ * @param depth - Its nesting depth, from nestCategories
+ * @returns The indented icon and name
+ */
+export const categoryOptionLabel = (category: Category, depth: number) =>
+  `${"\u00a0".repeat(depth * 4)}${categoryLabel(category)}`;
@@ -1,6 +1,67 @@
+import { CurrencyTotals, Expense } from "../types";
+
+/**
+ * ISO 4217 minor-unit exponents that differ from the usual 2
+ */
+const CURRENCY_DECIMALS: Record<string, number> = {
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  ISK: 0,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  PYG: 0,
+  RWF: 0,
+  UGX: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+};
+
+/**
+ * Number of decimal places in a currency's minor unit
+ * @param currency - The currency code
+ * @returns 2 for most currencies, 0 for JPY, 3 for KWD, etc.
+ */
+export const currencyDecimals = (currency: string = "LKR"): number =>
+  CURRENCY_DECIMALS[currency] ?? 2;
+
+/**
+ * Convert a decimal amount (as typed by the user) to integer minor units
+ * @param amount - The decimal amount, e.g. 12.34
+ * @param currency - The currency code (defaults to LKR)
+ * @returns Minor units, e.g. 1234
+ */
+export const toMinorUnits = (
+  amount: number,
+  currency: string = "LKR"
+): number => Math.round(amount * 10 ** currencyDecimals(currency));
+
+/**
+ * Convert integer minor units to a decimal amount
+ * @param amount - Minor units, e.g. 1234
+ * @param currency - The currency code (defaults to LKR)
+ * @returns The decimal amount, e.g. 12.34
+ */
+export const toMajorUnits = (
+  amount: number,
+  currency: string = "LKR"
+): number => amount / 10 ** currencyDecimals(currency);
+
 /**
  * Format currency amount for display
- * @param amount - The amount to format
+ * @param amount - The amount to format, in minor units
  * @param currency - The currency code (defaults to LKR)
  * @returns Formatted currency string
  */
@@ -8,10 +69,24 @@ export const formatCurrency = (
   amount: number,
   currency: string = "LKR"
 ): string => {
+  const decimals = currencyDecimals(currency);
   return new Intl.NumberFormat("en-LK", {
     style: "currency",
     currency: currency,
-  }).format(amount);
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  }).format(toMajorUnits(amount, currency));
+};
+
+/**
+ * Format totals kept per currency, one entry per currency
+ * @param totals - Minor units keyed by currency code
+ * @returns Formatted amounts, or a single zero when there are none
+ */
+export const formatCurrencyTotals = (totals: CurrencyTotals): string[] => {
+  const entries = Object.entries(totals).sort(([a], [b]) => a.localeCompare(b));
+  if (entries.length === 0) return [formatCurrency(0)];
+  return entries.map(([currency, amount]) => formatCurrency(amount, currency));
 };
 
 /**
@@ -38,3 +113,98 @@ export const getCurrencySymbol = (currency: string = "LKR"): string => {
   };
   return symbols[currency] || currency;
 };
+
+/**
+ * Currencies offered for groups and expenses
+ */
+export const CURRENCIES = [
+  { value: "LKR", label: "Sri Lankan Rupee (Rs.)" },
+  { value: "USD", label: "US Dollar ($)" },
+  { value: "EUR", label: "Euro (€)" },
+  { value: "GBP", label: "British Pound (£)" },
+  { value: "THB", label: "Thai Baht (฿)" },
+  { value: "JPY", label: "Japanese Yen (¥)" },
+  { value: "CAD", label: "Canadian Dollar (C$)" },
+  { value: "AUD", label: "Australian Dollar (A$)" },
+  { value: "CHF", label: "Swiss Franc (CHF)" },
+  { value: "CNY", label: "Chinese Yuan (¥)" },
+  { value: "INR", label: "Indian Rupee (₹)" },
+  { value: "BRL", label: "Brazilian Real (R$)" },
+];
+
+/**
+ * Format the amount an expense was paid in, when that differs from the
+ * group currency it is stored in
+ * @param expense - The expense to describe
+ * @returns Formatted original amount, or null for same-currency expenses
+ */
+export const formatOriginalAmount = (
+  expense: Pick<Expense, "currency" | "originalAmount" | "originalCurrency">
+): string | null => {
+  if (
+    !expense.originalCurrency ||
+    expense.originalAmount === undefined ||
+    expense.originalCurrency === expense.currency
+  ) {
+    return null;
+  }
+  return formatCurrency(expense.originalAmount, expense.originalCurrency);
+};
+
+/**
+ * Split a total into integer parts proportional to the given weights, giving
+ * leftover units to the largest remainders (ties go to the earlier part).
+ * Mirrors the server's allocation rule.
+ * @param total - Total in minor units
+ * @param weights - Relative weights of each part
+ * @returns Parts in minor units that add up to the total
+ */
+export const allocate = (total: number, weights: number[]): number[] => {
+  if (weights.length === 0) return [];
+
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const exact = weights.map((weight) =>
+    totalWeight > 0 ? (total * weight) / totalWeight : total / weights.length
+  );
+  const parts = exact.map(Math.floor);
+  let leftover = total - parts.reduce((sum, part) => sum + part, 0);
+
+  const order = exact
+    .map((value, index) => ({ index, remainder: value - parts[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (let i = 0; leftover > 0; i = (i + 1) % order.length) {
+    parts[order[i].index] += 1;
+    leftover -= 1;
+  }
+
+  return parts;
+};
+
+/**
+ * Split a total into equal integer parts, handing leftover units out one
+ * each starting at `startIndex` (typically the payer). Mirrors the server.
+ * @param total - Total in minor units
+ * @param count - Number of parts
+ * @param startIndex - Index of the first part to receive a leftover unit
+ * @returns Parts in minor units that add up to the total
+ */
+export const splitEvenly = (
+  total: number,
+  count: number,
+  startIndex: number = 0
+): number[] => {
+  if (count === 0) return [];
+
+  const base = Math.floor(total / count);
+  const parts = new Array<number>(count).fill(base);
+  let leftover = total - base * count;
+  const start = startIndex >= 0 && startIndex < count ? startIndex : 0;
+
+  for (let i = start; leftover > 0; i = (i + 1) % count) {
+    parts[i] += 1;
+    leftover -= 1;
+  }
+
+  return parts;
+};
@@ -0,0 +1,32 @@
+/**
+ * Save a downloaded file under the given name
+ * @param blob - File contents fetched from the API
+ * @param fileName - Name offered to the browser's save dialog
+ */
+export const saveBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Read the message out of a failed file download, whose error body comes
+ * back as a blob too
+ * @param error - Error thrown by the API call
+ * @param fallback - Message to use when the body has none
+ */
+export const downloadErrorMessage = async (
+  error: any,
+  fallback: string
+): Promise<string> => {
+  const text = await error.response?.data?.text?.();
+  try {
+    return JSON.parse(text).message || fallback;
+  } catch {
+    // Not JSON; keep the generic message
+    return fallback;
+  }
+};
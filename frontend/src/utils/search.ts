@@ -0,0 +1,36 @@
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Syntax hint for the expense search box
+ */
+export const SEARCH_HINT =
+  "Filters: amount>50, paidBy:me, with:name, category:food, date>=2025-01-31";
+
+/**
+ * Split text into the parts that match search terms and the parts between
+ * @param text - Text to highlight, e.g. an expense description
+ * @param terms - Free-text terms the server searched for
+ * @returns The pieces of the text in order, flagged when they matched
+ */
+export const highlightSegments = (
+  text: string,
+  terms: string[] = []
+): { text: string; match: boolean }[] => {
+  const words = terms.filter((term) => term.trim());
+  if (!text || words.length === 0) return [{ text, match: false }];
+
+  // Longest first so "taxi fare" wins over "taxi"
+  const pattern = new RegExp(
+    `(${[...words]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join("|")})`,
+    "gi"
+  );
+  // Splitting on a capture group alternates between gaps and matches
+  return text
+    .split(pattern)
+    .map((part, index) => ({ text: part, match: index % 2 === 1 }))
+    .filter((segment) => segment.text);
+};